@@ -0,0 +1,105 @@
+import { describe, expect, test } from "bun:test";
+import { AlertEngine, parseAlertRules, tweetFromLine } from "./alerts";
+import { makeTweet } from "./test_fixtures";
+
+describe("alert rule parsing", () => {
+  test("accepts a rules object or bare list and fills defaults", () => {
+    const rules = parseAlertRules({
+      rules: [{ name: "viral", metrics: { likes: { min: 100 } }, authors: { deny: ["@SpamBot"] } }],
+    });
+    expect(rules[0].severity).toBe("medium");
+    expect(rules[0].authors).toEqual({ deny: ["spambot"] });
+    expect(parseAlertRules([{ name: "any" }])).toHaveLength(1);
+  });
+
+  test("reports the failing field", () => {
+    expect(() => parseAlertRules({ rules: [] })).toThrow(/rules: expected a non-empty list/);
+    expect(() => parseAlertRules([{ name: "a", metrics: { faves: { min: 1 } } }])).toThrow(/metrics\.faves: unknown metric/);
+    expect(() => parseAlertRules([{ name: "a", severity: "urgent" }])).toThrow(/rules\[0\]\.severity/);
+    expect(() => parseAlertRules([{ name: "a", keywords: ["(unclosed"] }])).toThrow(/keywords\[0\]/);
+    expect(() => parseAlertRules([{ name: "a", volume: { count: 5, window: "soon" } }])).toThrow(/volume\.window/);
+    expect(() => parseAlertRules([{ name: "a" }, { name: "a" }])).toThrow(/duplicate rule name/);
+  });
+});
+
+describe("AlertEngine", () => {
+  test("combines conditions and takes the highest severity", async () => {
+    const engine = new AlertEngine(parseAlertRules([
+      { name: "viral", severity: "high", metrics: { likes: { min: 1000 } } },
+      { name: "launch", severity: "low", keywords: ["\\blaunch(ed|ing)?\\b"], exclude: ["rumou?r"] },
+      { name: "team", severity: "info", authors: { allow: ["bob"] } },
+    ]));
+
+    const [both, rumor, quiet, bob] = await engine.evaluate([
+      makeTweet("1", { text: "We LAUNCHED today", metrics: { likes: 5000 } }),
+      makeTweet("2", { text: "launch rumor" }),
+      makeTweet("3", { metrics: { likes: 10 } }),
+      makeTweet("4", { username: "Bob" }),
+    ]);
+
+    expect(both.alert).toBe(true);
+    expect(both.severity).toBe("high");
+    expect(both.matches.map((m) => m.rule)).toEqual(["viral", "launch"]);
+    expect(both.matches[0].reasons).toEqual(["likes 5000 >= 1000"]);
+    expect(rumor.alert).toBe(false);
+    expect(quiet.alert).toBe(false);
+    expect(quiet.severity).toBeUndefined();
+    expect(bob.severity).toBe("info");
+  });
+
+  test("scores sentiment only for candidate tweets and skips failed analysis", async () => {
+    const scored: string[] = [];
+    const engine = new AlertEngine(
+      parseAlertRules([{ name: "angry", severity: "critical", keywords: ["outage"], sentiment: { max: -0.5 } }]),
+      async (tweets) => {
+        scored.push(...tweets.map((t) => t.id));
+        return tweets.map((t) =>
+          t.id === "3"
+            ? { id: t.id, sentiment: "neutral" as const, score: 0, label: "analysis failed" }
+            : { id: t.id, sentiment: "negative" as const, score: t.id === "1" ? -0.9 : -0.2 },
+        );
+      },
+    );
+
+    const decisions = await engine.evaluate([
+      makeTweet("1", { text: "another outage" }),
+      makeTweet("2", { text: "small outage" }),
+      makeTweet("3", { text: "outage again" }),
+      makeTweet("4", { text: "all good" }),
+    ]);
+
+    expect(scored).toEqual(["1", "2", "3"]);
+    expect(decisions.map((d) => d.alert)).toEqual([true, false, false, false]);
+    expect(decisions[0].matches[0].reasons).toContain("sentiment negative (-0.90)");
+  });
+
+  test("fires volume spikes once per window across calls", async () => {
+    const engine = new AlertEngine(parseAlertRules([
+      { name: "spike", keywords: ["sol"], volume: { count: 3, window: "10m" } },
+    ]));
+    const at = (id: string, minute: number) =>
+      makeTweet(id, { text: "sol", created_at: new Date(Date.UTC(2026, 0, 1, 12, minute)).toISOString() });
+
+    const first = await engine.evaluate([at("1", 0), at("2", 1)]);
+    expect(first.some((d) => d.alert)).toBe(false);
+
+    const second = await engine.evaluate([at("3", 2), at("4", 3)]);
+    expect(second.map((d) => d.alert)).toEqual([true, false]);
+
+    // Matches spread wider than the window never reach the threshold.
+    const sparse = await engine.evaluate([at("5", 20), at("6", 35), at("7", 50)]);
+    expect(sparse.some((d) => d.alert)).toBe(false);
+  });
+});
+
+describe("tweetFromLine", () => {
+  test("unwraps watch, stream and bare tweet lines", () => {
+    const t = makeTweet("9");
+    expect(tweetFromLine({ source: "x_api_v2", tweet: t })?.id).toBe("9");
+    expect(tweetFromLine({ event: { matching_rules: [], tweet: t } })?.id).toBe("9");
+    expect(tweetFromLine({ meta: {}, data: { tweet: t } })?.id).toBe("9");
+    expect(tweetFromLine(t)?.id).toBe("9");
+    expect(tweetFromLine({ id: "1", text: "x" })?.metrics.likes).toBe(0);
+    expect(tweetFromLine({ hello: "world" })).toBeNull();
+  });
+});
@@ -0,0 +1,482 @@
+/**
+ * lib/alerts.ts — Declarative alert rules for watch and stream events.
+ *
+ * A rules file (JSON or YAML) lists conditions evaluated per tweet: metric
+ * thresholds, author allow/deny lists, keyword regexes, Grok sentiment score
+ * and volume spikes (N matches in M minutes). Every condition in a rule must
+ * hold for it to fire; the alert takes the highest severity of the rules that
+ * fired. `xint watch|stream --alerts rules.json` only forwards alerted tweets
+ * to webhooks, and `xint alerts test rules.json < tweets.jsonl` replays a
+ * capture offline.
+ */
+
+import type { Tweet } from "./api";
+import { loadConfigFile } from "./config_file";
+import { analyzeSentiment, type SentimentResult } from "./sentiment";
+import { parseDuration } from "./watch";
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+export type AlertSeverity = "info" | "low" | "medium" | "high" | "critical";
+
+type MetricName = keyof Tweet["metrics"];
+
+export interface Range {
+  min?: number;
+  max?: number;
+}
+
+export interface AlertRule {
+  name: string;
+  severity: AlertSeverity;
+  metrics?: Partial<Record<MetricName, Range>>;
+  authors?: { allow?: string[]; deny?: string[] };
+  keywords?: RegExp[];     // any must match
+  exclude?: RegExp[];      // none may match
+  sentiment?: Range & { labels?: SentimentResult["sentiment"][] };
+  volume?: { count: number; window_ms: number };
+}
+
+export interface RuleMatch {
+  rule: string;
+  severity: AlertSeverity;
+  reasons: string[];
+}
+
+export interface AlertDecision {
+  tweet: Tweet;
+  alert: boolean;
+  severity?: AlertSeverity;
+  matches: RuleMatch[];
+  sentiment?: SentimentResult;
+}
+
+/** Scores tweets for sentiment rules (analyzeSentiment by default). */
+export type SentimentProvider = (tweets: Tweet[]) => Promise<SentimentResult[]>;
+
+// ---------------------------------------------------------------------------
+// Constants
+// ---------------------------------------------------------------------------
+
+export const SEVERITIES: AlertSeverity[] = ["info", "low", "medium", "high", "critical"];
+const METRICS: MetricName[] = ["likes", "retweets", "replies", "quotes", "impressions", "bookmarks"];
+const SENTIMENT_LABELS = ["positive", "negative", "neutral", "mixed"];
+const RULE_KEYS = new Set([
+  "name", "severity", "metrics", "authors", "keywords", "exclude", "sentiment", "volume",
+]);
+
+// ---------------------------------------------------------------------------
+// Rule parsing
+// ---------------------------------------------------------------------------
+
+function fail(path: string, message: string): never {
+  throw new Error(`Invalid alert rules: ${path}: ${message}`);
+}
+
+function isObject(v: unknown): v is Record<string, unknown> {
+  return Boolean(v) && typeof v === "object" && !Array.isArray(v);
+}
+
+function parseRange(raw: unknown, path: string, keys: string[] = ["min", "max"]): Range & Record<string, unknown> {
+  if (!isObject(raw)) fail(path, "expected an object like { \"min\": 100 }");
+  for (const key of Object.keys(raw)) {
+    if (!keys.includes(key)) fail(`${path}.${key}`, `unknown field (expected ${keys.join(", ")})`);
+  }
+  for (const key of ["min", "max"]) {
+    if (raw[key] !== undefined && (typeof raw[key] !== "number" || !Number.isFinite(raw[key]))) {
+      fail(`${path}.${key}`, "expected a number");
+    }
+  }
+  return raw as Range & Record<string, unknown>;
+}
+
+function parseStringList(raw: unknown, path: string): string[] {
+  const list = typeof raw === "string" ? [raw] : raw;
+  if (!Array.isArray(list) || list.some((s) => typeof s !== "string" || !s)) fail(path, "expected a list of strings");
+  return list as string[];
+}
+
+/** Keyword patterns are case-insensitive regexes. */
+function parsePatterns(raw: unknown, path: string): RegExp[] {
+  return parseStringList(raw, path).map((src, i) => {
+    try {
+      return new RegExp(src, "i");
+    } catch (err: any) {
+      fail(`${path}[${i}]`, err.message);
+    }
+  });
+}
+
+function normalizeAuthors(list: string[]): string[] {
+  return list.map((a) => a.trim().replace(/^@/, "").toLowerCase());
+}
+
+export function parseAlertRules(raw: unknown): AlertRule[] {
+  const list = isObject(raw) ? raw.rules : raw;
+  if (!Array.isArray(list) || list.length === 0) fail("rules", "expected a non-empty list");
+
+  const names = new Set<string>();
+  return list.map((entry: unknown, idx: number) => {
+    const path = `rules[${idx}]`;
+    if (!isObject(entry)) fail(path, "expected an object");
+    for (const key of Object.keys(entry)) {
+      if (!RULE_KEYS.has(key)) fail(`${path}.${key}`, "unknown field");
+    }
+
+    const name = entry.name;
+    if (typeof name !== "string" || !name.trim()) fail(`${path}.name`, "expected a name");
+    if (names.has(name)) fail(`${path}.name`, `duplicate rule name "${name}"`);
+    names.add(name);
+
+    const severity = (entry.severity ?? "medium") as AlertSeverity;
+    if (!SEVERITIES.includes(severity)) fail(`${path}.severity`, `expected one of ${SEVERITIES.join(", ")}`);
+
+    const rule: AlertRule = { name, severity };
+
+    if (entry.metrics !== undefined) {
+      if (!isObject(entry.metrics)) fail(`${path}.metrics`, "expected an object");
+      rule.metrics = {};
+      for (const [metric, range] of Object.entries(entry.metrics)) {
+        if (!METRICS.includes(metric as MetricName)) {
+          fail(`${path}.metrics.${metric}`, `unknown metric (expected ${METRICS.join(", ")})`);
+        }
+        rule.metrics[metric as MetricName] = parseRange(range, `${path}.metrics.${metric}`);
+      }
+    }
+
+    if (entry.authors !== undefined) {
+      if (!isObject(entry.authors)) fail(`${path}.authors`, "expected { allow?, deny? }");
+      const { allow, deny, ...rest } = entry.authors;
+      if (Object.keys(rest).length > 0) fail(`${path}.authors.${Object.keys(rest)[0]}`, "unknown field");
+      rule.authors = {
+        ...(allow !== undefined && { allow: normalizeAuthors(parseStringList(allow, `${path}.authors.allow`)) }),
+        ...(deny !== undefined && { deny: normalizeAuthors(parseStringList(deny, `${path}.authors.deny`)) }),
+      };
+    }
+
+    if (entry.keywords !== undefined) rule.keywords = parsePatterns(entry.keywords, `${path}.keywords`);
+    if (entry.exclude !== undefined) rule.exclude = parsePatterns(entry.exclude, `${path}.exclude`);
+
+    if (entry.sentiment !== undefined) {
+      const s = parseRange(entry.sentiment, `${path}.sentiment`, ["min", "max", "labels"]);
+      const labels = s.labels === undefined ? undefined : parseStringList(s.labels, `${path}.sentiment.labels`);
+      const bad = labels?.find((l) => !SENTIMENT_LABELS.includes(l));
+      if (bad) fail(`${path}.sentiment.labels`, `unknown label "${bad}" (expected ${SENTIMENT_LABELS.join(", ")})`);
+      rule.sentiment = {
+        ...(s.min !== undefined && { min: s.min }),
+        ...(s.max !== undefined && { max: s.max }),
+        ...(labels && { labels: labels as SentimentResult["sentiment"][] }),
+      };
+    }
+
+    if (entry.volume !== undefined) {
+      if (!isObject(entry.volume)) fail(`${path}.volume`, "expected { count, window }");
+      const { count, window } = entry.volume;
+      if (typeof count !== "number" || !Number.isInteger(count) || count < 1) {
+        fail(`${path}.volume.count`, "expected a positive integer");
+      }
+      const windowMs = typeof window === "string" ? parseDuration(window) : null;
+      if (!windowMs) fail(`${path}.volume.window`, "expected a duration like 5m or 1h");
+      rule.volume = { count, window_ms: windowMs };
+    }
+
+    return rule;
+  });
+}
+
+/** Load rules from a JSON or YAML (.yaml/.yml) file. */
+export function loadAlertRules(path: string): AlertRule[] {
+  return parseAlertRules(loadConfigFile(path, "Alert rules"));
+}
+
+// ---------------------------------------------------------------------------
+// Evaluation
+// ---------------------------------------------------------------------------
+
+function inRange(value: number, range: Range): boolean {
+  return (range.min === undefined || value >= range.min) && (range.max === undefined || value <= range.max);
+}
+
+function describeRange(range: Range): string {
+  if (range.min !== undefined && range.max !== undefined) return `in [${range.min}, ${range.max}]`;
+  return range.min !== undefined ? `>= ${range.min}` : `<= ${range.max}`;
+}
+
+/**
+ * Conditions that need nothing but the tweet. Returns the reasons it matched,
+ * or null as soon as one condition fails.
+ */
+function matchStatic(rule: AlertRule, t: Tweet): string[] | null {
+  const reasons: string[] = [];
+  const author = t.username.toLowerCase();
+
+  if (rule.authors?.deny?.includes(author)) return null;
+  if (rule.authors?.allow) {
+    if (!rule.authors.allow.includes(author)) return null;
+    reasons.push(`author @${t.username} allowed`);
+  }
+
+  for (const [metric, range] of Object.entries(rule.metrics || {}) as [MetricName, Range][]) {
+    const value = t.metrics[metric] ?? 0;
+    if (!inRange(value, range)) return null;
+    reasons.push(`${metric} ${value} ${describeRange(range)}`);
+  }
+
+  if (rule.exclude?.some((re) => re.test(t.text))) return null;
+  if (rule.keywords) {
+    const hit = rule.keywords.find((re) => re.test(t.text));
+    if (!hit) return null;
+    reasons.push(`keyword /${hit.source}/`);
+  }
+
+  return reasons;
+}
+
+function severityRank(s: AlertSeverity): number {
+  return SEVERITIES.indexOf(s);
+}
+
+function tweetTime(t: Tweet, fallback: number): number {
+  const ms = Date.parse(t.created_at);
+  return Number.isFinite(ms) ? ms : fallback;
+}
+
+/**
+ * Stateful rule evaluator. Volume windows persist across evaluate() calls so
+ * spikes spanning several polls or stream events are detected. Sentiment is
+ * only requested for tweets that already passed a sentiment rule's other
+ * conditions, in one batch per call.
+ */
+export class AlertEngine {
+  private windows = new Map<string, number[]>();
+
+  constructor(
+    readonly rules: AlertRule[],
+    private readonly sentiment: SentimentProvider = analyzeSentiment,
+  ) {}
+
+  async evaluate(tweets: Tweet[]): Promise<AlertDecision[]> {
+    const candidates = tweets.map((t) =>
+      this.rules
+        .map((rule) => ({ rule, reasons: matchStatic(rule, t) }))
+        .filter((c): c is { rule: AlertRule; reasons: string[] } => c.reasons !== null),
+    );
+
+    const sentiments = await this.scoreSentiment(tweets, candidates);
+
+    return tweets.map((t, i) => {
+      const sentiment = sentiments.get(t.id);
+      const matches: RuleMatch[] = [];
+
+      for (const { rule, reasons } of candidates[i]) {
+        if (rule.sentiment) {
+          if (!sentiment) continue;
+          if (!inRange(sentiment.score, rule.sentiment)) continue;
+          if (rule.sentiment.labels && !rule.sentiment.labels.includes(sentiment.sentiment)) continue;
+          reasons.push(`sentiment ${sentiment.sentiment} (${sentiment.score.toFixed(2)})`);
+        }
+        if (rule.volume && !this.recordVolume(rule, t)) continue;
+        if (rule.volume) {
+          reasons.push(`${rule.volume.count} matches within ${Math.round(rule.volume.window_ms / 60_000)}m`);
+        }
+        matches.push({ rule: rule.name, severity: rule.severity, reasons });
+      }
+
+      const severity = matches.reduce<AlertSeverity | undefined>(
+        (max, m) => (max === undefined || severityRank(m.severity) > severityRank(max) ? m.severity : max),
+        undefined,
+      );
+      return {
+        tweet: t,
+        alert: matches.length > 0,
+        ...(severity && { severity }),
+        matches,
+        ...(sentiment && { sentiment }),
+      };
+    });
+  }
+
+  /** Count a match in the rule's sliding window; true once it reaches the threshold. */
+  private recordVolume(rule: AlertRule, t: Tweet): boolean {
+    const { count, window_ms } = rule.volume!;
+    const at = tweetTime(t, Date.now());
+    const hits = (this.windows.get(rule.name) || []).filter((ts) => at - ts < window_ms);
+    hits.push(at);
+    if (hits.length >= count) {
+      // Fire once per spike, then start counting again.
+      this.windows.set(rule.name, []);
+      return true;
+    }
+    this.windows.set(rule.name, hits);
+    return false;
+  }
+
+  private async scoreSentiment(
+    tweets: Tweet[],
+    candidates: { rule: AlertRule }[][],
+  ): Promise<Map<string, SentimentResult>> {
+    const scores = new Map<string, SentimentResult>();
+    const pending: Tweet[] = [];
+    tweets.forEach((t, i) => {
+      if (!candidates[i].some((c) => c.rule.sentiment)) return;
+      // Tweets captured with --sentiment already carry a score.
+      const existing = (t as Tweet & { sentiment?: SentimentResult }).sentiment;
+      if (existing && typeof existing.score === "number") scores.set(t.id, existing);
+      else pending.push(t);
+    });
+    if (pending.length === 0) return scores;
+
+    for (const result of await this.sentiment(pending)) {
+      // analyzeSentiment marks failed batches neutral; don't alert on those.
+      if (result.label === "analysis failed") continue;
+      scores.set(result.id, result);
+    }
+    return scores;
+  }
+}
+
+/** Compact alert record for webhooks and JSONL output. */
+export function alertPayload(d: AlertDecision): Record<string, unknown> {
+  return {
+    tweet_id: d.tweet.id,
+    username: d.tweet.username,
+    severity: d.severity,
+    rules: d.matches,
+    ...(d.sentiment && { sentiment: d.sentiment }),
+  };
+}
+
+export function formatAlertLine(d: AlertDecision): string {
+  const rules = d.matches.map((m) => `${m.rule}: ${m.reasons.join(", ")}`).join("; ");
+  return `[alert ${d.severity}] @${d.tweet.username} ${d.tweet.tweet_url} — ${rules}`;
+}
+
+// ---------------------------------------------------------------------------
+// CLI handler
+// ---------------------------------------------------------------------------
+
+/**
+ * Pull a tweet out of a JSONL line: a bare tweet, or the envelopes written by
+ * `watch --jsonl` ({ tweet }), `stream --jsonl` ({ event: { tweet } }) and
+ * `stream --json` ({ data: { tweet } }).
+ */
+export function tweetFromLine(obj: any): Tweet | null {
+  const t = obj?.tweet ?? obj?.event?.tweet ?? obj?.data?.tweet ?? obj;
+  if (!t || typeof t.id !== "string" || typeof t.text !== "string") return null;
+  return {
+    ...t,
+    username: t.username || "",
+    created_at: t.created_at || "",
+    metrics: { likes: 0, retweets: 0, replies: 0, quotes: 0, impressions: 0, bookmarks: 0, ...(t.metrics || {}) },
+  };
+}
+
+async function readStdin(): Promise<string> {
+  const chunks: Buffer[] = [];
+  const reader = Bun.stdin.stream().getReader();
+  while (true) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    chunks.push(Buffer.from(value));
+  }
+  return Buffer.concat(chunks).toString("utf-8");
+}
+
+async function cmdAlertsTest(args: string[]): Promise<void> {
+  const json = args.includes("--json");
+  const showAll = args.includes("--all");
+  const file = args.find((a) => !a.startsWith("--"));
+  if (!file) throw new Error("Usage: xint alerts test <rules.json> [--json] [--all] < tweets.jsonl");
+
+  const engine = new AlertEngine(loadAlertRules(file));
+  const tweets: Tweet[] = [];
+  let skipped = 0;
+  for (const line of (await readStdin()).split("\n")) {
+    if (!line.trim()) continue;
+    try {
+      const t = tweetFromLine(JSON.parse(line));
+      if (t) tweets.push(t);
+      else skipped++;
+    } catch {
+      skipped++;
+    }
+  }
+  if (tweets.length === 0) throw new Error("No tweets on stdin. Pipe JSONL from xint watch/stream --jsonl or search --jsonl.");
+
+  const decisions = await engine.evaluate(tweets);
+  const alerts = decisions.filter((d) => d.alert);
+
+  if (json) {
+    for (const d of showAll ? decisions : alerts) {
+      console.log(JSON.stringify({ alert: d.alert, ...alertPayload(d) }));
+    }
+  } else {
+    for (const d of showAll ? decisions : alerts) {
+      console.log(d.alert ? formatAlertLine(d) : `[no alert] @${d.tweet.username} ${d.tweet.id}`);
+    }
+  }
+
+  const bySeverity = SEVERITIES.map((s) => [s, alerts.filter((d) => d.severity === s).length] as const)
+    .filter(([, n]) => n > 0)
+    .map(([s, n]) => `${s}: ${n}`);
+  console.error(
+    `\n${tweets.length} tweet(s), ${alerts.length} alert(s)${bySeverity.length ? ` (${bySeverity.join(", ")})` : ""}` +
+      (skipped ? `, ${skipped} line(s) skipped` : ""),
+  );
+}
+
+export async function cmdAlerts(args: string[]): Promise<void> {
+  const sub = (args[0] || "help").toLowerCase();
+  switch (sub) {
+    case "test":
+      await cmdAlertsTest(args.slice(1));
+      return;
+    case "help":
+    case "--help":
+    case "-h":
+      printAlertsHelp();
+      return;
+    default:
+      throw new Error(`Unknown alerts subcommand: ${sub}`);
+  }
+}
+
+function printAlertsHelp(): void {
+  console.log(`
+Usage: xint alerts test <rules.json|rules.yaml> [--json] [--all] < tweets.jsonl
+
+Evaluate alert rules against captured tweets offline (JSONL from
+watch/stream/search --jsonl). Use the same file with
+'xint watch ... --alerts rules.json' or 'xint stream --alerts rules.json'
+to forward only alerted tweets to webhooks.
+
+Options:
+  --json                 One JSON alert per line
+  --all                  Also list tweets that raised no alert
+
+Rules file:
+  {
+    "rules": [
+      { "name": "viral", "severity": "high", "metrics": { "likes": { "min": 1000 } } },
+      { "name": "outage", "severity": "critical",
+        "keywords": ["\\\\b(down|outage)\\\\b"], "exclude": ["resolved"],
+        "sentiment": { "max": -0.4 } },
+      { "name": "core-team", "severity": "low", "authors": { "allow": ["alice", "bob"] } },
+      { "name": "spike", "severity": "medium", "keywords": ["launch"],
+        "authors": { "deny": ["spambot"] }, "volume": { "count": 20, "window": "10m" } }
+    ]
+  }
+
+  Every condition in a rule must hold. Keywords are case-insensitive regexes
+  (any may match); exclude patterns veto. Sentiment uses Grok (XAI_API_KEY)
+  unless tweets already carry a sentiment score. Severity: ${SEVERITIES.join(", ")}
+  (default medium); an alert takes the highest severity that fired.
+
+Examples:
+  xint watch "solana" --jsonl > sol.jsonl
+  xint alerts test rules.json < sol.jsonl
+  xint alerts test rules.yaml --json --all < stream.jsonl
+`);
+}
@@ -5,9 +5,12 @@
 
 import { readFileSync } from "fs";
 import { join } from "path";
+import { scheduledFetch } from "./scheduler";
+import { paginate } from "./checkpoint";
+import { interceptWrite } from "./dry_run";
+import { recordWrite } from "./journal";
 
 export const BASE = "https://api.x.com/2";
-const RATE_DELAY_MS = 350; // stay under 450 req/15min
 
 function getToken(): string {
   // Try env first
@@ -158,18 +161,10 @@ export function parseSince(since: string): string | null {
 
 async function apiGet(url: string): Promise<RawResponse> {
   const token = getToken();
-  const res = await fetch(url, {
+  const res = await scheduledFetch(url, {
     headers: { Authorization: `Bearer ${token}` },
   });
 
-  if (res.status === 429) {
-    const reset = res.headers.get("x-rate-limit-reset");
-    const waitSec = reset
-      ? Math.max(parseInt(reset) - Math.floor(Date.now() / 1000), 1)
-      : 60;
-    throw new Error(`Rate limited. Resets in ${waitSec}s`);
-  }
-
   if (!res.ok) {
     const body = await res.text();
     throw new Error(`X API ${res.status}: ${body.slice(0, 200)}`);
@@ -183,7 +178,6 @@ async function apiGet(url: string): Promise<RawResponse> {
  * tweet parsing helpers (for example filtered stream rules management).
  */
 export async function bearerGet(url: string): Promise<any> {
-  await sleep(RATE_DELAY_MS);
   return apiGet(url);
 }
 
@@ -191,8 +185,9 @@ export async function bearerGet(url: string): Promise<any> {
  * Bearer-authenticated POST request.
  */
 export async function bearerPost(url: string, body?: any): Promise<any> {
-  await sleep(RATE_DELAY_MS);
   const token = getToken();
+  // X's own ?dry_run=true validation doesn't change anything; let it through.
+  if (!url.includes("dry_run=true")) interceptWrite("POST", url, body, "app_bearer");
 
   const headers: Record<string, string> = {
     Authorization: `Bearer ${token}`,
@@ -204,23 +199,16 @@ export async function bearerPost(url: string, body?: any): Promise<any> {
     opts.body = JSON.stringify(body);
   }
 
-  const res = await fetch(url, opts);
-
-  if (res.status === 429) {
-    const reset = res.headers.get("x-rate-limit-reset");
-    const waitSec = reset
-      ? Math.max(parseInt(reset) - Math.floor(Date.now() / 1000), 1)
-      : 60;
-    throw new Error(`Rate limited. Resets in ${waitSec}s`);
-  }
+  const res = await scheduledFetch(url, opts);
 
   if (!res.ok) {
     const text = await res.text();
     throw new Error(`X API ${res.status}: ${text.slice(0, 200)}`);
   }
 
-  if (res.status === 204) return { success: true };
-  return res.json();
+  const result = res.status === 204 ? { success: true } : await res.json();
+  if (!url.includes("dry_run=true")) recordWrite("POST", url, body, result, "app_bearer");
+  return result;
 }
 
 /**
@@ -228,24 +216,14 @@ export async function bearerPost(url: string, body?: any): Promise<any> {
  * the app bearer token. Needed for user-context endpoints (bookmarks).
  */
 export async function oauthGet(url: string, accessToken: string): Promise<RawResponse> {
-  await sleep(RATE_DELAY_MS);
-
-  const res = await fetch(url, {
+  const res = await scheduledFetch(url, {
     headers: { Authorization: `Bearer ${accessToken}` },
-  });
+  }, { scope: "user" });
 
   if (res.status === 401) {
     throw new Error("OAuth token rejected (401). Try 'auth refresh' or re-run 'auth setup'.");
   }
 
-  if (res.status === 429) {
-    const reset = res.headers.get("x-rate-limit-reset");
-    const waitSec = reset
-      ? Math.max(parseInt(reset) - Math.floor(Date.now() / 1000), 1)
-      : 60;
-    throw new Error(`Rate limited. Resets in ${waitSec}s`);
-  }
-
   if (!res.ok) {
     const body = await res.text();
     throw new Error(`X API ${res.status}: ${body.slice(0, 200)}`);
@@ -254,22 +232,37 @@ export async function oauthGet(url: string, accessToken: string): Promise<RawRes
   return res.json();
 }
 
+export interface SearchOptions {
+  maxResults?: number;
+  pages?: number;
+  sortOrder?: "relevancy" | "recency";
+  since?: string; // ISO 8601 timestamp or shorthand like "1h", "3h", "1d"
+  until?: string; // ISO 8601 timestamp or shorthand (full-archive only)
+  fullArchive?: boolean;
+  sinceId?: string; // only tweets newer than this id (incremental runs)
+  resume?: boolean; // continue from a saved pagination checkpoint
+}
+
 /**
  * Search tweets. Uses /recent (last 7 days) by default.
  * Pass fullArchive: true for /all (complete archive back to 2006,
  * requires pay-per-use or Enterprise access).
  */
-export async function search(
+export async function search(query: string, opts: SearchOptions = {}): Promise<Tweet[]> {
+  return (await searchPages(query, opts)).tweets;
+}
+
+/**
+ * search(), also reporting whether the page limit cut the results short
+ * (X still had a next_token) and how many tweets this call fetched (a
+ * --resume run reloads earlier pages, which were billed already).
+ * Incremental runs need `truncated` to avoid moving their cursor past
+ * tweets they never fetched.
+ */
+export async function searchPages(
   query: string,
-  opts: {
-    maxResults?: number;
-    pages?: number;
-    sortOrder?: "relevancy" | "recency";
-    since?: string; // ISO 8601 timestamp or shorthand like "1h", "3h", "1d"
-    until?: string; // ISO 8601 timestamp or shorthand (full-archive only)
-    fullArchive?: boolean;
-  } = {}
-): Promise<Tweet[]> {
+  opts: SearchOptions = {},
+): Promise<{ tweets: Tweet[]; truncated: boolean; fetched: number }> {
   const isArchive = opts.fullArchive || false;
   const maxPerPage = isArchive ? 500 : 100;
   const maxResults = Math.max(Math.min(opts.maxResults || maxPerPage, maxPerPage), 10);
@@ -292,26 +285,27 @@ export async function search(
       timeFilter += `&end_time=${endTime}`;
     }
   }
-
-  let allTweets: Tweet[] = [];
-  let nextToken: string | undefined;
-
-  for (let page = 0; page < pages; page++) {
-    const pagination = nextToken
-      ? `&next_token=${nextToken}`
-      : "";
-    const url = `${BASE}/${endpoint}?query=${encoded}&max_results=${maxResults}&${FIELDS}&sort_order=${sort}${timeFilter}${pagination}`;
-
-    const raw = await apiGet(url);
-    const tweets = parseTweets(raw);
-    allTweets.push(...tweets);
-
-    nextToken = raw.meta?.next_token;
-    if (!nextToken) break;
-    if (page < pages - 1) await sleep(RATE_DELAY_MS);
+  if (opts.sinceId) {
+    timeFilter += `&since_id=${opts.sinceId}`;
   }
 
-  return allTweets;
+  const { items, truncated, fetched } = await paginate<Tweet>({
+    endpoint: `/2/${endpoint}`,
+    params: { query, max_results: maxResults, sort, pages, since: opts.since, until: opts.until, since_id: opts.sinceId },
+    maxPages: pages,
+    resume: opts.resume,
+    state: { time_filter: timeFilter },
+    async fetchPage(nextToken, state) {
+      const pagination = nextToken
+        ? `&next_token=${nextToken}`
+        : "";
+      const url = `${BASE}/${endpoint}?query=${encoded}&max_results=${maxResults}&${FIELDS}&sort_order=${sort}${state.time_filter || ""}${pagination}`;
+      const raw = await apiGet(url);
+      return { items: parseTweets(raw), nextToken: raw.meta?.next_token };
+    },
+  });
+
+  return { tweets: items, truncated, fetched };
 }
 /**
  * Fetch a full conversation thread by root tweet ID.
@@ -361,7 +355,6 @@ export async function profile(
   }
 
   const user = (userData as any).data;
-  await sleep(RATE_DELAY_MS);
 
   // Build search query
   const replyFilter = opts.includeReplies ? "" : " -is:reply";
@@ -431,8 +424,7 @@ export function dedupe(tweets: Tweet[]): Tweet[] {
  * (like, bookmark, etc.) that require user context.
  */
 export async function oauthPost(url: string, accessToken: string, body?: any): Promise<any> {
-  await sleep(RATE_DELAY_MS);
-
+  interceptWrite("POST", url, body, "oauth2_user");
   const headers: Record<string, string> = {
     Authorization: `Bearer ${accessToken}`,
   };
@@ -443,25 +435,19 @@ export async function oauthPost(url: string, accessToken: string, body?: any): P
     opts.body = JSON.stringify(body);
   }
 
-  const res = await fetch(url, opts);
+  const res = await scheduledFetch(url, opts, { scope: "user" });
 
   if (res.status === 401) {
     throw new Error("OAuth token rejected (401). Try 'auth refresh' or re-run 'auth setup'.");
   }
-  if (res.status === 429) {
-    const reset = res.headers.get("x-rate-limit-reset");
-    const waitSec = reset
-      ? Math.max(parseInt(reset) - Math.floor(Date.now() / 1000), 1)
-      : 60;
-    throw new Error(`Rate limited. Resets in ${waitSec}s`);
-  }
   if (!res.ok) {
     const text = await res.text();
     throw new Error(`X API ${res.status}: ${text.slice(0, 200)}`);
   }
 
-  if (res.status === 204) return { success: true };
-  return res.json();
+  const result = res.status === 204 ? { success: true } : await res.json();
+  recordWrite("POST", url, body, result, "oauth2_user");
+  return result;
 }
 
 /**
@@ -469,8 +455,7 @@ export async function oauthPost(url: string, accessToken: string, body?: any): P
  * (for example list metadata updates) that require user context.
  */
 export async function oauthPut(url: string, accessToken: string, body?: any): Promise<any> {
-  await sleep(RATE_DELAY_MS);
-
+  interceptWrite("PUT", url, body, "oauth2_user");
   const headers: Record<string, string> = {
     Authorization: `Bearer ${accessToken}`,
   };
@@ -481,25 +466,19 @@ export async function oauthPut(url: string, accessToken: string, body?: any): Pr
     opts.body = JSON.stringify(body);
   }
 
-  const res = await fetch(url, opts);
+  const res = await scheduledFetch(url, opts, { scope: "user" });
 
   if (res.status === 401) {
     throw new Error("OAuth token rejected (401). Try 'auth refresh' or re-run 'auth setup'.");
   }
-  if (res.status === 429) {
-    const reset = res.headers.get("x-rate-limit-reset");
-    const waitSec = reset
-      ? Math.max(parseInt(reset) - Math.floor(Date.now() / 1000), 1)
-      : 60;
-    throw new Error(`Rate limited. Resets in ${waitSec}s`);
-  }
   if (!res.ok) {
     const text = await res.text();
     throw new Error(`X API ${res.status}: ${text.slice(0, 200)}`);
   }
 
-  if (res.status === 204) return { success: true };
-  return res.json();
+  const result = res.status === 204 ? { success: true } : await res.json();
+  recordWrite("PUT", url, body, result, "oauth2_user");
+  return result;
 }
 
 /**
@@ -507,28 +486,21 @@ export async function oauthPut(url: string, accessToken: string, body?: any): Pr
  * (unlike, unbookmark, etc.) that require user context.
  */
 export async function oauthDelete(url: string, accessToken: string): Promise<any> {
-  await sleep(RATE_DELAY_MS);
-
-  const res = await fetch(url, {
+  interceptWrite("DELETE", url, undefined, "oauth2_user");
+  const res = await scheduledFetch(url, {
     method: "DELETE",
     headers: { Authorization: `Bearer ${accessToken}` },
-  });
+  }, { scope: "user" });
 
   if (res.status === 401) {
     throw new Error("OAuth token rejected (401). Try 'auth refresh' or re-run 'auth setup'.");
   }
-  if (res.status === 429) {
-    const reset = res.headers.get("x-rate-limit-reset");
-    const waitSec = reset
-      ? Math.max(parseInt(reset) - Math.floor(Date.now() / 1000), 1)
-      : 60;
-    throw new Error(`Rate limited. Resets in ${waitSec}s`);
-  }
   if (!res.ok) {
     const text = await res.text();
     throw new Error(`X API ${res.status}: ${text.slice(0, 200)}`);
   }
 
-  if (res.status === 204) return { success: true };
-  return res.json();
+  const result = res.status === 204 ? { success: true } : await res.json();
+  recordWrite("DELETE", url, undefined, result, "oauth2_user");
+  return result;
 }
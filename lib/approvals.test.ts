@@ -0,0 +1,139 @@
+import { afterEach, beforeEach, describe, expect, test } from "bun:test";
+import { mkdtempSync, rmSync } from "fs";
+import { tmpdir } from "os";
+import { join } from "path";
+import {
+  cmdApprovals,
+  decideApproval,
+  getApproval,
+  isWriteCommand,
+  listApprovals,
+  requestApproval,
+  type ApprovalsCommandDeps,
+} from "./approvals";
+
+describe("isWriteCommand", () => {
+  test("flags account writes, not reads under the same command", () => {
+    expect(isWriteCommand(["like", "123"])).toBe(true);
+    expect(isWriteCommand(["bm-save", "123"])).toBe(true);
+    expect(isWriteCommand(["lists", "create", "AI"])).toBe(true);
+    expect(isWriteCommand(["lists", "members", "add", "1888", "@sama"])).toBe(true);
+    expect(isWriteCommand(["blocks", "add", "@spam"])).toBe(true);
+    expect(isWriteCommand(["mute", "remove", "42"])).toBe(true);
+    expect(isWriteCommand(["stream-rules", "add", "from:x"])).toBe(true);
+    expect(isWriteCommand(["stream-rules", "clear"])).toBe(true);
+    expect(isWriteCommand(["stream-rules", "sync", "rules.json"])).toBe(true);
+
+    expect(isWriteCommand(["lists"])).toBe(false);
+    expect(isWriteCommand(["lists", "members", "list", "1888"])).toBe(false);
+    expect(isWriteCommand(["blocks", "list", "--json"])).toBe(false);
+    expect(isWriteCommand(["stream-rules"])).toBe(false);
+    expect(isWriteCommand(["stream-rules", "sync", "rules.json", "--plan"])).toBe(false);
+    expect(isWriteCommand(["likes"])).toBe(false);
+    expect(isWriteCommand(["follow", "--help"])).toBe(false);
+    expect(isWriteCommand(["search", "create"])).toBe(false);
+  });
+});
+
+describe("approval queue", () => {
+  let dir: string;
+  const logs: string[] = [];
+  const originalLog = console.log;
+  const originalError = console.error;
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), "xint-approvals-"));
+    process.env.XINT_APPROVALS_FILE = join(dir, "approvals.json");
+    logs.length = 0;
+    console.log = (...parts: unknown[]) => logs.push(parts.join(" "));
+    console.error = () => undefined;
+  });
+
+  afterEach(() => {
+    console.log = originalLog;
+    console.error = originalError;
+    delete process.env.XINT_APPROVALS_FILE;
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  function deps(overrides: Partial<ApprovalsCommandDeps> = {}): ApprovalsCommandDeps & { ran: unknown[] } {
+    const ran: unknown[] = [];
+    return {
+      ran,
+      policyMode: "moderation",
+      runCommand: async (argv, mode) => void ran.push({ argv, mode }),
+      runTool: async (name, args, mode) => {
+        ran.push({ name, args, mode });
+        return { type: "success", message: "Liked tweet 1.", data: { success: true, tweet_id: "1" } };
+      },
+      ...overrides,
+    };
+  }
+
+  test("queues requests and only decides pending ones", () => {
+    const entry = requestApproval({ kind: "cli", argv: ["follow", "@sama"] }, "engagement");
+    expect(entry).toMatchObject({ status: "pending", summary: "xint follow @sama", required_mode: "engagement" });
+    expect(entry.id).toMatch(/^apr_[0-9a-f]{8}$/);
+    expect(listApprovals({ status: "pending" }).map((a) => a.id)).toEqual([entry.id]);
+
+    decideApproval(entry.id, "rejected");
+    expect(getApproval(entry.id)?.status).toBe("rejected");
+    expect(() => decideApproval(entry.id, "approved")).toThrow("already rejected");
+    expect(() => decideApproval("apr_missing", "approved")).toThrow("Approval not found");
+    expect(listApprovals({ status: "pending" })).toEqual([]);
+  });
+
+  test("approve runs a queued CLI command once at its required mode", async () => {
+    const entry = requestApproval({ kind: "cli", argv: ["lists", "create", "AI Researchers"] }, "engagement");
+    const d = deps();
+
+    await cmdApprovals(["approve", entry.id], d);
+    expect(d.ran).toEqual([{ argv: ["lists", "create", "AI Researchers"], mode: "engagement" }]);
+    expect(getApproval(entry.id)).toMatchObject({ status: "approved" });
+    await expect(cmdApprovals(["approve", entry.id], d)).rejects.toThrow("already approved");
+    expect(d.ran.length).toBe(1);
+  });
+
+  test("approve runs a queued MCP tool at its required mode and keeps the result", async () => {
+    const entry = requestApproval({ kind: "mcp", tool: "xint_block", arguments: { username: "spam" } }, "moderation");
+    const d = deps();
+
+    await cmdApprovals(["approve", entry.id], d);
+    expect(d.ran).toEqual([{ name: "xint_block", args: { username: "spam" }, mode: "moderation" }]);
+    expect(getApproval(entry.id)?.result).toMatchObject({ type: "success" });
+    expect(logs).toContain("Done: Liked tweet 1.");
+  });
+
+  test("approve is denied below the action's required mode", async () => {
+    const entry = requestApproval({ kind: "mcp", tool: "xint_block", arguments: { username: "spam" } }, "moderation");
+    const d = deps({ policyMode: "engagement" });
+
+    await expect(cmdApprovals(["approve", entry.id], d)).rejects.toThrow("requires 'moderation' policy mode");
+    await expect(cmdApprovals(["approve", entry.id], deps({ policyMode: "read_only" }))).rejects.toThrow("POLICY_DENIED");
+    expect(d.ran).toEqual([]);
+    expect(getApproval(entry.id)?.status).toBe("pending");
+  });
+
+  test("a failing action is recorded as failed", async () => {
+    const entry = requestApproval({ kind: "mcp", tool: "xint_like", arguments: { tweetId: "1" } }, "engagement");
+    const d = deps({ runTool: async () => ({ type: "error", message: "Failed to like tweet 1." }) });
+
+    await expect(cmdApprovals(["approve", entry.id], d)).rejects.toThrow("Failed to like tweet 1.");
+    expect(getApproval(entry.id)).toMatchObject({ status: "failed", error: "Failed to like tweet 1." });
+  });
+
+  test("list shows pending requests, --all includes decided ones", async () => {
+    const kept = requestApproval({ kind: "cli", argv: ["like", "1"] }, "engagement");
+    const dropped = requestApproval({ kind: "cli", argv: ["like", "2"] }, "engagement");
+    await cmdApprovals(["reject", dropped.id], deps());
+
+    logs.length = 0;
+    await cmdApprovals(["list"], deps());
+    expect(logs.join("\n")).toContain(kept.id);
+    expect(logs.join("\n")).not.toContain(dropped.id);
+
+    logs.length = 0;
+    await cmdApprovals(["list", "--all", "--json"], deps());
+    expect(JSON.parse(logs.join("\n")).map((a: { id: string }) => a.id)).toEqual([kept.id, dropped.id]);
+  });
+});
@@ -0,0 +1,315 @@
+/**
+ * lib/approvals.ts — Human-in-the-loop approval queue for write actions.
+ *
+ * Under `--policy approval` (CLI or MCP), reads run as usual but write actions
+ * (like, follow, block, mute, list changes, ...) are stored in
+ * data/approvals.json instead of executed. A human reviews them with
+ * `xint approvals list` and runs or drops each one with `approve` / `reject`.
+ * MCP write tools answer with status "pending_approval" and the approval id;
+ * agents can poll xint_approvals for the outcome.
+ */
+
+import { randomUUID } from "crypto";
+import { chmodSync, existsSync, mkdirSync, readFileSync, renameSync, writeFileSync } from "fs";
+import { dirname, join } from "path";
+import { policyRank, type PolicyMode } from "./policy";
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+export type ApprovalStatus = "pending" | "approved" | "rejected" | "failed";
+
+export type ApprovalAction =
+  | { kind: "cli"; argv: string[] }
+  | { kind: "mcp"; tool: string; arguments: Record<string, unknown> };
+
+export interface ApprovalRequest {
+  id: string;
+  status: ApprovalStatus;
+  action: ApprovalAction;
+  /** Policy mode the action needs when it runs (engagement or moderation). */
+  required_mode: string;
+  summary: string;
+  created_at: string;
+  decided_at?: string;
+  /** MCP result envelope ({ type, message, data }) once approved. */
+  result?: unknown;
+  error?: string;
+}
+
+interface ApprovalStore {
+  approvals: ApprovalRequest[];
+}
+
+// ---------------------------------------------------------------------------
+// Write actions
+// ---------------------------------------------------------------------------
+
+/** MCP tools that are queued under the approval policy. */
+export const APPROVAL_TOOLS = new Set<string>([
+  "xint_like",
+  "xint_unlike",
+  "xint_follow",
+  "xint_unfollow",
+  "xint_list_create",
+  "xint_list_update",
+  "xint_list_delete",
+  "xint_list_members_add",
+  "xint_list_members_remove",
+  "xint_block",
+  "xint_unblock",
+  "xint_mute",
+  "xint_unmute",
+  "xint_stream_rules_add",
+  "xint_stream_rules_delete",
+  "xint_package_publish",
+]);
+
+const WRITE_COMMANDS = new Set(["like", "unlike", "follow", "unfollow", "bookmark", "bm-save", "unbookmark", "bm-remove"]);
+const WRITE_SUBCOMMANDS = new Set(["add", "create", "update", "delete", "remove", "rm"]);
+
+/**
+ * Whether a CLI invocation (argv without the `xint`) changes account state.
+ * Reads under the same commands (`lists`, `blocks list`, `stream-rules list`)
+ * are not writes.
+ */
+export function isWriteCommand(argv: string[]): boolean {
+  const [cmd, ...rest] = argv;
+  if (!cmd || rest.includes("--help") || rest.includes("-h")) return false;
+  if (WRITE_COMMANDS.has(cmd)) return true;
+
+  const sub = (rest[0] || "").toLowerCase();
+  if (cmd === "lists" || cmd === "list") {
+    if (sub === "members" || sub === "member") return WRITE_SUBCOMMANDS.has((rest[1] || "").toLowerCase());
+    return WRITE_SUBCOMMANDS.has(sub);
+  }
+  if (cmd === "blocks" || cmd === "block" || cmd === "mutes" || cmd === "mute") {
+    return WRITE_SUBCOMMANDS.has(sub);
+  }
+  if (cmd === "stream-rules") {
+    // Same as the queued xint_stream_rules_add / _delete MCP tools; a sync
+    // plan (--plan, --dry-run) only reads.
+    if (sub === "sync") return !rest.includes("--plan") && !rest.includes("--dry-run");
+    return sub === "add" || sub === "delete" || sub === "clear";
+  }
+  return false;
+}
+
+function formatArgs(args: string[]): string {
+  return args.map((a) => (/[\s"'()]/.test(a) ? JSON.stringify(a) : a)).join(" ");
+}
+
+export function describeAction(action: ApprovalAction): string {
+  return action.kind === "cli"
+    ? `xint ${formatArgs(action.argv)}`
+    : `${action.tool} ${JSON.stringify(action.arguments)}`;
+}
+
+// ---------------------------------------------------------------------------
+// Storage
+// ---------------------------------------------------------------------------
+
+const DEFAULT_STORE_FILE = join(import.meta.dir, "..", "data", "approvals.json");
+
+function storePath(): string {
+  return process.env.XINT_APPROVALS_FILE || DEFAULT_STORE_FILE;
+}
+
+function loadStore(): ApprovalStore {
+  const path = storePath();
+  if (!existsSync(path)) return { approvals: [] };
+  try {
+    const parsed = JSON.parse(readFileSync(path, "utf-8")) as ApprovalStore;
+    return { approvals: Array.isArray(parsed.approvals) ? parsed.approvals : [] };
+  } catch {
+    return { approvals: [] };
+  }
+}
+
+function saveStore(store: ApprovalStore): void {
+  const path = storePath();
+  mkdirSync(dirname(path), { recursive: true });
+  const tmp = path + ".tmp";
+  writeFileSync(tmp, JSON.stringify(store, null, 2), "utf-8");
+  chmodSync(tmp, 0o660);
+  renameSync(tmp, path);
+}
+
+export function requestApproval(action: ApprovalAction, requiredMode: string): ApprovalRequest {
+  const store = loadStore();
+  const entry: ApprovalRequest = {
+    id: `apr_${randomUUID().slice(0, 8)}`,
+    status: "pending",
+    action,
+    required_mode: requiredMode,
+    summary: describeAction(action),
+    created_at: new Date().toISOString(),
+  };
+  store.approvals.push(entry);
+  saveStore(store);
+  return entry;
+}
+
+export function listApprovals(opts: { status?: ApprovalStatus } = {}): ApprovalRequest[] {
+  const all = loadStore().approvals;
+  return opts.status ? all.filter((a) => a.status === opts.status) : all;
+}
+
+export function getApproval(id: string): ApprovalRequest | null {
+  return loadStore().approvals.find((a) => a.id === id) || null;
+}
+
+/** Record a decision. Only pending requests can be decided. */
+export function decideApproval(
+  id: string,
+  status: Exclude<ApprovalStatus, "pending">,
+  details: { result?: unknown; error?: string } = {},
+): ApprovalRequest {
+  const store = loadStore();
+  const entry = store.approvals.find((a) => a.id === id);
+  if (!entry) throw new Error(`Approval not found: ${id}. Run 'xint approvals list'.`);
+  // approved -> failed is the one transition after a decision (execution error).
+  const allowed = entry.status === "pending" || (entry.status === "approved" && status === "failed");
+  if (!allowed) throw new Error(`Approval ${id} is already ${entry.status}`);
+
+  entry.status = status;
+  entry.decided_at = new Date().toISOString();
+  if (details.result !== undefined) entry.result = details.result;
+  if (details.error !== undefined) entry.error = details.error;
+  saveStore(store);
+  return entry;
+}
+
+function recordResult(id: string, result: unknown): void {
+  const store = loadStore();
+  const entry = store.approvals.find((a) => a.id === id);
+  if (!entry) return;
+  entry.result = result;
+  saveStore(store);
+}
+
+// ---------------------------------------------------------------------------
+// CLI handler
+// ---------------------------------------------------------------------------
+
+export interface ApprovalsCommandDeps {
+  /** The approver's policy mode; it must cover each action's required mode. */
+  policyMode: PolicyMode;
+  /** Run a queued CLI command (the xint.ts dispatcher) at the given policy mode. */
+  runCommand: (argv: string[], policyMode: string) => Promise<void>;
+  /** Run a queued MCP tool call at the given policy mode; returns its envelope. */
+  runTool: (
+    name: string,
+    args: Record<string, unknown>,
+    policyMode: string,
+  ) => Promise<{ type: string; message: string; data?: unknown }>;
+}
+
+function printApproval(entry: ApprovalRequest): void {
+  const when = entry.created_at.slice(0, 16).replace("T", " ");
+  console.log(`  ${entry.id}  ${entry.status.padEnd(8)}  ${when}  [${entry.required_mode}]`);
+  console.log(`    ${entry.summary}`);
+  if (entry.error) console.log(`    error: ${entry.error}`);
+}
+
+async function approve(id: string, deps: ApprovalsCommandDeps): Promise<void> {
+  const entry = getApproval(id);
+  if (!entry) throw new Error(`Approval not found: ${id}. Run 'xint approvals list'.`);
+  if (entry.status !== "pending") throw new Error(`Approval ${id} is already ${entry.status}`);
+  if (policyRank(deps.policyMode) < policyRank(entry.required_mode as PolicyMode)) {
+    throw new Error(JSON.stringify({
+      code: "POLICY_DENIED",
+      message: `Approving ${id} (${entry.summary}) requires '${entry.required_mode}' policy mode`,
+      policy_mode: deps.policyMode,
+      required_mode: entry.required_mode,
+    }));
+  }
+
+  // Mark it first so a crash mid-run can't execute it twice.
+  decideApproval(id, "approved");
+  console.error(`[approvals] ${id}: ${entry.summary}`);
+  try {
+    if (entry.action.kind === "cli") {
+      await deps.runCommand(entry.action.argv, entry.required_mode);
+    } else {
+      const result = await deps.runTool(entry.action.tool, entry.action.arguments, entry.required_mode);
+      if (result.type === "error") throw new Error(result.message);
+      recordResult(id, result);
+      console.log(`Done: ${result.message}`);
+    }
+  } catch (e: any) {
+    decideApproval(id, "failed", { error: e.message });
+    throw e;
+  }
+}
+
+export async function cmdApprovals(args: string[], deps: ApprovalsCommandDeps): Promise<void> {
+  const sub = (args[0] || "list").toLowerCase();
+  const rest = args.slice(1);
+
+  switch (sub) {
+    case "list":
+    case "ls": {
+      const approvals = rest.includes("--all") ? listApprovals() : listApprovals({ status: "pending" });
+      if (rest.includes("--json")) {
+        console.log(JSON.stringify(approvals, null, 2));
+        return;
+      }
+      if (approvals.length === 0) {
+        console.log(rest.includes("--all") ? "No approval requests." : "No pending approvals.");
+        return;
+      }
+      console.log(`\n${rest.includes("--all") ? "Approval requests" : "Pending approvals"} (${approvals.length}):\n`);
+      approvals.forEach(printApproval);
+      console.log(`\nRun one with: xint approvals approve <id>`);
+      return;
+    }
+
+    case "approve": {
+      const id = rest[0];
+      if (!id) throw new Error("Usage: xint approvals approve <id>");
+      await approve(id, deps);
+      return;
+    }
+
+    case "reject": {
+      const id = rest[0];
+      if (!id) throw new Error("Usage: xint approvals reject <id>");
+      const entry = decideApproval(id, "rejected");
+      console.log(`Rejected ${entry.id}: ${entry.summary}`);
+      return;
+    }
+
+    case "help":
+    case "--help":
+    case "-h":
+      printApprovalsHelp();
+      return;
+
+    default:
+      throw new Error(`Unknown approvals subcommand: ${sub}`);
+  }
+}
+
+function printApprovalsHelp(): void {
+  console.log(`
+Usage: xint approvals <subcommand>
+
+Review write actions queued under --policy approval (CLI or MCP).
+
+Subcommands:
+  list [--all] [--json]   Show pending requests (--all: include decided ones)
+  approve <id>            Run the queued action now (needs --policy at or
+                          above the action's mode, shown in brackets by list)
+  reject <id>             Drop it without running
+
+Stored in data/approvals.json (XINT_APPROVALS_FILE overrides).
+
+Examples:
+  xint --policy approval like 1900100012345678901   # queued, not sent
+  xint approvals list
+  xint --policy engagement approvals approve apr_1a2b3c4d
+  xint approvals reject apr_5e6f7a8b
+`);
+}
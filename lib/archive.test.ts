@@ -0,0 +1,108 @@
+import { afterAll, beforeAll, beforeEach, describe, expect, test } from "bun:test";
+import { mkdtempSync, rmSync } from "fs";
+import { tmpdir } from "os";
+import { join } from "path";
+import type { Tweet } from "./api";
+import {
+  archiveTweets,
+  closeArchive,
+  getArchiveStats,
+  getMetricsHistory,
+  searchArchive,
+} from "./archive";
+import { makeTweet, type TweetOverrides } from "./test_fixtures";
+
+function removeDb(path: string): void {
+  closeArchive();
+  for (const suffix of ["", "-wal", "-shm"]) {
+    rmSync(`${path}${suffix}`, { force: true });
+  }
+}
+
+function tweet(id: string, text: string, overrides: TweetOverrides = {}): Tweet {
+  return makeTweet(id, {
+    text,
+    author_id: "42",
+    created_at: "2026-02-10T12:00:00.000Z",
+    metrics: { likes: 10, retweets: 1, impressions: 100 },
+    ...overrides,
+  });
+}
+
+describe("tweet archive", () => {
+  let dir: string;
+  let dbPath: string;
+
+  beforeAll(() => {
+    dir = mkdtempSync(join(tmpdir(), "xint-archive-"));
+    dbPath = join(dir, "archive.db");
+  });
+
+  beforeEach(() => {
+    process.env.XINT_ARCHIVE_DB = dbPath;
+    delete process.env.XINT_ARCHIVE;
+    removeDb(dbPath);
+  });
+
+  afterAll(() => {
+    closeArchive();
+    rmSync(dir, { recursive: true, force: true });
+    delete process.env.XINT_ARCHIVE_DB;
+  });
+
+  test("upserts tweets and supports full-text search", () => {
+    archiveTweets([
+      tweet("1", "solana ETF approval rumors"),
+      tweet("2", "bitcoin halving recap", { username: "bob", name: "Bob" }),
+    ], "search");
+
+    const hits = searchArchive({ match: "solana" });
+    expect(hits.map((t) => t.id)).toEqual(["1"]);
+    expect(hits[0].metrics.likes).toBe(10);
+
+    expect(searchArchive({ from: "@BOB" }).map((t) => t.id)).toEqual(["2"]);
+  });
+
+  test("records a metrics sample only when engagement changes", () => {
+    archiveTweets([tweet("1", "launch day")], "search");
+    archiveTweets([tweet("1", "launch day")], "watch");
+    archiveTweets([
+      tweet("1", "launch day", {
+        metrics: { likes: 50, retweets: 4, replies: 2, quotes: 0, impressions: 900, bookmarks: 1 },
+      }),
+    ], "tweet");
+
+    const history = getMetricsHistory("1");
+    expect(history.length).toBe(2);
+    expect(history[1].metrics.likes).toBe(50);
+    expect(history[1].source).toBe("tweet");
+    expect(getArchiveStats().tweets).toBe(1);
+  });
+
+  test("keeps known author when a later payload lacks user expansion", () => {
+    archiveTweets([tweet("1", "hello")], "search");
+    archiveTweets([tweet("1", "hello", { username: "?", name: "?" })], "stream");
+
+    expect(searchArchive({ match: "hello" })[0].username).toBe("alice");
+  });
+
+  test("applies metric and date filters with sort", () => {
+    archiveTweets([
+      tweet("1", "agents", { created_at: "2026-01-01T00:00:00.000Z" }),
+      tweet("2", "agents", {
+        metrics: { likes: 500, retweets: 1, replies: 0, quotes: 0, impressions: 100, bookmarks: 0 },
+      }),
+    ], "search");
+
+    expect(searchArchive({ match: "agents", minLikes: 100 }).map((t) => t.id)).toEqual(["2"]);
+    expect(searchArchive({ match: "agents", since: "2026-02-01T00:00:00Z" }).map((t) => t.id)).toEqual(["2"]);
+    expect(searchArchive({ match: "agents", sort: "likes" })[0].id).toBe("2");
+  });
+
+  test("does nothing when archiving is disabled", () => {
+    process.env.XINT_ARCHIVE = "0";
+    expect(archiveTweets([tweet("1", "ignored")], "search")).toBe(0);
+    delete process.env.XINT_ARCHIVE;
+    expect(getArchiveStats().tweets).toBe(0);
+  });
+});
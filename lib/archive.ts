@@ -0,0 +1,625 @@
+/**
+ * lib/archive.ts — Persistent local tweet archive with full-text search.
+ *
+ * Every tweet parsed from the X API is upserted into a local SQLite database
+ * (data/archive.db) together with a metrics history sample whenever its
+ * engagement changes. `xint archive search` queries the archive offline at
+ * zero API cost.
+ */
+
+import { Database } from "bun:sqlite";
+import { mkdirSync } from "fs";
+import { dirname, join } from "path";
+import { parseSince, type Tweet } from "./api";
+import * as fmt from "./format";
+import { buildOutputMeta, printJsonWithMeta, printJsonlWithMeta } from "./output-meta";
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+export type ArchiveSort = "relevance" | "likes" | "impressions" | "retweets" | "recent";
+
+export interface ArchiveQuery {
+  match?: string;          // FTS5 match expression over text/username/name
+  from?: string;           // author username
+  since?: string;          // shorthand (1h, 7d) or ISO 8601
+  until?: string;          // shorthand (1h, 7d) or ISO 8601
+  minLikes?: number;
+  minImpressions?: number;
+  minRetweets?: number;
+  sort?: ArchiveSort;
+  limit?: number;
+}
+
+export interface MetricsSample {
+  observed_at: string;
+  source: string;
+  metrics: Tweet["metrics"];
+}
+
+export interface ArchiveStats {
+  path: string;
+  tweets: number;
+  authors: number;
+  samples: number;
+  oldest_tweet?: string;
+  newest_tweet?: string;
+  last_archived_at?: string;
+}
+
+// ---------------------------------------------------------------------------
+// Storage
+// ---------------------------------------------------------------------------
+
+const DEFAULT_DB_FILE = join(import.meta.dir, "..", "data", "archive.db");
+const METRIC_KEYS = ["likes", "retweets", "replies", "quotes", "impressions", "bookmarks"] as const;
+
+let db: Database | null = null;
+let openPath = "";
+let warned = false;
+
+function dbFilePath(): string {
+  return process.env.XINT_ARCHIVE_DB || DEFAULT_DB_FILE;
+}
+
+/** Archiving is on by default; set XINT_ARCHIVE=0 to disable it. */
+export function archiveEnabled(): boolean {
+  const raw = (process.env.XINT_ARCHIVE || "").trim().toLowerCase();
+  return raw !== "0" && raw !== "false" && raw !== "off";
+}
+
+function migrate(conn: Database): void {
+  conn.exec(`
+    CREATE TABLE IF NOT EXISTS tweets (
+      id TEXT PRIMARY KEY,
+      author_id TEXT,
+      username TEXT,
+      name TEXT,
+      text TEXT NOT NULL,
+      created_at TEXT,
+      conversation_id TEXT,
+      tweet_url TEXT,
+      likes INTEGER NOT NULL DEFAULT 0,
+      retweets INTEGER NOT NULL DEFAULT 0,
+      replies INTEGER NOT NULL DEFAULT 0,
+      quotes INTEGER NOT NULL DEFAULT 0,
+      impressions INTEGER NOT NULL DEFAULT 0,
+      bookmarks INTEGER NOT NULL DEFAULT 0,
+      urls TEXT NOT NULL DEFAULT '[]',
+      mentions TEXT NOT NULL DEFAULT '[]',
+      hashtags TEXT NOT NULL DEFAULT '[]',
+      first_seen_at TEXT NOT NULL,
+      last_seen_at TEXT NOT NULL,
+      last_source TEXT
+    );
+    CREATE INDEX IF NOT EXISTS idx_tweets_username ON tweets (username COLLATE NOCASE);
+    CREATE INDEX IF NOT EXISTS idx_tweets_created_at ON tweets (created_at);
+
+    CREATE TABLE IF NOT EXISTS tweet_metrics (
+      tweet_id TEXT NOT NULL,
+      observed_at TEXT NOT NULL,
+      source TEXT,
+      likes INTEGER NOT NULL DEFAULT 0,
+      retweets INTEGER NOT NULL DEFAULT 0,
+      replies INTEGER NOT NULL DEFAULT 0,
+      quotes INTEGER NOT NULL DEFAULT 0,
+      impressions INTEGER NOT NULL DEFAULT 0,
+      bookmarks INTEGER NOT NULL DEFAULT 0
+    );
+    CREATE INDEX IF NOT EXISTS idx_tweet_metrics_tweet ON tweet_metrics (tweet_id, observed_at);
+
+    CREATE VIRTUAL TABLE IF NOT EXISTS tweets_fts USING fts5(id UNINDEXED, text, username, name);
+  `);
+}
+
+function openDb(): Database {
+  const path = dbFilePath();
+  if (db && openPath === path) return db;
+  if (db) db.close();
+
+  mkdirSync(dirname(path), { recursive: true });
+  const conn = new Database(path, { create: true });
+  conn.exec("PRAGMA journal_mode = WAL");
+  conn.exec("PRAGMA busy_timeout = 5000");
+  migrate(conn);
+
+  db = conn;
+  openPath = path;
+  return conn;
+}
+
+/** Close the archive handle (used by tests that swap XINT_ARCHIVE_DB). */
+export function closeArchive(): void {
+  if (db) db.close();
+  db = null;
+  openPath = "";
+}
+
+function metricsOf(t: Tweet): Tweet["metrics"] {
+  const m = t.metrics || ({} as Tweet["metrics"]);
+  return {
+    likes: m.likes || 0,
+    retweets: m.retweets || 0,
+    replies: m.replies || 0,
+    quotes: m.quotes || 0,
+    impressions: m.impressions || 0,
+    bookmarks: m.bookmarks || 0,
+  };
+}
+
+function sameMetrics(a: Record<string, number>, b: Record<string, number>): boolean {
+  return METRIC_KEYS.every((k) => (a[k] || 0) === (b[k] || 0));
+}
+
+/**
+ * Upsert tweets into the archive and append a metrics sample for each tweet
+ * whose engagement changed since the last observation.
+ * Returns the number of tweets written. Never throws.
+ */
+export function archiveTweets(tweets: Tweet[], source: string): number {
+  if (!archiveEnabled() || tweets.length === 0) return 0;
+
+  try {
+    const conn = openDb();
+    const now = new Date().toISOString();
+
+    const upsert = conn.prepare(`
+      INSERT INTO tweets (
+        id, author_id, username, name, text, created_at, conversation_id, tweet_url,
+        likes, retweets, replies, quotes, impressions, bookmarks,
+        urls, mentions, hashtags, first_seen_at, last_seen_at, last_source
+      ) VALUES (
+        $id, $author_id, $username, $name, $text, $created_at, $conversation_id, $tweet_url,
+        $likes, $retweets, $replies, $quotes, $impressions, $bookmarks,
+        $urls, $mentions, $hashtags, $now, $now, $source
+      )
+      ON CONFLICT(id) DO UPDATE SET
+        author_id = COALESCE(excluded.author_id, tweets.author_id),
+        username = CASE WHEN excluded.username = '?' THEN tweets.username ELSE excluded.username END,
+        name = CASE WHEN excluded.name = '?' THEN tweets.name ELSE excluded.name END,
+        text = excluded.text,
+        created_at = COALESCE(excluded.created_at, tweets.created_at),
+        conversation_id = COALESCE(excluded.conversation_id, tweets.conversation_id),
+        tweet_url = CASE WHEN excluded.username = '?' THEN tweets.tweet_url ELSE excluded.tweet_url END,
+        likes = excluded.likes,
+        retweets = excluded.retweets,
+        replies = excluded.replies,
+        quotes = excluded.quotes,
+        impressions = excluded.impressions,
+        bookmarks = excluded.bookmarks,
+        urls = excluded.urls,
+        mentions = excluded.mentions,
+        hashtags = excluded.hashtags,
+        last_seen_at = excluded.last_seen_at,
+        last_source = excluded.last_source
+    `);
+    const latestSample = conn.prepare(
+      `SELECT likes, retweets, replies, quotes, impressions, bookmarks
+       FROM tweet_metrics WHERE tweet_id = ? ORDER BY observed_at DESC LIMIT 1`,
+    );
+    const insertSample = conn.prepare(`
+      INSERT INTO tweet_metrics (tweet_id, observed_at, source, likes, retweets, replies, quotes, impressions, bookmarks)
+      VALUES ($tweet_id, $observed_at, $source, $likes, $retweets, $replies, $quotes, $impressions, $bookmarks)
+    `);
+    const deleteFts = conn.prepare("DELETE FROM tweets_fts WHERE id = ?");
+    const insertFts = conn.prepare("INSERT INTO tweets_fts (id, text, username, name) VALUES (?, ?, ?, ?)");
+    const selectNames = conn.prepare("SELECT username, name FROM tweets WHERE id = ?");
+
+    let written = 0;
+    const run = conn.transaction((batch: Tweet[]) => {
+      for (const t of batch) {
+        if (!t?.id || typeof t.text !== "string") continue;
+        const m = metricsOf(t);
+        upsert.run({
+          $id: t.id,
+          $author_id: t.author_id ?? null,
+          $username: t.username || "?",
+          $name: t.name || "?",
+          $text: t.text,
+          $created_at: t.created_at ?? null,
+          $conversation_id: t.conversation_id ?? null,
+          $tweet_url: t.tweet_url || `https://x.com/i/status/${t.id}`,
+          $likes: m.likes,
+          $retweets: m.retweets,
+          $replies: m.replies,
+          $quotes: m.quotes,
+          $impressions: m.impressions,
+          $bookmarks: m.bookmarks,
+          $urls: JSON.stringify(t.urls || []),
+          $mentions: JSON.stringify(t.mentions || []),
+          $hashtags: JSON.stringify(t.hashtags || []),
+          $now: now,
+          $source: source,
+        });
+
+        const prev = latestSample.get(t.id) as Record<string, number> | null;
+        if (!prev || !sameMetrics(prev, m)) {
+          insertSample.run({
+            $tweet_id: t.id,
+            $observed_at: now,
+            $source: source,
+            $likes: m.likes,
+            $retweets: m.retweets,
+            $replies: m.replies,
+            $quotes: m.quotes,
+            $impressions: m.impressions,
+            $bookmarks: m.bookmarks,
+          });
+        }
+
+        const names = selectNames.get(t.id) as { username: string; name: string } | null;
+        deleteFts.run(t.id);
+        insertFts.run(t.id, t.text, names?.username || "", names?.name || "");
+        written++;
+      }
+    });
+    run(tweets);
+    return written;
+  } catch (err: any) {
+    if (!warned) {
+      console.error(`[archive] Failed to write archive: ${err?.message || String(err)}`);
+      warned = true;
+    }
+    return 0;
+  }
+}
+
+// ---------------------------------------------------------------------------
+// Queries
+// ---------------------------------------------------------------------------
+
+function parseJsonArray<T>(raw: unknown): T[] {
+  if (typeof raw !== "string") return [];
+  try {
+    const parsed = JSON.parse(raw);
+    return Array.isArray(parsed) ? parsed : [];
+  } catch {
+    return [];
+  }
+}
+
+function rowToTweet(row: any): Tweet {
+  return {
+    id: row.id,
+    text: row.text,
+    author_id: row.author_id || "",
+    username: row.username || "?",
+    name: row.name || "?",
+    created_at: row.created_at || "",
+    conversation_id: row.conversation_id || "",
+    metrics: {
+      likes: row.likes,
+      retweets: row.retweets,
+      replies: row.replies,
+      quotes: row.quotes,
+      impressions: row.impressions,
+      bookmarks: row.bookmarks,
+    },
+    urls: parseJsonArray(row.urls),
+    mentions: parseJsonArray(row.mentions),
+    hashtags: parseJsonArray(row.hashtags),
+    tweet_url: row.tweet_url,
+  };
+}
+
+function orderClause(sort: ArchiveSort, hasMatch: boolean): string {
+  switch (sort) {
+    case "likes": return "t.likes DESC";
+    case "impressions": return "t.impressions DESC";
+    case "retweets": return "t.retweets DESC";
+    case "recent": return "t.created_at DESC";
+    case "relevance": return hasMatch ? "bm25(tweets_fts)" : "t.created_at DESC";
+  }
+}
+
+/**
+ * Query the archive with an optional FTS5 match expression plus
+ * author/date/metric filters.
+ */
+export function searchArchive(q: ArchiveQuery): Tweet[] {
+  const conn = openDb();
+  const where: string[] = [];
+  const params: Record<string, string | number> = {};
+  const match = q.match?.trim();
+
+  if (match) {
+    where.push("tweets_fts MATCH $match");
+    params.$match = match;
+  }
+  if (q.from) {
+    where.push("t.username = $from COLLATE NOCASE");
+    params.$from = q.from.replace(/^@/, "");
+  }
+  if (q.since) {
+    const ts = parseSince(q.since);
+    if (!ts) throw new Error(`Invalid --since value: ${q.since}`);
+    where.push("t.created_at >= $since");
+    params.$since = ts;
+  }
+  if (q.until) {
+    const ts = parseSince(q.until);
+    if (!ts) throw new Error(`Invalid --until value: ${q.until}`);
+    where.push("t.created_at <= $until");
+    params.$until = ts;
+  }
+  if (q.minLikes) {
+    where.push("t.likes >= $minLikes");
+    params.$minLikes = q.minLikes;
+  }
+  if (q.minImpressions) {
+    where.push("t.impressions >= $minImpressions");
+    params.$minImpressions = q.minImpressions;
+  }
+  if (q.minRetweets) {
+    where.push("t.retweets >= $minRetweets");
+    params.$minRetweets = q.minRetweets;
+  }
+
+  const from = match
+    ? "tweets_fts JOIN tweets t ON t.id = tweets_fts.id"
+    : "tweets t";
+  const sql = `SELECT t.* FROM ${from}`
+    + (where.length > 0 ? ` WHERE ${where.join(" AND ")}` : "")
+    + ` ORDER BY ${orderClause(q.sort || "relevance", Boolean(match))}`
+    + ` LIMIT $limit`;
+  params.$limit = Math.max(1, q.limit || 20);
+
+  try {
+    return conn.prepare(sql).all(params).map(rowToTweet);
+  } catch (err: any) {
+    const msg = err?.message || String(err);
+    if (match && /fts5|syntax/i.test(msg)) {
+      throw new Error(`Invalid archive search expression: ${msg}`);
+    }
+    throw err;
+  }
+}
+
+/** Metrics samples for a tweet, oldest first. */
+export function getMetricsHistory(tweetId: string): MetricsSample[] {
+  const conn = openDb();
+  const rows = conn
+    .prepare("SELECT * FROM tweet_metrics WHERE tweet_id = ? ORDER BY observed_at ASC")
+    .all(tweetId) as any[];
+  return rows.map((row) => ({
+    observed_at: row.observed_at,
+    source: row.source || "",
+    metrics: {
+      likes: row.likes,
+      retweets: row.retweets,
+      replies: row.replies,
+      quotes: row.quotes,
+      impressions: row.impressions,
+      bookmarks: row.bookmarks,
+    },
+  }));
+}
+
+export function getArchivedTweet(tweetId: string): Tweet | null {
+  const row = openDb().prepare("SELECT * FROM tweets WHERE id = ?").get(tweetId);
+  return row ? rowToTweet(row) : null;
+}
+
+export function getArchiveStats(): ArchiveStats {
+  const conn = openDb();
+  const counts = conn.prepare(`
+    SELECT COUNT(*) AS tweets,
+           COUNT(DISTINCT username) AS authors,
+           MIN(created_at) AS oldest,
+           MAX(created_at) AS newest,
+           MAX(last_seen_at) AS last_archived
+    FROM tweets
+  `).get() as any;
+  const samples = conn.prepare("SELECT COUNT(*) AS n FROM tweet_metrics").get() as any;
+  return {
+    path: dbFilePath(),
+    tweets: counts?.tweets || 0,
+    authors: counts?.authors || 0,
+    samples: samples?.n || 0,
+    ...(counts?.oldest && { oldest_tweet: counts.oldest }),
+    ...(counts?.newest && { newest_tweet: counts.newest }),
+    ...(counts?.last_archived && { last_archived_at: counts.last_archived }),
+  };
+}
+
+// ---------------------------------------------------------------------------
+// CLI handler
+// ---------------------------------------------------------------------------
+
+const SORTS: ArchiveSort[] = ["relevance", "likes", "impressions", "retweets", "recent"];
+
+function printArchiveHelp(): void {
+  console.log(`
+Usage: xint archive <subcommand> [options]
+
+Query the local tweet archive (data/archive.db). Every tweet fetched by
+search, profile, thread, tweet, bookmarks, likes, watch and stream is stored
+here with its metrics history. Archive queries cost zero API credits.
+
+Subcommands:
+  search [fts query] [options]   Full-text search over archived tweets
+  history <tweet_id> [--json]    Show recorded metrics samples for a tweet
+  stats [--json]                 Archive size and coverage
+
+Search options:
+  --from <username>      Only tweets by this author
+  --since <dur|date>     Created after (1h, 7d, or ISO 8601)
+  --until <dur|date>     Created before (1h, 7d, or ISO 8601)
+  --min-likes N          Minimum likes
+  --min-impressions N    Minimum impressions
+  --min-retweets N       Minimum retweets
+  --sort <order>         relevance (default), likes, impressions, retweets, recent
+  --limit N              Max results (default: 20)
+  --json | --jsonl | --csv | --markdown
+
+Query syntax is SQLite FTS5: words, "exact phrases", AND/OR/NOT, prefix*.
+
+Env:
+  XINT_ARCHIVE=0         Disable archiving of fetched tweets
+  XINT_ARCHIVE_DB=<path> Use a different archive database file
+
+Examples:
+  xint archive search "solana AND (etf OR approval)" --since 30d --sort likes
+  xint archive search --from vitalikbuterin --min-likes 500 --json
+  xint archive history 1900100012345678901
+`);
+}
+
+function parseIntOpt(value: string | undefined, flag: string): number {
+  const n = Number.parseInt(value || "", 10);
+  if (!Number.isFinite(n) || n < 0) throw new Error(`Usage: ${flag} requires a non-negative integer.`);
+  return n;
+}
+
+async function runArchiveSearch(args: string[]): Promise<void> {
+  const startedAtMs = Date.now();
+  const q: ArchiveQuery = { limit: 20, sort: "relevance" };
+  let json = false;
+  let jsonl = false;
+  let csv = false;
+  let markdown = false;
+  const terms: string[] = [];
+
+  for (let i = 0; i < args.length; i++) {
+    const arg = args[i];
+    switch (arg) {
+      case "--from":
+        q.from = args[++i];
+        if (!q.from) throw new Error("Usage: --from requires a username.");
+        break;
+      case "--since":
+        q.since = args[++i];
+        break;
+      case "--until":
+        q.until = args[++i];
+        break;
+      case "--min-likes":
+        q.minLikes = parseIntOpt(args[++i], "--min-likes");
+        break;
+      case "--min-impressions":
+        q.minImpressions = parseIntOpt(args[++i], "--min-impressions");
+        break;
+      case "--min-retweets":
+        q.minRetweets = parseIntOpt(args[++i], "--min-retweets");
+        break;
+      case "--sort": {
+        const sort = args[++i] as ArchiveSort;
+        if (!SORTS.includes(sort)) throw new Error(`Usage: --sort must be one of ${SORTS.join(", ")}.`);
+        q.sort = sort;
+        break;
+      }
+      case "--limit":
+        q.limit = Math.max(1, parseIntOpt(args[++i], "--limit"));
+        break;
+      case "--json":
+        json = true;
+        break;
+      case "--jsonl":
+        jsonl = true;
+        break;
+      case "--csv":
+        csv = true;
+        break;
+      case "--markdown":
+        markdown = true;
+        break;
+      default:
+        if (arg.startsWith("--")) throw new Error(`Unknown option for archive search: ${arg}`);
+        terms.push(arg);
+    }
+  }
+
+  q.match = terms.join(" ");
+  const tweets = searchArchive(q);
+  const label = q.match || (q.from ? `from:${q.from}` : "archive");
+  const meta = buildOutputMeta({
+    source: "local_archive",
+    startedAtMs,
+    cached: true,
+    confidence: 1,
+    apiEndpoint: "local:archive",
+    estimatedCostUsd: 0,
+  });
+
+  if (csv) {
+    console.log(fmt.formatCsv(tweets));
+  } else if (jsonl) {
+    printJsonlWithMeta(meta, tweets, "tweet");
+  } else if (json) {
+    printJsonWithMeta(meta, tweets);
+  } else if (markdown) {
+    console.log(fmt.formatResearchMarkdown(label, tweets, { queries: [label] }));
+  } else {
+    console.log(fmt.formatResultsTelegram(tweets, { query: label, limit: q.limit }));
+  }
+
+  console.error(`\n🗄 ${tweets.length} archived tweets · cost $0.00`);
+}
+
+function runArchiveHistory(args: string[]): void {
+  const json = args.includes("--json");
+  const tweetId = args.find((a) => !a.startsWith("-"))?.match(/(\d{5,})/)?.[1];
+  if (!tweetId) throw new Error("Usage: xint archive history <tweet_id|url> [--json]");
+
+  const tweet = getArchivedTweet(tweetId);
+  const samples = getMetricsHistory(tweetId);
+
+  if (json) {
+    console.log(JSON.stringify({ tweet, samples }, null, 2));
+    return;
+  }
+
+  if (!tweet) {
+    console.log(`Tweet ${tweetId} is not in the archive.`);
+    return;
+  }
+
+  console.log(fmt.formatTweetTelegram(tweet, undefined, { full: true }));
+  console.log(`\nMetrics history (${samples.length} samples):\n`);
+  console.log(`  ${"Observed".padEnd(20)} ${"Likes".padStart(8)} ${"RTs".padStart(7)} ${"Replies".padStart(8)} ${"Impr.".padStart(10)}  Source`);
+  for (const s of samples) {
+    const when = s.observed_at.replace("T", " ").slice(0, 19);
+    console.log(
+      `  ${when.padEnd(20)} ${String(s.metrics.likes).padStart(8)} ${String(s.metrics.retweets).padStart(7)} ${String(s.metrics.replies).padStart(8)} ${String(s.metrics.impressions).padStart(10)}  ${s.source}`,
+    );
+  }
+}
+
+function runArchiveStats(args: string[]): void {
+  const stats = getArchiveStats();
+  if (args.includes("--json")) {
+    console.log(JSON.stringify(stats, null, 2));
+    return;
+  }
+  console.log(`\n🗄 Tweet Archive — ${stats.path}\n`);
+  console.log(`  Tweets: ${stats.tweets} | Authors: ${stats.authors} | Metric samples: ${stats.samples}`);
+  if (stats.oldest_tweet) console.log(`  Coverage: ${stats.oldest_tweet.slice(0, 10)} → ${stats.newest_tweet?.slice(0, 10)}`);
+  if (stats.last_archived_at) console.log(`  Last archived: ${stats.last_archived_at}`);
+  if (!archiveEnabled()) console.log(`  Archiving is disabled (XINT_ARCHIVE=${process.env.XINT_ARCHIVE}).`);
+}
+
+export async function cmdArchive(args: string[]): Promise<void> {
+  const sub = (args[0] || "help").toLowerCase();
+  const rest = args.slice(1);
+
+  switch (sub) {
+    case "search":
+    case "s":
+      await runArchiveSearch(rest);
+      return;
+    case "history":
+      runArchiveHistory(rest);
+      return;
+    case "stats":
+      runArchiveStats(rest);
+      return;
+    case "help":
+    case "--help":
+    case "-h":
+      printArchiveHelp();
+      return;
+    default:
+      throw new Error(`Unknown archive subcommand: ${sub}`);
+  }
+}
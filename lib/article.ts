@@ -11,6 +11,7 @@
 import { readFileSync } from "fs";
 import { join } from "path";
 import { extractTweetId } from "./media";
+import { requestSignal } from "./request_context";
 
 // ---------------------------------------------------------------------------
 // Types
@@ -110,7 +111,7 @@ export async function fetchArticle(
         "Content-Type": "application/json",
         Authorization: `Bearer ${apiKey}`,
       },
-      signal: controller.signal,
+      signal: requestSignal(controller.signal),
       body: JSON.stringify({
         model,
         tools: [
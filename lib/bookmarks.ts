@@ -5,12 +5,14 @@
 
 import { writeFileSync } from "fs";
 import { join } from "path";
-import { BASE, FIELDS, oauthGet, parseTweets, parseSince, sleep, sortBy, dedupe } from "./api";
+import { BASE, FIELDS, oauthGet, parseTweets, parseSince, sortBy, dedupe } from "./api";
 import type { Tweet } from "./api";
 import { getValidToken, loadTokens } from "./oauth";
 import * as cache from "./cache";
 import * as fmt from "./format";
 import { trackCost } from "./costs";
+import { archiveTweets } from "./archive";
+import { paginate } from "./checkpoint";
 
 const SKILL_DIR = join(import.meta.dir, "..");
 const DRAFTS_DIR = join(SKILL_DIR, "data", "exports");
@@ -23,29 +25,27 @@ const BOOKMARK_CACHE_TTL_MS = 5 * 60 * 1000; // 5 minutes
 export async function fetchBookmarks(
   userId: string,
   accessToken: string,
-  maxTotal: number = 100
+  maxTotal: number = 100,
+  resume: boolean = false
 ): Promise<Tweet[]> {
-  const allTweets: Tweet[] = [];
-  let nextToken: string | undefined;
   const perPage = Math.min(maxTotal, 100);
   const maxPages = Math.ceil(Math.min(maxTotal, 800) / perPage);
 
-  for (let page = 0; page < maxPages; page++) {
-    const pagination = nextToken ? `&pagination_token=${nextToken}` : "";
-    const url = `${BASE}/users/${userId}/bookmarks?max_results=${perPage}&${FIELDS}${pagination}`;
-
-    const raw = await oauthGet(url, accessToken);
-    const tweets = parseTweets(raw);
-    allTweets.push(...tweets);
-
-    if (allTweets.length >= maxTotal) break;
-
-    nextToken = (raw as any).meta?.next_token;
-    if (!nextToken) break;
-    if (page < maxPages - 1) await sleep(350);
-  }
-
-  return allTweets.slice(0, maxTotal);
+  const { items } = await paginate<Tweet>({
+    endpoint: "/2/users/:id/bookmarks",
+    params: { user_id: userId, max_total: maxTotal },
+    maxPages,
+    resume,
+    isDone: (collected) => collected.length >= maxTotal,
+    async fetchPage(nextToken) {
+      const pagination = nextToken ? `&pagination_token=${nextToken}` : "";
+      const url = `${BASE}/users/${userId}/bookmarks?max_results=${perPage}&${FIELDS}${pagination}`;
+      const raw = await oauthGet(url, accessToken);
+      return { items: parseTweets(raw), nextToken: (raw as any).meta?.next_token };
+    },
+  });
+
+  return items.slice(0, maxTotal);
 }
 
 /**
@@ -62,7 +62,7 @@ export async function cmdBookmarks(args: string[]): Promise<void> {
     if (arg.startsWith("--")) {
       const name = arg.slice(2);
       // Boolean flags
-      if (["json", "markdown", "save", "no-cache"].includes(name)) {
+      if (["json", "markdown", "save", "no-cache", "resume"].includes(name)) {
         flags.add(name);
       } else if (i + 1 < args.length) {
         opts[name] = args[++i];
@@ -79,6 +79,7 @@ export async function cmdBookmarks(args: string[]): Promise<void> {
   const asMarkdown = flags.has("markdown");
   const save = flags.has("save");
   const noCache = flags.has("no-cache");
+  const resume = flags.has("resume");
 
   // Get OAuth token (auto-refresh if needed)
   const accessToken = await getValidToken();
@@ -104,10 +105,11 @@ export async function cmdBookmarks(args: string[]): Promise<void> {
   );
 
   console.error(`Fetching bookmarks for @${tokens.username}...`);
-  const tweets = await fetchBookmarks(tokens.user_id, accessToken, fetchCount);
+  const tweets = await fetchBookmarks(tokens.user_id, accessToken, fetchCount, resume);
 
   // Track cost
   trackCost("bookmarks", `/2/users/me/bookmarks`, tweets.length);
+  archiveTweets(tweets, "bookmarks");
 
   if (tweets.length === 0) {
     console.log("No bookmarks found.");
@@ -31,6 +31,7 @@ describe("capabilities manifest", () => {
     expect(Object.keys(manifest.pricing.operations).length).toBeGreaterThan(10);
     expect(manifest.capability_modes.map((m) => m.mode)).toEqual([
       "read_only",
+      "approval",
       "engagement",
       "moderation",
     ]);
@@ -6,7 +6,7 @@ import { readFileSync } from "fs";
 import { join } from "path";
 import { COST_RATES } from "./costs";
 
-type CapabilityMode = "read_only" | "engagement" | "moderation";
+type CapabilityMode = "read_only" | "approval" | "engagement" | "moderation";
 
 function packageVersion(): string {
   try {
@@ -80,6 +80,10 @@ export function getCapabilitiesManifest() {
         mode: "read_only",
         description: "Read/search/report operations with no account mutation.",
       },
+      {
+        mode: "approval",
+        description: "Reads run; account writes are queued until a human runs 'xint approvals approve'.",
+      },
       {
         mode: "engagement",
         description: "Account actions (likes, follows, bookmarks, lists) via OAuth scopes.",
@@ -101,7 +105,15 @@ export function getCapabilitiesManifest() {
     },
     policy: {
       allowlist_default: "read_only",
-      enterprise_controls: ["mode_allowlist", "budget_guard", "oauth_scope_boundaries"],
+      enterprise_controls: [
+        "mode_allowlist",
+        "approval_queue",
+        "policy_file",
+        "dry_run",
+        "action_journal",
+        "budget_guard",
+        "oauth_scope_boundaries",
+      ],
     },
     capabilities: capabilitiesList(),
   };
@@ -0,0 +1,146 @@
+import { afterAll, beforeEach, describe, expect, test } from "bun:test";
+import { existsSync, rmSync } from "fs";
+import { checkpointKey, loadCheckpoint, paginate, type PageResult } from "./checkpoint";
+import { runWithRequestContext } from "./request_context";
+
+const TEST_DIR = "/tmp/xint-test-checkpoints";
+const ENDPOINT = "/2/users/:id/followers";
+const PARAMS = { user_id: "42" };
+
+// Five pages: p0 -> p1 -> ... -> p4 (last page has no next token).
+function pageFor(token: string | undefined): PageResult<number> {
+  const n = token ? Number(token.slice(1)) : 0;
+  return { items: [n * 10, n * 10 + 1], nextToken: n < 4 ? `p${n + 1}` : undefined };
+}
+
+describe("pagination checkpoints", () => {
+  beforeEach(() => {
+    process.env.XINT_CHECKPOINTS_DIR = TEST_DIR;
+    rmSync(TEST_DIR, { recursive: true, force: true });
+  });
+
+  afterAll(() => {
+    rmSync(TEST_DIR, { recursive: true, force: true });
+    delete process.env.XINT_CHECKPOINTS_DIR;
+  });
+
+  test("checkpointKey ignores param order and undefined values", () => {
+    expect(checkpointKey(ENDPOINT, { a: 1, b: "x", c: undefined })).toBe(checkpointKey(ENDPOINT, { b: "x", a: 1 }));
+    expect(checkpointKey(ENDPOINT, { a: 1 })).not.toBe(checkpointKey(ENDPOINT, { a: 2 }));
+  });
+
+  test("completes and removes the checkpoint", async () => {
+    const result = await paginate({ endpoint: ENDPOINT, params: PARAMS, maxPages: 10, fetchPage: async (t) => pageFor(t) });
+    expect(result.pages).toBe(5);
+    expect(result.items.length).toBe(10);
+    expect(result.truncated).toBe(false);
+    expect(loadCheckpoint(checkpointKey(ENDPOINT, PARAMS))).toBeNull();
+
+    const capped = await paginate({ endpoint: ENDPOINT, params: PARAMS, maxPages: 2, fetchPage: async (t) => pageFor(t) });
+    expect(capped.truncated).toBe(true);
+  });
+
+  test("writes no checkpoint when the page limit is reached", async () => {
+    const single = await paginate({ endpoint: ENDPOINT, params: PARAMS, maxPages: 1, fetchPage: async (t) => pageFor(t) });
+    expect(single).toMatchObject({ pages: 1, fetched: 2, truncated: true });
+    expect(existsSync(TEST_DIR)).toBe(false);
+  });
+
+  test("resumes from the last saved page after a failure", async () => {
+    const failing = paginate({
+      endpoint: ENDPOINT,
+      params: PARAMS,
+      maxPages: 10,
+      state: { start_time: "2026-02-01T00:00:00Z" },
+      fetchPage: async (t) => {
+        if (t === "p3") throw new Error("Rate limited. Resets in 900s");
+        return pageFor(t);
+      },
+    });
+    await expect(failing).rejects.toThrow("Rate limited");
+
+    const saved = loadCheckpoint<number>(checkpointKey(ENDPOINT, PARAMS));
+    expect(saved?.pages).toBe(3);
+    expect(saved?.next_token).toBe("p3");
+
+    const tokens: Array<string | undefined> = [];
+    const states: string[] = [];
+    const result = await paginate({
+      endpoint: ENDPOINT,
+      params: PARAMS,
+      maxPages: 10,
+      resume: true,
+      state: { start_time: "2026-02-02T00:00:00Z" },
+      fetchPage: async (t, state) => {
+        tokens.push(t);
+        states.push(state.start_time);
+        return pageFor(t);
+      },
+    });
+
+    expect(tokens).toEqual(["p3", "p4"]);
+    expect(states).toEqual(["2026-02-01T00:00:00Z", "2026-02-01T00:00:00Z"]);
+    expect(result.resumed).toBe(true);
+    expect(result.items).toEqual([0, 1, 10, 11, 20, 21, 30, 31, 40, 41]);
+    // Only the pages fetched after resuming are new (and billable).
+    expect(result.fetched).toBe(4);
+    expect(loadCheckpoint(checkpointKey(ENDPOINT, PARAMS))).toBeNull();
+  });
+
+  test("starts over without --resume", async () => {
+    await expect(paginate({
+      endpoint: ENDPOINT,
+      params: PARAMS,
+      maxPages: 10,
+      fetchPage: async (t) => {
+        if (t === "p2") throw new Error("boom");
+        return pageFor(t);
+      },
+    })).rejects.toThrow("boom");
+
+    const tokens: Array<string | undefined> = [];
+    await paginate({ endpoint: ENDPOINT, params: PARAMS, maxPages: 2, fetchPage: async (t) => {
+      tokens.push(t);
+      return pageFor(t);
+    } });
+    expect(tokens).toEqual([undefined, "p1"]);
+  });
+
+  test("isDone stops before fetching more pages", async () => {
+    let calls = 0;
+    const result = await paginate({
+      endpoint: ENDPOINT,
+      params: PARAMS,
+      maxPages: 10,
+      isDone: (items) => items.length >= 4,
+      fetchPage: async (t) => {
+        calls++;
+        return pageFor(t);
+      },
+    });
+    expect(calls).toBe(2);
+    expect(result.items.length).toBe(4);
+  });
+
+  test("reports progress per page and stops when the request is cancelled", async () => {
+    const controller = new AbortController();
+    const progress: [number, number | undefined][] = [];
+    const run = runWithRequestContext(
+      { signal: controller.signal, onProgress: (done, total) => progress.push([done, total]) },
+      () =>
+        paginate({
+          endpoint: ENDPOINT,
+          params: PARAMS,
+          maxPages: 5,
+          fetchPage: async (t) => {
+            if (t === "p2") controller.abort(new Error("Cancelled by client"));
+            return pageFor(t);
+          },
+        }),
+    );
+    await expect(run).rejects.toThrow("Cancelled by client");
+    expect(progress).toEqual([[1, 5], [2, 5], [3, 5]]);
+    // The pages fetched before cancelling are kept for --resume.
+    expect(loadCheckpoint(checkpointKey(ENDPOINT, PARAMS))?.pages).toBe(3);
+  });
+});
@@ -0,0 +1,180 @@
+/**
+ * lib/checkpoint.ts — Resumable pagination checkpoints.
+ *
+ * Long next_token loops (follower snapshots, bookmarks, list members,
+ * multi-page search) persist their progress under data/checkpoints/ after
+ * every page. If the process dies or gets rate-limited mid-way, re-running
+ * the same command with --resume continues from the last saved page instead
+ * of re-fetching (and re-billing) from page one.
+ */
+
+import { chmodSync, existsSync, mkdirSync, readFileSync, renameSync, unlinkSync, writeFileSync } from "fs";
+import { join } from "path";
+import { createHash } from "crypto";
+import { reportProgress, throwIfCancelled } from "./request_context";
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+export type CheckpointParams = Record<string, string | number | boolean | undefined>;
+
+export interface Checkpoint<T = unknown> {
+  key: string;
+  endpoint: string;
+  params: CheckpointParams;
+  state: Record<string, string>;
+  next_token: string;
+  pages: number;
+  items: T[];
+  started_at: string;
+  updated_at: string;
+}
+
+export interface PageResult<T> {
+  items: T[];
+  nextToken?: string;
+}
+
+export interface PaginateOptions<T> {
+  endpoint: string;          // e.g. "/2/users/:id/followers" (for display)
+  params: CheckpointParams;  // identifies the fetch; same params = same checkpoint
+  maxPages: number;
+  resume?: boolean;
+  /** Values resolved on the first run (e.g. absolute start_time) reused on resume. */
+  state?: Record<string, string>;
+  /** Stop early once enough items are collected. */
+  isDone?: (items: T[]) => boolean;
+  fetchPage: (nextToken: string | undefined, state: Record<string, string>, collected: T[]) => Promise<PageResult<T>>;
+}
+
+export interface PaginateResult<T> {
+  items: T[];
+  pages: number;
+  resumed: boolean;
+  /** Items fetched by this call, excluding those reloaded from a checkpoint (what to bill). */
+  fetched: number;
+  /** Stopped at maxPages (or isDone) while the API still had a next page. */
+  truncated: boolean;
+}
+
+// ---------------------------------------------------------------------------
+// Storage
+// ---------------------------------------------------------------------------
+
+const CHECKPOINTS_DIR = join(import.meta.dir, "..", "data", "checkpoints");
+
+function checkpointsDir(): string {
+  return process.env.XINT_CHECKPOINTS_DIR || CHECKPOINTS_DIR;
+}
+
+export function checkpointKey(endpoint: string, params: CheckpointParams): string {
+  const normalized = Object.keys(params)
+    .filter((k) => params[k] !== undefined)
+    .sort()
+    .map((k) => `${k}=${params[k]}`)
+    .join("&");
+  return createHash("md5").update(`${endpoint}|${normalized}`).digest("hex").slice(0, 12);
+}
+
+function checkpointPath(key: string): string {
+  return join(checkpointsDir(), `${key}.json`);
+}
+
+export function loadCheckpoint<T = unknown>(key: string): Checkpoint<T> | null {
+  const path = checkpointPath(key);
+  if (!existsSync(path)) return null;
+  try {
+    return JSON.parse(readFileSync(path, "utf-8")) as Checkpoint<T>;
+  } catch {
+    return null;
+  }
+}
+
+function saveCheckpoint(cp: Checkpoint<unknown>): void {
+  mkdirSync(checkpointsDir(), { recursive: true });
+  const path = checkpointPath(cp.key);
+  const tmp = path + ".tmp";
+  writeFileSync(tmp, JSON.stringify(cp), "utf-8");
+  chmodSync(tmp, 0o660);
+  renameSync(tmp, path);
+}
+
+export function clearCheckpoint(key: string): void {
+  const path = checkpointPath(key);
+  if (existsSync(path)) unlinkSync(path);
+}
+
+// ---------------------------------------------------------------------------
+// Pagination
+// ---------------------------------------------------------------------------
+
+/**
+ * Run a next_token loop, saving a checkpoint after every page that has a
+ * follow-up token and is not the last one allowed. The checkpoint is removed once the loop finishes; on error
+ * it stays on disk so the caller can be re-run with --resume.
+ */
+export async function paginate<T>(opts: PaginateOptions<T>): Promise<PaginateResult<T>> {
+  const key = checkpointKey(opts.endpoint, opts.params);
+  const existing = loadCheckpoint<T>(key);
+
+  let items: T[] = [];
+  let pages = 0;
+  let nextToken: string | undefined;
+  let state = opts.state || {};
+  let startedAt = new Date().toISOString();
+  let resumed = false;
+  let saved = false;
+  let reloaded = 0;
+
+  if (existing && opts.resume) {
+    items = existing.items;
+    pages = existing.pages;
+    nextToken = existing.next_token;
+    state = existing.state || state;
+    startedAt = existing.started_at;
+    resumed = true;
+    saved = true;
+    reloaded = items.length;
+    console.error(`[checkpoint] Resuming ${opts.endpoint} from page ${pages + 1} (${items.length} items saved)`);
+  } else if (existing) {
+    console.error(`[checkpoint] Ignoring unfinished ${opts.endpoint} fetch from ${existing.updated_at} (pass --resume to continue it)`);
+  } else if (opts.resume) {
+    console.error(`[checkpoint] No checkpoint for ${opts.endpoint}; starting from page 1`);
+  }
+
+  try {
+    while (pages < opts.maxPages) {
+      if (opts.isDone?.(items)) break;
+      throwIfCancelled();
+      const page = await opts.fetchPage(nextToken, state, items);
+      items.push(...page.items);
+      pages++;
+      nextToken = page.nextToken;
+      reportProgress(pages, nextToken ? opts.maxPages : pages, `${opts.endpoint}: page ${pages}, ${items.length} items`);
+      // Nothing left to resume once the last page allowed is in.
+      if (!nextToken || pages >= opts.maxPages) break;
+
+      saveCheckpoint({
+        key,
+        endpoint: opts.endpoint,
+        params: opts.params,
+        state,
+        next_token: nextToken,
+        pages,
+        items,
+        started_at: startedAt,
+        updated_at: new Date().toISOString(),
+      });
+      saved = true;
+    }
+  } catch (err) {
+    if (saved) {
+      console.error(`[checkpoint] Saved ${pages} page(s) of ${opts.endpoint}; re-run with --resume to continue`);
+    }
+    throw err;
+  }
+
+  clearCheckpoint(key);
+  return { items, pages, resumed, fetched: items.length - reloaded, truncated: nextToken !== undefined };
+}
@@ -0,0 +1,30 @@
+/**
+ * lib/config_file.ts — Load JSON or YAML config files.
+ *
+ * Shared by the watch daemon config, alert rules, stream rule sets and stream
+ * routes. Files ending in .yaml/.yml are parsed with Bun.YAML (Bun 1.2.21+,
+ * see engines in package.json); everything else is JSON. Validation of the
+ * parsed value is left to each caller.
+ */
+
+import { existsSync, readFileSync } from "fs";
+import { extname } from "path";
+
+/**
+ * Read and parse a config file. `label` names it in errors
+ * ("Watch config not found: ...").
+ */
+export function loadConfigFile(path: string, label: string): unknown {
+  if (!existsSync(path)) throw new Error(`${label} not found: ${path}`);
+  const text = readFileSync(path, "utf-8");
+  const ext = extname(path).toLowerCase();
+  const yaml = ext === ".yaml" || ext === ".yml";
+  if (yaml && typeof Bun.YAML?.parse !== "function") {
+    throw new Error(`Could not parse ${path}: YAML needs Bun 1.2.21 or newer (run 'bun upgrade' or use JSON)`);
+  }
+  try {
+    return yaml ? Bun.YAML.parse(text) : JSON.parse(text);
+  } catch (err: any) {
+    throw new Error(`Could not parse ${path}: ${err.message}`);
+  }
+}
@@ -5,7 +5,7 @@
  * budget limit checking for X API v2 pay-per-use pricing.
  */
 
-import { join } from "path";
+import { dirname, join } from "path";
 import { mkdirSync, renameSync, writeFileSync, readFileSync, existsSync, chmodSync } from "fs";
 
 // ---------------------------------------------------------------------------
@@ -54,7 +54,7 @@ export interface BudgetStatus {
 // ---------------------------------------------------------------------------
 
 const SKILL_DIR = import.meta.dir;
-const DATA_FILE = join(SKILL_DIR, "..", "data", "api-costs.json");
+const DEFAULT_DATA_FILE = join(SKILL_DIR, "..", "data", "api-costs.json");
 const RETENTION_DAYS = 30;
 
 export const COST_RATES: Record<string, { per_tweet: number; per_call: number }> = {
@@ -105,6 +105,10 @@ const DEFAULT_BUDGET: BudgetConfig = {
 // Storage helpers
 // ---------------------------------------------------------------------------
 
+function dataFilePath(): string {
+  return process.env.XINT_COSTS_FILE || DEFAULT_DATA_FILE;
+}
+
 function defaultData(): CostData {
   return {
     entries: [],
@@ -115,9 +119,10 @@ function defaultData(): CostData {
 }
 
 function loadData(): CostData {
-  if (!existsSync(DATA_FILE)) return defaultData();
+  const path = dataFilePath();
+  if (!existsSync(path)) return defaultData();
   try {
-    const raw = readFileSync(DATA_FILE, "utf-8");
+    const raw = readFileSync(path, "utf-8");
     const data = JSON.parse(raw) as CostData;
     // Ensure budget fields exist (forward-compat)
     data.budget = { ...DEFAULT_BUDGET, ...data.budget };
@@ -132,12 +137,12 @@ function loadData(): CostData {
 }
 
 function saveData(data: CostData): void {
-  const dir = join(SKILL_DIR, "..", "data");
-  mkdirSync(dir, { recursive: true });
-  const tmp = DATA_FILE + ".tmp";
+  const path = dataFilePath();
+  mkdirSync(dirname(path), { recursive: true });
+  const tmp = path + ".tmp";
   writeFileSync(tmp, JSON.stringify(data, null, 2), "utf-8");
   chmodSync(tmp, 0o660);
-  renameSync(tmp, DATA_FILE);
+  renameSync(tmp, path);
 }
 
 function todayStr(): string {
@@ -0,0 +1,113 @@
+import { afterEach, beforeEach, describe, expect, test } from "bun:test";
+import { BASE, oauthDelete, oauthPost, oauthPut } from "./api";
+import { interceptWrite, planWrite, previewWrite } from "./dry_run";
+import { MCPServer } from "./mcp";
+import { toolOutputSchema, validateJsonSchema } from "./mcp_schemas";
+import { addRule, deleteRules } from "./stream";
+
+describe("planWrite", () => {
+  test("maps write endpoints to cost operations and OAuth scopes", () => {
+    const cases: Array<[Parameters<typeof planWrite>[0], string, unknown, string, string]> = [
+      ["POST", `${BASE}/users/1/following`, { target_user_id: "2" }, "follow", "follows.write"],
+      ["DELETE", `${BASE}/users/1/following/2`, undefined, "unfollow", "follows.write"],
+      ["POST", `${BASE}/users/1/bookmarks`, { tweet_id: "9" }, "bookmark_save", "bookmark.write"],
+      ["POST", `${BASE}/users/1/blocking`, { target_user_id: "2" }, "blocks_add", "block.write"],
+      ["DELETE", `${BASE}/users/1/muting/2`, undefined, "mutes_remove", "mute.write"],
+      ["PUT", `${BASE}/lists/7`, { name: "AI" }, "lists_update", "list.write"],
+      ["POST", `${BASE}/lists/7/members`, { user_id: "2" }, "list_members_add", "list.write"],
+    ];
+    for (const [method, url, body, operation, scope] of cases) {
+      const plan = planWrite(method, url, body, "oauth2_user");
+      expect(plan).toMatchObject({ dry_run: true, operation, estimated_cost_usd: 0.01 });
+      expect(plan.auth.required_scopes).toEqual(["tweet.read", "users.read", scope]);
+      for (const missing of plan.auth.missing_scopes) expect(plan.auth.required_scopes).toContain(missing);
+    }
+  });
+
+  test("never exposes the access token", () => {
+    const plan = planWrite("POST", `${BASE}/users/1/likes`, { tweet_id: "9" }, "oauth2_user");
+    expect(plan.request).toEqual({
+      method: "POST",
+      url: `${BASE}/users/1/likes`,
+      headers: { Authorization: "Bearer <oauth2 user access token>", "Content-Type": "application/json" },
+      body: { tweet_id: "9" },
+    });
+  });
+
+  test("unknown endpoints get a warning and no estimate", () => {
+    const plan = planWrite("POST", `${BASE}/tweets`, { text: "hi" }, "oauth2_user");
+    expect(plan.operation).toBe("unknown");
+    expect(plan.estimated_cost_usd).toBe(0);
+    expect(plan.warnings[0]).toContain("No cost rate");
+  });
+});
+
+describe("dry-run interception", () => {
+  const originalToken = process.env.X_BEARER_TOKEN;
+
+  beforeEach(() => {
+    process.env.X_BEARER_TOKEN = "test-bearer";
+  });
+
+  afterEach(() => {
+    if (originalToken === undefined) delete process.env.X_BEARER_TOKEN;
+    else process.env.X_BEARER_TOKEN = originalToken;
+  });
+
+  test("is a no-op outside dry-run mode", () => {
+    expect(() => interceptWrite("POST", `${BASE}/users/1/likes`, {}, "oauth2_user")).not.toThrow();
+  });
+
+  test("stops the OAuth write helpers before anything is sent", async () => {
+    const post = await previewWrite(() => oauthPost(`${BASE}/users/1/following`, "token", { target_user_id: "2" }));
+    expect(post).toMatchObject({ operation: "follow", request: { method: "POST", body: { target_user_id: "2" } } });
+
+    const put = await previewWrite(() => oauthPut(`${BASE}/lists/7`, "token", { private: true }));
+    expect(put?.operation).toBe("lists_update");
+
+    const del = await previewWrite(() => oauthDelete(`${BASE}/lists/7/members/2`, "token"));
+    expect(del?.request).not.toHaveProperty("body");
+    expect(del?.operation).toBe("list_members_remove");
+  });
+
+  test("stream rule writes are planned as app bearer requests", async () => {
+    const add = await previewWrite(() => addRule("from:openai", "ai"));
+    expect(add).toMatchObject({
+      operation: "stream_rules_add",
+      request: { body: { add: [{ value: "from:openai", tag: "ai" }] } },
+      auth: { type: "app_bearer", required_scopes: [] },
+    });
+    const del = await previewWrite(() => deleteRules(["1", "2"]));
+    expect(del).toMatchObject({ operation: "stream_rules_delete", request: { body: { delete: { ids: ["1", "2"] } } } });
+  });
+
+  test("returns null when nothing would be written", async () => {
+    expect(await previewWrite(async () => "read only")).toBeNull();
+  });
+
+  test("MCP dry_run returns the plan and matches the output schema", async () => {
+    for (const policyMode of ["engagement", "approval"] as const) {
+      const mcp = new MCPServer({ policyMode, enforceBudget: false });
+      const response = JSON.parse(String(await mcp.handleMessage(JSON.stringify({
+        jsonrpc: "2.0",
+        id: 1,
+        method: "tools/call",
+        params: { name: "xint_stream_rules_delete", arguments: { ids: ["42"], dry_run: true } },
+      }))));
+      const envelope = response.result.structuredContent;
+      expect(envelope).toMatchObject({ type: "info", data: { dry_run: true, operation: "stream_rules_delete" } });
+      expect(validateJsonSchema(envelope, toolOutputSchema("xint_stream_rules_delete"))).toEqual([]);
+    }
+  });
+
+  test("MCP write tools advertise dry_run", async () => {
+    const mcp = new MCPServer({ policyMode: "moderation", enforceBudget: false });
+    const { result } = JSON.parse(String(await mcp.handleMessage(JSON.stringify({ jsonrpc: "2.0", id: 1, method: "tools/list" }))));
+    const withDryRun = result.tools.filter((t: any) => t.inputSchema.properties?.dry_run).map((t: any) => t.name);
+    expect(withDryRun).toContain("xint_follow");
+    expect(withDryRun).toContain("xint_list_members_add");
+    expect(withDryRun).toContain("xint_block");
+    expect(withDryRun).not.toContain("xint_search");
+    expect(withDryRun).not.toContain("xint_package_publish");
+  });
+});
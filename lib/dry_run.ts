@@ -0,0 +1,186 @@
+/**
+ * lib/dry_run.ts — Preview write commands without sending them.
+ *
+ * Under `--dry-run` (CLI) or `dry_run: true` (MCP write tools) everything up
+ * to the first write runs as usual: policy checks, OAuth token refresh, user
+ * and tweet lookups. The write helpers in api.ts (oauthPost, oauthPut,
+ * oauthDelete, bearerPost) then stop with a DryRunStop carrying the exact
+ * request, the COST_RATES estimate and an OAuth scope check instead of
+ * calling X.
+ */
+
+import { APPROVAL_TOOLS } from "./approvals";
+import { COST_RATES } from "./costs";
+import { loadTokens } from "./oauth";
+import { isDryRun, runDryRun } from "./request_context";
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+export type WriteMethod = "POST" | "PUT" | "DELETE";
+
+export interface PlannedRequest {
+  method: WriteMethod;
+  url: string;
+  headers: Record<string, string>;
+  body?: unknown;
+}
+
+export interface DryRunPlan {
+  dry_run: true;
+  /** COST_RATES operation the request is billed as. */
+  operation: string;
+  request: PlannedRequest;
+  estimated_cost_usd: number;
+  auth: {
+    type: "oauth2_user" | "app_bearer";
+    username?: string;
+    required_scopes: string[];
+    missing_scopes: string[];
+  };
+  warnings: string[];
+}
+
+/** Thrown by the api.ts write helpers in dry-run mode instead of sending. */
+export class DryRunStop extends Error {
+  constructor(readonly plan: DryRunPlan) {
+    super(`Dry run: ${plan.request.method} ${plan.request.url} was not sent`);
+  }
+}
+
+// ---------------------------------------------------------------------------
+// Constants
+// ---------------------------------------------------------------------------
+
+/** MCP write tools that accept `dry_run` (package publishing isn't an X API call). */
+export const DRY_RUN_TOOLS = new Set([...APPROVAL_TOOLS].filter((name) => name !== "xint_package_publish"));
+
+const BASE_SCOPES = ["tweet.read", "users.read"];
+
+/** X API v2 write endpoints: method, path (after /2), COST_RATES operation, write scope. */
+const WRITE_ENDPOINTS: Array<[WriteMethod, RegExp, string, string]> = [
+  ["POST", /^\/users\/[^/]+\/likes$/, "like", "like.write"],
+  ["DELETE", /^\/users\/[^/]+\/likes\/[^/]+$/, "unlike", "like.write"],
+  ["POST", /^\/users\/[^/]+\/following$/, "follow", "follows.write"],
+  ["DELETE", /^\/users\/[^/]+\/following\/[^/]+$/, "unfollow", "follows.write"],
+  ["POST", /^\/users\/[^/]+\/bookmarks$/, "bookmark_save", "bookmark.write"],
+  ["DELETE", /^\/users\/[^/]+\/bookmarks\/[^/]+$/, "bookmark_remove", "bookmark.write"],
+  ["POST", /^\/users\/[^/]+\/blocking$/, "blocks_add", "block.write"],
+  ["DELETE", /^\/users\/[^/]+\/blocking\/[^/]+$/, "blocks_remove", "block.write"],
+  ["POST", /^\/users\/[^/]+\/muting$/, "mutes_add", "mute.write"],
+  ["DELETE", /^\/users\/[^/]+\/muting\/[^/]+$/, "mutes_remove", "mute.write"],
+  ["POST", /^\/lists$/, "lists_create", "list.write"],
+  ["PUT", /^\/lists\/[^/]+$/, "lists_update", "list.write"],
+  ["DELETE", /^\/lists\/[^/]+$/, "lists_delete", "list.write"],
+  ["POST", /^\/lists\/[^/]+\/members$/, "list_members_add", "list.write"],
+  ["DELETE", /^\/lists\/[^/]+\/members\/[^/]+$/, "list_members_remove", "list.write"],
+];
+
+// ---------------------------------------------------------------------------
+// Planning
+// ---------------------------------------------------------------------------
+
+/** COST_RATES operation (and OAuth write scope) for an X API write request. */
+export function writeOperation(method: WriteMethod, url: string, body: unknown): { operation: string; scope?: string } {
+  const path = new URL(url).pathname.replace(/^\/2/, "");
+  if (path === "/tweets/search/stream/rules") {
+    const deleting = !!body && typeof body === "object" && "delete" in body;
+    return { operation: deleting ? "stream_rules_delete" : "stream_rules_add" };
+  }
+  const match = WRITE_ENDPOINTS.find(([m, re]) => m === method && re.test(path));
+  return match ? { operation: match[2], scope: match[3] } : { operation: "unknown" };
+}
+
+/** Describe a write request as it would be sent. */
+export function planWrite(
+  method: WriteMethod,
+  url: string,
+  body: unknown,
+  authType: "oauth2_user" | "app_bearer",
+): DryRunPlan {
+  const { operation, scope } = writeOperation(method, url, body);
+  const rate = COST_RATES[operation];
+  const warnings: string[] = [];
+  if (!rate) warnings.push(`No cost rate for ${method} ${url}; estimate is $0.`);
+
+  const headers: Record<string, string> = {
+    Authorization: authType === "oauth2_user" ? "Bearer <oauth2 user access token>" : "Bearer <X_BEARER_TOKEN>",
+  };
+  if (body !== undefined) headers["Content-Type"] = "application/json";
+
+  let username: string | undefined;
+  let required: string[] = [];
+  let missing: string[] = [];
+  if (authType === "oauth2_user") {
+    const tokens = loadTokens();
+    username = tokens?.username;
+    required = scope ? [...BASE_SCOPES, scope] : BASE_SCOPES;
+    const granted = new Set((tokens?.scope || "").split(/\s+/).filter(Boolean));
+    missing = required.filter((s) => !granted.has(s));
+    if (missing.length > 0) {
+      warnings.push(`OAuth token is missing ${missing.join(", ")}; X would reject this. Re-run 'xint auth setup'.`);
+    }
+  }
+
+  return {
+    dry_run: true,
+    operation,
+    request: { method, url, headers, ...(body !== undefined && { body }) },
+    estimated_cost_usd: rate ? rate.per_call : 0,
+    auth: { type: authType, ...(username && { username }), required_scopes: required, missing_scopes: missing },
+    warnings,
+  };
+}
+
+/** Called by the api.ts write helpers: in dry-run mode, stop before sending. */
+export function interceptWrite(
+  method: WriteMethod,
+  url: string,
+  body: unknown,
+  authType: "oauth2_user" | "app_bearer",
+): void {
+  if (!isDryRun()) return;
+  throw new DryRunStop(planWrite(method, url, body, authType));
+}
+
+/**
+ * Run fn in dry-run mode. Returns the plan for the first write it would have
+ * sent, or null if it finished without writing anything.
+ */
+export async function previewWrite(fn: () => Promise<unknown>): Promise<DryRunPlan | null> {
+  try {
+    await runDryRun(fn);
+    return null;
+  } catch (e) {
+    if (e instanceof DryRunStop) return e.plan;
+    throw e;
+  }
+}
+
+export function printDryRunPlan(plan: DryRunPlan | null, json: boolean): void {
+  if (!plan) {
+    // stderr, so a read command's --json output stays parseable.
+    console.error("\n🧪 Dry run: no write request would be sent.");
+    return;
+  }
+  if (json) {
+    console.log(JSON.stringify(plan, null, 2));
+    return;
+  }
+
+  const { request, auth } = plan;
+  console.log("\n🧪 Dry run: nothing was sent.\n");
+  console.log(`  ${request.method} ${request.url}`);
+  for (const [name, value] of Object.entries(request.headers)) console.log(`  ${name}: ${value}`);
+  if (request.body !== undefined) console.log(`\n  ${JSON.stringify(request.body)}`);
+  console.log();
+  console.log(`  Operation:  ${plan.operation} (est. $${plan.estimated_cost_usd.toFixed(4)})`);
+  if (auth.type === "oauth2_user") {
+    const scopes = auth.missing_scopes.length === 0 ? "scopes ok" : `missing ${auth.missing_scopes.join(", ")}`;
+    console.log(`  Auth:       OAuth 2.0 user${auth.username ? ` @${auth.username}` : ""}, ${scopes} (${auth.required_scopes.join(" ")})`);
+  } else {
+    console.log("  Auth:       app bearer token");
+  }
+  for (const warning of plan.warnings) console.log(`  ⚠️  ${warning}`);
+}
@@ -10,6 +10,7 @@ import { parseSince } from "./api";
 import { trackCost } from "./costs";
 import * as fmt from "./format";
 import * as cache from "./cache";
+import { archiveTweets } from "./archive";
 
 // ── Liked Tweets ───────────────────────────────────────────────────────
 
@@ -86,6 +87,7 @@ export async function cmdLikes(args: string[]): Promise<void> {
     const accessToken = await getValidToken();
     tweets = await fetchLikedTweets(userId, accessToken, Math.max(limit, 100));
     trackCost("likes", `/2/users/me/liked_tweets`, tweets.length);
+    archiveTweets(tweets, "likes");
     cache.set(cacheKey, "", tweets);
   }
 
@@ -311,7 +313,7 @@ function isLikelyUserId(input: string): boolean {
   return /^\d+$/.test(input);
 }
 
-async function resolveTargetUser(input: string, accessToken: string): Promise<{ id: string; username: string }> {
+export async function resolveTargetUser(input: string, accessToken: string): Promise<{ id: string; username: string }> {
   const value = input.replace(/^@/, "");
   if (isLikelyUserId(value)) {
     return { id: value, username: value };
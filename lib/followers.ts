@@ -7,9 +7,10 @@
 
 import { readFileSync, writeFileSync, existsSync, mkdirSync, readdirSync } from "fs";
 import { join } from "path";
-import { BASE, FIELDS, sleep, oauthGet } from "./api";
+import { BASE, FIELDS, oauthGet } from "./api";
 import { getValidToken } from "./oauth";
 import { trackCost } from "./costs";
+import { paginate, type PaginateResult } from "./checkpoint";
 
 // ---------------------------------------------------------------------------
 // Types
@@ -44,18 +45,22 @@ export interface FollowerDiff {
 // ---------------------------------------------------------------------------
 
 const SKILL_DIR = import.meta.dir;
-const SNAPSHOTS_DIR = join(SKILL_DIR, "..", "data", "snapshots");
+const DEFAULT_SNAPSHOTS_DIR = join(SKILL_DIR, "..", "data", "snapshots");
 
 // ---------------------------------------------------------------------------
 // Snapshot storage
 // ---------------------------------------------------------------------------
 
+function snapshotsDir(): string {
+  return process.env.XINT_SNAPSHOTS_DIR || DEFAULT_SNAPSHOTS_DIR;
+}
+
 function ensureDir(): void {
-  if (!existsSync(SNAPSHOTS_DIR)) mkdirSync(SNAPSHOTS_DIR, { recursive: true });
+  if (!existsSync(snapshotsDir())) mkdirSync(snapshotsDir(), { recursive: true });
 }
 
 function snapshotPath(username: string, type: string, date: string): string {
-  return join(SNAPSHOTS_DIR, `${username.toLowerCase()}-${type}-${date}.json`);
+  return join(snapshotsDir(), `${username.toLowerCase()}-${type}-${date}.json`);
 }
 
 function saveSnapshot(snap: Snapshot): string {
@@ -69,7 +74,7 @@ function saveSnapshot(snap: Snapshot): string {
 function loadLatestSnapshot(username: string, type: string): Snapshot | null {
   ensureDir();
   const prefix = `${username.toLowerCase()}-${type}-`;
-  const files = readdirSync(SNAPSHOTS_DIR)
+  const files = readdirSync(snapshotsDir())
     .filter(f => f.startsWith(prefix) && f.endsWith(".json"))
     .sort()
     .reverse();
@@ -77,7 +82,7 @@ function loadLatestSnapshot(username: string, type: string): Snapshot | null {
   if (files.length === 0) return null;
 
   try {
-    return JSON.parse(readFileSync(join(SNAPSHOTS_DIR, files[0]), "utf-8"));
+    return JSON.parse(readFileSync(join(snapshotsDir(), files[0]), "utf-8"));
   } catch {
     return null;
   }
@@ -86,7 +91,7 @@ function loadLatestSnapshot(username: string, type: string): Snapshot | null {
 function listSnapshots(username: string, type: string): string[] {
   ensureDir();
   const prefix = `${username.toLowerCase()}-${type}-`;
-  return readdirSync(SNAPSHOTS_DIR)
+  return readdirSync(snapshotsDir())
     .filter(f => f.startsWith(prefix) && f.endsWith(".json"))
     .sort()
     .reverse();
@@ -104,68 +109,56 @@ async function lookupUserId(username: string, accessToken: string): Promise<stri
   return data.id;
 }
 
-async function fetchFollowers(
+function toUserSnapshot(u: any): UserSnapshot {
+  return {
+    id: u.id,
+    username: u.username,
+    name: u.name,
+    followers_count: u.public_metrics?.followers_count,
+    following_count: u.public_metrics?.following_count,
+  };
+}
+
+async function fetchUserPages(
+  type: "followers" | "following",
   userId: string,
   accessToken: string,
-  maxPages: number = 5
-): Promise<UserSnapshot[]> {
-  const users: UserSnapshot[] = [];
-  let nextToken: string | undefined;
-
-  for (let page = 0; page < maxPages; page++) {
-    const pagination = nextToken ? `&pagination_token=${nextToken}` : "";
-    const url = `${BASE}/users/${userId}/followers?max_results=1000&user.fields=public_metrics,username,name${pagination}`;
-    const raw = await oauthGet(url, accessToken);
-
-    const data = (raw as any).data || [];
-    for (const u of data) {
-      users.push({
-        id: u.id,
-        username: u.username,
-        name: u.name,
-        followers_count: u.public_metrics?.followers_count,
-        following_count: u.public_metrics?.following_count,
-      });
-    }
-
-    nextToken = (raw as any).meta?.next_token;
-    if (!nextToken) break;
-    await sleep(350);
-  }
+  maxPages: number,
+  resume: boolean
+): Promise<PaginateResult<UserSnapshot>> {
+  return paginate<UserSnapshot>({
+    endpoint: `/2/users/:id/${type}`,
+    params: { user_id: userId },
+    maxPages,
+    resume,
+    async fetchPage(nextToken) {
+      const pagination = nextToken ? `&pagination_token=${nextToken}` : "";
+      const url = `${BASE}/users/${userId}/${type}?max_results=1000&user.fields=public_metrics,username,name${pagination}`;
+      const raw = await oauthGet(url, accessToken);
+      return {
+        items: ((raw as any).data || []).map(toUserSnapshot),
+        nextToken: (raw as any).meta?.next_token,
+      };
+    },
+  });
+}
 
-  return users;
+async function fetchFollowers(
+  userId: string,
+  accessToken: string,
+  maxPages: number = 5,
+  resume: boolean = false
+): Promise<PaginateResult<UserSnapshot>> {
+  return fetchUserPages("followers", userId, accessToken, maxPages, resume);
 }
 
 async function fetchFollowing(
   userId: string,
   accessToken: string,
-  maxPages: number = 5
-): Promise<UserSnapshot[]> {
-  const users: UserSnapshot[] = [];
-  let nextToken: string | undefined;
-
-  for (let page = 0; page < maxPages; page++) {
-    const pagination = nextToken ? `&pagination_token=${nextToken}` : "";
-    const url = `${BASE}/users/${userId}/following?max_results=1000&user.fields=public_metrics,username,name${pagination}`;
-    const raw = await oauthGet(url, accessToken);
-
-    const data = (raw as any).data || [];
-    for (const u of data) {
-      users.push({
-        id: u.id,
-        username: u.username,
-        name: u.name,
-        followers_count: u.public_metrics?.followers_count,
-        following_count: u.public_metrics?.following_count,
-      });
-    }
-
-    nextToken = (raw as any).meta?.next_token;
-    if (!nextToken) break;
-    await sleep(350);
-  }
-
-  return users;
+  maxPages: number = 5,
+  resume: boolean = false
+): Promise<PaginateResult<UserSnapshot>> {
+  return fetchUserPages("following", userId, accessToken, maxPages, resume);
 }
 
 // ---------------------------------------------------------------------------
@@ -189,6 +182,51 @@ function computeDiff(previous: Snapshot, current: Snapshot): FollowerDiff {
   };
 }
 
+// ---------------------------------------------------------------------------
+// Snapshot + diff
+// ---------------------------------------------------------------------------
+
+export interface SnapshotResult {
+  current: Snapshot;
+  previous: Snapshot | null;
+  /** Null on the first snapshot for this user and type. */
+  diff: FollowerDiff | null;
+  savedPath: string;
+}
+
+/**
+ * Fetch the current list, save it as today's snapshot and diff it against
+ * the latest earlier snapshot.
+ */
+export async function takeSnapshot(
+  username: string,
+  type: "followers" | "following",
+  accessToken: string,
+  opts: { maxPages?: number; resume?: boolean } = {},
+): Promise<SnapshotResult> {
+  const userId = await lookupUserId(username, accessToken);
+  trackCost("profile", `/2/users/by/username/${username}`, 1);
+
+  const { items: users, fetched } = type === "followers"
+    ? await fetchFollowers(userId, accessToken, opts.maxPages, opts.resume)
+    : await fetchFollowing(userId, accessToken, opts.maxPages, opts.resume);
+  // Users reloaded by --resume were billed on the interrupted run.
+  trackCost(type === "followers" ? "followers" : "following", `/2/users/${userId}/${type}`, fetched);
+
+  const current: Snapshot = {
+    username,
+    type,
+    timestamp: new Date().toISOString(),
+    count: users.length,
+    users,
+  };
+
+  // Load the previous snapshot before saving over today's.
+  const previous = loadLatestSnapshot(username, type);
+  const savedPath = saveSnapshot(current);
+  return { current, previous, diff: previous ? computeDiff(previous, current) : null, savedPath };
+}
+
 // ---------------------------------------------------------------------------
 // Display
 // ---------------------------------------------------------------------------
@@ -235,6 +273,7 @@ export async function cmdDiff(args: string[]): Promise<void> {
   let type: "followers" | "following" = "followers";
   let showHistory = false;
   let asJson = false;
+  let resume = false;
   let maxPages = 5;
 
   const positional: string[] = [];
@@ -251,6 +290,9 @@ export async function cmdDiff(args: string[]): Promise<void> {
       case "--json":
         asJson = true;
         break;
+      case "--resume":
+        resume = true;
+        break;
       case "--pages":
         maxPages = Math.min(parseInt(args[++i] || "5"), 15);
         break;
@@ -280,7 +322,7 @@ export async function cmdDiff(args: string[]): Promise<void> {
     console.log(`\nSnapshots for @${username} (${type}):\n`);
     for (const f of files) {
       try {
-        const snap: Snapshot = JSON.parse(readFileSync(join(SNAPSHOTS_DIR, f), "utf-8"));
+        const snap: Snapshot = JSON.parse(readFileSync(join(snapshotsDir(), f), "utf-8"));
         console.log(`  ${snap.timestamp.slice(0, 10)} — ${snap.count} ${type}`);
       } catch {
         console.log(`  ${f} (corrupted)`);
@@ -301,40 +343,13 @@ export async function cmdDiff(args: string[]): Promise<void> {
   }
 
   console.error(`Fetching ${type} for @${username}...`);
+  const { current, diff, savedPath } = await takeSnapshot(username, type, token, { maxPages, resume });
+  console.error(`Found ${current.count} ${type}`);
+  console.error(`Snapshot saved to ${savedPath}`);
+  const users = current.users;
 
-  // Look up user ID
-  const userId = await lookupUserId(username, token);
-  trackCost("profile", `/2/users/by/username/${username}`, 1);
-
-  // Fetch current list
-  const users = type === "followers"
-    ? await fetchFollowers(userId, token, maxPages)
-    : await fetchFollowing(userId, token, maxPages);
-
-  trackCost(type === "followers" ? "followers" : "following", `/2/users/${userId}/${type}`, users.length);
-
-  console.error(`Found ${users.length} ${type}`);
-
-  // Create current snapshot
-  const current: Snapshot = {
-    username,
-    type,
-    timestamp: new Date().toISOString(),
-    count: users.length,
-    users,
-  };
-
-  // Load previous snapshot for diff
-  const previous = loadLatestSnapshot(username, type);
-
-  // Save current snapshot
-  const savePath = saveSnapshot(current);
-  console.error(`Snapshot saved to ${savePath}`);
-
-  // Compute and display diff
-  if (previous) {
-    const diff = computeDiff(previous, current);
-
+  // Display diff
+  if (diff) {
     if (asJson) {
       console.log(JSON.stringify(diff, null, 2));
     } else {
@@ -371,11 +386,13 @@ Options:
   --history       Show all saved snapshots for this user
   --pages <N>     Max pages to fetch, 1-15 (default: 5, ~5000 users)
   --json          Output diff as JSON
+  --resume        Continue an interrupted fetch from its last saved page
 
 Examples:
   xint diff @vitalikbuterin              # snapshot + diff followers
   xint diff @0xNyk --following            # track following changes
   xint diff @elonmusk --history           # list all snapshots
   xint diff @solana_legend --json         # diff as structured JSON
+  xint diff @elonmusk --pages 15 --resume # continue a crashed large snapshot
 `);
 }
@@ -4,7 +4,7 @@
 
 import type { Tweet, UrlEntity } from "./api";
 
-function compactNumber(n: number): string {
+export function compactNumber(n: number): string {
   if (n >= 1_000_000) return `${(n / 1_000_000).toFixed(1)}M`;
   if (n >= 1_000) return `${(n / 1_000).toFixed(1)}K`;
   return String(n);
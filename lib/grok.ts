@@ -8,6 +8,7 @@
 import { readFileSync } from "fs";
 import { join } from "path";
 import type { Tweet } from "./api";
+import { currentSignal } from "./request_context";
 
 // ---------------------------------------------------------------------------
 // Types
@@ -98,6 +99,7 @@ export async function grokChat(
 
   const res = await fetch(XAI_ENDPOINT, {
     method: "POST",
+    signal: currentSignal(),
     headers: {
       "Content-Type": "application/json",
       Authorization: `Bearer ${apiKey}`,
@@ -283,6 +285,7 @@ export async function analyzeImage(
 
   const res = await fetch(XAI_ENDPOINT, {
     method: "POST",
+    signal: currentSignal(),
     headers: {
       "Content-Type": "application/json",
       Authorization: `Bearer ${apiKey}`,
@@ -0,0 +1,147 @@
+import { afterEach, beforeEach, describe, expect, test } from "bun:test";
+import { mkdtempSync, readFileSync, rmSync, writeFileSync } from "fs";
+import { tmpdir } from "os";
+import { join } from "path";
+import { BASE } from "./api";
+import {
+  cmdJournal,
+  inverseRequest,
+  loadJournal,
+  recordWrite,
+  type InverseRequest,
+  type JournalCommandDeps,
+} from "./journal";
+import { runAsActor } from "./request_context";
+
+const ME = `${BASE}/users/1001`;
+
+describe("action journal", () => {
+  let dir: string;
+  const logs: string[] = [];
+  const originalLog = console.log;
+  const originalError = console.error;
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), "xint-journal-"));
+    process.env.XINT_JOURNAL_FILE = join(dir, "journal.jsonl");
+    process.env.XINT_POLICY_FILE = join(dir, "xint.policy.json");
+    process.env.XINT_POLICY_USAGE_FILE = join(dir, "policy-usage.json");
+    logs.length = 0;
+    console.log = (...parts: unknown[]) => logs.push(parts.join(" "));
+    console.error = () => undefined;
+  });
+
+  afterEach(() => {
+    console.log = originalLog;
+    console.error = originalError;
+    delete process.env.XINT_JOURNAL_FILE;
+    delete process.env.XINT_POLICY_FILE;
+    delete process.env.XINT_POLICY_USAGE_FILE;
+    process.exitCode = 0;
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  /** Fake sender: journals the inverse as api.ts would after a 200. */
+  function deps(policyMode: JournalCommandDeps["policyMode"] = "moderation"): JournalCommandDeps & { sent: InverseRequest[] } {
+    const sent: InverseRequest[] = [];
+    return {
+      sent,
+      policyMode,
+      send: async (request) => {
+        sent.push(request);
+        recordWrite(request.method, request.url, request.body, { data: {} }, request.auth);
+      },
+    };
+  }
+
+  test("records writes with the acting source and policy mode", async () => {
+    await runAsActor({ source: "mcp", policyMode: "engagement" }, async () => {
+      recordWrite("POST", `${ME}/following`, { target_user_id: "42" }, { data: { following: true } }, "oauth2_user");
+    });
+    recordWrite("POST", `${BASE}/tweets/search/stream/rules`, { add: [{ value: "xint" }] }, { data: [{ id: "r1", value: "xint" }] }, "app_bearer");
+
+    const [follow, rule] = loadJournal();
+    expect(follow).toMatchObject({ source: "mcp", policy_mode: "engagement", operation: "follow", method: "POST" });
+    expect(follow.id).toMatch(/^j_/);
+    expect(rule).toMatchObject({ source: "cli", user: null, operation: "stream_rules_add", created_ids: ["r1"] });
+    expect(readFileSync(process.env.XINT_JOURNAL_FILE!, "utf-8").trim().split("\n")).toHaveLength(2);
+  });
+
+  test("builds inverse requests", () => {
+    const entry = (operation: string, method: "POST" | "DELETE", url: string, body?: unknown, created_ids?: string[]) => ({
+      id: "j_1", at: "", user: null, source: "cli" as const, policy_mode: "engagement", operation, method, url, body, created_ids,
+    });
+
+    expect(inverseRequest(entry("like", "POST", `${ME}/likes`, { tweet_id: "77" }))).toMatchObject({
+      method: "DELETE", url: `${ME}/likes/77`, operation: "unlike",
+    });
+    expect(inverseRequest(entry("blocks_remove", "DELETE", `${ME}/blocking/42`))).toMatchObject({
+      method: "POST", url: `${ME}/blocking`, body: { target_user_id: "42" }, operation: "blocks_add",
+    });
+    expect(inverseRequest(entry("list_members_add", "POST", `${BASE}/lists/9/members`, { user_id: "42" }))).toMatchObject({
+      method: "DELETE", url: `${BASE}/lists/9/members/42`,
+    });
+    expect(inverseRequest(entry("lists_create", "POST", `${BASE}/lists`, { name: "AI" }, ["9"]))).toMatchObject({
+      method: "DELETE", url: `${BASE}/lists/9`, operation: "lists_delete",
+    });
+    expect(inverseRequest(entry("stream_rules_add", "POST", `${BASE}/tweets/search/stream/rules`, {}, ["r1", "r2"]))).toMatchObject({
+      auth: "app_bearer", body: { delete: { ids: ["r1", "r2"] } },
+    });
+    expect(inverseRequest(entry("lists_delete", "DELETE", `${BASE}/lists/9`))).toBeNull();
+  });
+
+  test("undo <id> sends the inverse and links it to the entry", async () => {
+    recordWrite("POST", `${ME}/blocking`, { target_user_id: "42" }, {}, "oauth2_user");
+    const [block] = loadJournal();
+    const d = deps();
+
+    await cmdJournal(["undo", block.id], d);
+    expect(d.sent).toEqual([{ method: "DELETE", url: `${ME}/blocking/42`, auth: "oauth2_user", operation: "blocks_remove" }]);
+    const [, unblock] = loadJournal();
+    expect(unblock).toMatchObject({ operation: "blocks_remove", undo_of: block.id, policy_mode: "moderation" });
+
+    await expect(cmdJournal(["undo", block.id], d)).rejects.toThrow(`already undone by ${unblock.id}`);
+
+    logs.length = 0;
+    await cmdJournal(["list"], d);
+    expect(logs.join("\n")).toContain(`undone by ${unblock.id}`);
+  });
+
+  test("undo --since unwinds newest first and skips what can't be undone", async () => {
+    recordWrite("POST", `${ME}/likes`, { tweet_id: "1" }, {}, "oauth2_user");
+    await runAsActor({ source: "mcp", policyMode: "engagement" }, async () => {
+      recordWrite("POST", `${ME}/following`, { target_user_id: "42" }, {}, "oauth2_user");
+      recordWrite("DELETE", `${BASE}/lists/9`, undefined, {}, "oauth2_user");
+      recordWrite("POST", `${ME}/likes`, { tweet_id: "2" }, {}, "oauth2_user");
+    });
+    const d = deps("engagement");
+
+    await cmdJournal(["undo", "--since", "1h", "--source", "mcp", "--json"], d);
+    expect(d.sent.map((r) => r.url)).toEqual([`${ME}/likes/2`, `${ME}/following/42`]);
+    const results = JSON.parse(logs.join("\n"));
+    expect(results.map((r: any) => r.undo || r.skipped)).toEqual(["unlike", "not undoable", "unfollow"]);
+
+    // Undo entries and already-undone ones are left alone on a second pass.
+    d.sent.length = 0;
+    await cmdJournal(["undo", "--since", "1h", "--source", "mcp"], d);
+    expect(d.sent).toEqual([]);
+  });
+
+  test("undo needs the inverse action's policy mode and passes the policy file", async () => {
+    recordWrite("POST", `${ME}/muting`, { target_user_id: "42" }, {}, "oauth2_user");
+    recordWrite("POST", `${ME}/likes`, { tweet_id: "7" }, {}, "oauth2_user");
+    const [mute, like] = loadJournal();
+    const d = deps("engagement");
+
+    await cmdJournal(["undo", mute.id], d);
+    expect(d.sent).toEqual([]);
+    expect(process.exitCode).toBe(1);
+    expect(logs.join("\n")).toContain("requires 'moderation' policy mode");
+
+    writeFileSync(process.env.XINT_POLICY_FILE!, JSON.stringify({ deny: ["unlike"] }));
+    logs.length = 0;
+    await cmdJournal(["undo", like.id, "--json"], d);
+    expect(d.sent).toEqual([]);
+    expect(JSON.parse(logs.join("\n"))[0].error).toContain("POLICY_DENIED");
+  });
+});
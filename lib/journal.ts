@@ -0,0 +1,446 @@
+/**
+ * lib/journal.ts — Append-only journal of account writes, with undo.
+ *
+ * Every successful X API write sent through api.ts (like, follow, bookmark,
+ * list and member edits, blocks, mutes, stream rules) is appended to
+ * data/journal.jsonl with who sent it (OAuth user, CLI or MCP, policy mode).
+ * `xint journal undo` sends the inverse requests (unlike, unfollow, unblock,
+ * ...); the inverse writes are journaled too, linked by undo_of, so entries
+ * are never rewritten.
+ */
+
+import { randomUUID } from "crypto";
+import { appendFileSync, existsSync, mkdirSync, readFileSync } from "fs";
+import { dirname, join } from "path";
+import * as api from "./api";
+import { DryRunStop, writeOperation, type WriteMethod } from "./dry_run";
+import { getValidToken, loadTokens } from "./oauth";
+import { checkPolicyFile, policyRank, recordPolicyUsage, type PolicyMode } from "./policy";
+import { currentActor, isDryRun, runAsActor } from "./request_context";
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+export interface JournalEntry {
+  id: string;
+  at: string;
+  /** OAuth user the write was sent as; null for app (bearer token) writes. */
+  user: string | null;
+  user_id?: string;
+  source: "cli" | "mcp";
+  policy_mode: string;
+  /** COST_RATES operation (follow, blocks_add, list_members_remove, ...). */
+  operation: string;
+  method: WriteMethod;
+  url: string;
+  body?: unknown;
+  /** Ids X assigned to what was created (lists_create, stream_rules_add). */
+  created_ids?: string[];
+  /** Entry this write reverted. */
+  undo_of?: string;
+}
+
+export interface InverseRequest {
+  method: WriteMethod;
+  url: string;
+  body?: unknown;
+  auth: "oauth2_user" | "app_bearer";
+  operation: string;
+}
+
+export interface JournalCommandDeps {
+  policyMode: PolicyMode;
+  /** Send an inverse request; defaults to the api.ts write helpers (which journal it). */
+  send?: (request: InverseRequest) => Promise<unknown>;
+}
+
+// ---------------------------------------------------------------------------
+// Constants
+// ---------------------------------------------------------------------------
+
+const DEFAULT_JOURNAL_FILE = join(import.meta.dir, "..", "data", "journal.jsonl");
+
+/** Operations that toggle a relationship: [do, undo, body key naming the target]. */
+const TOGGLES: Array<[string, string, string]> = [
+  ["like", "unlike", "tweet_id"],
+  ["follow", "unfollow", "target_user_id"],
+  ["bookmark_save", "bookmark_remove", "tweet_id"],
+  ["blocks_add", "blocks_remove", "target_user_id"],
+  ["mutes_add", "mutes_remove", "target_user_id"],
+  ["list_members_add", "list_members_remove", "user_id"],
+];
+
+/** Policy action (xint.policy.json) and mode each inverse operation needs. */
+const OPERATION_POLICY: Record<string, { action: string; mode: PolicyMode }> = {
+  like: { action: "like", mode: "engagement" },
+  unlike: { action: "unlike", mode: "engagement" },
+  follow: { action: "follow", mode: "engagement" },
+  unfollow: { action: "unfollow", mode: "engagement" },
+  bookmark_save: { action: "bookmark", mode: "engagement" },
+  bookmark_remove: { action: "unbookmark", mode: "engagement" },
+  blocks_add: { action: "block", mode: "moderation" },
+  blocks_remove: { action: "unblock", mode: "moderation" },
+  mutes_add: { action: "mute", mode: "moderation" },
+  mutes_remove: { action: "unmute", mode: "moderation" },
+  list_members_add: { action: "list_members_add", mode: "engagement" },
+  list_members_remove: { action: "list_members_remove", mode: "engagement" },
+  lists_delete: { action: "list_delete", mode: "engagement" },
+  stream_rules_delete: { action: "stream_rules_delete", mode: "engagement" },
+};
+
+// ---------------------------------------------------------------------------
+// Storage
+// ---------------------------------------------------------------------------
+
+function journalPath(): string {
+  return process.env.XINT_JOURNAL_FILE || DEFAULT_JOURNAL_FILE;
+}
+
+export function loadJournal(): JournalEntry[] {
+  const path = journalPath();
+  if (!existsSync(path)) return [];
+  const entries: JournalEntry[] = [];
+  for (const line of readFileSync(path, "utf-8").split("\n")) {
+    if (!line.trim()) continue;
+    try {
+      entries.push(JSON.parse(line));
+    } catch {
+      // A torn last line from a crash; the rest of the journal is still good.
+    }
+  }
+  return entries;
+}
+
+function createdIds(operation: string, response: any): string[] {
+  if (operation === "lists_create" && response?.data?.id) return [String(response.data.id)];
+  if (operation === "stream_rules_add" && Array.isArray(response?.data)) {
+    return response.data.map((rule: any) => String(rule.id)).filter(Boolean);
+  }
+  return [];
+}
+
+/**
+ * Append a successful write (called by the api.ts write helpers). Never
+ * throws: a journal problem must not turn a completed write into an error.
+ */
+export function recordWrite(
+  method: WriteMethod,
+  url: string,
+  body: unknown,
+  response: unknown,
+  auth: "oauth2_user" | "app_bearer",
+): JournalEntry | null {
+  try {
+    const { operation } = writeOperation(method, url, body);
+    const actor = currentActor();
+    const tokens = auth === "oauth2_user" ? loadTokens() : null;
+    const created = createdIds(operation, response);
+    const entry: JournalEntry = {
+      id: `j_${randomUUID().slice(0, 8)}`,
+      at: new Date().toISOString(),
+      user: tokens?.username ?? null,
+      ...(tokens?.user_id && { user_id: tokens.user_id }),
+      source: actor?.source ?? "cli",
+      policy_mode: actor?.policyMode ?? "unknown",
+      operation,
+      method,
+      url,
+      ...(body !== undefined && { body }),
+      ...(created.length > 0 && { created_ids: created }),
+      ...(actor?.undoOf && { undo_of: actor.undoOf }),
+    };
+    const path = journalPath();
+    mkdirSync(dirname(path), { recursive: true });
+    appendFileSync(path, JSON.stringify(entry) + "\n", "utf-8");
+    return entry;
+  } catch (e: any) {
+    console.error(`[journal] Failed to record ${method} ${url}: ${e.message}`);
+    return null;
+  }
+}
+
+// ---------------------------------------------------------------------------
+// Undo
+// ---------------------------------------------------------------------------
+
+function lastSegment(url: string): string {
+  return decodeURIComponent(url.slice(url.lastIndexOf("/") + 1));
+}
+
+/** What an entry acted on: tweet id, user id, list id or rule ids. */
+export function entryTarget(entry: JournalEntry): string {
+  const body = (entry.body || {}) as Record<string, any>;
+  const toggle = TOGGLES.find(([add, remove]) => entry.operation === add || entry.operation === remove);
+  if (toggle) return entry.method === "POST" ? String(body[toggle[2]] ?? "") : lastSegment(entry.url);
+  if (entry.created_ids) return entry.created_ids.join(",");
+  if (Array.isArray(body.delete?.ids)) return body.delete.ids.join(",");
+  if (Array.isArray(body.add)) return body.add.map((r: any) => r.value).join(" | ");
+  return lastSegment(entry.url);
+}
+
+/** The request that reverts an entry, or null if it can't be undone. */
+export function inverseRequest(entry: JournalEntry): InverseRequest | null {
+  for (const [add, remove, key] of TOGGLES) {
+    if (entry.operation === add) {
+      const target = (entry.body as Record<string, unknown> | undefined)?.[key];
+      if (target === undefined) return null;
+      return {
+        method: "DELETE",
+        url: `${entry.url}/${encodeURIComponent(String(target))}`,
+        auth: "oauth2_user",
+        operation: remove,
+      };
+    }
+    if (entry.operation === remove) {
+      return {
+        method: "POST",
+        url: entry.url.slice(0, entry.url.lastIndexOf("/")),
+        body: { [key]: lastSegment(entry.url) },
+        auth: "oauth2_user",
+        operation: add,
+      };
+    }
+  }
+  if (entry.operation === "lists_create" && entry.created_ids?.length) {
+    return { method: "DELETE", url: `${api.BASE}/lists/${entry.created_ids[0]}`, auth: "oauth2_user", operation: "lists_delete" };
+  }
+  if (entry.operation === "stream_rules_add" && entry.created_ids?.length) {
+    return {
+      method: "POST",
+      url: `${api.BASE}/tweets/search/stream/rules`,
+      body: { delete: { ids: entry.created_ids } },
+      auth: "app_bearer",
+      operation: "stream_rules_delete",
+    };
+  }
+  // lists_update, lists_delete and stream_rules_delete don't keep what they replaced.
+  return null;
+}
+
+async function sendWrite(request: InverseRequest): Promise<unknown> {
+  if (request.auth === "app_bearer") return api.bearerPost(request.url, request.body);
+  const accessToken = await getValidToken();
+  return request.method === "DELETE"
+    ? api.oauthDelete(request.url, accessToken)
+    : api.oauthPost(request.url, accessToken, request.body);
+}
+
+/** Entries that can still be undone: not undo entries themselves, not already reverted. */
+export function undoCandidates(entries: JournalEntry[]): JournalEntry[] {
+  const undone = new Set(entries.map((e) => e.undo_of).filter(Boolean));
+  return entries.filter((e) => !e.undo_of && !undone.has(e.id));
+}
+
+function ensureUndoAllowed(request: InverseRequest, entry: JournalEntry, policyMode: PolicyMode): void {
+  const policy = OPERATION_POLICY[request.operation];
+  if (!policy) return;
+  if (policyRank(policyMode) < policyRank(policy.mode)) {
+    throw new Error(JSON.stringify({
+      code: "POLICY_DENIED",
+      message: `Undoing ${entry.operation} (${request.operation}) requires '${policy.mode}' policy mode`,
+      policy_mode: policyMode,
+      required_mode: policy.mode,
+    }));
+  }
+  const action = { name: policy.action, target: entryTarget(entry) };
+  const denial = checkPolicyFile(action);
+  if (denial) throw new Error(JSON.stringify({ ...denial, policy_mode: policyMode, required_mode: policy.mode }));
+  if (!isDryRun()) recordPolicyUsage(action);
+}
+
+/** Send the inverse of one entry. Returns the inverse operation. */
+export async function undoEntry(entry: JournalEntry, deps: JournalCommandDeps): Promise<string> {
+  const request = inverseRequest(entry);
+  if (!request) throw new Error(`${entry.id} (${entry.operation}) can't be undone`);
+  ensureUndoAllowed(request, entry, deps.policyMode);
+  await runAsActor({ source: "cli", policyMode: deps.policyMode, undoOf: entry.id }, () =>
+    (deps.send || sendWrite)(request),
+  );
+  return request.operation;
+}
+
+// ---------------------------------------------------------------------------
+// CLI handler
+// ---------------------------------------------------------------------------
+
+interface JournalFilters {
+  since?: string;
+  source?: "cli" | "mcp";
+  operation?: string;
+  limit?: number;
+  json: boolean;
+}
+
+function parseFilters(args: string[]): { filters: JournalFilters; positional: string[] } {
+  const filters: JournalFilters = { json: false };
+  const positional: string[] = [];
+  for (let i = 0; i < args.length; i++) {
+    switch (args[i]) {
+      case "--since": {
+        const since = api.parseSince(args[++i] || "");
+        if (!since) throw new Error("--since needs a duration like 30m, 1h, 7d or an ISO timestamp");
+        filters.since = since;
+        break;
+      }
+      case "--source": {
+        const source = args[++i];
+        if (source !== "cli" && source !== "mcp") throw new Error("--source must be cli or mcp");
+        filters.source = source;
+        break;
+      }
+      case "--op":
+        filters.operation = args[++i];
+        break;
+      case "--limit":
+        filters.limit = Math.max(1, parseInt(args[++i]) || 50);
+        break;
+      case "--json":
+        filters.json = true;
+        break;
+      default:
+        positional.push(args[i]);
+    }
+  }
+  return { filters, positional };
+}
+
+function applyFilters(entries: JournalEntry[], filters: JournalFilters): JournalEntry[] {
+  return entries.filter((e) =>
+    (!filters.since || e.at >= filters.since) &&
+    (!filters.source || e.source === filters.source) &&
+    (!filters.operation || e.operation === filters.operation));
+}
+
+function printEntry(entry: JournalEntry, undoneBy?: string): void {
+  const when = entry.at.slice(0, 19).replace("T", " ");
+  const who = entry.user ? `@${entry.user}` : "app";
+  console.log(`  ${entry.id}  ${when}  ${entry.operation.padEnd(19)} ${entryTarget(entry)}`);
+  const notes = [
+    `${who} via ${entry.source} (${entry.policy_mode})`,
+    ...(entry.undo_of ? [`undo of ${entry.undo_of}`] : []),
+    ...(undoneBy ? [`undone by ${undoneBy}`] : []),
+  ];
+  console.log(`    ${notes.join(", ")}`);
+}
+
+async function undo(positional: string[], filters: JournalFilters, deps: JournalCommandDeps): Promise<void> {
+  const entries = loadJournal();
+  const id = positional[0];
+  let targets: JournalEntry[];
+  if (id) {
+    const entry = entries.find((e) => e.id === id);
+    if (!entry) throw new Error(`Journal entry not found: ${id}. Run 'xint journal list'.`);
+    const undoneBy = entries.find((e) => e.undo_of === id);
+    if (undoneBy) throw new Error(`${id} was already undone by ${undoneBy.id}`);
+    targets = [entry];
+  } else if (filters.since) {
+    // Newest first, so later actions are unwound before earlier ones.
+    targets = applyFilters(undoCandidates(entries), filters).reverse();
+  } else {
+    throw new Error("Usage: xint journal undo <id> | --since <dur> [--source cli|mcp] [--op <operation>]");
+  }
+
+  const results: Array<{ id: string; operation: string; undo?: string; skipped?: string; error?: string }> = [];
+  for (const entry of targets) {
+    if (!inverseRequest(entry)) {
+      results.push({ id: entry.id, operation: entry.operation, skipped: "not undoable" });
+      continue;
+    }
+    try {
+      const inverse = await undoEntry(entry, deps);
+      results.push({ id: entry.id, operation: entry.operation, undo: inverse });
+    } catch (e: any) {
+      // --dry-run previews the first inverse request; let it reach the dispatcher.
+      if (e instanceof DryRunStop) throw e;
+      results.push({ id: entry.id, operation: entry.operation, error: e.message });
+    }
+  }
+
+  const failed = results.filter((r) => r.error).length;
+  if (failed > 0) process.exitCode = 1;
+  if (filters.json) {
+    console.log(JSON.stringify(results, null, 2));
+    return;
+  }
+  if (results.length === 0) {
+    console.log("Nothing to undo.");
+    return;
+  }
+  for (const r of results) {
+    if (r.undo) console.log(`✅ ${r.id} ${r.operation} → ${r.undo}`);
+    else if (r.skipped) console.log(`⏭️  ${r.id} ${r.operation}: ${r.skipped}`);
+    else console.log(`❌ ${r.id} ${r.operation}: ${r.error}`);
+  }
+  const undone = results.filter((r) => r.undo).length;
+  console.log(`\nUndid ${undone} of ${results.length} action(s)${failed ? `, ${failed} failed` : ""}.`);
+}
+
+export async function cmdJournal(args: string[], deps: JournalCommandDeps): Promise<void> {
+  const sub = (args[0] || "list").toLowerCase();
+  const { filters, positional } = parseFilters(args.slice(1));
+
+  switch (sub) {
+    case "list":
+    case "ls": {
+      const entries = loadJournal();
+      const undoneBy = new Map(entries.filter((e) => e.undo_of).map((e) => [e.undo_of!, e.id]));
+      const shown = applyFilters(entries, filters).slice(-(filters.limit || 50));
+      if (filters.json) {
+        console.log(JSON.stringify(shown, null, 2));
+        return;
+      }
+      if (shown.length === 0) {
+        console.log("No journaled actions.");
+        return;
+      }
+      console.log(`\nAction journal (${shown.length}):\n`);
+      for (const entry of shown) printEntry(entry, undoneBy.get(entry.id));
+      console.log(`\nUndo with: xint journal undo <id> | --since 1h`);
+      return;
+    }
+
+    case "undo":
+      await undo(positional, filters, deps);
+      return;
+
+    case "help":
+    case "--help":
+    case "-h":
+      printJournalHelp();
+      return;
+
+    default:
+      throw new Error(`Unknown journal subcommand: ${sub}`);
+  }
+}
+
+function printJournalHelp(): void {
+  console.log(`
+Usage: xint journal <subcommand> [options]
+
+Every X write xint sends (CLI or MCP) is appended to data/journal.jsonl
+(XINT_JOURNAL_FILE overrides): who, what, when, policy mode, CLI or MCP.
+
+Subcommands:
+  list                    Show journaled writes (newest last)
+  undo <id>               Send the inverse request (unfollow, unlike, unblock, ...)
+  undo --since <dur>      Undo everything since then, newest first
+
+Options:
+  --since <dur>           Only entries since 30m, 1h, 7d or an ISO timestamp
+  --source cli|mcp        Only entries from the CLI or from MCP agents
+  --op <operation>        Only one operation (follow, like, blocks_add, ...)
+  --limit N               Entries to list (default: 50)
+  --json                  JSON output
+
+Undo needs the policy mode of the inverse action (engagement, or moderation
+for blocks/mutes). List and rule edits (update, delete) can't be undone.
+
+Examples:
+  xint journal list --since 1d --source mcp
+  xint --policy engagement journal undo j_1a2b3c4d
+  xint --policy engagement journal undo --since 2h --source mcp --op follow
+  xint --policy engagement --dry-run journal undo --since 2h
+`);
+}
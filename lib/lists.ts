@@ -6,12 +6,13 @@
 import { BASE, oauthDelete, oauthGet, oauthPost, oauthPut } from "./api";
 import { getValidToken, loadTokens } from "./oauth";
 import { trackCost } from "./costs";
+import { paginate } from "./checkpoint";
 
 const LIST_FIELDS =
   "list.fields=id,name,owner_id,private,description,created_at,follower_count,member_count";
 const USER_FIELDS = "user.fields=id,username,name,description,public_metrics";
 
-interface XList {
+export interface XList {
   id: string;
   name: string;
   owner_id?: string;
@@ -22,7 +23,7 @@ interface XList {
   member_count?: number;
 }
 
-interface XUser {
+export interface XUser {
   id: string;
   username: string;
   name?: string;
@@ -79,7 +80,7 @@ async function resolveUserId(input: string, accessToken: string): Promise<{ id:
   return { id: user.id, username: user.username || value };
 }
 
-async function fetchOwnedLists(userId: string, accessToken: string, maxTotal: number): Promise<XList[]> {
+export async function fetchOwnedLists(userId: string, accessToken: string, maxTotal: number): Promise<XList[]> {
   const all: XList[] = [];
   let nextToken: string | undefined;
 
@@ -100,7 +101,7 @@ async function fetchOwnedLists(userId: string, accessToken: string, maxTotal: nu
   return all.slice(0, maxTotal);
 }
 
-async function createList(
+export async function createList(
   accessToken: string,
   input: { name: string; description?: string; private?: boolean },
 ): Promise<{ id: string; name?: string }> {
@@ -112,7 +113,7 @@ async function createList(
   return res?.data || {};
 }
 
-async function updateList(
+export async function updateList(
   listId: string,
   accessToken: string,
   input: { name?: string; description?: string; private?: boolean },
@@ -126,38 +127,43 @@ async function updateList(
   return { updated: res?.data?.updated === true };
 }
 
-async function deleteList(listId: string, accessToken: string): Promise<{ deleted: boolean }> {
+export async function deleteList(listId: string, accessToken: string): Promise<{ deleted: boolean }> {
   const res = await oauthDelete(`${BASE}/lists/${listId}`, accessToken);
   return { deleted: res?.data?.deleted === true };
 }
 
-async function fetchListMembers(listId: string, accessToken: string, maxTotal: number): Promise<XUser[]> {
-  const all: XUser[] = [];
-  let nextToken: string | undefined;
-
-  while (all.length < maxTotal) {
-    const perPage = Math.min(100, maxTotal - all.length);
-    let url = `${BASE}/lists/${listId}/members?max_results=${perPage}&${USER_FIELDS}`;
-    if (nextToken) url += `&pagination_token=${nextToken}`;
-
-    const raw = await oauthGet(url, accessToken);
-    const users: XUser[] = raw?.data || [];
-    if (users.length === 0) break;
-
-    all.push(...users);
-    nextToken = raw?.meta?.next_token;
-    if (!nextToken) break;
-  }
-
-  return all.slice(0, maxTotal);
+export async function fetchListMembers(
+  listId: string,
+  accessToken: string,
+  maxTotal: number,
+  resume: boolean = false,
+): Promise<XUser[]> {
+  const { items } = await paginate<XUser>({
+    endpoint: "/2/lists/:id/members",
+    params: { list_id: listId, max_total: maxTotal },
+    maxPages: Number.POSITIVE_INFINITY,
+    resume,
+    isDone: (collected) => collected.length >= maxTotal,
+    async fetchPage(nextToken, _state, collected) {
+      const perPage = Math.min(100, maxTotal - collected.length);
+      let url = `${BASE}/lists/${listId}/members?max_results=${perPage}&${USER_FIELDS}`;
+      if (nextToken) url += `&pagination_token=${nextToken}`;
+
+      const raw = await oauthGet(url, accessToken);
+      const users: XUser[] = raw?.data || [];
+      return { items: users, nextToken: users.length > 0 ? raw?.meta?.next_token : undefined };
+    },
+  });
+
+  return items.slice(0, maxTotal);
 }
 
-async function addMember(listId: string, userId: string, accessToken: string): Promise<boolean> {
+export async function addMember(listId: string, userId: string, accessToken: string): Promise<boolean> {
   const res = await oauthPost(`${BASE}/lists/${listId}/members`, accessToken, { user_id: userId });
   return res?.data?.is_member === true;
 }
 
-async function removeMember(listId: string, userId: string, accessToken: string): Promise<boolean> {
+export async function removeMember(listId: string, userId: string, accessToken: string): Promise<boolean> {
   const res = await oauthDelete(`${BASE}/lists/${listId}/members/${userId}`, accessToken);
   return res?.data?.is_member === false || res?.success === true;
 }
@@ -170,7 +176,7 @@ Subcommands:
   create <name> [--description "..."] [--private] [--json]
   update <list_id> [--name "..."] [--description "..."] [--private|--public] [--json]
   delete <list_id> [--json]
-  members list <list_id> [--limit N] [--json]
+  members list <list_id> [--limit N] [--json] [--resume]
   members add <list_id> <@username|user_id> [--json]
   members remove <list_id> <@username|user_id> [--json]
 
@@ -341,10 +347,10 @@ export async function cmdLists(rawArgs: string[]): Promise<void> {
 
     if (memberAction === "list" || memberAction === "ls") {
       const listId = memberArgs[0] && !memberArgs[0].startsWith("-") ? memberArgs[0] : undefined;
-      if (!listId) throw new Error("Usage: xint lists members list <list_id> [--limit N] [--json]");
+      if (!listId) throw new Error("Usage: xint lists members list <list_id> [--limit N] [--json] [--resume]");
 
       const { json, limit } = parseCommonFlags(memberArgs);
-      const members = await fetchListMembers(listId, accessToken, limit);
+      const members = await fetchListMembers(listId, accessToken, limit, memberArgs.includes("--resume"));
       trackCost("list_members_list", `/2/lists/${listId}/members`, members.length);
 
       if (json) {
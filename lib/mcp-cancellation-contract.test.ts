@@ -0,0 +1,79 @@
+import { afterAll, beforeAll, describe, expect, test } from "bun:test";
+import { MCPServer } from "./mcp";
+
+// Package API stand-in that holds refresh requests until the client gives up.
+let server: ReturnType<typeof Bun.serve>;
+let received = 0;
+let aborted = 0;
+
+beforeAll(() => {
+  server = Bun.serve({
+    port: 0,
+    idleTimeout: 0,
+    fetch(req) {
+      received++;
+      return new Promise<Response>((resolve) => {
+        const timer = setTimeout(() => resolve(Response.json({ status: "queued" })), 10_000);
+        req.signal.addEventListener("abort", () => {
+          aborted++;
+          clearTimeout(timer);
+          resolve(new Response(null, { status: 499 }));
+        });
+      });
+    },
+  });
+  process.env.XINT_PACKAGE_API_BASE_URL = `http://127.0.0.1:${server.port}/v1`;
+});
+
+afterAll(() => {
+  delete process.env.XINT_PACKAGE_API_BASE_URL;
+  server.stop(true);
+});
+
+const refreshCall = (id: number) =>
+  JSON.stringify({
+    jsonrpc: "2.0",
+    id,
+    method: "tools/call",
+    params: { name: "xint_package_refresh", arguments: { packageId: "pkg_1", reason: "manual" } },
+  });
+
+async function waitForRequest(count: number): Promise<void> {
+  for (let i = 0; i < 200 && received < count; i++) await Bun.sleep(5);
+  expect(received).toBe(count);
+}
+
+describe("mcp cancellation contract", () => {
+  test("notifications/cancelled aborts the in-flight fetch and suppresses the response", async () => {
+    const mcp = new MCPServer({ policyMode: "read_only", enforceBudget: false });
+    const startedAt = Date.now();
+    const pending = mcp.handleMessage(refreshCall(7));
+    await waitForRequest(1);
+
+    const ack = await mcp.handleMessage(
+      JSON.stringify({ jsonrpc: "2.0", method: "notifications/cancelled", params: { requestId: 7, reason: "user stop" } }),
+    );
+    expect(ack).toBeNull();
+    expect(await pending).toBeNull();
+    expect(Date.now() - startedAt).toBeLessThan(5_000);
+    for (let i = 0; i < 100 && aborted < 1; i++) await Bun.sleep(5);
+    expect(aborted).toBe(1);
+  });
+
+  test("cancelling an unknown request id is ignored", async () => {
+    const mcp = new MCPServer({ policyMode: "read_only", enforceBudget: false });
+    const ack = await mcp.handleMessage(
+      JSON.stringify({ jsonrpc: "2.0", method: "notifications/cancelled", params: { requestId: 99 } }),
+    );
+    expect(ack).toBeNull();
+  });
+
+  test("a transport abort (client disconnect) cancels the call too", async () => {
+    const mcp = new MCPServer({ policyMode: "read_only", enforceBudget: false });
+    const disconnect = new AbortController();
+    const pending = mcp.handleMessage(refreshCall(8), { signal: disconnect.signal });
+    await waitForRequest(2);
+    disconnect.abort();
+    expect(await pending).toBeNull();
+  });
+});
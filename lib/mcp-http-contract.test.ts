@@ -0,0 +1,134 @@
+import { describe, expect, test } from "bun:test";
+import { createStreamableHttpHandler } from "./mcp";
+
+const TOKEN = "test-token";
+
+function makeHandler() {
+  return createStreamableHttpHandler({ policyMode: "engagement", enforceBudget: false, authToken: TOKEN });
+}
+
+function post(body: unknown, headers: Record<string, string> = {}): Request {
+  return new Request("http://127.0.0.1/mcp", {
+    method: "POST",
+    headers: {
+      Authorization: `Bearer ${TOKEN}`,
+      "Content-Type": "application/json",
+      Accept: "application/json, text/event-stream",
+      ...headers,
+    },
+    body: JSON.stringify(body),
+  });
+}
+
+const initialize = { jsonrpc: "2.0", id: 1, method: "initialize", params: { protocolVersion: "2025-03-26" } };
+
+async function openSession(handler: ReturnType<typeof makeHandler>, headers: Record<string, string> = {}): Promise<string> {
+  const res = await handler.fetch(post(initialize, headers));
+  expect(res.status).toBe(200);
+  const sessionId = res.headers.get("Mcp-Session-Id");
+  expect(sessionId).toBeTruthy();
+  return sessionId!;
+}
+
+describe("mcp streamable http contract", () => {
+  test("initialize creates a session and negotiates the protocol version", async () => {
+    const handler = makeHandler();
+    const res = await handler.fetch(post(initialize));
+    const body = (await res.json()) as any;
+    expect(body.result.protocolVersion).toBe("2025-03-26");
+    expect(res.headers.get("Mcp-Session-Id")).toMatch(/^[0-9a-f-]{36}$/);
+    expect(handler.sessionCount()).toBe(1);
+  });
+
+  test("tool calls inside a session return the standard envelope", async () => {
+    const handler = makeHandler();
+    const sessionId = await openSession(handler);
+
+    const notified = await handler.fetch(
+      post({ jsonrpc: "2.0", method: "notifications/initialized" }, { "Mcp-Session-Id": sessionId }),
+    );
+    expect(notified.status).toBe(202);
+
+    const res = await handler.fetch(
+      post(
+        { jsonrpc: "2.0", id: 2, method: "tools/call", params: { name: "xint_costs", arguments: { period: "today" } } },
+        { "Mcp-Session-Id": sessionId },
+      ),
+    );
+    const body = (await res.json()) as any;
+    const envelope = JSON.parse(body.result.content[0].text);
+    expect(body.id).toBe(2);
+    expect(envelope.type).toBe("success");
+    expect(typeof envelope.message).toBe("string");
+  });
+
+  test("calls with a progressToken are answered over SSE", async () => {
+    const handler = makeHandler();
+    const sessionId = await openSession(handler);
+    const res = await handler.fetch(
+      post(
+        {
+          jsonrpc: "2.0",
+          id: 5,
+          method: "tools/call",
+          params: { name: "xint_costs", arguments: {}, _meta: { progressToken: "p-1" } },
+        },
+        { "Mcp-Session-Id": sessionId },
+      ),
+    );
+    expect(res.headers.get("content-type")).toBe("text/event-stream");
+    const events = (await res.text()).trim().split("\n\n");
+    const last = JSON.parse(events[events.length - 1].replace(/^event: message\ndata: /, ""));
+    expect(last.id).toBe(5);
+    expect(JSON.parse(last.result.content[0].text).type).toBe("success");
+  });
+
+  test("requests need a live session", async () => {
+    const handler = makeHandler();
+    const list = { jsonrpc: "2.0", id: 3, method: "tools/list" };
+    expect((await handler.fetch(post(list))).status).toBe(400);
+    expect((await handler.fetch(post(list, { "Mcp-Session-Id": "nope" }))).status).toBe(404);
+
+    const sessionId = await openSession(handler);
+    const del = new Request("http://127.0.0.1/mcp", {
+      method: "DELETE",
+      headers: { Authorization: `Bearer ${TOKEN}`, "Mcp-Session-Id": sessionId },
+    });
+    expect((await handler.fetch(del)).status).toBe(204);
+    expect((await handler.fetch(post(list, { "Mcp-Session-Id": sessionId }))).status).toBe(404);
+  });
+
+  test("rejects missing bearer tokens and foreign origins", async () => {
+    const handler = makeHandler();
+    const unauth = await handler.fetch(post(initialize, { Authorization: "Bearer wrong" }));
+    expect(unauth.status).toBe(401);
+    expect(unauth.headers.get("WWW-Authenticate")).toBe("Bearer");
+
+    expect((await handler.fetch(post(initialize, { Origin: "https://evil.example" }))).status).toBe(403);
+    expect((await handler.fetch(post(initialize, { Origin: "http://localhost:5173" }))).status).toBe(200);
+
+    const allowed = createStreamableHttpHandler({
+      policyMode: "read_only",
+      enforceBudget: false,
+      allowedOrigins: ["https://agents.example"],
+    });
+    expect((await allowed.fetch(post(initialize, { Origin: "https://agents.example" }))).status).toBe(200);
+  });
+
+  test("each session keeps its own policy mode, capped by the server", async () => {
+    const handler = makeHandler();
+    const readOnly = await openSession(handler, { "X-Xint-Policy": "read_only" });
+    const res = await handler.fetch(
+      post(
+        { jsonrpc: "2.0", id: 4, method: "tools/call", params: { name: "xint_package_publish", arguments: {} } },
+        { "Mcp-Session-Id": readOnly },
+      ),
+    );
+    const body = (await res.json()) as any;
+    expect(JSON.parse(body.error.message).code).toBe("POLICY_DENIED");
+
+    const escalate = await handler.fetch(post(initialize, { "X-Xint-Policy": "moderation" }));
+    expect(escalate.status).toBe(403);
+    expect((await handler.fetch(post(initialize, { "X-Xint-Policy": "admin" }))).status).toBe(400);
+  });
+});
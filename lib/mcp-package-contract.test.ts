@@ -1,5 +1,12 @@
-import { afterEach, describe, expect, test } from "bun:test";
+import { afterAll, afterEach, beforeAll, describe, expect, test } from "bun:test";
+import { mkdtempSync, rmSync, writeFileSync } from "fs";
+import { tmpdir } from "os";
+import { join } from "path";
 import { MCPServer } from "./mcp";
+import { toolOutputSchema, validateJsonSchema, type JsonSchema } from "./mcp_schemas";
+import type { Tweet } from "./api";
+import { addSavedSearch } from "./saved";
+import { configureScheduler, resetScheduler } from "./scheduler";
 
 function restoreEnv(name: string, value: string | undefined): void {
   if (value === undefined) {
@@ -175,3 +182,368 @@ describe("mcp package api contract", () => {
     expect(parsed.error.message).toContain("missing citations");
   });
 });
+
+// ---------------------------------------------------------------------------
+// Output schemas
+// ---------------------------------------------------------------------------
+
+async function rpc(mcp: MCPServer, method: string, params: Record<string, unknown>): Promise<any> {
+  const response = await mcp.handleMessage(JSON.stringify({ jsonrpc: "2.0", id: 1, method, params }));
+  return JSON.parse(String(response || "{}"));
+}
+
+const SAMPLE_TWEET: Tweet = {
+  id: "1900000000000000001",
+  text: "Shipping the new agent SDK today https://t.co/x",
+  author_id: "42",
+  username: "alice",
+  name: "Alice",
+  created_at: "2026-01-01T12:00:00.000Z",
+  conversation_id: "1900000000000000001",
+  metrics: { likes: 120, retweets: 14, replies: 9, quotes: 2, impressions: 5400, bookmarks: 11 },
+  urls: [{ url: "https://example.com/sdk", title: "SDK launch" }],
+  mentions: ["bob"],
+  hashtags: ["agents"],
+  tweet_url: "https://x.com/alice/status/1900000000000000001",
+};
+
+function expectValid(value: unknown, schema: JsonSchema): void {
+  expect(validateJsonSchema(value, schema)).toEqual([]);
+}
+
+describe("mcp output schemas", () => {
+  afterEach(() => {
+    delete process.env.XINT_PACKAGE_API_BASE_URL;
+    delete process.env.XINT_PACKAGE_API_KEY;
+  });
+
+  test("every tool advertises an envelope outputSchema", async () => {
+    const mcp = new MCPServer({ policyMode: "read_only", enforceBudget: false });
+    const { result } = await rpc(mcp, "tools/list", {});
+    expect(result.tools.length).toBeGreaterThan(0);
+    for (const tool of result.tools) {
+      expect(tool.outputSchema).toEqual(toolOutputSchema(tool.name));
+      expect(tool.outputSchema.type).toBe("object");
+      expect(tool.outputSchema.properties.data).toBeDefined();
+    }
+  });
+
+  test("local tools return structuredContent matching text and schema", async () => {
+    const mcp = new MCPServer({ policyMode: "engagement", enforceBudget: false });
+    const calls: Array<[string, Record<string, unknown>]> = [
+      ["xint_costs", { period: "week" }],
+      ["xint_cache_clear", {}],
+      ["xint_xsearch", { query: "agents" }],
+      ["xint_collections_list", {}],
+      ["xint_collections_search", { collectionId: "c1", query: "agents" }],
+      ["xint_analyze", { query: "agents" }],
+      ["xint_bookmarks", {}],
+    ];
+    for (const [name, args] of calls) {
+      const { result } = await rpc(mcp, "tools/call", { name, arguments: args });
+      expect(result.structuredContent).toEqual(JSON.parse(result.content[0].text));
+      expectValid(result.structuredContent, toolOutputSchema(name));
+    }
+  });
+
+  test("package tools validate against the package contract schemas", async () => {
+    const snapshot = { package_id: "pkg_1", version: 2, created_at: "2026-01-01T00:00:00.000Z", evidence_count: 40, claim_count: 6, quality_score: 0.8 };
+    const freshness = { updated_at: "2026-01-01T00:00:00.000Z", ttl_seconds: 3600, stale: false };
+    const routes: Record<string, unknown> = {
+      "POST /v1/packages": { package_id: "pkg_1", job_id: "job_1", status: "queued" },
+      "GET /v1/packages/pkg_1": {
+        id: "pkg_1",
+        name: "Agents",
+        topic_query: "ai agents",
+        sources: ["x_api_v2"],
+        policy: "private",
+        analysis_profile: "summary",
+        time_window: { from: "2026-01-01T00:00:00.000Z", to: "2026-01-02T00:00:00.000Z" },
+        latest_snapshot_version: 2,
+        freshness,
+        snapshots: [snapshot],
+      },
+      "POST /v1/query": {
+        answer: "Agents shipped.",
+        claims: [{ claim_id: "claim_1", text: "SDK launched", confidence: 0.9, supporting_evidence_ids: ["ev_1"] }],
+        citations: [{ evidence_id: "ev_1", claim_id: "claim_1", source: "x_api_v2", url: SAMPLE_TWEET.tweet_url, captured_at: "2026-01-01T00:00:00.000Z" }],
+        freshness,
+        cost: { estimated_cost_usd: 0.02 },
+      },
+      "POST /v1/packages/pkg_1/refresh": { job_id: "job_2", target_snapshot_version: 3 },
+      "GET /v1/packages/search": { items: [{ package_id: "pkg_1", name: "Agents", policy: "shared", freshness }] },
+      "POST /v1/packages/pkg_1/publish": { package_id: "pkg_1", snapshot_version: 2, published: true },
+    };
+    const server = Bun.serve({
+      port: 0,
+      fetch: (req: Request) => {
+        const body = routes[`${req.method} ${new URL(req.url).pathname}`];
+        return body ? Response.json(body) : new Response("not found", { status: 404 });
+      },
+    });
+    process.env.XINT_PACKAGE_API_BASE_URL = `http://127.0.0.1:${server.port}/v1`;
+    process.env.XINT_PACKAGE_API_KEY = "xck_test";
+
+    const mcp = new MCPServer({ policyMode: "engagement", enforceBudget: false });
+    const calls: Array<[string, Record<string, unknown>, string]> = [
+      ["xint_package_create", { name: "Agents", topicQuery: "ai agents", sources: ["x_api_v2"] }, "POST /v1/packages"],
+      ["xint_package_status", { packageId: "pkg_1" }, "GET /v1/packages/pkg_1"],
+      ["xint_package_query", { query: "what shipped?", packageIds: ["pkg_1"] }, "POST /v1/query"],
+      ["xint_package_refresh", { packageId: "pkg_1" }, "POST /v1/packages/pkg_1/refresh"],
+      ["xint_package_search", { query: "agents" }, "GET /v1/packages/search"],
+      ["xint_package_publish", { packageId: "pkg_1", snapshotVersion: 2 }, "POST /v1/packages/pkg_1/publish"],
+    ];
+    try {
+      for (const [name, args, route] of calls) {
+        const response = await rpc(mcp, "tools/call", { name, arguments: args });
+        expect(response.error).toBeUndefined();
+        expect(response.result.structuredContent.data).toEqual(routes[route]);
+        expectValid(response.result.structuredContent, toolOutputSchema(name));
+      }
+    } finally {
+      server.stop(true);
+    }
+  });
+
+  test("schemas reject payloads that break the contract", () => {
+    const { metrics: _metrics, ...noMetrics } = SAMPLE_TWEET;
+    expect(validateJsonSchema({ type: "success", message: "ok", data: [noMetrics] }, toolOutputSchema("xint_search")))
+      .toEqual(["$.data[0].metrics: required"]);
+    expect(validateJsonSchema({ type: "done", message: "ok" }, toolOutputSchema("xint_costs"))[0]).toContain("$.type");
+    expect(validateJsonSchema({ type: "success", message: "ok", data: { items: "pkg_1" } }, toolOutputSchema("xint_package_search")))
+      .toEqual(["$.data.items: expected array, got string"]);
+    expect(() => toolOutputSchema("xint_nope")).toThrow("No output schema");
+  });
+});
+
+// ---------------------------------------------------------------------------
+// X API tools against a stubbed X API
+// ---------------------------------------------------------------------------
+
+const RAW_USER = { id: "42", username: "alice", name: "Alice", public_metrics: { followers_count: 900, following_count: 120 } };
+
+function rawTweet(id: string) {
+  return {
+    id,
+    text: SAMPLE_TWEET.text,
+    author_id: "42",
+    created_at: SAMPLE_TWEET.created_at,
+    conversation_id: SAMPLE_TWEET.conversation_id,
+    public_metrics: { like_count: 120, retweet_count: 14, reply_count: 9, quote_count: 2, impression_count: 5400, bookmark_count: 11 },
+    entities: {
+      urls: [{ expanded_url: "https://example.com/sdk", title: "SDK launch" }],
+      mentions: [{ username: "bob" }],
+      hashtags: [{ tag: "agents" }],
+    },
+  };
+}
+
+const ARTICLE = { title: "SDK launch", description: "What's new", content: "The agent SDK ships today.", author: "Alice", published: "2026-01-01" };
+
+/** Responses by "METHOD /path"; X API paths start with /2, xAI with /v1. */
+const X_ROUTES: Record<string, unknown> = {
+  "GET /2/tweets/search/recent": {
+    data: [rawTweet(SAMPLE_TWEET.id), rawTweet("1900000000000000002")],
+    includes: { users: [RAW_USER] },
+    meta: { result_count: 2 },
+  },
+  "GET /2/users/by/username/alice": { data: RAW_USER },
+  [`GET /2/tweets/${SAMPLE_TWEET.id}`]: {
+    data: { ...rawTweet(SAMPLE_TWEET.id), attachments: { media_keys: ["3_1", "7_2"] } },
+    includes: {
+      users: [RAW_USER],
+      media: [
+        { media_key: "3_1", type: "photo", url: "https://pbs.twimg.com/media/a.jpg" },
+        { media_key: "7_2", type: "video" },
+      ],
+    },
+  },
+  "GET /2/tweets/404": { errors: [{ title: "Not Found Error", detail: "Could not find tweet with id: [404]." }] },
+  "GET /2/trends/by/woeid/1": { data: [{ trend_name: "#agents", tweet_count: 12000 }, { trend_name: "SDK" }] },
+  "POST /v1/responses": { output: [{ type: "message", content: [{ type: "output_text", text: JSON.stringify(ARTICLE) }] }] },
+  // Account tools, as the OAuth user 1001.
+  "GET /2/users/by/username/spammer": { data: { id: "7", username: "spammer", name: "Spam" } },
+  "POST /2/users/1001/likes": { data: { liked: true } },
+  [`DELETE /2/users/1001/likes/${SAMPLE_TWEET.id}`]: { data: { liked: false } },
+  "POST /2/users/1001/following": { data: { following: true } },
+  "DELETE /2/users/1001/following/42": { data: { following: false } },
+  "GET /2/users/1001/owned_lists": { data: [{ id: "1888", name: "AI Researchers", private: true, member_count: 12, follower_count: 3 }] },
+  "POST /2/lists": { data: { id: "1889", name: "Robotics" } },
+  "PUT /2/lists/1888": { data: { updated: true } },
+  "DELETE /2/lists/1889": { data: { deleted: true } },
+  "GET /2/lists/1888/members": { data: [RAW_USER] },
+  "POST /2/lists/1888/members": { data: { is_member: true } },
+  "DELETE /2/lists/1888/members/42": { data: { is_member: false } },
+  "GET /2/users/1001/blocking": { data: [{ id: "7", username: "spammer", name: "Spam" }] },
+  "POST /2/users/1001/blocking": { data: { blocking: true } },
+  "DELETE /2/users/1001/blocking/7": { data: { blocking: false } },
+  "GET /2/users/1001/muting": { data: [{ id: "7", username: "spammer", name: "Spam" }] },
+  "POST /2/users/1001/muting": { data: { muting: true } },
+  "DELETE /2/users/1001/muting/7": { data: { muting: false } },
+  "GET /2/tweets/search/stream/rules": { data: [{ id: "r1", value: "from:alice", tag: "alice" }], meta: { result_count: 1 } },
+  "GET /2/users/42/followers": { data: [RAW_USER, { id: "9", username: "carol", name: "Carol" }] },
+};
+
+/** Stream rule writes answer per body, like X does for add vs delete. */
+function streamRulesResponse(body: any): unknown {
+  if (body?.delete) return { meta: { summary: { deleted: body.delete.ids.length, not_deleted: 0 } } };
+  return { data: [{ id: "r2", value: body.add[0].value }], meta: { summary: { created: 1, not_created: 0 } } };
+}
+
+describe("mcp X API tool outputs", () => {
+  const ENV_KEYS = [
+    "X_BEARER_TOKEN",
+    "XAI_API_KEY",
+    "XINT_ARCHIVE",
+    "XINT_COSTS_FILE",
+    "XINT_SAVED_SEARCHES_FILE",
+    "XINT_SEARCH_STATE_FILE",
+    "XINT_OAUTH_TOKENS_FILE",
+    "XINT_JOURNAL_FILE",
+    "XINT_SNAPSHOTS_DIR",
+    "XINT_MEDIA_DIR",
+    "XINT_WATCHLIST_FILE",
+    "XINT_POLICY_FILE",
+    "XINT_POLICY_USAGE_FILE",
+  ];
+  const savedEnv = Object.fromEntries(ENV_KEYS.map((k) => [k, process.env[k]]));
+  const realFetch = globalThis.fetch;
+  const dir = mkdtempSync(join(tmpdir(), "xint-mcp-x-api-"));
+  let server: ReturnType<typeof Bun.serve>;
+
+  beforeAll(() => {
+    server = Bun.serve({
+      port: 0,
+      fetch: async (req: Request) => {
+        const route = `${req.method} ${new URL(req.url).pathname}`;
+        if (route.startsWith("GET /media/")) return new Response("image bytes");
+        if (route === "POST /2/tweets/search/stream/rules") return Response.json(streamRulesResponse(await req.json()));
+        const body = X_ROUTES[route];
+        return body ? Response.json(body) : new Response("not found", { status: 404 });
+      },
+    });
+    // BASE, the xAI endpoint and media URLs are fixed; point them at the stub.
+    globalThis.fetch = ((input: RequestInfo | URL, init?: RequestInit) => {
+      const url = input instanceof Request ? input.url : String(input);
+      return realFetch(url.replace(/^https:\/\/(api\.x\.com|api\.x\.ai|pbs\.twimg\.com)/, `http://127.0.0.1:${server.port}`), init);
+    }) as typeof fetch;
+
+    process.env.X_BEARER_TOKEN = "test-bearer";
+    process.env.XAI_API_KEY = "test-xai";
+    process.env.XINT_ARCHIVE = "0";
+    process.env.XINT_COSTS_FILE = join(dir, "api-costs.json");
+    process.env.XINT_SAVED_SEARCHES_FILE = join(dir, "saved-searches.json");
+    process.env.XINT_SEARCH_STATE_FILE = join(dir, "search-state.json");
+    process.env.XINT_OAUTH_TOKENS_FILE = join(dir, "oauth-tokens.json");
+    process.env.XINT_JOURNAL_FILE = join(dir, "journal.jsonl");
+    process.env.XINT_SNAPSHOTS_DIR = join(dir, "snapshots");
+    process.env.XINT_MEDIA_DIR = join(dir, "media");
+    process.env.XINT_WATCHLIST_FILE = join(dir, "watchlist.json");
+    process.env.XINT_POLICY_FILE = join(dir, "xint.policy.json");
+    process.env.XINT_POLICY_USAGE_FILE = join(dir, "policy-usage.json");
+    writeFileSync(process.env.XINT_OAUTH_TOKENS_FILE, JSON.stringify({
+      access_token: "test-user-token",
+      refresh_token: "test-refresh",
+      expires_at: Date.now() + 3_600_000,
+      user_id: "1001",
+      username: "me",
+      scope: "",
+      created_at: "2026-01-01T00:00:00.000Z",
+      refreshed_at: "2026-01-01T00:00:00.000Z",
+    }));
+    resetScheduler();
+    configureScheduler({ minSpacingMs: 0, quiet: true });
+  });
+
+  afterAll(() => {
+    globalThis.fetch = realFetch;
+    server.stop(true);
+    resetScheduler();
+    for (const key of ENV_KEYS) restoreEnv(key, savedEnv[key]);
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  test("read tools return structuredContent matching text and schema", async () => {
+    addSavedSearch("agents", ["ai agents", "--sort", "recent"]);
+    const mcp = new MCPServer({ policyMode: "read_only", enforceBudget: false });
+    const calls: Array<[string, Record<string, unknown>]> = [
+      ["xint_search", { query: "ai agents", limit: 5 }],
+      ["xint_saved_search", { name: "agents" }],
+      ["xint_profile", { username: "alice" }],
+      ["xint_thread", { tweetId: SAMPLE_TWEET.id }],
+      ["xint_tweet", { tweetId: SAMPLE_TWEET.id }],
+      ["xint_tweet", { tweetId: "404" }],
+      ["xint_trends", { location: "worldwide" }],
+      ["xint_article", { url: "https://example.com/sdk" }],
+    ];
+    const results: Record<string, any> = {};
+    for (const [name, args] of calls) {
+      const response = await rpc(mcp, "tools/call", { name, arguments: args });
+      expect(response.error).toBeUndefined();
+      const { structuredContent } = response.result;
+      expect(structuredContent).toEqual(JSON.parse(response.result.content[0].text));
+      expectValid(structuredContent, toolOutputSchema(name));
+      results[`${name}:${String(Object.values(args)[0])}`] = structuredContent.data;
+    }
+
+    expect(results["xint_search:ai agents"][0]).toEqual(SAMPLE_TWEET);
+    expect(results["xint_saved_search:agents"]).toMatchObject({ name: "agents", tweets: [SAMPLE_TWEET, { id: "1900000000000000002" }] });
+    expect(results["xint_profile:alice"].user).toMatchObject({ id: "42", username: "alice" });
+    expect(results[`xint_tweet:${SAMPLE_TWEET.id}`]).toEqual(SAMPLE_TWEET);
+    expect(results["xint_tweet:404"]).toBeNull();
+    expect(results["xint_trends:worldwide"]).toMatchObject({ source: "api", woeid: 1, trends: [
+      { name: "#agents", tweet_count: 12000 },
+      { name: "SDK", tweet_count: null },
+    ] });
+    expect(results["xint_article:https://example.com/sdk"]).toMatchObject({ ...ARTICLE, domain: "example.com", wordCount: 5 });
+  });
+
+  test("account tools return structuredContent matching text and schema", async () => {
+    const mcp = new MCPServer({ policyMode: "moderation", enforceBudget: false });
+    const calls: Array<[string, Record<string, unknown>, string]> = [
+      ["xint_like", { tweetId: SAMPLE_TWEET.id }, "success"],
+      ["xint_unlike", { tweetId: SAMPLE_TWEET.id }, "success"],
+      ["xint_follow", { username: "alice" }, "success"],
+      ["xint_unfollow", { username: "alice" }, "success"],
+      ["xint_lists", {}, "success"],
+      ["xint_list_create", { name: "Robotics" }, "success"],
+      ["xint_list_update", { listId: "1888", private: false }, "success"],
+      ["xint_list_delete", { listId: "1889" }, "success"],
+      ["xint_list_members", { listId: "1888" }, "success"],
+      ["xint_list_members_add", { listId: "1888", username: "alice" }, "success"],
+      ["xint_list_members_remove", { listId: "1888", username: "alice" }, "success"],
+      ["xint_blocks", {}, "success"],
+      ["xint_block", { username: "spammer" }, "success"],
+      ["xint_unblock", { username: "spammer" }, "success"],
+      ["xint_mutes", {}, "success"],
+      ["xint_mute", { username: "spammer" }, "success"],
+      ["xint_unmute", { username: "spammer" }, "success"],
+      ["xint_media", { tweetId: SAMPLE_TWEET.id }, "success"],
+      ["xint_stream_rules", {}, "success"],
+      ["xint_stream_rules_add", { value: "#agents" }, "success"],
+      ["xint_stream_rules_delete", { ids: ["r2"] }, "success"],
+      ["xint_diff", { username: "alice" }, "info"],
+      ["xint_diff", { username: "alice" }, "success"],
+      ["xint_watchlist_add", { username: "alice" }, "success"],
+      ["xint_watchlist", {}, "success"],
+      ["xint_watchlist_remove", { username: "alice" }, "success"],
+    ];
+    const results: Record<string, any> = {};
+    for (const [name, args, type] of calls) {
+      const response = await rpc(mcp, "tools/call", { name, arguments: args });
+      expect(response.error).toBeUndefined();
+      const { structuredContent } = response.result;
+      expect(structuredContent.type).toBe(type);
+      expect(structuredContent).toEqual(JSON.parse(response.result.content[0].text));
+      expectValid(structuredContent, toolOutputSchema(name));
+      results[name] = structuredContent.data;
+    }
+
+    expect(results.xint_follow).toEqual({ success: true, user_id: "42", username: "alice" });
+    expect(results.xint_mute).toMatchObject({ success: true, user_id: "7", action: "mutes_add" });
+    expect(results.xint_media).toMatchObject({ totalMedia: 2, downloaded: 1 });
+    expect(results.xint_stream_rules_add.data).toEqual([{ id: "r2", value: "#agents" }]);
+    expect(results.xint_diff).toMatchObject({ username: "alice", count: 2, diff: { added: [], removed: [], unchanged: 2 } });
+    expect(results.xint_watchlist.accounts.map((a: any) => a.username)).toEqual(["alice"]);
+  });
+});
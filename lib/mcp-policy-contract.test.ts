@@ -0,0 +1,178 @@
+import { afterEach, beforeEach, describe, expect, test } from "bun:test";
+import { existsSync, mkdtempSync, rmSync, writeFileSync } from "fs";
+import { tmpdir } from "os";
+import { join } from "path";
+import { MCPServer } from "./mcp";
+import { getApproval } from "./approvals";
+import { toolOutputSchema, validateJsonSchema } from "./mcp_schemas";
+
+type PolicyMode = "read_only" | "approval" | "engagement" | "moderation";
+
+async function callTool(policyMode: PolicyMode, name: string, args: Record<string, unknown>) {
+  const mcp = new MCPServer({ policyMode, enforceBudget: false });
+  const response = await mcp.handleMessage(
+    JSON.stringify({ jsonrpc: "2.0", id: 1, method: "tools/call", params: { name, arguments: args } }),
+  );
+  return JSON.parse(String(response || "{}")) as { result?: any; error?: { message: string } };
+}
+
+function policyError(response: { error?: { message: string } }) {
+  expect(response.error).toBeDefined();
+  return JSON.parse(response.error!.message) as { code: string; required_mode: string; policy_mode: string };
+}
+
+describe("mcp write tool policy", () => {
+  test("engagement tools are denied in read_only mode", async () => {
+    for (const [name, args] of [
+      ["xint_like", { tweetId: "1" }],
+      ["xint_follow", { username: "alice" }],
+      ["xint_list_create", { name: "AI" }],
+      ["xint_list_members_add", { listId: "1", username: "alice" }],
+      ["xint_stream_rules_add", { value: "from:alice" }],
+    ] as const) {
+      const denied = policyError(await callTool("read_only", name, args));
+      expect(denied).toMatchObject({ code: "POLICY_DENIED", required_mode: "engagement", policy_mode: "read_only" });
+    }
+  });
+
+  test("blocks and mutes need moderation mode", async () => {
+    for (const name of ["xint_blocks", "xint_block", "xint_unblock", "xint_mutes", "xint_mute", "xint_unmute"]) {
+      const denied = policyError(await callTool("engagement", name, { username: "spammer" }));
+      expect(denied).toMatchObject({ code: "POLICY_DENIED", required_mode: "moderation" });
+    }
+  });
+
+  test("allowed tools reach their handler", async () => {
+    // Past the policy check, argument validation runs before any OAuth or network call.
+    const like = await callTool("engagement", "xint_like", {});
+    expect(like.error?.message).toBe("Missing tweetId/tweet_id");
+
+    const block = await callTool("moderation", "xint_block", {});
+    expect(block.error?.message).toBe("Missing username/userId/user_id");
+  });
+});
+
+describe("mcp approval policy", () => {
+  let dir: string;
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), "xint-approvals-"));
+    process.env.XINT_APPROVALS_FILE = join(dir, "approvals.json");
+    process.env.XINT_WATCHLIST_FILE = join(dir, "watchlist.json");
+  });
+
+  afterEach(() => {
+    delete process.env.XINT_APPROVALS_FILE;
+    delete process.env.XINT_WATCHLIST_FILE;
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  test("write tools are queued with a pending_approval status", async () => {
+    const response = await callTool("approval", "xint_block", { username: "spammer" });
+    const envelope = response.result.structuredContent;
+
+    expect(envelope.type).toBe("info");
+    expect(envelope.data).toMatchObject({ status: "pending_approval", tool: "xint_block", required_mode: "moderation" });
+    expect(validateJsonSchema(envelope, toolOutputSchema("xint_block"))).toEqual([]);
+
+    const queued = getApproval(envelope.data.approval_id);
+    expect(queued).toMatchObject({
+      status: "pending",
+      action: { kind: "mcp", tool: "xint_block", arguments: { username: "spammer" } },
+    });
+
+    const status = await callTool("approval", "xint_approvals", { id: envelope.data.approval_id });
+    expect(status.result.structuredContent.data.approvals[0].status).toBe("pending");
+  });
+
+  test("reads still run in approval mode", async () => {
+    const response = await callTool("approval", "xint_watchlist", {});
+    expect(response.result.structuredContent).toMatchObject({ type: "success", data: { accounts: [] } });
+  });
+
+  test("reads above approval rank are still denied", async () => {
+    for (const [name, required] of [
+      ["xint_bookmarks", "engagement"],
+      ["xint_diff", "engagement"],
+      ["xint_blocks", "moderation"],
+    ] as const) {
+      const denied = policyError(await callTool("approval", name, { username: "alice" }));
+      expect(denied).toMatchObject({ code: "POLICY_DENIED", policy_mode: "approval", required_mode: required });
+    }
+  });
+});
+
+describe("mcp policy file", () => {
+  let dir: string;
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), "xint-policy-"));
+    process.env.XINT_POLICY_FILE = join(dir, "xint.policy.json");
+    process.env.XINT_POLICY_USAGE_FILE = join(dir, "policy-usage.json");
+    process.env.XINT_WATCHLIST_FILE = join(dir, "watchlist.json");
+    process.env.XINT_APPROVALS_FILE = join(dir, "approvals.json");
+  });
+
+  afterEach(() => {
+    delete process.env.XINT_POLICY_FILE;
+    delete process.env.XINT_POLICY_USAGE_FILE;
+    delete process.env.XINT_WATCHLIST_FILE;
+    delete process.env.XINT_APPROVALS_FILE;
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  test("rules narrow the mode with the POLICY_DENIED shape", async () => {
+    writeFileSync(process.env.XINT_POLICY_FILE!, JSON.stringify({ deny: ["watchlist_remove"], targets: { follow: ["openai"] } }));
+
+    const denied = policyError(await callTool("read_only", "xint_watchlist_remove", { username: "alice" }));
+    expect(denied).toMatchObject({
+      code: "POLICY_DENIED",
+      policy_mode: "read_only",
+      required_mode: "read_only",
+      rule: "deny",
+      action: "watchlist_remove",
+      target: "alice",
+    });
+
+    const target = policyError(await callTool("engagement", "xint_follow", { username: "elonmusk" }));
+    expect(target).toMatchObject({ code: "POLICY_DENIED", rule: "targets.follow", required_mode: "engagement" });
+  });
+
+  test("an agent can't widen a $watchlist allowlist through the watchlist tools", async () => {
+    writeFileSync(process.env.XINT_POLICY_FILE!, JSON.stringify({ targets: { follow: ["$watchlist"] } }));
+
+    const add = policyError(await callTool("engagement", "xint_watchlist_add", { username: "elonmusk" }));
+    expect(add).toMatchObject({ code: "POLICY_DENIED", rule: "targets.$watchlist", action: "watchlist_add" });
+    const follow = policyError(await callTool("engagement", "xint_follow", { username: "elonmusk" }));
+    expect(follow).toMatchObject({ code: "POLICY_DENIED", rule: "targets.follow" });
+    expect(existsSync(process.env.XINT_WATCHLIST_FILE!)).toBe(false);
+  });
+
+  test("the mode is still the ceiling", async () => {
+    writeFileSync(process.env.XINT_POLICY_FILE!, JSON.stringify({ allow: ["block"] }));
+    const denied = policyError(await callTool("engagement", "xint_block", { username: "spammer" }));
+    expect(denied).toMatchObject({ code: "POLICY_DENIED", required_mode: "moderation" });
+    expect(denied).not.toHaveProperty("rule");
+  });
+
+  test("quotas count executed calls", async () => {
+    writeFileSync(process.env.XINT_POLICY_FILE!, JSON.stringify({ quotas: { watchlist_add: 1 } }));
+
+    const first = await callTool("read_only", "xint_watchlist_add", { username: "alice" });
+    expect(first.result.structuredContent.type).toBe("success");
+    const second = policyError(await callTool("read_only", "xint_watchlist_add", { username: "bob" }));
+    expect(second).toMatchObject({ code: "POLICY_DENIED", rule: "quotas.watchlist_add" });
+  });
+
+  test("denied writes are not queued in approval mode", async () => {
+    writeFileSync(process.env.XINT_POLICY_FILE!, JSON.stringify({ deny: ["block"] }));
+    const denied = policyError(await callTool("approval", "xint_block", { username: "spammer" }));
+    expect(denied).toMatchObject({ code: "POLICY_DENIED", rule: "deny", policy_mode: "approval" });
+  });
+
+  test("an invalid policy file fails closed", async () => {
+    writeFileSync(process.env.XINT_POLICY_FILE!, JSON.stringify({ allow: "search" }));
+    const response = await callTool("read_only", "xint_watchlist", {});
+    expect(JSON.parse(response.error!.message)).toMatchObject({ code: "POLICY_INVALID" });
+  });
+});
@@ -0,0 +1,102 @@
+import { describe, expect, test } from "bun:test";
+import { mkdirSync, mkdtempSync, writeFileSync } from "fs";
+import { tmpdir } from "os";
+import { join } from "path";
+import { MCPServer } from "./mcp";
+import type { PolicyMode } from "./policy";
+
+const dataDir = mkdtempSync(join(tmpdir(), "xint-mcp-resources-"));
+mkdirSync(join(dataDir, "exports"));
+mkdirSync(join(dataDir, "snapshots"));
+writeFileSync(join(dataDir, "watchlist.json"), JSON.stringify({ accounts: [{ username: "alice", addedAt: "2026-01-01" }] }));
+writeFileSync(join(dataDir, "exports", "report-ai-2026-01-01.md"), "# AI report\n");
+writeFileSync(join(dataDir, "snapshots", "alice-followers-2026-01-01.json"), JSON.stringify({ count: 2 }));
+writeFileSync(join(dataDir, "secret.txt"), "not exposed");
+
+async function rpc(
+  method: string,
+  params: Record<string, unknown> = {},
+  policyMode: PolicyMode = "engagement",
+): Promise<any> {
+  const mcp = new MCPServer({ policyMode, enforceBudget: false, dataDir });
+  const response = await mcp.handleMessage(JSON.stringify({ jsonrpc: "2.0", id: 1, method, params }));
+  return JSON.parse(String(response));
+}
+
+describe("mcp resources contract", () => {
+  test("initialize advertises resources and prompts", async () => {
+    const res = await rpc("initialize");
+    expect(res.result.capabilities).toEqual({ tools: {}, resources: {}, prompts: {} });
+  });
+
+  test("resources/list covers watchlist, costs, exports and snapshots", async () => {
+    const res = await rpc("resources/list");
+    const uris = res.result.resources.map((r: any) => r.uri);
+    expect(uris).toEqual([
+      "xint://watchlist",
+      "xint://costs/today",
+      "xint://costs/week",
+      "xint://costs/month",
+      "xint://costs/all",
+      "xint://exports/report-ai-2026-01-01.md",
+      "xint://snapshots/alice-followers-2026-01-01.json",
+    ]);
+    expect(res.result.resources[5].mimeType).toBe("text/markdown");
+  });
+
+  test("snapshots are hidden below engagement, like xint_diff", async () => {
+    const uri = "xint://snapshots/alice-followers-2026-01-01.json";
+    for (const mode of ["read_only", "approval"] as const) {
+      const list = await rpc("resources/list", {}, mode);
+      const uris = list.result.resources.map((r: any) => r.uri);
+      expect(uris).toContain("xint://exports/report-ai-2026-01-01.md");
+      expect(uris).not.toContain(uri);
+      expect((await rpc("resources/read", { uri }, mode)).error.code).toBe(-32002);
+    }
+    expect(JSON.parse((await rpc("resources/read", { uri })).result.contents[0].text)).toEqual({ count: 2 });
+  });
+
+  test("resources/read returns contents", async () => {
+    const watchlist = await rpc("resources/read", { uri: "xint://watchlist" });
+    expect(JSON.parse(watchlist.result.contents[0].text).accounts[0].username).toBe("alice");
+
+    const report = await rpc("resources/read", { uri: "xint://exports/report-ai-2026-01-01.md" });
+    expect(report.result.contents[0]).toEqual({
+      uri: "xint://exports/report-ai-2026-01-01.md",
+      mimeType: "text/markdown",
+      text: "# AI report\n",
+    });
+
+    const costs = await rpc("resources/read", { uri: "xint://costs/today" });
+    expect(costs.result.contents[0].text).toContain("API Costs");
+  });
+
+  test("resources/read rejects unknown URIs and path escapes", async () => {
+    for (const uri of ["xint://nope", "xint://exports/..%2Fsecret.txt", "xint://exports/../secret.txt", "xint://costs/year"]) {
+      const res = await rpc("resources/read", { uri });
+      expect(res.error.code).toBe(-32002);
+    }
+    expect((await rpc("resources/read")).error.code).toBe(-32602);
+  });
+});
+
+describe("mcp prompts contract", () => {
+  test("prompts/list describes arguments", async () => {
+    const res = await rpc("prompts/list");
+    expect(res.result.prompts.map((p: any) => p.name)).toEqual(["report", "sentiment_brief", "competitor_scan"]);
+    expect(res.result.prompts[0].arguments[0]).toEqual({ name: "topic", description: "Topic or search query", required: true });
+  });
+
+  test("prompts/get renders arguments into a user message", async () => {
+    const res = await rpc("prompts/get", { name: "competitor_scan", arguments: { accounts: "@openai, anthropicai" } });
+    expect(res.result.messages).toHaveLength(1);
+    expect(res.result.messages[0].role).toBe("user");
+    expect(res.result.messages[0].content.text).toContain("@openai, @anthropicai");
+  });
+
+  test("prompts/get validates name and required arguments", async () => {
+    expect((await rpc("prompts/get", { name: "nope" })).error.code).toBe(-32602);
+    const missing = await rpc("prompts/get", { name: "report", arguments: {} });
+    expect(missing.error).toEqual({ code: -32602, message: "Prompt 'report' requires argument 'topic'" });
+  });
+});
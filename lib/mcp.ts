@@ -10,12 +10,26 @@ import { recordCommandResult } from "./reliability";
 import { readFileSync } from "fs";
 import { join } from "path";
 import { createMcpToolHandlers, type MCPToolHandler, type ToolExecutionResult } from "./mcp_dispatcher";
-
-type PolicyMode = "read_only" | "engagement" | "moderation";
+import { toolOutputSchema } from "./mcp_schemas";
+import { actionInfo } from "./action_result";
+import { APPROVAL_TOOLS, requestApproval } from "./approvals";
+import { DRY_RUN_TOOLS, previewWrite } from "./dry_run";
+import {
+  checkPolicyFile,
+  mcpAction,
+  PolicyFileError,
+  policyRank,
+  recordPolicyUsage,
+  type PolicyMode,
+} from "./policy";
+import { currentSignal, runAsActor, runWithRequestContext, type RequestActor } from "./request_context";
+import { getMcpPrompt, INVALID_PARAMS, listMcpPrompts, listMcpResources, McpRequestError, readMcpResource } from "./mcp_resources";
 
 interface MCPServerOptions {
   policyMode: PolicyMode;
   enforceBudget: boolean;
+  /** Root for resources (watchlist, exports, snapshots); defaults to data/. */
+  dataDir?: string;
 }
 
 interface MCPSSEServerOptions extends MCPServerOptions {
@@ -23,6 +37,28 @@ interface MCPSSEServerOptions extends MCPServerOptions {
   authToken?: string;
 }
 
+export interface MCPHttpServerOptions extends MCPServerOptions {
+  authToken?: string;
+  /** Exact origins allowed besides loopback ones; requests without Origin are allowed. */
+  allowedOrigins?: string[];
+  sessionIdleMs?: number;    // default 30 minutes
+  maxSessions?: number;      // default 100
+}
+
+/** Per-message hooks from the transport carrying it. */
+export interface MCPTransportContext {
+  /** Send a server notification (e.g. notifications/progress) to the client. */
+  notify?: (message: string) => void;
+  /** Aborts when the transport gives up on the request (client disconnect). */
+  signal?: AbortSignal;
+}
+
+interface MCPHttpSession {
+  server: MCPServer;
+  policyMode: PolicyMode;
+  lastSeenAt: number;
+}
+
 interface PackageQueryClaim {
   claim_id: string;
 }
@@ -92,6 +128,11 @@ function ensurePackageQueryCitations(data: unknown, requireCitations: boolean):
   }
 }
 
+const DRY_RUN_ARG = {
+  type: "boolean",
+  description: "Preview only: resolve targets, check policy and OAuth scopes, and return the X API request and cost estimate without sending it",
+};
+
 // Tool definitions
 const TOOLS = [
   {
@@ -109,6 +150,20 @@ const TOOLS = [
       },
       required: ["query"],
     },
+    outputSchema: toolOutputSchema("xint_search"),
+  },
+  {
+    name: "xint_saved_search",
+    description: "Run a named saved search (created with 'xint saved add') with its stored filters",
+    inputSchema: {
+      type: "object",
+      properties: {
+        name: { type: "string", description: "Saved search name" },
+        limit: { type: "number", description: "Override the saved result limit" },
+      },
+      required: ["name"],
+    },
+    outputSchema: toolOutputSchema("xint_saved_search"),
   },
   {
     name: "xint_profile",
@@ -122,6 +177,7 @@ const TOOLS = [
       },
       required: ["username"],
     },
+    outputSchema: toolOutputSchema("xint_profile"),
   },
   {
     name: "xint_thread",
@@ -134,6 +190,7 @@ const TOOLS = [
       },
       required: ["tweetId"],
     },
+    outputSchema: toolOutputSchema("xint_thread"),
   },
   {
     name: "xint_tweet",
@@ -145,6 +202,7 @@ const TOOLS = [
       },
       required: ["tweetId"],
     },
+    outputSchema: toolOutputSchema("xint_tweet"),
   },
   {
     name: "xint_article",
@@ -158,6 +216,7 @@ const TOOLS = [
       },
       required: ["url"],
     },
+    outputSchema: toolOutputSchema("xint_article"),
   },
   {
     name: "xint_xsearch",
@@ -170,6 +229,7 @@ const TOOLS = [
       },
       required: ["query"],
     },
+    outputSchema: toolOutputSchema("xint_xsearch"),
   },
   {
     name: "xint_collections_list",
@@ -178,6 +238,7 @@ const TOOLS = [
       type: "object",
       properties: {},
     },
+    outputSchema: toolOutputSchema("xint_collections_list"),
   },
   {
     name: "xint_collections_search",
@@ -191,6 +252,7 @@ const TOOLS = [
       },
       required: ["collectionId", "query"],
     },
+    outputSchema: toolOutputSchema("xint_collections_search"),
   },
   {
     name: "xint_analyze",
@@ -204,6 +266,7 @@ const TOOLS = [
       },
       required: ["query"],
     },
+    outputSchema: toolOutputSchema("xint_analyze"),
   },
   {
     name: "xint_trends",
@@ -215,6 +278,7 @@ const TOOLS = [
         limit: { type: "number", description: "Number of trends (default: 20)" },
       },
     },
+    outputSchema: toolOutputSchema("xint_trends"),
   },
   {
     name: "xint_bookmarks",
@@ -226,6 +290,344 @@ const TOOLS = [
         since: { type: "string", description: "Filter by recency: 1h, 1d, 7d" },
       },
     },
+    outputSchema: toolOutputSchema("xint_bookmarks"),
+  },
+  {
+    name: "xint_like",
+    description: "Like a tweet as the authenticated user (requires OAuth)",
+    inputSchema: {
+      type: "object",
+      properties: {
+        tweetId: { type: "string", description: "Tweet ID or URL" },
+        dry_run: DRY_RUN_ARG,
+      },
+      required: ["tweetId"],
+    },
+    outputSchema: toolOutputSchema("xint_like"),
+  },
+  {
+    name: "xint_unlike",
+    description: "Remove your like from a tweet (requires OAuth)",
+    inputSchema: {
+      type: "object",
+      properties: {
+        tweetId: { type: "string", description: "Tweet ID or URL" },
+        dry_run: DRY_RUN_ARG,
+      },
+      required: ["tweetId"],
+    },
+    outputSchema: toolOutputSchema("xint_unlike"),
+  },
+  {
+    name: "xint_follow",
+    description: "Follow a user (requires OAuth)",
+    inputSchema: {
+      type: "object",
+      properties: {
+        username: { type: "string", description: "Username (with or without @) or numeric user ID" },
+        dry_run: DRY_RUN_ARG,
+      },
+      required: ["username"],
+    },
+    outputSchema: toolOutputSchema("xint_follow"),
+  },
+  {
+    name: "xint_unfollow",
+    description: "Unfollow a user (requires OAuth)",
+    inputSchema: {
+      type: "object",
+      properties: {
+        username: { type: "string", description: "Username (with or without @) or numeric user ID" },
+        dry_run: DRY_RUN_ARG,
+      },
+      required: ["username"],
+    },
+    outputSchema: toolOutputSchema("xint_unfollow"),
+  },
+  {
+    name: "xint_lists",
+    description: "List your owned X Lists (requires OAuth)",
+    inputSchema: {
+      type: "object",
+      properties: {
+        limit: { type: "number", description: "Max results (default: 50)" },
+      },
+    },
+    outputSchema: toolOutputSchema("xint_lists"),
+  },
+  {
+    name: "xint_list_create",
+    description: "Create an X List (requires OAuth)",
+    inputSchema: {
+      type: "object",
+      properties: {
+        name: { type: "string", description: "List name" },
+        description: { type: "string", description: "List description" },
+        private: { type: "boolean", description: "Make the list private (default: public)" },
+        dry_run: DRY_RUN_ARG,
+      },
+      required: ["name"],
+    },
+    outputSchema: toolOutputSchema("xint_list_create"),
+  },
+  {
+    name: "xint_list_update",
+    description: "Rename an X List or change its description or visibility (requires OAuth)",
+    inputSchema: {
+      type: "object",
+      properties: {
+        listId: { type: "string", description: "List ID" },
+        name: { type: "string", description: "New list name" },
+        description: { type: "string", description: "New description" },
+        private: { type: "boolean", description: "true for private, false for public" },
+        dry_run: DRY_RUN_ARG,
+      },
+      required: ["listId"],
+    },
+    outputSchema: toolOutputSchema("xint_list_update"),
+  },
+  {
+    name: "xint_list_delete",
+    description: "Delete one of your X Lists (requires OAuth)",
+    inputSchema: {
+      type: "object",
+      properties: {
+        listId: { type: "string", description: "List ID" },
+        dry_run: DRY_RUN_ARG,
+      },
+      required: ["listId"],
+    },
+    outputSchema: toolOutputSchema("xint_list_delete"),
+  },
+  {
+    name: "xint_list_members",
+    description: "List the members of an X List (requires OAuth)",
+    inputSchema: {
+      type: "object",
+      properties: {
+        listId: { type: "string", description: "List ID" },
+        limit: { type: "number", description: "Max results (default: 50)" },
+      },
+      required: ["listId"],
+    },
+    outputSchema: toolOutputSchema("xint_list_members"),
+  },
+  {
+    name: "xint_list_members_add",
+    description: "Add a user to an X List (requires OAuth)",
+    inputSchema: {
+      type: "object",
+      properties: {
+        listId: { type: "string", description: "List ID" },
+        username: { type: "string", description: "Username (with or without @) or numeric user ID" },
+        dry_run: DRY_RUN_ARG,
+      },
+      required: ["listId", "username"],
+    },
+    outputSchema: toolOutputSchema("xint_list_members_add"),
+  },
+  {
+    name: "xint_list_members_remove",
+    description: "Remove a user from an X List (requires OAuth)",
+    inputSchema: {
+      type: "object",
+      properties: {
+        listId: { type: "string", description: "List ID" },
+        username: { type: "string", description: "Username (with or without @) or numeric user ID" },
+        dry_run: DRY_RUN_ARG,
+      },
+      required: ["listId", "username"],
+    },
+    outputSchema: toolOutputSchema("xint_list_members_remove"),
+  },
+  {
+    name: "xint_blocks",
+    description: "List accounts you block (requires OAuth)",
+    inputSchema: {
+      type: "object",
+      properties: {
+        limit: { type: "number", description: "Max results (default: 50)" },
+      },
+    },
+    outputSchema: toolOutputSchema("xint_blocks"),
+  },
+  {
+    name: "xint_block",
+    description: "Block a user (requires OAuth)",
+    inputSchema: {
+      type: "object",
+      properties: {
+        username: { type: "string", description: "Username (with or without @) or numeric user ID" },
+        dry_run: DRY_RUN_ARG,
+      },
+      required: ["username"],
+    },
+    outputSchema: toolOutputSchema("xint_block"),
+  },
+  {
+    name: "xint_unblock",
+    description: "Unblock a user (requires OAuth)",
+    inputSchema: {
+      type: "object",
+      properties: {
+        username: { type: "string", description: "Username (with or without @) or numeric user ID" },
+        dry_run: DRY_RUN_ARG,
+      },
+      required: ["username"],
+    },
+    outputSchema: toolOutputSchema("xint_unblock"),
+  },
+  {
+    name: "xint_mutes",
+    description: "List accounts you mute (requires OAuth)",
+    inputSchema: {
+      type: "object",
+      properties: {
+        limit: { type: "number", description: "Max results (default: 50)" },
+      },
+    },
+    outputSchema: toolOutputSchema("xint_mutes"),
+  },
+  {
+    name: "xint_mute",
+    description: "Mute a user (requires OAuth)",
+    inputSchema: {
+      type: "object",
+      properties: {
+        username: { type: "string", description: "Username (with or without @) or numeric user ID" },
+        dry_run: DRY_RUN_ARG,
+      },
+      required: ["username"],
+    },
+    outputSchema: toolOutputSchema("xint_mute"),
+  },
+  {
+    name: "xint_unmute",
+    description: "Unmute a user (requires OAuth)",
+    inputSchema: {
+      type: "object",
+      properties: {
+        username: { type: "string", description: "Username (with or without @) or numeric user ID" },
+        dry_run: DRY_RUN_ARG,
+      },
+      required: ["username"],
+    },
+    outputSchema: toolOutputSchema("xint_unmute"),
+  },
+  {
+    name: "xint_media",
+    description: "Download a tweet's photos and videos to data/media",
+    inputSchema: {
+      type: "object",
+      properties: {
+        tweetId: { type: "string", description: "Tweet ID or URL" },
+        maxItems: { type: "number", description: "Download at most N items" },
+        filter: { type: "string", enum: ["all", "photos", "video"], description: "Media types to download (default: all)" },
+        nameTemplate: { type: "string", description: "Filename template: {tweet_id} {username} {index} {type} {media_key} {created_at} {ext}" },
+      },
+      required: ["tweetId"],
+    },
+    outputSchema: toolOutputSchema("xint_media"),
+  },
+  {
+    name: "xint_stream_rules",
+    description: "List filtered stream rules",
+    inputSchema: {
+      type: "object",
+      properties: {},
+    },
+    outputSchema: toolOutputSchema("xint_stream_rules"),
+  },
+  {
+    name: "xint_stream_rules_add",
+    description: "Add a filtered stream rule",
+    inputSchema: {
+      type: "object",
+      properties: {
+        value: { type: "string", description: "Rule expression (e.g., 'from:elonmusk -is:retweet')" },
+        tag: { type: "string", description: "Tag for routing matched tweets" },
+        dry_run: DRY_RUN_ARG,
+      },
+      required: ["value"],
+    },
+    outputSchema: toolOutputSchema("xint_stream_rules_add"),
+  },
+  {
+    name: "xint_stream_rules_delete",
+    description: "Delete filtered stream rules by ID",
+    inputSchema: {
+      type: "object",
+      properties: {
+        ids: { type: "array", items: { type: "string" }, description: "Rule IDs to delete" },
+        dry_run: DRY_RUN_ARG,
+      },
+      required: ["ids"],
+    },
+    outputSchema: toolOutputSchema("xint_stream_rules_delete"),
+  },
+  {
+    name: "xint_diff",
+    description: "Snapshot a user's followers (or following) and diff against the previous snapshot (requires OAuth)",
+    inputSchema: {
+      type: "object",
+      properties: {
+        username: { type: "string", description: "Username (with or without @) or numeric user ID" },
+        following: { type: "boolean", description: "Track the following list instead of followers" },
+        pages: { type: "number", description: "Max pages of 1000 users, 1-15 (default: 5)" },
+      },
+      required: ["username"],
+    },
+    outputSchema: toolOutputSchema("xint_diff"),
+  },
+  {
+    name: "xint_watchlist",
+    description: "Show the accounts on the xint watchlist",
+    inputSchema: {
+      type: "object",
+      properties: {},
+    },
+    outputSchema: toolOutputSchema("xint_watchlist"),
+  },
+  {
+    name: "xint_watchlist_add",
+    description: "Add an account to the watchlist",
+    inputSchema: {
+      type: "object",
+      properties: {
+        username: { type: "string", description: "Username (with or without @)" },
+        note: { type: "string", description: "Why the account is being watched" },
+      },
+      required: ["username"],
+    },
+    outputSchema: toolOutputSchema("xint_watchlist_add"),
+  },
+  {
+    name: "xint_watchlist_remove",
+    description: "Remove an account from the watchlist",
+    inputSchema: {
+      type: "object",
+      properties: {
+        username: { type: "string", description: "Username (with or without @)" },
+      },
+      required: ["username"],
+    },
+    outputSchema: toolOutputSchema("xint_watchlist_remove"),
+  },
+  {
+    name: "xint_approvals",
+    description: "Check write actions queued for human approval (policy mode 'approval')",
+    inputSchema: {
+      type: "object",
+      properties: {
+        id: { type: "string", description: "Approval ID returned by a queued tool call" },
+        status: {
+          type: "string",
+          enum: ["pending", "approved", "rejected", "failed"],
+          description: "Only requests with this status (default: all)",
+        },
+      },
+    },
+    outputSchema: toolOutputSchema("xint_approvals"),
   },
   {
     name: "xint_package_create",
@@ -253,6 +655,7 @@ const TOOLS = [
       },
       required: ["name", "topicQuery", "sources", "timeWindow", "policy", "analysisProfile"],
     },
+    outputSchema: toolOutputSchema("xint_package_create"),
   },
   {
     name: "xint_package_status",
@@ -264,6 +667,7 @@ const TOOLS = [
       },
       required: ["packageId"],
     },
+    outputSchema: toolOutputSchema("xint_package_status"),
   },
   {
     name: "xint_package_query",
@@ -282,6 +686,7 @@ const TOOLS = [
       },
       required: ["query", "packageIds"],
     },
+    outputSchema: toolOutputSchema("xint_package_query"),
   },
   {
     name: "xint_package_refresh",
@@ -294,6 +699,7 @@ const TOOLS = [
       },
       required: ["packageId", "reason"],
     },
+    outputSchema: toolOutputSchema("xint_package_refresh"),
   },
   {
     name: "xint_package_search",
@@ -306,6 +712,7 @@ const TOOLS = [
       },
       required: ["query"],
     },
+    outputSchema: toolOutputSchema("xint_package_search"),
   },
   {
     name: "xint_package_publish",
@@ -318,6 +725,7 @@ const TOOLS = [
       },
       required: ["packageId", "snapshotVersion"],
     },
+    outputSchema: toolOutputSchema("xint_package_publish"),
   },
   {
     name: "xint_cache_clear",
@@ -326,6 +734,7 @@ const TOOLS = [
       type: "object",
       properties: {},
     },
+    outputSchema: toolOutputSchema("xint_cache_clear"),
   },
   {
     name: "xint_costs",
@@ -340,11 +749,13 @@ const TOOLS = [
         },
       },
     },
+    outputSchema: toolOutputSchema("xint_costs"),
   },
 ];
 
 const TOOL_POLICY: Record<string, PolicyMode> = {
   xint_search: "read_only",
+  xint_saved_search: "read_only",
   xint_profile: "read_only",
   xint_thread: "read_only",
   xint_tweet: "read_only",
@@ -355,6 +766,32 @@ const TOOL_POLICY: Record<string, PolicyMode> = {
   xint_analyze: "read_only",
   xint_trends: "read_only",
   xint_bookmarks: "engagement",
+  xint_like: "engagement",
+  xint_unlike: "engagement",
+  xint_follow: "engagement",
+  xint_unfollow: "engagement",
+  xint_lists: "engagement",
+  xint_list_create: "engagement",
+  xint_list_update: "engagement",
+  xint_list_delete: "engagement",
+  xint_list_members: "engagement",
+  xint_list_members_add: "engagement",
+  xint_list_members_remove: "engagement",
+  xint_blocks: "moderation",
+  xint_block: "moderation",
+  xint_unblock: "moderation",
+  xint_mutes: "moderation",
+  xint_mute: "moderation",
+  xint_unmute: "moderation",
+  xint_media: "read_only",
+  xint_stream_rules: "read_only",
+  xint_stream_rules_add: "engagement",
+  xint_stream_rules_delete: "engagement",
+  xint_diff: "engagement",
+  xint_watchlist: "read_only",
+  xint_watchlist_add: "read_only",
+  xint_watchlist_remove: "read_only",
+  xint_approvals: "read_only",
   xint_package_create: "read_only",
   xint_package_status: "read_only",
   xint_package_query: "read_only",
@@ -367,6 +804,7 @@ const TOOL_POLICY: Record<string, PolicyMode> = {
 
 const TOOL_BUDGET_GUARDED = new Set<string>([
   "xint_search",
+  "xint_saved_search",
   "xint_profile",
   "xint_thread",
   "xint_tweet",
@@ -376,6 +814,28 @@ const TOOL_BUDGET_GUARDED = new Set<string>([
   "xint_collections_search",
   "xint_analyze",
   "xint_bookmarks",
+  "xint_like",
+  "xint_unlike",
+  "xint_follow",
+  "xint_unfollow",
+  "xint_lists",
+  "xint_list_create",
+  "xint_list_update",
+  "xint_list_delete",
+  "xint_list_members",
+  "xint_list_members_add",
+  "xint_list_members_remove",
+  "xint_blocks",
+  "xint_block",
+  "xint_unblock",
+  "xint_mutes",
+  "xint_mute",
+  "xint_unmute",
+  "xint_media",
+  "xint_stream_rules",
+  "xint_stream_rules_add",
+  "xint_stream_rules_delete",
+  "xint_diff",
   "xint_package_create",
   "xint_package_query",
   "xint_package_refresh",
@@ -383,16 +843,15 @@ const TOOL_BUDGET_GUARDED = new Set<string>([
   "xint_package_publish",
 ]);
 
-function policyRank(mode: PolicyMode): number {
-  switch (mode) {
-    case "read_only": return 1;
-    case "engagement": return 2;
-    case "moderation": return 3;
-  }
-}
+const SUPPORTED_PROTOCOL_VERSIONS = ["2025-06-18", "2025-03-26", "2024-11-05"];
+const SESSION_HEADER = "Mcp-Session-Id";
+const POLICY_HEADER = "X-Xint-Policy";
+const SESSION_IDLE_MS = 30 * 60 * 1000;
+const MAX_SESSIONS = 100;
+const LOOPBACK_ORIGIN = /^https?:\/\/(localhost|127\.0\.0\.1|\[::1\])(:\d+)?$/i;
 
 function parsePolicyMode(raw?: string): PolicyMode {
-  if (raw === "engagement" || raw === "moderation") return raw;
+  if (raw === "approval" || raw === "engagement" || raw === "moderation") return raw;
   return "read_only";
 }
 
@@ -402,6 +861,8 @@ export class MCPServer {
   private idCounter = 1;
   private readonly options: MCPServerOptions;
   private readonly toolHandlers: Record<string, MCPToolHandler>;
+  /** In-flight tools/call requests by JSON-encoded id, for notifications/cancelled. */
+  private readonly inFlight = new Map<string, AbortController>();
 
   constructor(options: MCPServerOptions) {
     this.options = options;
@@ -413,7 +874,7 @@ export class MCPServer {
     });
   }
 
-  async handleMessage(msg: string): Promise<string | null> {
+  async handleMessage(msg: string, transport: MCPTransportContext = {}): Promise<string | null> {
     let request: any;
     try {
       request = JSON.parse(msg);
@@ -427,6 +888,7 @@ export class MCPServer {
     const { method, params, id } = request;
     const requestId = id ?? this.idCounter++;
     const toolStartedAtMs = method === "tools/call" ? Date.now() : 0;
+    const controller = method === "tools/call" && id !== undefined ? new AbortController() : undefined;
 
     try {
       switch (method) {
@@ -436,16 +898,25 @@ export class MCPServer {
             jsonrpc: "2.0",
             id: requestId,
             result: {
-              protocolVersion: "2024-11-05",
-              capabilities: { tools: {} },
+              protocolVersion: SUPPORTED_PROTOCOL_VERSIONS.includes(params?.protocolVersion)
+                ? params.protocolVersion
+                : SUPPORTED_PROTOCOL_VERSIONS[0],
+              capabilities: { tools: {}, resources: {}, prompts: {} },
               serverInfo: { name: "xint", version: "1.0.0" }
             }
           });
         }
 
         case "initialized":
+        case "notifications/initialized":
           return null;
 
+        case "notifications/cancelled": {
+          const inFlight = this.inFlight.get(JSON.stringify(params?.requestId));
+          inFlight?.abort(new Error(`Cancelled by client${params?.reason ? `: ${params.reason}` : ""}`));
+          return null;
+        }
+
         case "tools/list":
           return JSON.stringify({
             jsonrpc: "2.0",
@@ -453,32 +924,59 @@ export class MCPServer {
             result: { tools: TOOLS }
           });
 
+        case "resources/list":
+          return JSON.stringify({
+            jsonrpc: "2.0",
+            id: requestId,
+            result: { resources: listMcpResources(this.options.policyMode, this.options.dataDir) }
+          });
+
+        case "resources/read": {
+          const uri = params?.uri;
+          if (typeof uri !== "string" || !uri) {
+            throw new McpRequestError(INVALID_PARAMS, "resources/read requires a 'uri' string");
+          }
+          return JSON.stringify({
+            jsonrpc: "2.0",
+            id: requestId,
+            result: { contents: [readMcpResource(uri, this.options.policyMode, this.options.dataDir)] }
+          });
+        }
+
+        case "prompts/list":
+          return JSON.stringify({
+            jsonrpc: "2.0",
+            id: requestId,
+            result: { prompts: listMcpPrompts() }
+          });
+
+        case "prompts/get":
+          return JSON.stringify({
+            jsonrpc: "2.0",
+            id: requestId,
+            result: getMcpPrompt(String(params?.name || ""), params?.arguments || {})
+          });
+
         case "tools/call": {
           const toolName = params?.name;
           const args = params?.arguments || {};
-          const result = await this.executeTool(toolName, args);
+          const result = await this.runToolCall(toolName, args, id, params?._meta?.progressToken, controller, transport);
           recordCommandResult(
             `mcp:${toolName}`,
             true,
             Date.now() - toolStartedAtMs,
             { mode: "mcp", fallback: result.fallbackUsed },
           );
+          const envelope = { type: result.type, message: result.message, data: result.data };
           return JSON.stringify({
             jsonrpc: "2.0",
             id: requestId,
             result: {
               content: [{
                 type: "text",
-                text: JSON.stringify(
-                  {
-                    type: result.type,
-                    message: result.message,
-                    data: result.data,
-                  },
-                  null,
-                  2,
-                )
-              }]
+                text: JSON.stringify(envelope, null, 2)
+              }],
+              structuredContent: envelope,
             }
           });
         }
@@ -491,6 +989,11 @@ export class MCPServer {
           });
       }
     } catch (error: any) {
+      if (controller?.signal.aborted) {
+        // Cancelled calls get no response (the client has moved on).
+        recordCommandResult(`mcp:${params?.name}`, false, Math.max(0, Date.now() - toolStartedAtMs), { mode: "mcp" });
+        return null;
+      }
       if (method === "tools/call" && params?.name) {
         recordCommandResult(
           `mcp:${params.name}`,
@@ -502,28 +1005,91 @@ export class MCPServer {
       return JSON.stringify({
         jsonrpc: "2.0",
         id: requestId,
-        error: { code: -32603, message: error.message }
+        error: { code: error instanceof McpRequestError ? error.code : -32603, message: error.message }
       });
     }
   }
 
+  /**
+   * Run a tool with cancellation and progress wired up: notifications/cancelled
+   * (or the transport giving up) aborts in-flight fetches, and paginated
+   * fetches report notifications/progress when the call has a progressToken.
+   */
+  private async runToolCall(
+    name: string,
+    args: Record<string, unknown>,
+    id: unknown,
+    progressToken: unknown,
+    controller: AbortController | undefined,
+    transport: MCPTransportContext,
+  ): Promise<ToolExecutionResult> {
+    // Writes are journaled as MCP actions under the server's policy mode.
+    const actor: RequestActor = { source: "mcp", policyMode: this.options.policyMode };
+    if (!controller) return runAsActor(actor, () => this.executeTool(name, args));
+
+    const key = JSON.stringify(id);
+    const onTransportAbort = () => controller.abort(transport.signal?.reason);
+    this.inFlight.set(key, controller);
+    transport.signal?.addEventListener("abort", onTransportAbort, { once: true });
+
+    let lastProgress = -Infinity;
+    const onProgress = (progress: number, total?: number, message?: string) => {
+      // Progress must increase; nested paginations may restart their count.
+      if (progressToken === undefined || !transport.notify || progress <= lastProgress) return;
+      lastProgress = progress;
+      transport.notify(JSON.stringify({
+        jsonrpc: "2.0",
+        method: "notifications/progress",
+        params: {
+          progressToken,
+          progress,
+          ...(total !== undefined && { total }),
+          ...(message && { message }),
+        },
+      }));
+    };
+
+    try {
+      return await runWithRequestContext({ signal: controller.signal, onProgress, actor }, () => this.executeTool(name, args));
+    } finally {
+      this.inFlight.delete(key);
+      transport.signal?.removeEventListener("abort", onTransportAbort);
+    }
+  }
+
   private extractTweetId(input: string): string {
     const urlMatch = input.match(/status\/(\d+)/);
     if (urlMatch) return urlMatch[1];
     return input;
   }
 
-  private ensurePolicyAllowed(name: string): void {
+  private ensurePolicyAllowed(name: string, args: Record<string, unknown>, queued: boolean): void {
     const required = TOOL_POLICY[name] || "read_only";
-    if (policyRank(this.options.policyMode) >= policyRank(required)) return;
-    throw new Error(
-      JSON.stringify({
-        code: "POLICY_DENIED",
-        message: `MCP tool '${name}' requires '${required}' policy mode`,
-        policy_mode: this.options.policyMode,
-        required_mode: required,
-      }),
-    );
+    // Approval mode queues (or previews) write tools in executeTool; reads
+    // still need their own mode, like in every other mode.
+    const deferred = this.options.policyMode === "approval" && APPROVAL_TOOLS.has(name);
+    if (policyRank(this.options.policyMode) < policyRank(required) && !deferred) {
+      throw new Error(
+        JSON.stringify({
+          code: "POLICY_DENIED",
+          message: `MCP tool '${name}' requires '${required}' policy mode`,
+          policy_mode: this.options.policyMode,
+          required_mode: required,
+        }),
+      );
+    }
+
+    // xint.policy.json narrows the mode further (same rules as the CLI).
+    let denial;
+    try {
+      denial = checkPolicyFile(mcpAction(name, args), { queued });
+    } catch (e) {
+      if (e instanceof PolicyFileError) throw new Error(JSON.stringify({ code: e.code, message: e.message }));
+      throw e;
+    }
+    if (denial) {
+      throw new Error(JSON.stringify({ ...denial, policy_mode: this.options.policyMode, required_mode: required }));
+    }
   }
 
   private ensureBudgetAllowed(name: string): void {
@@ -543,15 +1109,43 @@ export class MCPServer {
   }
 
   private async executeTool(name: string, args: Record<string, unknown>): Promise<ToolExecutionResult> {
-    this.ensurePolicyAllowed(name);
+    const dryRun = args.dry_run === true && DRY_RUN_TOOLS.has(name);
+    const queued = this.options.policyMode === "approval" && APPROVAL_TOOLS.has(name) && !dryRun;
+    this.ensurePolicyAllowed(name, args, queued);
+    if (queued) {
+      return this.queueForApproval(name, args);
+    }
     this.ensureBudgetAllowed(name);
     const handler = this.toolHandlers[name];
     if (!handler) {
       throw new Error(`Unknown tool: ${name}`);
     }
+    if (dryRun) {
+      return this.previewTool(handler, args);
+    }
+    recordPolicyUsage(mcpAction(name, args));
     return handler(args);
   }
 
+  /** dry_run: resolve and validate as usual, but return the write request instead of sending it. */
+  private async previewTool(handler: MCPToolHandler, args: Record<string, unknown>): Promise<ToolExecutionResult> {
+    const plan = await previewWrite(() => handler(args));
+    if (!plan) return actionInfo("Dry run: no write request would be sent.", { dry_run: true });
+    return actionInfo(`Dry run: ${plan.request.method} ${plan.request.url} was not sent.`, plan);
+  }
+
+  private queueForApproval(name: string, args: Record<string, unknown>): ToolExecutionResult {
+    if (!this.toolHandlers[name]) throw new Error(`Unknown tool: ${name}`);
+    const entry = requestApproval({ kind: "mcp", tool: name, arguments: args }, TOOL_POLICY[name] || "read_only");
+    return actionInfo(`Queued for approval as ${entry.id}. A human must run 'xint approvals approve ${entry.id}'.`, {
+      status: "pending_approval",
+      approval_id: entry.id,
+      tool: name,
+      required_mode: entry.required_mode,
+      created_at: entry.created_at,
+    });
+  }
+
   private async callPackageApi(method: string, path: string, body?: unknown): Promise<unknown> {
     const baseUrl = envOrDotEnv("XINT_PACKAGE_API_BASE_URL");
     if (!baseUrl) {
@@ -570,6 +1164,7 @@ export class MCPServer {
     const res = await fetch(url, {
       method,
       headers,
+      signal: currentSignal(),
       body: body === undefined ? undefined : JSON.stringify(body),
     });
 
@@ -608,9 +1203,28 @@ export class MCPServer {
   }
 }
 
+/**
+ * Run a tool call a human approved (xint approvals approve) at the policy
+ * mode it needs. Returns the result envelope; JSON-RPC errors are thrown.
+ */
+export async function runApprovedTool(
+  name: string,
+  args: Record<string, unknown>,
+  policyMode: string,
+): Promise<{ type: string; message: string; data?: unknown }> {
+  const server = new MCPServer({ policyMode: parsePolicyMode(policyMode), enforceBudget: true });
+  const response = await server.handleMessage(
+    JSON.stringify({ jsonrpc: "2.0", id: 1, method: "tools/call", params: { name, arguments: args } }),
+  );
+  const parsed = JSON.parse(String(response));
+  if (parsed.error) throw new Error(parsed.error.message);
+  return parsed.result.structuredContent;
+}
+
 // CLI entry point
 export async function cmdMCPServer(args: string[]) {
   const isSSE = args.includes("--sse");
+  const isHttp = args.includes("--http");
   const noBudget = args.includes("--no-budget-guard");
   const policyArg = args.find((arg) => arg.startsWith("--policy="));
   const policyMode = parsePolicyMode(policyArg?.split("=")[1] || process.env.XINT_POLICY_MODE);
@@ -620,16 +1234,25 @@ export async function cmdMCPServer(args: string[]) {
   const host = hostArg?.split("=")[1] || process.env.XINT_MCP_HOST || "127.0.0.1";
   const authTokenArg = args.find((arg) => arg.startsWith("--auth-token="));
   const authToken = authTokenArg?.split("=")[1] || process.env.XINT_MCP_AUTH_TOKEN;
+  const originsArg = args.find((arg) => arg.startsWith("--allowed-origins="));
+  const allowedOrigins = (originsArg?.split("=")[1] || process.env.XINT_MCP_ALLOWED_ORIGINS || "")
+    .split(",")
+    .map((o) => o.trim())
+    .filter(Boolean);
 
   console.error("Starting xint MCP server...");
   console.error(`Policy mode: ${policyMode} | Budget guard: ${noBudget ? "disabled" : "enabled"}`);
 
-  if (isSSE) {
+  if (isSSE || isHttp) {
     if (host !== "127.0.0.1" && host !== "localhost" && !authToken) {
       throw new Error(
         "Refusing non-loopback MCP bind without auth token. Set XINT_MCP_AUTH_TOKEN or pass --auth-token=<token>."
       );
     }
+  }
+  if (isHttp) {
+    runStreamableHttp(port, host, { policyMode, enforceBudget: !noBudget, authToken, allowedOrigins });
+  } else if (isSSE) {
     await runSSE(port, { policyMode, enforceBudget: !noBudget, host, authToken });
   } else {
     await runStdio({ policyMode, enforceBudget: !noBudget });
@@ -649,7 +1272,7 @@ async function runStdio(options: MCPServerOptions) {
   rl.on("line", async (line) => {
     if (!line.trim()) return;
     try {
-      const response = await server.handleMessage(line);
+      const response = await server.handleMessage(line, { notify: (message) => console.log(message) });
       if (response) {
         console.log(response);
       }
@@ -726,6 +1349,149 @@ async function runSSE(port: number, options: MCPSSEServerOptions) {
   });
 }
 
+function jsonRpcError(status: number, code: number, message: string, headers: Record<string, string> = {}): Response {
+  return Response.json({ jsonrpc: "2.0", id: null, error: { code, message } }, { status, headers });
+}
+
+/**
+ * MCP Streamable HTTP transport (single /mcp endpoint). POST carries JSON-RPC
+ * messages; `initialize` creates a session returned in Mcp-Session-Id, which
+ * later requests must echo; DELETE ends it. Each session has its own
+ * MCPServer, so its policy mode (X-Xint-Policy on initialize, capped at the
+ * server's mode) and state stay separate from other agents.
+ */
+export function createStreamableHttpHandler(options: MCPHttpServerOptions): {
+  fetch: (req: Request) => Promise<Response>;
+  sessionCount: () => number;
+} {
+  const sessions = new Map<string, MCPHttpSession>();
+  const idleMs = options.sessionIdleMs ?? SESSION_IDLE_MS;
+  const maxSessions = options.maxSessions ?? MAX_SESSIONS;
+  const allowedOrigins = new Set(options.allowedOrigins || []);
+
+  const expireIdle = () => {
+    const cutoff = Date.now() - idleMs;
+    for (const [id, session] of sessions) {
+      if (session.lastSeenAt < cutoff) sessions.delete(id);
+    }
+  };
+
+  const fetch = async (req: Request): Promise<Response> => {
+    const url = new URL(req.url);
+    if (url.pathname !== "/mcp") return new Response(null, { status: 404 });
+
+    // DNS rebinding protection: browsers always send Origin.
+    const origin = req.headers.get("origin");
+    if (origin && !LOOPBACK_ORIGIN.test(origin) && !allowedOrigins.has(origin)) {
+      return jsonRpcError(403, -32000, `Origin not allowed: ${origin}`);
+    }
+    if (options.authToken && !hasValidBearerToken(req.headers.get("authorization") || undefined, options.authToken)) {
+      return jsonRpcError(401, -32001, "Unauthorized", { "WWW-Authenticate": "Bearer" });
+    }
+
+    expireIdle();
+    const sessionId = req.headers.get(SESSION_HEADER);
+    const session = sessionId ? sessions.get(sessionId) : undefined;
+
+    if (req.method === "DELETE") {
+      if (!sessionId || !session) return jsonRpcError(404, -32001, "Session not found");
+      sessions.delete(sessionId);
+      return new Response(null, { status: 204 });
+    }
+    if (req.method === "GET") {
+      // No server-initiated stream; responses come back on each POST.
+      return new Response(null, { status: 405, headers: { Allow: "POST, DELETE" } });
+    }
+    if (req.method !== "POST") {
+      return new Response(null, { status: 405, headers: { Allow: "POST, DELETE" } });
+    }
+
+    let body: unknown;
+    try {
+      body = await req.json();
+    } catch {
+      return jsonRpcError(400, -32700, "Parse error");
+    }
+    const messages = Array.isArray(body) ? body : [body];
+    const initialize = messages.find((m: any) => m?.method === "initialize");
+
+    let active = session;
+    let newSessionId: string | undefined;
+    if (initialize) {
+      if (messages.length > 1) return jsonRpcError(400, -32600, "initialize must not be batched");
+      const requested = req.headers.get(POLICY_HEADER);
+      const policyMode = requested ? parsePolicyMode(requested) : options.policyMode;
+      if (requested && parsePolicyMode(requested) !== requested) {
+        return jsonRpcError(400, -32602, `Unknown policy mode: ${requested}`);
+      }
+      if (policyRank(policyMode) > policyRank(options.policyMode)) {
+        return jsonRpcError(
+          403,
+          -32000,
+          `Policy mode '${policyMode}' exceeds server policy '${options.policyMode}'`,
+        );
+      }
+      if (sessions.size >= maxSessions) return jsonRpcError(503, -32000, "Too many sessions");
+      newSessionId = crypto.randomUUID();
+      active = {
+        server: new MCPServer({ policyMode, enforceBudget: options.enforceBudget, dataDir: options.dataDir }),
+        policyMode,
+        lastSeenAt: Date.now(),
+      };
+      sessions.set(newSessionId, active);
+    } else if (!sessionId) {
+      return jsonRpcError(400, -32000, `Missing ${SESSION_HEADER} header; send initialize first`);
+    } else if (!session) {
+      // Expired or unknown: the client must re-initialize.
+      return jsonRpcError(404, -32001, "Session not found");
+    }
+
+    active!.lastSeenAt = Date.now();
+    const headers: Record<string, string> = {};
+    if (newSessionId) headers[SESSION_HEADER] = newSessionId;
+    // Notifications and client responses have no reply.
+    const isRequest = (message: any) => message?.id !== undefined && Boolean(message?.method);
+
+    // Calls asking for progress get an SSE response: progress notifications, then the result.
+    const wantsProgress = messages.some((m: any) => isRequest(m) && m?.params?._meta?.progressToken !== undefined);
+    if (wantsProgress && (req.headers.get("accept") || "").includes("text/event-stream")) {
+      const encoder = new TextEncoder();
+      const body = new ReadableStream<Uint8Array>({
+        async start(controller) {
+          const send = (message: string) => controller.enqueue(encoder.encode(`event: message\ndata: ${message}\n\n`));
+          for (const message of messages) {
+            const response = await active!.server.handleMessage(JSON.stringify(message), { notify: send, signal: req.signal });
+            if (response && isRequest(message)) send(response);
+          }
+          controller.close();
+        },
+      });
+      return new Response(body, {
+        headers: { ...headers, "Content-Type": "text/event-stream", "Cache-Control": "no-cache" },
+      });
+    }
+
+    const responses: unknown[] = [];
+    for (const message of messages) {
+      const response = await active!.server.handleMessage(JSON.stringify(message), { signal: req.signal });
+      if (response && isRequest(message)) responses.push(JSON.parse(response));
+    }
+
+    if (responses.length === 0) return new Response(null, { status: 202, headers });
+    return Response.json(Array.isArray(body) ? responses : responses[0], { headers });
+  };
+
+  return { fetch, sessionCount: () => sessions.size };
+}
+
+function runStreamableHttp(port: number, host: string, options: MCPHttpServerOptions) {
+  const handler = createStreamableHttpHandler(options);
+  Bun.serve({ port, hostname: host, fetch: handler.fetch });
+  console.error(`xint MCP server (Streamable HTTP) running on http://${host}:${port}/mcp`);
+  console.error(`Auth: ${options.authToken ? "enabled (Bearer token)" : "disabled (local bind only)"}`);
+  if (options.allowedOrigins?.length) console.error(`Allowed origins: ${options.allowedOrigins.join(", ")}`);
+}
+
 // Run if called directly
 if (import.meta.main) {
   cmdMCPServer(process.argv.slice(2)).catch(console.error);
@@ -1,5 +1,17 @@
-import { describe, expect, test } from "bun:test";
+import { afterEach, beforeEach, describe, expect, test } from "bun:test";
+import { mkdtempSync, readFileSync, rmSync } from "fs";
+import { tmpdir } from "os";
+import { join } from "path";
 import { createMcpToolHandlers } from "./mcp_dispatcher";
+import { MCPServer } from "./mcp";
+
+function createHandlers() {
+  return createMcpToolHandlers({
+    extractTweetId: (input) => input,
+    callPackageApi: async () => ({ ok: true }),
+    ensurePackageQueryCitations: () => undefined,
+  });
+}
 
 describe("mcp dispatcher", () => {
   test("registers core handlers", () => {
@@ -14,4 +26,59 @@ describe("mcp dispatcher", () => {
     expect(typeof handlers.xint_package_query).toBe("function");
     expect(typeof handlers.xint_cache_clear).toBe("function");
   });
+
+  test("every listed tool has a handler", async () => {
+    const handlers = createHandlers();
+    const mcp = new MCPServer({ policyMode: "read_only", enforceBudget: false });
+    const response = JSON.parse(String(await mcp.handleMessage(JSON.stringify({ jsonrpc: "2.0", id: 1, method: "tools/list" }))));
+    const names: string[] = response.result.tools.map((t: { name: string }) => t.name);
+
+    expect(names).toContain("xint_like");
+    expect(names).toContain("xint_stream_rules_add");
+    expect(names.filter((name) => typeof handlers[name] !== "function")).toEqual([]);
+  });
+
+  test("validates arguments before touching the network", async () => {
+    const handlers = createHandlers();
+    await expect(handlers.xint_like({})).rejects.toThrow("Missing tweetId/tweet_id");
+    await expect(handlers.xint_list_update({ listId: "1888" })).rejects.toThrow("No changes provided");
+    await expect(handlers.xint_stream_rules_delete({ ids: [] })).rejects.toThrow("Missing ids");
+    await expect(handlers.xint_list_members_add({ listId: "1888" })).rejects.toThrow("Missing username");
+  });
+});
+
+describe("mcp watchlist tools", () => {
+  let dir: string;
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), "xint-watchlist-"));
+    process.env.XINT_WATCHLIST_FILE = join(dir, "watchlist.json");
+  });
+
+  afterEach(() => {
+    delete process.env.XINT_WATCHLIST_FILE;
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  test("add, list and remove accounts", async () => {
+    const handlers = createHandlers();
+
+    const added = await handlers.xint_watchlist_add({ username: "@Alice", note: "competitor" });
+    expect(added.type).toBe("success");
+    expect((added.data as any).account).toMatchObject({ username: "Alice", note: "competitor" });
+
+    const again = await handlers.xint_watchlist_add({ username: "alice" });
+    expect(again.type).toBe("info");
+    expect(again.message).toContain("already on watchlist");
+
+    const listed = await handlers.xint_watchlist({});
+    expect((listed.data as any).accounts.map((a: any) => a.username)).toEqual(["Alice"]);
+
+    const removed = await handlers.xint_watchlist_remove({ username: "ALICE" });
+    expect(removed.data).toEqual({ removed: true, username: "ALICE" });
+    expect(JSON.parse(readFileSync(process.env.XINT_WATCHLIST_FILE!, "utf-8"))).toEqual({ accounts: [] });
+
+    const missing = await handlers.xint_watchlist_remove({ username: "bob" });
+    expect(missing.type).toBe("info");
+  });
 });
@@ -3,7 +3,28 @@ import * as cache from "./cache";
 import { checkBudget, getCostSummary, trackCost } from "./costs";
 import { fetchTrends, resolveWoeid } from "./trends";
 import { fetchArticle } from "./article";
-import { actionInfo, actionSuccess, type ActionExecutionResult } from "./action_result";
+import { archiveTweets } from "./archive";
+import { buildSearchQuery, lintQuery } from "./query";
+import { getSavedSearch, markSavedSearchRun, parseSearchArgs } from "./saved";
+import { fetchSearch, refineSearchResults } from "./search";
+import { actionError, actionInfo, actionSuccess, type ActionExecutionResult } from "./action_result";
+import { getValidToken, loadTokens } from "./oauth";
+import { followUser, likeTweet, resolveTargetUser, unfollowUser, unlikeTweet } from "./engagement";
+import {
+  addMember,
+  createList,
+  deleteList,
+  fetchListMembers,
+  fetchOwnedLists,
+  removeMember,
+  updateList,
+} from "./lists";
+import { addUser, fetchUsers, MODERATION_MODES, removeUser } from "./moderation";
+import { downloadTweetMedia, type MediaFilter } from "./media";
+import { addRule, deleteRules, listRules } from "./stream";
+import { takeSnapshot } from "./followers";
+import { addToWatchlist, loadWatchlist, removeFromWatchlist } from "./watchlist";
+import { getApproval, listApprovals, type ApprovalStatus } from "./approvals";
 
 export type ToolExecutionResult = ActionExecutionResult<unknown>;
 
@@ -15,6 +36,101 @@ export type MCPDispatcherDeps = {
   ensurePackageQueryCitations: (data: unknown, requireCitations: boolean) => void;
 };
 
+/** The authenticated user for OAuth tools (like, follow, lists, blocks, mutes, diff). */
+async function oauthSession(): Promise<{ userId: string; accessToken: string }> {
+  const tokens = loadTokens();
+  if (!tokens) throw new Error("Not authenticated. Run 'xint auth setup' first.");
+  return { userId: tokens.user_id, accessToken: await getValidToken() };
+}
+
+function requiredString(args: Record<string, unknown>, ...keys: string[]): string {
+  for (const key of keys) {
+    const value = args[key];
+    if (typeof value === "string" && value.trim()) return value.trim();
+  }
+  throw new Error(`Missing ${keys.join("/")}`);
+}
+
+function optionalBoolean(value: unknown): boolean | undefined {
+  return value === undefined ? undefined : Boolean(value);
+}
+
+function listLimit(args: Record<string, unknown>): number {
+  return Math.max(1, Number(args.limit) || 50);
+}
+
+async function setTweetLike(tweetId: string, liked: boolean): Promise<ToolExecutionResult> {
+  const { userId, accessToken } = await oauthSession();
+  const ok = liked
+    ? await likeTweet(userId, tweetId, accessToken)
+    : await unlikeTweet(userId, tweetId, accessToken);
+  trackCost(liked ? "like" : "unlike", `/2/users/${userId}/likes`, 0);
+  const verb = liked ? "like" : "unlike";
+  if (!ok) return actionError(`Failed to ${verb} tweet ${tweetId}.`);
+  return actionSuccess(`${liked ? "Liked" : "Unliked"} tweet ${tweetId}.`, { success: ok, tweet_id: tweetId });
+}
+
+async function setFollowing(target: string, follow: boolean): Promise<ToolExecutionResult> {
+  const { userId, accessToken } = await oauthSession();
+  const resolved = await resolveTargetUser(target, accessToken);
+  const ok = follow
+    ? await followUser(userId, resolved.id, accessToken)
+    : await unfollowUser(userId, resolved.id, accessToken);
+  trackCost(follow ? "follow" : "unfollow", `/2/users/${userId}/following`, 0);
+  const data = { success: ok, user_id: resolved.id, username: resolved.username };
+  if (!ok) return actionError(`Failed to ${follow ? "follow" : "unfollow"} @${resolved.username}.`);
+  return actionSuccess(`${follow ? "Following" : "Unfollowed"} @${resolved.username}.`, data);
+}
+
+async function setListMember(
+  args: Record<string, unknown>,
+  add: boolean,
+): Promise<ToolExecutionResult> {
+  const listId = requiredString(args, "listId", "list_id");
+  const target = requiredString(args, "username", "userId", "user_id");
+  const { accessToken } = await oauthSession();
+  const resolved = await resolveTargetUser(target, accessToken);
+  const ok = add
+    ? await addMember(listId, resolved.id, accessToken)
+    : await removeMember(listId, resolved.id, accessToken);
+  trackCost(add ? "list_members_add" : "list_members_remove", `/2/lists/${listId}/members`, 0);
+  if (!ok) return actionError(`Failed to ${add ? "add" : "remove"} @${resolved.username} ${add ? "to" : "from"} list ${listId}.`);
+  return actionSuccess(
+    `${add ? "Added" : "Removed"} @${resolved.username} ${add ? "to" : "from"} list ${listId}.`,
+    { success: ok, list_id: listId, user_id: resolved.id, username: resolved.username },
+  );
+}
+
+async function listModerated(mode: "blocks" | "mutes", args: Record<string, unknown>): Promise<ToolExecutionResult> {
+  const cfg = MODERATION_MODES[mode];
+  const { userId, accessToken } = await oauthSession();
+  const users = await fetchUsers(userId, accessToken, cfg, listLimit(args));
+  trackCost(cfg.listOp, `/2/users/${userId}/${cfg.path}`, users.length);
+  return actionSuccess(`Fetched ${users.length} ${mode}.`, users);
+}
+
+async function setModerated(
+  mode: "blocks" | "mutes",
+  args: Record<string, unknown>,
+  add: boolean,
+): Promise<ToolExecutionResult> {
+  const cfg = MODERATION_MODES[mode];
+  const target = requiredString(args, "username", "userId", "user_id");
+  const { userId, accessToken } = await oauthSession();
+  const resolved = await resolveTargetUser(target, accessToken);
+  const ok = add
+    ? await addUser(userId, resolved.id, accessToken, cfg)
+    : await removeUser(userId, resolved.id, accessToken, cfg);
+  trackCost(add ? cfg.addOp : cfg.removeOp, `/2/users/${userId}/${cfg.path}`, 0);
+  const noun = mode === "blocks" ? "block" : "mute";
+  const data = { success: ok, user_id: resolved.id, username: resolved.username, action: `${mode}_${add ? "add" : "remove"}` };
+  if (!ok) return actionError(`Failed to ${add ? noun : `remove ${noun} for`} @${resolved.username}.`);
+  return actionSuccess(
+    add ? `${mode === "blocks" ? "Blocked" : "Muted"} @${resolved.username}.` : `Removed ${noun} for @${resolved.username}.`,
+    data,
+  );
+}
+
 export function createMcpToolHandlers(deps: MCPDispatcherDeps): Record<string, MCPToolHandler> {
   return {
     async xint_search(args) {
@@ -33,15 +149,38 @@ export function createMcpToolHandlers(deps: MCPDispatcherDeps): Record<string, M
         results = results.filter((t: any) => t.conversation_id === t.id);
       }
       trackCost("search", "/2/tweets/search/recent", tweets.length);
+      archiveTweets(tweets, "mcp:search");
       return actionSuccess("Search completed.", results.slice(0, Number(args.limit) || 15));
     },
 
+    async xint_saved_search(args) {
+      const name = String(args.name || "");
+      const saved = getSavedSearch(name);
+      if (!saved) throw new Error(`Saved search not found: ${name}`);
+
+      const opts = parseSearchArgs(saved.args);
+      const query = buildSearchQuery(opts.query, {
+        from: opts.from,
+        noRetweets: opts.noRetweets,
+        noReplies: opts.quick || opts.noReplies,
+      });
+      const lint = lintQuery(query, { fullArchive: opts.full });
+      if (!lint.ok) throw new Error(`Invalid saved query: ${lint.issues[0].message}`);
+      const tweets = await fetchSearch(query, { ...opts, fullArchive: opts.full }, "mcp:saved_search");
+      markSavedSearchRun(saved.name);
+      const results = refineSearchResults(tweets, opts);
+
+      const limit = Number(args.limit) || opts.limit;
+      return actionSuccess("Saved search completed.", { name: saved.name, query, tweets: results.slice(0, limit) });
+    },
+
     async xint_profile(args) {
       const username = String(args.username || "");
       const count = Number(args.count) || 20;
       const includeReplies = Boolean(args.includeReplies);
       const { user, tweets } = await api.profile(username, { count, includeReplies });
       trackCost("profile", `/2/users/by/username/${username}`, tweets.length + 1);
+      archiveTweets(tweets, "mcp:profile");
       return actionSuccess("Profile lookup completed.", { user, tweets: tweets.slice(0, count) });
     },
 
@@ -50,6 +189,7 @@ export function createMcpToolHandlers(deps: MCPDispatcherDeps): Record<string, M
       const pages = Number(args.pages) || 2;
       const tweets = await api.thread(tweetId, { pages });
       trackCost("thread", "/2/tweets/search/recent", tweets.length);
+      archiveTweets(tweets, "mcp:thread");
       return actionSuccess("Thread lookup completed.", { tweets });
     },
 
@@ -57,6 +197,7 @@ export function createMcpToolHandlers(deps: MCPDispatcherDeps): Record<string, M
       const tweetId = deps.extractTweetId(String(args.tweetId || ""));
       const tweet = await api.getTweet(tweetId);
       trackCost("tweet", `/2/tweets/${tweetId}`, tweet ? 1 : 0);
+      if (tweet) archiveTweets([tweet], "mcp:tweet");
       return actionSuccess("Tweet lookup completed.", tweet);
     },
 
@@ -183,6 +324,203 @@ export function createMcpToolHandlers(deps: MCPDispatcherDeps): Record<string, M
       return actionSuccess("Package publish requested.", data);
     },
 
+    async xint_like(args) {
+      return setTweetLike(deps.extractTweetId(requiredString(args, "tweetId", "tweet_id")), true);
+    },
+
+    async xint_unlike(args) {
+      return setTweetLike(deps.extractTweetId(requiredString(args, "tweetId", "tweet_id")), false);
+    },
+
+    async xint_follow(args) {
+      return setFollowing(requiredString(args, "username", "userId", "user_id"), true);
+    },
+
+    async xint_unfollow(args) {
+      return setFollowing(requiredString(args, "username", "userId", "user_id"), false);
+    },
+
+    async xint_lists(args) {
+      const { userId, accessToken } = await oauthSession();
+      const lists = await fetchOwnedLists(userId, accessToken, listLimit(args));
+      trackCost("lists_list", `/2/users/${userId}/owned_lists`, lists.length);
+      return actionSuccess(`Fetched ${lists.length} lists.`, lists);
+    },
+
+    async xint_list_create(args) {
+      const name = requiredString(args, "name");
+      const { accessToken } = await oauthSession();
+      const created = await createList(accessToken, {
+        name,
+        description: typeof args.description === "string" ? args.description : undefined,
+        private: optionalBoolean(args.private),
+      });
+      trackCost("lists_create", "/2/lists", 0);
+      return actionSuccess(`Created list "${name}".`, created);
+    },
+
+    async xint_list_update(args) {
+      const listId = requiredString(args, "listId", "list_id");
+      const changes = {
+        name: typeof args.name === "string" ? args.name : undefined,
+        description: typeof args.description === "string" ? args.description : undefined,
+        private: optionalBoolean(args.private),
+      };
+      if (changes.name === undefined && changes.description === undefined && changes.private === undefined) {
+        throw new Error("No changes provided. Set name, description or private.");
+      }
+      const { accessToken } = await oauthSession();
+      const result = await updateList(listId, accessToken, changes);
+      trackCost("lists_update", `/2/lists/${listId}`, 0);
+      return actionSuccess(result.updated ? `Updated list ${listId}.` : `No changes applied to list ${listId}.`, result);
+    },
+
+    async xint_list_delete(args) {
+      const listId = requiredString(args, "listId", "list_id");
+      const { accessToken } = await oauthSession();
+      const result = await deleteList(listId, accessToken);
+      trackCost("lists_delete", `/2/lists/${listId}`, 0);
+      if (!result.deleted) return actionError(`Failed to delete list ${listId}.`);
+      return actionSuccess(`Deleted list ${listId}.`, result);
+    },
+
+    async xint_list_members(args) {
+      const listId = requiredString(args, "listId", "list_id");
+      const { accessToken } = await oauthSession();
+      const members = await fetchListMembers(listId, accessToken, listLimit(args));
+      trackCost("list_members_list", `/2/lists/${listId}/members`, members.length);
+      return actionSuccess(`Fetched ${members.length} members of list ${listId}.`, members);
+    },
+
+    async xint_list_members_add(args) {
+      return setListMember(args, true);
+    },
+
+    async xint_list_members_remove(args) {
+      return setListMember(args, false);
+    },
+
+    async xint_blocks(args) {
+      return listModerated("blocks", args);
+    },
+
+    async xint_block(args) {
+      return setModerated("blocks", args, true);
+    },
+
+    async xint_unblock(args) {
+      return setModerated("blocks", args, false);
+    },
+
+    async xint_mutes(args) {
+      return listModerated("mutes", args);
+    },
+
+    async xint_mute(args) {
+      return setModerated("mutes", args, true);
+    },
+
+    async xint_unmute(args) {
+      return setModerated("mutes", args, false);
+    },
+
+    async xint_media(args) {
+      const tweetId = deps.extractTweetId(requiredString(args, "tweetId", "tweet_id"));
+      const filter = args.filter === "photos" || args.filter === "video" ? (args.filter as MediaFilter) : "all";
+      const maxItems = Number(args.maxItems || args.max_items) || undefined;
+      // Files always go to data/media; agents don't choose paths.
+      const summary = await downloadTweetMedia(tweetId, {
+        maxItems,
+        mediaFilter: filter,
+        nameTemplate: typeof args.nameTemplate === "string" && args.nameTemplate.trim() ? args.nameTemplate : undefined,
+      });
+      if (summary.totalMedia === 0) return actionInfo("No media attachments found on this tweet.", summary);
+      return actionSuccess(`Downloaded ${summary.downloaded} of ${summary.selectedMedia} media items.`, summary);
+    },
+
+    async xint_stream_rules() {
+      const rules = await listRules();
+      trackCost("stream_rules_list", "/2/tweets/search/stream/rules", 0);
+      return actionSuccess(`Fetched ${rules.length} stream rules.`, rules);
+    },
+
+    async xint_stream_rules_add(args) {
+      const value = requiredString(args, "value");
+      const tag = typeof args.tag === "string" && args.tag.trim() ? args.tag.trim() : undefined;
+      const res = await addRule(value, tag);
+      trackCost("stream_rules_add", "/2/tweets/search/stream/rules", 0);
+      const errors = Array.isArray(res?.errors) ? res.errors : [];
+      if (errors.length > 0 && !res?.data) {
+        throw new Error(`Stream rule rejected: ${errors.map((e: any) => e.title || e.message || e.value).join("; ")}`);
+      }
+      return actionSuccess("Stream rule added.", res);
+    },
+
+    async xint_stream_rules_delete(args) {
+      const ids = Array.isArray(args.ids) ? args.ids.map(String).filter(Boolean) : [];
+      if (ids.length === 0) throw new Error("Missing ids");
+      const res = await deleteRules(ids);
+      trackCost("stream_rules_delete", "/2/tweets/search/stream/rules", 0);
+      return actionSuccess(`Deleted ${ids.length} stream rule(s).`, res);
+    },
+
+    async xint_diff(args) {
+      const username = requiredString(args, "username").replace(/^@/, "");
+      const type = args.following ? "following" : "followers";
+      const maxPages = Math.min(Math.max(1, Number(args.pages) || 5), 15);
+      const { accessToken } = await oauthSession();
+      const { current, diff, savedPath } = await takeSnapshot(username, type, accessToken, { maxPages });
+      const data = {
+        username,
+        type,
+        timestamp: current.timestamp,
+        count: current.count,
+        snapshot: savedPath,
+        diff,
+      };
+      if (!diff) {
+        return actionInfo(`First ${type} snapshot for @${username} (${current.count} users). Run again later to see changes.`, data);
+      }
+      return actionSuccess(
+        `@${username} ${type}: +${diff.added.length} / -${diff.removed.length} since ${diff.previous.timestamp.slice(0, 10)}.`,
+        data,
+      );
+    },
+
+    async xint_watchlist() {
+      const { accounts } = loadWatchlist();
+      return actionSuccess(`Watchlist has ${accounts.length} accounts.`, { accounts });
+    },
+
+    async xint_watchlist_add(args) {
+      const username = requiredString(args, "username");
+      const note = typeof args.note === "string" && args.note.trim() ? args.note.trim() : undefined;
+      const result = addToWatchlist(username, note);
+      const handle = result.account.username;
+      return result.added
+        ? actionSuccess(`Added @${handle} to watchlist.`, result)
+        : actionInfo(`@${handle} already on watchlist.`, result);
+    },
+
+    async xint_watchlist_remove(args) {
+      const username = requiredString(args, "username").replace(/^@/, "");
+      const removed = removeFromWatchlist(username);
+      return removed
+        ? actionSuccess(`Removed @${username} from watchlist.`, { removed, username })
+        : actionInfo(`@${username} not found on watchlist.`, { removed, username });
+    },
+
+    async xint_approvals(args) {
+      if (typeof args.id === "string" && args.id) {
+        const entry = getApproval(args.id);
+        if (!entry) throw new Error(`Approval not found: ${args.id}`);
+        return actionSuccess(`Approval ${entry.id} is ${entry.status}.`, { approvals: [entry] });
+      }
+      const status = typeof args.status === "string" ? (args.status as ApprovalStatus) : undefined;
+      const approvals = listApprovals({ status });
+      return actionSuccess(`${approvals.length} approval requests.`, { approvals });
+    },
+
     async xint_cache_clear() {
       const removed = cache.clear();
       return actionSuccess("Cache cleared.", { cleared: removed });
@@ -0,0 +1,259 @@
+/**
+ * lib/mcp_resources.ts — MCP resources and prompts.
+ *
+ * Resources expose local xint state read-only:
+ *   xint://watchlist              data/watchlist.json
+ *   xint://costs/<period>         cost summary (today, week, month, all)
+ *   xint://exports/<file>         saved reports and drafts in data/exports
+ *   xint://snapshots/<file>       follower/following snapshots in data/snapshots
+ *                                 (engagement or above, like xint_diff)
+ *
+ * Prompts are curated research workflows that steer an agent through the
+ * xint tools (report, sentiment brief, competitor scan).
+ */
+
+import { existsSync, readdirSync, readFileSync, statSync } from "fs";
+import { extname, join } from "path";
+import { getCostSummary } from "./costs";
+import { policyRank, type PolicyMode } from "./policy";
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+export interface McpResource {
+  uri: string;
+  name: string;
+  description?: string;
+  mimeType: string;
+  size?: number;
+}
+
+export interface McpResourceContents {
+  uri: string;
+  mimeType: string;
+  text: string;
+}
+
+export interface McpPromptArgument {
+  name: string;
+  description: string;
+  required?: boolean;
+}
+
+export interface McpPrompt {
+  name: string;
+  description: string;
+  arguments: McpPromptArgument[];
+}
+
+export interface McpPromptMessage {
+  role: "user" | "assistant";
+  content: { type: "text"; text: string };
+}
+
+/** JSON-RPC error with a specific code (e.g. -32002 resource not found). */
+export class McpRequestError extends Error {
+  constructor(readonly code: number, message: string) {
+    super(message);
+  }
+}
+
+// ---------------------------------------------------------------------------
+// Constants
+// ---------------------------------------------------------------------------
+
+const DEFAULT_DATA_DIR = join(import.meta.dir, "..", "data");
+const COST_PERIODS = ["today", "week", "month", "all"] as const;
+const FILE_COLLECTIONS: Record<string, { label: string; mode: PolicyMode }> = {
+  exports: { label: "Saved export", mode: "read_only" },
+  // Same mode as xint_diff and `xint diff`, which read the same files.
+  snapshots: { label: "Follower snapshot", mode: "engagement" },
+};
+
+export const RESOURCE_NOT_FOUND = -32002;
+export const INVALID_PARAMS = -32602;
+
+// ---------------------------------------------------------------------------
+// Resources
+// ---------------------------------------------------------------------------
+
+function mimeTypeFor(file: string): string {
+  switch (extname(file).toLowerCase()) {
+    case ".json": return "application/json";
+    case ".md": return "text/markdown";
+    case ".jsonl": return "application/jsonl";
+    default: return "text/plain";
+  }
+}
+
+function listDir(dir: string): string[] {
+  if (!existsSync(dir)) return [];
+  return readdirSync(dir)
+    .filter((f) => !f.startsWith(".") && statSync(join(dir, f)).isFile())
+    .sort()
+    .reverse();
+}
+
+/** Collections of files the session's policy mode may see. */
+function visibleCollections(policyMode: PolicyMode): string[] {
+  return Object.keys(FILE_COLLECTIONS).filter((c) => policyRank(policyMode) >= policyRank(FILE_COLLECTIONS[c].mode));
+}
+
+export function listMcpResources(policyMode: PolicyMode, dataDir: string = DEFAULT_DATA_DIR): McpResource[] {
+  const resources: McpResource[] = [
+    {
+      uri: "xint://watchlist",
+      name: "Watchlist",
+      description: "Accounts on the xint watchlist (xint watchlist add <user>)",
+      mimeType: "application/json",
+    },
+    ...COST_PERIODS.map((period) => ({
+      uri: `xint://costs/${period}`,
+      name: `API costs (${period})`,
+      description: `X API spend and budget usage: ${period}`,
+      mimeType: "text/plain",
+    })),
+  ];
+
+  for (const collection of visibleCollections(policyMode)) {
+    const { label } = FILE_COLLECTIONS[collection];
+    const dir = join(dataDir, collection);
+    for (const file of listDir(dir)) {
+      resources.push({
+        uri: `xint://${collection}/${encodeURIComponent(file)}`,
+        name: file,
+        description: `${label}: ${file}`,
+        mimeType: mimeTypeFor(file),
+        size: statSync(join(dir, file)).size,
+      });
+    }
+  }
+  return resources;
+}
+
+export function readMcpResource(
+  uri: string,
+  policyMode: PolicyMode,
+  dataDir: string = DEFAULT_DATA_DIR,
+): McpResourceContents {
+  const match = /^xint:\/\/([a-z]+)(?:\/(.+))?$/.exec(uri);
+  const [, kind, rest] = match || [];
+
+  if (kind === "watchlist" && !rest) {
+    const path = join(dataDir, "watchlist.json");
+    const text = existsSync(path) ? readFileSync(path, "utf-8") : JSON.stringify({ accounts: [] }, null, 2);
+    return { uri, mimeType: "application/json", text };
+  }
+
+  if (kind === "costs" && (COST_PERIODS as readonly string[]).includes(rest)) {
+    return { uri, mimeType: "text/plain", text: getCostSummary(rest as (typeof COST_PERIODS)[number]) };
+  }
+
+  if (visibleCollections(policyMode).includes(kind) && rest) {
+    // Only files listed in the directory are readable; no paths.
+    const file = decodeURIComponent(rest);
+    const dir = join(dataDir, kind);
+    if (listDir(dir).includes(file)) {
+      return { uri, mimeType: mimeTypeFor(file), text: readFileSync(join(dir, file), "utf-8") };
+    }
+  }
+
+  throw new McpRequestError(RESOURCE_NOT_FOUND, `Resource not found: ${uri}`);
+}
+
+// ---------------------------------------------------------------------------
+// Prompts
+// ---------------------------------------------------------------------------
+
+interface PromptDefinition extends McpPrompt {
+  render: (args: Record<string, string>) => string;
+}
+
+const PROMPTS: PromptDefinition[] = [
+  {
+    name: "report",
+    description: "Research report on a topic: what is being said, by whom, and what stands out",
+    arguments: [
+      { name: "topic", description: "Topic or search query", required: true },
+      { name: "since", description: "Time window: 1h, 1d, 7d (default: 1d)" },
+    ],
+    render: ({ topic, since = "1d" }) => `Write a research report on "${topic}" from X posts in the last ${since}.
+
+1. Call xint_search with query "${topic}", since "${since}", sort "likes" and limit 50. If results are thin, run a second search with related terms or a broader query.
+2. For the 2-3 most discussed posts, call xint_thread to read the conversation, and xint_article for any linked articles.
+3. Call xint_analyze on the collected tweets to group them into themes.
+
+Report format (markdown):
+- Summary: 3-5 bullet points.
+- Key themes, each with 2-3 representative posts (author, engagement, link).
+- Notable voices: accounts driving the conversation and their stance.
+- Open questions or signals worth watching.
+
+Cite every claim with a tweet URL. Don't speculate beyond what the posts support.`,
+  },
+  {
+    name: "sentiment_brief",
+    description: "Short sentiment brief: overall mood, drivers, and shifts for a topic",
+    arguments: [
+      { name: "topic", description: "Topic, product or ticker", required: true },
+      { name: "since", description: "Time window: 1h, 1d, 7d (default: 1d)" },
+    ],
+    render: ({ topic, since = "1d" }) => `Prepare a sentiment brief for "${topic}" over the last ${since}.
+
+1. Call xint_search with query "${topic}", since "${since}", sort "recent" and limit 100, then again with sort "likes" to catch high-reach posts.
+2. Call xint_analyze with those tweets and ask for per-post sentiment (positive, neutral, negative) with a one-line reason.
+
+Brief format (under 250 words):
+- Overall sentiment with rough percentages.
+- Top 3 drivers of positive and of negative sentiment, each with one example post URL.
+- Any shift in tone within the window, or a spike tied to a specific event.
+- Confidence: low if fewer than 20 relevant posts.`,
+  },
+  {
+    name: "competitor_scan",
+    description: "Compare what competitor accounts posted and how it landed",
+    arguments: [
+      { name: "accounts", description: "Comma-separated usernames (without @)", required: true },
+      { name: "topic", description: "Optional topic to focus on" },
+    ],
+    render: ({ accounts, topic }) => {
+      const users = accounts.split(",").map((a) => a.trim().replace(/^@/, "")).filter(Boolean);
+      const focus = topic ? ` about "${topic}"` : "";
+      return `Run a competitor scan of ${users.map((u) => `@${u}`).join(", ")}${focus}.
+
+1. For each account, call xint_profile with count 30.${topic ? ` Also call xint_search with query "from:<account> ${topic}".` : ""}
+2. Call xint_search for mentions of each account (query "@<account> -from:<account>", since "7d") to see how others respond.
+3. Compare the accounts using post engagement (likes, reposts, replies, impressions).
+
+Output a markdown table with one row per account: posting frequency, main topics, best post (URL and engagement), and audience reaction. Follow it with 3-5 takeaways: what works for them, gaps, and launches or announcements to watch.`;
+    },
+  },
+];
+
+export function listMcpPrompts(): McpPrompt[] {
+  return PROMPTS.map(({ name, description, arguments: args }) => ({ name, description, arguments: args }));
+}
+
+export function getMcpPrompt(
+  name: string,
+  args: Record<string, unknown> = {},
+): { description: string; messages: McpPromptMessage[] } {
+  const prompt = PROMPTS.find((p) => p.name === name);
+  if (!prompt) throw new McpRequestError(INVALID_PARAMS, `Unknown prompt: ${name}`);
+
+  const values: Record<string, string> = {};
+  for (const arg of prompt.arguments) {
+    const value = args[arg.name];
+    if (value === undefined || value === null || String(value).trim() === "") {
+      if (arg.required) throw new McpRequestError(INVALID_PARAMS, `Prompt '${name}' requires argument '${arg.name}'`);
+      continue;
+    }
+    values[arg.name] = String(value).trim();
+  }
+
+  return {
+    description: prompt.description,
+    messages: [{ role: "user", content: { type: "text", text: prompt.render(values) } }],
+  };
+}
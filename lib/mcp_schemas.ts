@@ -0,0 +1,433 @@
+/**
+ * lib/mcp_schemas.ts — Output schemas for MCP tools.
+ *
+ * Every tool returns the same envelope ({ type, message, data }) as text and
+ * as structuredContent; these schemas describe `data` per tool, built from the
+ * Tweet, Trend, Article and XSearchResult shapes and the package API
+ * contracts. validateJsonSchema() checks values against the subset of JSON
+ * Schema used here (contract tests use it).
+ */
+
+import { APPROVAL_TOOLS } from "./approvals";
+import { DRY_RUN_TOOLS } from "./dry_run";
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+export interface JsonSchema {
+  type?: string | string[];
+  description?: string;
+  properties?: Record<string, JsonSchema>;
+  required?: string[];
+  additionalProperties?: boolean;
+  items?: JsonSchema;
+  enum?: unknown[];
+  anyOf?: JsonSchema[];
+  format?: string;
+}
+
+// ---------------------------------------------------------------------------
+// Shared shapes
+// ---------------------------------------------------------------------------
+
+const STRING: JsonSchema = { type: "string" };
+const NUMBER: JsonSchema = { type: "number" };
+const BOOLEAN: JsonSchema = { type: "boolean" };
+const STRINGS: JsonSchema = { type: "array", items: STRING };
+
+function object(properties: Record<string, JsonSchema>, required: string[] = Object.keys(properties)): JsonSchema {
+  return { type: "object", properties, required };
+}
+
+function arrayOf(items: JsonSchema): JsonSchema {
+  return { type: "array", items };
+}
+
+const URL_ENTITY = object(
+  { url: STRING, title: STRING, description: STRING, unwound_url: STRING, images: STRINGS },
+  ["url"],
+);
+
+export const TWEET_SCHEMA: JsonSchema = object({
+  id: STRING,
+  text: STRING,
+  author_id: STRING,
+  username: STRING,
+  name: STRING,
+  created_at: STRING,
+  conversation_id: { type: ["string", "null"] },
+  metrics: object({
+    likes: NUMBER,
+    retweets: NUMBER,
+    replies: NUMBER,
+    quotes: NUMBER,
+    impressions: NUMBER,
+    bookmarks: NUMBER,
+  }),
+  urls: arrayOf(URL_ENTITY),
+  mentions: STRINGS,
+  hashtags: STRINGS,
+  tweet_url: STRING,
+}, ["id", "text", "author_id", "username", "name", "created_at", "metrics", "urls", "mentions", "hashtags", "tweet_url"]);
+
+const TWEETS = arrayOf(TWEET_SCHEMA);
+
+const TREND_SCHEMA = object({ name: STRING, tweet_count: { type: ["number", "null"] }, url: STRING, category: STRING }, [
+  "name",
+  "tweet_count",
+  "url",
+]);
+
+const TRENDS_RESULT_SCHEMA = object({
+  source: { type: "string", enum: ["api", "search_fallback"] },
+  location: STRING,
+  woeid: NUMBER,
+  trends: arrayOf(TREND_SCHEMA),
+  fetched_at: STRING,
+});
+
+const ARTICLE_SCHEMA = object({
+  url: STRING,
+  title: STRING,
+  description: STRING,
+  content: STRING,
+  author: STRING,
+  published: STRING,
+  domain: STRING,
+  ttr: NUMBER,
+  wordCount: NUMBER,
+});
+
+const XSEARCH_RESULT_SCHEMA = object(
+  Object.fromEntries(
+    ["url", "tweet_url", "link", "text", "content", "snippet", "title", "username", "author", "handle", "created_at", "date", "timestamp"]
+      .map((key) => [key, STRING]),
+  ),
+  [],
+);
+
+const XSEARCH_RESPONSE_SCHEMA = object({ results: arrayOf(XSEARCH_RESULT_SCHEMA), summary: STRING });
+
+/** Tools that need a key or OAuth answer with an info envelope and a note. */
+const NOTE_SCHEMA = object({ note: STRING });
+
+const BUDGET_STATUS_SCHEMA = object({
+  allowed: { type: "boolean" },
+  spent: NUMBER,
+  limit: NUMBER,
+  remaining: NUMBER,
+  warning: { type: "boolean" },
+});
+
+// Package API (v1 draft contract). Servers may add fields, so only the
+// documented ones are described and none are required beyond identifiers.
+const FRESHNESS_SCHEMA = object({ updated_at: STRING, ttl_seconds: NUMBER, stale: { type: "boolean" } }, []);
+
+const PACKAGE_SNAPSHOT_SCHEMA = object({
+  package_id: STRING,
+  version: NUMBER,
+  created_at: STRING,
+  evidence_count: NUMBER,
+  claim_count: NUMBER,
+  quality_score: NUMBER,
+}, ["version"]);
+
+const PACKAGE_CREATE_SCHEMA = object({ package_id: STRING, job_id: STRING, status: STRING }, ["package_id"]);
+
+const PACKAGE_RECORD_SCHEMA = object({
+  id: STRING,
+  name: STRING,
+  topic_query: STRING,
+  sources: STRINGS,
+  policy: { type: "string", enum: ["private", "shared_candidate", "shared"] },
+  analysis_profile: { type: "string", enum: ["summary", "analyst", "forensic"] },
+  time_window: object({ from: STRING, to: STRING }),
+  latest_snapshot_version: NUMBER,
+  freshness: FRESHNESS_SCHEMA,
+  snapshots: arrayOf(PACKAGE_SNAPSHOT_SCHEMA),
+}, ["id"]);
+
+const PACKAGE_QUERY_SCHEMA = object({
+  answer: STRING,
+  claims: arrayOf(object({
+    id: STRING,
+    claim_id: STRING,
+    text: STRING,
+    confidence: NUMBER,
+    supporting_evidence_ids: STRINGS,
+  }, [])),
+  citations: arrayOf(object({
+    evidence_id: STRING,
+    claim_id: STRING,
+    source: STRING,
+    source_object_id: STRING,
+    url: STRING,
+    captured_at: STRING,
+  }, [])),
+  freshness: FRESHNESS_SCHEMA,
+  cost: object({ estimated_cost_usd: NUMBER }, []),
+}, []);
+
+const PACKAGE_REFRESH_SCHEMA = object({ job_id: STRING, target_snapshot_version: NUMBER }, []);
+
+const PACKAGE_SEARCH_SCHEMA = object({
+  items: arrayOf(object({
+    package_id: STRING,
+    name: STRING,
+    policy: STRING,
+    freshness: FRESHNESS_SCHEMA,
+  }, ["package_id"])),
+}, ["items"]);
+
+const PACKAGE_PUBLISH_SCHEMA = object({ package_id: STRING, snapshot_version: NUMBER, published: { type: "boolean" } }, []);
+
+// Account actions (OAuth). X may add fields, so only identifiers are required.
+const USER_SCHEMA = object({
+  id: STRING,
+  username: STRING,
+  name: STRING,
+  description: STRING,
+  public_metrics: object({ followers_count: NUMBER, following_count: NUMBER, tweet_count: NUMBER }, []),
+}, ["id", "username"]);
+
+const LIST_SCHEMA = object({
+  id: STRING,
+  name: STRING,
+  owner_id: STRING,
+  private: BOOLEAN,
+  description: STRING,
+  created_at: STRING,
+  follower_count: NUMBER,
+  member_count: NUMBER,
+}, ["id", "name"]);
+
+const LIKE_RESULT_SCHEMA = object({ success: BOOLEAN, tweet_id: STRING });
+const USER_ACTION_SCHEMA = object({ success: BOOLEAN, user_id: STRING, username: STRING, action: STRING }, [
+  "success",
+  "user_id",
+  "username",
+]);
+const LIST_MEMBER_ACTION_SCHEMA = object({ success: BOOLEAN, list_id: STRING, user_id: STRING, username: STRING });
+
+const MEDIA_SUMMARY_SCHEMA = object({
+  tweetId: STRING,
+  username: { type: ["string", "null"] },
+  outputDir: STRING,
+  totalMedia: NUMBER,
+  selectedMedia: NUMBER,
+  nameTemplate: STRING,
+  downloaded: NUMBER,
+  records: arrayOf(object({
+    mediaKey: STRING,
+    type: STRING,
+    sourceUrl: STRING,
+    savedPath: STRING,
+    bytes: NUMBER,
+    error: STRING,
+  }, ["mediaKey", "type"])),
+});
+
+const STREAM_RULE_SCHEMA = object({ id: STRING, value: STRING, tag: STRING }, ["id", "value"]);
+
+/** Raw POST /2/tweets/search/stream/rules response. */
+const STREAM_RULES_RESPONSE_SCHEMA = object({
+  data: arrayOf(STREAM_RULE_SCHEMA),
+  meta: { type: "object" },
+  errors: arrayOf({ type: "object" }),
+}, []);
+
+const SNAPSHOT_USER_SCHEMA = object({
+  id: STRING,
+  username: STRING,
+  name: STRING,
+  followers_count: NUMBER,
+  following_count: NUMBER,
+}, ["id", "username"]);
+
+const FOLLOWER_DIFF_SCHEMA = object({
+  added: arrayOf(SNAPSHOT_USER_SCHEMA),
+  removed: arrayOf(SNAPSHOT_USER_SCHEMA),
+  unchanged: NUMBER,
+  previous: object({ timestamp: STRING, count: NUMBER }),
+  current: object({ timestamp: STRING, count: NUMBER }),
+});
+
+// Approval queue (lib/approvals.ts).
+const PENDING_APPROVAL_SCHEMA = object({
+  status: { type: "string", enum: ["pending_approval"] },
+  approval_id: STRING,
+  tool: STRING,
+  required_mode: STRING,
+  created_at: STRING,
+});
+
+const DRY_RUN_SCHEMA = object({
+  dry_run: { type: "boolean", enum: [true] },
+  operation: STRING,
+  request: object({
+    method: { type: "string", enum: ["POST", "PUT", "DELETE"] },
+    url: STRING,
+    headers: { type: "object" },
+    body: {},
+  }, ["method", "url", "headers"]),
+  estimated_cost_usd: NUMBER,
+  auth: object({
+    type: { type: "string", enum: ["oauth2_user", "app_bearer"] },
+    username: STRING,
+    required_scopes: STRINGS,
+    missing_scopes: STRINGS,
+  }, ["type", "required_scopes", "missing_scopes"]),
+  warnings: STRINGS,
+}, ["dry_run"]);
+
+const APPROVAL_SCHEMA = object({
+  id: STRING,
+  status: { type: "string", enum: ["pending", "approved", "rejected", "failed"] },
+  action: { type: "object" },
+  required_mode: STRING,
+  summary: STRING,
+  created_at: STRING,
+  decided_at: STRING,
+  error: STRING,
+}, ["id", "status", "action", "required_mode", "summary", "created_at"]);
+
+const WATCHLIST_ACCOUNT_SCHEMA = object({ username: STRING, note: STRING, addedAt: STRING }, ["username", "addedAt"]);
+
+// ---------------------------------------------------------------------------
+// Per-tool data schemas
+// ---------------------------------------------------------------------------
+
+const TOOL_DATA_SCHEMAS: Record<string, JsonSchema> = {
+  xint_search: TWEETS,
+  xint_saved_search: object({ name: STRING, query: STRING, tweets: TWEETS }),
+  xint_profile: object({ user: { type: "object" }, tweets: TWEETS }),
+  xint_thread: object({ tweets: TWEETS }),
+  xint_tweet: { anyOf: [TWEET_SCHEMA, { type: "null" }] },
+  xint_article: ARTICLE_SCHEMA,
+  xint_xsearch: { anyOf: [XSEARCH_RESPONSE_SCHEMA, NOTE_SCHEMA] },
+  xint_collections_list: NOTE_SCHEMA,
+  xint_collections_search: NOTE_SCHEMA,
+  xint_analyze: NOTE_SCHEMA,
+  xint_trends: TRENDS_RESULT_SCHEMA,
+  xint_bookmarks: NOTE_SCHEMA,
+  xint_package_create: PACKAGE_CREATE_SCHEMA,
+  xint_package_status: PACKAGE_RECORD_SCHEMA,
+  xint_package_query: PACKAGE_QUERY_SCHEMA,
+  xint_package_refresh: PACKAGE_REFRESH_SCHEMA,
+  xint_package_search: PACKAGE_SEARCH_SCHEMA,
+  xint_package_publish: PACKAGE_PUBLISH_SCHEMA,
+  xint_like: LIKE_RESULT_SCHEMA,
+  xint_unlike: LIKE_RESULT_SCHEMA,
+  xint_follow: USER_ACTION_SCHEMA,
+  xint_unfollow: USER_ACTION_SCHEMA,
+  xint_lists: arrayOf(LIST_SCHEMA),
+  xint_list_create: object({ id: STRING, name: STRING }, []),
+  xint_list_update: object({ updated: BOOLEAN }),
+  xint_list_delete: object({ deleted: BOOLEAN }),
+  xint_list_members: arrayOf(USER_SCHEMA),
+  xint_list_members_add: LIST_MEMBER_ACTION_SCHEMA,
+  xint_list_members_remove: LIST_MEMBER_ACTION_SCHEMA,
+  xint_blocks: arrayOf(USER_SCHEMA),
+  xint_block: USER_ACTION_SCHEMA,
+  xint_unblock: USER_ACTION_SCHEMA,
+  xint_mutes: arrayOf(USER_SCHEMA),
+  xint_mute: USER_ACTION_SCHEMA,
+  xint_unmute: USER_ACTION_SCHEMA,
+  xint_media: MEDIA_SUMMARY_SCHEMA,
+  xint_stream_rules: arrayOf(STREAM_RULE_SCHEMA),
+  xint_stream_rules_add: STREAM_RULES_RESPONSE_SCHEMA,
+  xint_stream_rules_delete: STREAM_RULES_RESPONSE_SCHEMA,
+  xint_diff: object({
+    username: STRING,
+    type: { type: "string", enum: ["followers", "following"] },
+    timestamp: STRING,
+    count: NUMBER,
+    snapshot: STRING,
+    diff: { anyOf: [FOLLOWER_DIFF_SCHEMA, { type: "null" }] },
+  }),
+  xint_watchlist: object({ accounts: arrayOf(WATCHLIST_ACCOUNT_SCHEMA) }),
+  xint_watchlist_add: object({ added: BOOLEAN, account: WATCHLIST_ACCOUNT_SCHEMA }),
+  xint_watchlist_remove: object({ removed: BOOLEAN, username: STRING }),
+  xint_approvals: object({ approvals: arrayOf(APPROVAL_SCHEMA) }),
+  xint_cache_clear: object({ cleared: NUMBER }),
+  xint_costs: object({
+    period: { type: "string", enum: ["today", "week", "month", "all"] },
+    summary: STRING,
+    budget: BUDGET_STATUS_SCHEMA,
+  }),
+};
+
+/**
+ * outputSchema for a tool: the standard envelope with the tool's `data`.
+ * Write tools may instead answer with a pending approval.
+ */
+export function toolOutputSchema(name: string): JsonSchema {
+  const schema = TOOL_DATA_SCHEMAS[name];
+  if (!schema) throw new Error(`No output schema for MCP tool: ${name}`);
+  const variants = [
+    schema,
+    ...(APPROVAL_TOOLS.has(name) ? [PENDING_APPROVAL_SCHEMA] : []),
+    ...(DRY_RUN_TOOLS.has(name) ? [DRY_RUN_SCHEMA] : []),
+  ];
+  const data = variants.length > 1 ? { anyOf: variants } : schema;
+  return object(
+    {
+      type: { type: "string", enum: ["success", "info", "error"] },
+      message: STRING,
+      data,
+    },
+    ["type", "message"],
+  );
+}
+
+// ---------------------------------------------------------------------------
+// Validation
+// ---------------------------------------------------------------------------
+
+function typeOf(value: unknown): string {
+  if (value === null) return "null";
+  if (Array.isArray(value)) return "array";
+  return typeof value;
+}
+
+function matchesType(value: unknown, type: string): boolean {
+  if (type === "integer") return Number.isInteger(value);
+  return typeOf(value) === type;
+}
+
+/** Errors for value against schema ([] when valid), with JSON-pointer-ish paths. */
+export function validateJsonSchema(value: unknown, schema: JsonSchema, path = "$"): string[] {
+  if (schema.anyOf) {
+    const branches = schema.anyOf.map((s) => validateJsonSchema(value, s, path));
+    if (branches.some((errors) => errors.length === 0)) return [];
+    return [`${path}: no anyOf branch matched (${branches.map((e) => e[0]).join("; ")})`];
+  }
+
+  if (schema.type) {
+    const types = Array.isArray(schema.type) ? schema.type : [schema.type];
+    if (!types.some((t) => matchesType(value, t))) {
+      return [`${path}: expected ${types.join(" or ")}, got ${typeOf(value)}`];
+    }
+  }
+  if (schema.enum && !schema.enum.includes(value)) {
+    return [`${path}: expected one of ${schema.enum.map((v) => JSON.stringify(v)).join(", ")}`];
+  }
+
+  const errors: string[] = [];
+  if (typeOf(value) === "object") {
+    const obj = value as Record<string, unknown>;
+    for (const key of schema.required || []) {
+      if (!(key in obj)) errors.push(`${path}.${key}: required`);
+    }
+    for (const [key, child] of Object.entries(obj)) {
+      const propSchema = schema.properties?.[key];
+      if (propSchema) errors.push(...validateJsonSchema(child, propSchema, `${path}.${key}`));
+      else if (schema.additionalProperties === false) errors.push(`${path}.${key}: unexpected property`);
+    }
+  }
+  if (Array.isArray(value) && schema.items) {
+    value.forEach((item, i) => errors.push(...validateJsonSchema(item, schema.items!, `${path}[${i}]`)));
+  }
+  return errors;
+}
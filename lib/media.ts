@@ -21,7 +21,7 @@ interface RawMedia {
   variants?: RawMediaVariant[];
 }
 
-interface DownloadRecord {
+export interface DownloadRecord {
   mediaKey: string;
   type: string;
   sourceUrl?: string;
@@ -30,7 +30,7 @@ interface DownloadRecord {
   error?: string;
 }
 
-type MediaFilter = "all" | "photos" | "video";
+export type MediaFilter = "all" | "photos" | "video";
 interface FileNameContext {
   tweetId: string;
   username?: string;
@@ -41,6 +41,24 @@ interface FileNameContext {
   ext: string;
 }
 
+export interface MediaDownloadOptions {
+  outDir?: string;
+  maxItems?: number;
+  nameTemplate?: string;
+  mediaFilter?: MediaFilter;
+}
+
+export interface MediaDownloadSummary {
+  tweetId: string;
+  username: string | null;
+  outputDir: string;
+  totalMedia: number;
+  selectedMedia: number;
+  nameTemplate: string;
+  downloaded: number;
+  records: DownloadRecord[];
+}
+
 const DOWNLOAD_ATTEMPTS = 3;
 const BACKOFF_BASE_MS = 500;
 const DEFAULT_NAME_TEMPLATE = "{tweet_id}-{index}-{type}";
@@ -149,7 +167,7 @@ export function renderFileNameTemplate(
 }
 
 function defaultMediaDir(): string {
-  return join(import.meta.dir, "..", "data", "media");
+  return process.env.XINT_MEDIA_DIR || join(import.meta.dir, "..", "data", "media");
 }
 
 function parseFlags(args: string[]): {
@@ -275,19 +293,15 @@ Examples:
 `);
 }
 
-export async function cmdMedia(args: string[]): Promise<void> {
-  const { target, outDir, maxItems, nameTemplate, mediaFilter, asJson, help } = parseFlags(args);
-  if (help || !target) {
-    printHelp();
-    return;
-  }
-
-  const tweetId = extractTweetId(target);
-  if (!tweetId) {
-    throw new Error("Invalid tweet ID or tweet URL.");
-  }
-
-  const outputDir = resolve(outDir || defaultMediaDir());
+/**
+ * Fetch a tweet's media metadata and download the selected attachments.
+ * Per-item failures are recorded, not thrown.
+ */
+export async function downloadTweetMedia(
+  tweetId: string,
+  opts: MediaDownloadOptions = {},
+): Promise<MediaDownloadSummary> {
+  const outputDir = resolve(opts.outDir || defaultMediaDir());
   mkdirSync(outputDir, { recursive: true });
 
   const query =
@@ -304,18 +318,8 @@ export async function cmdMedia(args: string[]): Promise<void> {
   const createdAt = typeof (raw as any)?.data?.created_at === "string" ? (raw as any).data.created_at : undefined;
   const username = users.find((u: any) => u.id === authorId)?.username || null;
 
-  if (mediaList.length === 0) {
-    console.log("No media attachments found on this tweet.");
-    return;
-  }
-
-  const selectedMedia = mediaList.filter((m) => matchesMediaFilter(m, mediaFilter));
-  const limitedMedia = maxItems ? selectedMedia.slice(0, maxItems) : selectedMedia;
-  if (limitedMedia.length === 0) {
-    console.log("No media attachments matched the selected filters.");
-    return;
-  }
-
+  const selectedMedia = mediaList.filter((m) => matchesMediaFilter(m, opts.mediaFilter || "all"));
+  const limitedMedia = opts.maxItems ? selectedMedia.slice(0, opts.maxItems) : selectedMedia;
   const records: DownloadRecord[] = [];
 
   for (let i = 0; i < limitedMedia.length; i++) {
@@ -335,7 +339,7 @@ export async function cmdMedia(args: string[]): Promise<void> {
     try {
       const bytes = await downloadBytesWithRetry(sourceUrl);
       const ext = inferExtension(sourceUrl, media.type);
-      const fileName = renderFileNameTemplate(nameTemplate, {
+      const fileName = renderFileNameTemplate(opts.nameTemplate, {
         tweetId,
         username: username || undefined,
         index: i + 1,
@@ -360,29 +364,50 @@ export async function cmdMedia(args: string[]): Promise<void> {
     }
   }
 
+  return {
+    tweetId,
+    username,
+    outputDir,
+    totalMedia: mediaList.length,
+    selectedMedia: limitedMedia.length,
+    nameTemplate: opts.nameTemplate || DEFAULT_NAME_TEMPLATE,
+    downloaded: records.filter((r) => !r.error).length,
+    records,
+  };
+}
+
+export async function cmdMedia(args: string[]): Promise<void> {
+  const { target, outDir, maxItems, nameTemplate, mediaFilter, asJson, help } = parseFlags(args);
+  if (help || !target) {
+    printHelp();
+    return;
+  }
+
+  const tweetId = extractTweetId(target);
+  if (!tweetId) {
+    throw new Error("Invalid tweet ID or tweet URL.");
+  }
+
+  const summary = await downloadTweetMedia(tweetId, { outDir, maxItems, nameTemplate, mediaFilter });
+  const { username, outputDir, records } = summary;
+
+  if (summary.totalMedia === 0) {
+    console.log("No media attachments found on this tweet.");
+    return;
+  }
+  if (summary.selectedMedia === 0) {
+    console.log("No media attachments matched the selected filters.");
+    return;
+  }
+
   if (asJson) {
-    console.log(
-      JSON.stringify(
-        {
-          tweetId,
-          username,
-          outputDir,
-          totalMedia: mediaList.length,
-          selectedMedia: limitedMedia.length,
-          nameTemplate: nameTemplate || DEFAULT_NAME_TEMPLATE,
-          downloaded: records.filter((r) => !r.error).length,
-          records,
-        },
-        null,
-        2,
-      ),
-    );
+    console.log(JSON.stringify(summary, null, 2));
     return;
   }
 
   console.log(`\n🎞️  Media download for tweet ${tweetId}${username ? ` (@${username})` : ""}`);
   console.log(`Output directory: ${outputDir}`);
-  console.log(`Attachments found: ${mediaList.length} (selected: ${limitedMedia.length})\n`);
+  console.log(`Attachments found: ${summary.totalMedia} (selected: ${summary.selectedMedia})\n`);
 
   for (let i = 0; i < records.length; i++) {
     const rec = records[i];
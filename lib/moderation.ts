@@ -17,7 +17,7 @@ interface XUser {
   };
 }
 
-interface ModeConfig {
+export interface ModeConfig {
   noun: "blocks" | "mutes";
   path: "blocking" | "muting";
   listOp: "blocks_list" | "mutes_list";
@@ -27,6 +27,23 @@ interface ModeConfig {
 
 const USER_FIELDS = "user.fields=id,username,name,description,public_metrics";
 
+export const MODERATION_MODES: Record<"blocks" | "mutes", ModeConfig> = {
+  blocks: {
+    noun: "blocks",
+    path: "blocking",
+    listOp: "blocks_list",
+    addOp: "blocks_add",
+    removeOp: "blocks_remove",
+  },
+  mutes: {
+    noun: "mutes",
+    path: "muting",
+    listOp: "mutes_list",
+    addOp: "mutes_add",
+    removeOp: "mutes_remove",
+  },
+};
+
 export function isLikelyUserId(value: string): boolean {
   return /^\d+$/.test(value);
 }
@@ -66,7 +83,7 @@ async function resolveUserId(input: string, accessToken: string): Promise<{ id:
   return { id: user.id, username: user.username || value };
 }
 
-async function fetchUsers(
+export async function fetchUsers(
   userId: string,
   accessToken: string,
   cfg: ModeConfig,
@@ -92,13 +109,13 @@ async function fetchUsers(
   return all.slice(0, maxTotal);
 }
 
-async function addUser(userId: string, targetUserId: string, accessToken: string, cfg: ModeConfig): Promise<boolean> {
+export async function addUser(userId: string, targetUserId: string, accessToken: string, cfg: ModeConfig): Promise<boolean> {
   const url = `${BASE}/users/${userId}/${cfg.path}`;
   const result = await oauthPost(url, accessToken, { target_user_id: targetUserId });
   return result?.data?.blocking === true || result?.data?.muting === true || result?.success === true;
 }
 
-async function removeUser(
+export async function removeUser(
   sourceUserId: string,
   targetUserId: string,
   accessToken: string,
@@ -125,22 +142,7 @@ Examples:
 }
 
 async function runMode(mode: "blocks" | "mutes", rawArgs: string[]): Promise<void> {
-  const cfg: ModeConfig =
-    mode === "blocks"
-      ? {
-          noun: "blocks",
-          path: "blocking",
-          listOp: "blocks_list",
-          addOp: "blocks_add",
-          removeOp: "blocks_remove",
-        }
-      : {
-          noun: "mutes",
-          path: "muting",
-          listOp: "mutes_list",
-          addOp: "mutes_add",
-          removeOp: "mutes_remove",
-        };
+  const cfg = MODERATION_MODES[mode];
 
   const sub = (rawArgs[0] || "list").toLowerCase();
   const args = rawArgs.slice(1);
@@ -8,13 +8,12 @@
  */
 
 import { existsSync, readFileSync, writeFileSync, chmodSync, mkdirSync, renameSync } from "fs";
-import { join } from "path";
+import { dirname, join } from "path";
 import { createHash, randomBytes } from "crypto";
 import * as readline from "readline";
 
 const SKILL_DIR = join(import.meta.dir, "..");
-const TOKENS_PATH = join(SKILL_DIR, "data", "oauth-tokens.json");
-const DATA_DIR = join(SKILL_DIR, "data");
+const DEFAULT_TOKENS_PATH = join(SKILL_DIR, "data", "oauth-tokens.json");
 
 const AUTHORIZE_URL = "https://x.com/i/oauth2/authorize";
 const TOKEN_URL = "https://api.x.com/2/oauth2/token";
@@ -62,16 +61,22 @@ export function generateState(): string {
 
 // --- Token Storage ---
 
+function tokensPath(): string {
+  return process.env.XINT_OAUTH_TOKENS_FILE || DEFAULT_TOKENS_PATH;
+}
+
 function ensureDataDir(): void {
-  if (!existsSync(DATA_DIR)) {
-    mkdirSync(DATA_DIR, { recursive: true });
+  const dir = dirname(tokensPath());
+  if (!existsSync(dir)) {
+    mkdirSync(dir, { recursive: true });
   }
 }
 
 export function loadTokens(): OAuthTokens | null {
-  if (!existsSync(TOKENS_PATH)) return null;
+  const path = tokensPath();
+  if (!existsSync(path)) return null;
   try {
-    return JSON.parse(readFileSync(TOKENS_PATH, "utf-8"));
+    return JSON.parse(readFileSync(path, "utf-8"));
   } catch {
     return null;
   }
@@ -80,10 +85,10 @@ export function loadTokens(): OAuthTokens | null {
 function saveTokens(tokens: OAuthTokens): void {
   ensureDataDir();
   // Atomic write: write to tmp file then rename
-  const tmpPath = TOKENS_PATH + ".tmp";
+  const tmpPath = tokensPath() + ".tmp";
   writeFileSync(tmpPath, JSON.stringify(tokens, null, 2));
   chmodSync(tmpPath, 0o600);
-  renameSync(tmpPath, TOKENS_PATH);
+  renameSync(tmpPath, tokensPath());
 }
 
 // --- Client ID ---
@@ -310,7 +315,7 @@ export async function authSetup(manual: boolean = false): Promise<void> {
   console.error(`\nAuthenticated as @${user.username} (ID: ${user.id})`);
   console.error(`Token expires in ${Math.round(tokenData.expires_in / 60)} minutes`);
   console.error(`Refresh token valid for ~6 months`);
-  console.error(`Tokens saved to ${TOKENS_PATH}`);
+  console.error(`Tokens saved to ${tokensPath()}`);
 }
 
 // --- Localhost Callback Server ---
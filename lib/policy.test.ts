@@ -0,0 +1,140 @@
+import { afterEach, beforeEach, describe, expect, test } from "bun:test";
+import { mkdtempSync, rmSync, writeFileSync } from "fs";
+import { tmpdir } from "os";
+import { join } from "path";
+import {
+  checkPolicyFile,
+  cliAction,
+  mcpAction,
+  PolicyFileError,
+  policyRank,
+  recordPolicyUsage,
+  type PolicyFile,
+} from "./policy";
+
+describe("policy actions", () => {
+  test("CLI commands and aliases map onto MCP tool names", () => {
+    expect(cliAction(["s", "AI agents", "--limit", "5"])).toEqual({ name: "search" });
+    expect(cliAction(["follow", "@openai", "--json"])).toEqual({ name: "follow", target: "@openai" });
+    expect(cliAction(["bm-save", "123"])).toEqual({ name: "bookmark", target: "123" });
+    expect(cliAction(["lists"])).toEqual({ name: "lists" });
+    expect(cliAction(["list", "create", "AI"])).toEqual({ name: "list_create" });
+    expect(cliAction(["lists", "rm", "1888"])).toEqual({ name: "list_delete" });
+    expect(cliAction(["lists", "members", "add", "1888", "@sama"])).toEqual({ name: "list_members_add", target: "@sama" });
+    expect(cliAction(["lists", "members", "1888"])).toEqual({ name: "list_members" });
+    expect(cliAction(["blocks", "add", "@spam"])).toEqual({ name: "block", target: "@spam" });
+    expect(cliAction(["mute", "remove", "42"])).toEqual({ name: "unmute", target: "42" });
+    expect(cliAction(["stream-rules", "clear"])).toEqual({ name: "stream_rules_delete" });
+    expect(cliAction(["saved", "run", "ai-daily"])).toEqual({ name: "saved_search" });
+  });
+
+  test("MCP tools drop the xint_ prefix and expose their target", () => {
+    expect(mcpAction("xint_follow", { username: "openai" })).toEqual({ name: "follow", target: "openai" });
+    expect(mcpAction("xint_like", { tweetId: "https://x.com/a/status/123" })).toEqual({
+      name: "like",
+      target: "https://x.com/a/status/123",
+    });
+    expect(mcpAction("xint_search", { query: "AI" })).toEqual({ name: "search", target: undefined });
+  });
+
+  test("modes rank read_only < approval < engagement < moderation", () => {
+    expect(policyRank("read_only")).toBeLessThan(policyRank("approval"));
+    expect(policyRank("approval")).toBeLessThan(policyRank("engagement"));
+    expect(policyRank("engagement")).toBeLessThan(policyRank("moderation"));
+  });
+});
+
+describe("policy file", () => {
+  let dir: string;
+
+  function writePolicy(policy: PolicyFile | string): void {
+    writeFileSync(process.env.XINT_POLICY_FILE!, typeof policy === "string" ? policy : JSON.stringify(policy));
+  }
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), "xint-policy-"));
+    process.env.XINT_POLICY_FILE = join(dir, "xint.policy.json");
+    process.env.XINT_POLICY_USAGE_FILE = join(dir, "policy-usage.json");
+    process.env.XINT_WATCHLIST_FILE = join(dir, "watchlist.json");
+  });
+
+  afterEach(() => {
+    delete process.env.XINT_POLICY_FILE;
+    delete process.env.XINT_POLICY_USAGE_FILE;
+    delete process.env.XINT_WATCHLIST_FILE;
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  test("no file allows everything", () => {
+    expect(checkPolicyFile({ name: "block", target: "spam" })).toBeNull();
+  });
+
+  test("deny wins and allow is exhaustive", () => {
+    writePolicy({ allow: ["search", "list_*"], deny: ["list_delete"] });
+
+    expect(checkPolicyFile({ name: "search" })).toBeNull();
+    expect(checkPolicyFile({ name: "list_create" })).toBeNull();
+    expect(checkPolicyFile({ name: "list_delete" })).toMatchObject({ code: "POLICY_DENIED", rule: "deny", action: "list_delete" });
+    expect(checkPolicyFile({ name: "follow", target: "x" })).toMatchObject({ rule: "allow", target: "x" });
+  });
+
+  test("targets are matched case-insensitively and $watchlist expands", () => {
+    writeFileSync(process.env.XINT_WATCHLIST_FILE!, JSON.stringify({ accounts: [{ username: "OpenAI", addedAt: "" }] }));
+    writePolicy({ targets: { follow: ["$watchlist"], like: ["123"] } });
+
+    expect(checkPolicyFile({ name: "follow", target: "@openai" })).toBeNull();
+    expect(checkPolicyFile({ name: "follow", target: "elonmusk" })).toMatchObject({
+      rule: "targets.follow",
+      message: "Target 'elonmusk' is not allowed for 'follow' by xint.policy.json",
+    });
+    expect(checkPolicyFile({ name: "like", target: "https://x.com/a/status/123" })).toBeNull();
+    expect(checkPolicyFile({ name: "unfollow", target: "elonmusk" })).toBeNull();
+  });
+
+  test("watchlist edits need their own targets rule while $watchlist is an allowlist", () => {
+    writePolicy({ targets: { follow: ["$watchlist"] } });
+    expect(checkPolicyFile({ name: "watchlist_add", target: "elonmusk" })).toMatchObject({ rule: "targets.$watchlist" });
+    expect(checkPolicyFile({ name: "watchlist_remove", target: "openai" })).toMatchObject({ rule: "targets.$watchlist" });
+    expect(checkPolicyFile({ name: "watchlist_check" })).toBeNull();
+
+    writePolicy({ targets: { follow: ["$watchlist"], "watchlist_*": ["openai"] } });
+    expect(checkPolicyFile({ name: "watchlist_add", target: "@OpenAI" })).toBeNull();
+    expect(checkPolicyFile({ name: "watchlist_add", target: "elonmusk" })).toMatchObject({ rule: "targets.watchlist_*" });
+
+    writePolicy({ targets: { follow: ["openai"] } });
+    expect(checkPolicyFile({ name: "watchlist_add", target: "elonmusk" })).toBeNull();
+  });
+
+  test("quotas count recorded runs per pattern; queued actions skip them", () => {
+    writePolicy({ quotas: { like: 2, "list_*": 1 } });
+
+    recordPolicyUsage({ name: "like" });
+    expect(checkPolicyFile({ name: "like" })).toBeNull();
+    recordPolicyUsage({ name: "like" });
+    expect(checkPolicyFile({ name: "like" })).toMatchObject({ rule: "quotas.like", message: "Daily quota for 'like' reached (2/2)" });
+    expect(checkPolicyFile({ name: "like" }, { queued: true })).toBeNull();
+
+    recordPolicyUsage({ name: "list_create" });
+    expect(checkPolicyFile({ name: "list_members_add" })).toMatchObject({ rule: "quotas.list_*" });
+    expect(checkPolicyFile({ name: "follow" })).toBeNull();
+  });
+
+  test("the cost ceiling applies to API actions only", () => {
+    writePolicy({ cost: { daily_usd: 0 } });
+
+    expect(checkPolicyFile({ name: "search" })).toMatchObject({ rule: "cost.daily_usd" });
+    expect(checkPolicyFile({ name: "costs" })).toBeNull();
+    expect(checkPolicyFile({ name: "watchlist_add" })).toBeNull();
+  });
+
+  test("an invalid file refuses every action", () => {
+    writePolicy("{ not json");
+    expect(() => checkPolicyFile({ name: "search" })).toThrow(PolicyFileError);
+
+    writePolicy({ quotas: { like: -1 } } as PolicyFile);
+    expect(() => checkPolicyFile({ name: "search" })).toThrow("'quotas.like' must be a whole number >= 0");
+
+    writePolicy({ alow: ["search"] } as unknown as PolicyFile);
+    expect(() => checkPolicyFile({ name: "search" })).toThrow("unknown key 'alow'");
+  });
+});
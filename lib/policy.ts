@@ -0,0 +1,375 @@
+/**
+ * lib/policy.ts — Policy modes and the xint.policy.json policy file.
+ *
+ * The policy mode (--policy, MCP --policy / X-Xint-Policy) is the coarse
+ * ceiling. An optional policy file narrows it with per-action rules, checked
+ * the same way for CLI commands and MCP tools:
+ *
+ *   {
+ *     "allow":   ["search", "profile", "like", "follow"],  // only these run
+ *     "deny":    ["unfollow", "list_*"],                   // never run
+ *     "targets": { "follow": ["$watchlist", "openai"] },   // allowed targets
+ *     "quotas":  { "like": 50, "follow": 10 },             // per UTC day
+ *     "cost":    { "daily_usd": 2 }                        // X API spend ceiling
+ *   }
+ *
+ * Actions are named after the MCP tools without the `xint_` prefix (search,
+ * like, list_create, list_members_add, block, unmute, ...); CLI commands and
+ * aliases map onto the same names. Patterns may use `*`. The file never grants
+ * more than the policy mode allows.
+ */
+
+import { existsSync, mkdirSync, readFileSync, renameSync, writeFileSync } from "fs";
+import { basename, dirname, join } from "path";
+import { getTodayCosts } from "./costs";
+import { loadWatchlist } from "./watchlist";
+
+// ---------------------------------------------------------------------------
+// Policy modes
+// ---------------------------------------------------------------------------
+
+export type PolicyMode = "read_only" | "approval" | "engagement" | "moderation";
+
+export function policyRank(mode: PolicyMode): number {
+  switch (mode) {
+    case "read_only": return 1;
+    case "approval": return 2;
+    case "engagement": return 3;
+    case "moderation": return 4;
+  }
+}
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+export interface PolicyFile {
+  allow?: string[];
+  deny?: string[];
+  /** Action pattern -> allowed usernames / tweet ids ("$watchlist" expands). */
+  targets?: Record<string, string[]>;
+  /** Action pattern -> max allowed runs per UTC day. */
+  quotas?: Record<string, number>;
+  cost?: { daily_usd?: number };
+}
+
+export interface PolicyAction {
+  name: string;
+  /** Username or tweet id the action applies to, when it has one. */
+  target?: string;
+}
+
+export interface PolicyDenial {
+  code: "POLICY_DENIED";
+  message: string;
+  rule: string;
+  action: string;
+  target?: string;
+}
+
+/** The policy file exists but can't be used; every action is refused. */
+export class PolicyFileError extends Error {
+  readonly code = "POLICY_INVALID";
+}
+
+interface PolicyUsage {
+  date: string;
+  counts: Record<string, number>;
+}
+
+// ---------------------------------------------------------------------------
+// Constants
+// ---------------------------------------------------------------------------
+
+const DEFAULT_POLICY_FILE = join(import.meta.dir, "..", "xint.policy.json");
+const DEFAULT_USAGE_FILE = join(import.meta.dir, "..", "data", "policy-usage.json");
+const POLICY_KEYS = new Set(["allow", "deny", "targets", "quotas", "cost"]);
+
+/** Actions that change what "$watchlist" expands to. */
+const WATCHLIST_EDITS = new Set(["watchlist_add", "watchlist_remove"]);
+
+/** Local commands that never spend X API credits (exempt from cost.daily_usd). */
+const COST_FREE_ACTIONS = new Set([
+  "costs", "billing", "health", "auth", "watchlist", "watchlist_add", "watchlist_remove",
+  "cache", "cache_clear", "archive", "query", "saved", "alerts", "webhooks",
+  "capabilities", "approvals", "mcp-server", "package-api-server", "tui",
+]);
+
+const CLI_ALIASES: Record<string, string> = {
+  s: "search",
+  w: "watch",
+  followers: "diff",
+  t: "thread",
+  p: "profile",
+  read: "article",
+  ui: "tui",
+  bm: "bookmarks",
+  "bm-save": "bookmark",
+  "bm-remove": "unbookmark",
+  list: "lists",
+  block: "blocks",
+  mute: "mutes",
+  "stream-rules": "stream_rules",
+  tr: "trends",
+  ask: "analyze",
+  cost: "costs",
+  bill: "billing",
+  wl: "watchlist",
+  "ai-search": "xsearch",
+  x_search: "xsearch",
+  kb: "collections",
+  mcp: "mcp-server",
+  "pkg-api": "package-api-server",
+  caps: "capabilities",
+};
+
+// ---------------------------------------------------------------------------
+// Actions
+// ---------------------------------------------------------------------------
+
+/** Policy action for a CLI invocation (argv without the `xint`). */
+export function cliAction(argv: string[]): PolicyAction {
+  const [raw = "", ...rest] = argv;
+  const name = CLI_ALIASES[raw] || raw;
+  const positional = rest.filter((a) => !a.startsWith("-"));
+  const sub = (positional[0] || "").toLowerCase();
+
+  switch (name) {
+    case "like":
+    case "unlike":
+    case "follow":
+    case "unfollow":
+    case "bookmark":
+    case "unbookmark":
+    case "profile":
+    case "diff":
+      return { name, target: positional[0] };
+    case "lists":
+      if (sub === "create" || sub === "update") return { name: `list_${sub}` };
+      if (sub === "delete" || sub === "remove" || sub === "rm") return { name: "list_delete" };
+      if (sub === "members" || sub === "member") {
+        const action = (positional[1] || "list").toLowerCase();
+        if (action === "add") return { name: "list_members_add", target: positional[3] };
+        if (action === "remove" || action === "rm" || action === "delete") {
+          return { name: "list_members_remove", target: positional[3] };
+        }
+        return { name: "list_members" };
+      }
+      return { name: "lists" };
+    case "blocks":
+    case "mutes": {
+      const single = name.slice(0, -1);
+      if (sub === "add") return { name: single, target: positional[1] };
+      if (sub === "remove" || sub === "rm" || sub === "delete") return { name: `un${single}`, target: positional[1] };
+      return { name };
+    }
+    case "stream_rules":
+      if (sub === "add") return { name: "stream_rules_add" };
+      if (sub === "delete" || sub === "clear") return { name: "stream_rules_delete" };
+      if (sub === "sync") return { name: "stream_rules_sync" };
+      return { name };
+    case "watchlist":
+      if (sub === "add" || sub === "remove" || sub === "check") return { name: `watchlist_${sub}`, target: positional[1] };
+      return { name };
+    case "saved":
+      return sub === "run" ? { name: "saved_search" } : { name };
+    case "cache":
+      return sub === "clear" ? { name: "cache_clear" } : { name };
+    default:
+      return { name };
+  }
+}
+
+/** Policy action for an MCP tool call. */
+export function mcpAction(tool: string, args: Record<string, unknown>): PolicyAction {
+  const raw = args.username ?? args.userId ?? args.user_id ?? args.tweetId ?? args.tweet_id;
+  return {
+    name: tool.replace(/^xint_/, ""),
+    target: typeof raw === "string" && raw.trim() ? raw : undefined,
+  };
+}
+
+function normalizeTarget(target: string): string {
+  const tweetId = /status\/(\d+)/.exec(target)?.[1];
+  return (tweetId || target).trim().replace(/^@/, "").toLowerCase();
+}
+
+function matches(pattern: string, name: string): boolean {
+  if (!pattern.includes("*")) return pattern === name;
+  const re = new RegExp(`^${pattern.split("*").map((p) => p.replace(/[.+?^${}()|[\]\\]/g, "\\$&")).join(".*")}$`);
+  return re.test(name);
+}
+
+// ---------------------------------------------------------------------------
+// Policy file
+// ---------------------------------------------------------------------------
+
+function policyPath(): string {
+  return process.env.XINT_POLICY_FILE || DEFAULT_POLICY_FILE;
+}
+
+function usagePath(): string {
+  return process.env.XINT_POLICY_USAGE_FILE || DEFAULT_USAGE_FILE;
+}
+
+function isStringList(value: unknown): value is string[] {
+  return Array.isArray(value) && value.every((v) => typeof v === "string" && v.trim() !== "");
+}
+
+function validatePolicy(raw: unknown): string | null {
+  if (!raw || typeof raw !== "object" || Array.isArray(raw)) return "expected a JSON object";
+  const policy = raw as Record<string, unknown>;
+  for (const key of Object.keys(policy)) {
+    if (!POLICY_KEYS.has(key)) return `unknown key '${key}'`;
+  }
+  if (policy.allow !== undefined && !isStringList(policy.allow)) return "'allow' must be a list of action names";
+  if (policy.deny !== undefined && !isStringList(policy.deny)) return "'deny' must be a list of action names";
+  if (policy.targets !== undefined) {
+    if (!policy.targets || typeof policy.targets !== "object" || Array.isArray(policy.targets)) {
+      return "'targets' must map actions to lists of targets";
+    }
+    for (const [action, list] of Object.entries(policy.targets)) {
+      if (!isStringList(list)) return `'targets.${action}' must be a list of usernames or tweet ids`;
+    }
+  }
+  if (policy.quotas !== undefined) {
+    if (!policy.quotas || typeof policy.quotas !== "object" || Array.isArray(policy.quotas)) {
+      return "'quotas' must map actions to daily counts";
+    }
+    for (const [action, limit] of Object.entries(policy.quotas)) {
+      if (!Number.isInteger(limit) || (limit as number) < 0) return `'quotas.${action}' must be a whole number >= 0`;
+    }
+  }
+  if (policy.cost !== undefined) {
+    const cost = policy.cost as Record<string, unknown>;
+    if (!cost || typeof cost !== "object" || Array.isArray(cost)) return "'cost' must be an object";
+    for (const key of Object.keys(cost)) {
+      if (key !== "daily_usd") return `unknown key 'cost.${key}'`;
+    }
+    if (cost.daily_usd !== undefined && (typeof cost.daily_usd !== "number" || cost.daily_usd < 0)) {
+      return "'cost.daily_usd' must be a number >= 0";
+    }
+  }
+  return null;
+}
+
+/** Load the policy file, or null when there is none. Throws PolicyFileError if invalid. */
+export function loadPolicyFile(): PolicyFile | null {
+  const path = policyPath();
+  if (!existsSync(path)) return null;
+  let raw: unknown;
+  try {
+    raw = JSON.parse(readFileSync(path, "utf-8"));
+  } catch (e: any) {
+    throw new PolicyFileError(`Invalid policy file ${path}: ${e.message}`);
+  }
+  const problem = validatePolicy(raw);
+  if (problem) throw new PolicyFileError(`Invalid policy file ${path}: ${problem}`);
+  return raw as PolicyFile;
+}
+
+function todayStr(): string {
+  return new Date().toISOString().slice(0, 10);
+}
+
+function loadUsage(): PolicyUsage {
+  const path = usagePath();
+  const today = todayStr();
+  if (!existsSync(path)) return { date: today, counts: {} };
+  try {
+    const usage = JSON.parse(readFileSync(path, "utf-8")) as PolicyUsage;
+    return usage.date === today ? { date: today, counts: usage.counts || {} } : { date: today, counts: {} };
+  } catch {
+    return { date: today, counts: {} };
+  }
+}
+
+function saveUsage(usage: PolicyUsage): void {
+  const path = usagePath();
+  mkdirSync(dirname(path), { recursive: true });
+  const tmp = path + ".tmp";
+  writeFileSync(tmp, JSON.stringify(usage, null, 2), "utf-8");
+  renameSync(tmp, path);
+}
+
+function deny(action: PolicyAction, rule: string, message: string): PolicyDenial {
+  return {
+    code: "POLICY_DENIED",
+    message,
+    rule,
+    action: action.name,
+    ...(action.target ? { target: action.target } : {}),
+  };
+}
+
+/**
+ * Check an action against the policy file. Returns null when it may run.
+ * Queued actions (approval mode) skip quotas and the cost ceiling; those are
+ * checked when the approved action runs.
+ */
+export function checkPolicyFile(action: PolicyAction, opts: { queued?: boolean } = {}): PolicyDenial | null {
+  const policy = loadPolicyFile();
+  if (!policy) return null;
+  const file = basename(policyPath());
+
+  if (policy.deny?.some((p) => matches(p, action.name))) {
+    return deny(action, "deny", `Action '${action.name}' is denied by ${file}`);
+  }
+  if (policy.allow && !policy.allow.some((p) => matches(p, action.name))) {
+    return deny(action, "allow", `Action '${action.name}' is not in the allow list of ${file}`);
+  }
+
+  // "$watchlist" turns the watchlist into an allowlist. Editing it must not
+  // let the restricted caller widen its own targets, so watchlist edits need
+  // a targets rule of their own (which accounts may be added or removed).
+  const targets = policy.targets || {};
+  if (WATCHLIST_EDITS.has(action.name) && Object.values(targets).some((list) => list.includes("$watchlist"))) {
+    if (!Object.keys(targets).some((pattern) => matches(pattern, action.name))) {
+      return deny(
+        action,
+        "targets.$watchlist",
+        `'${action.name}' is denied: the watchlist is a target allowlist in ${file}; give '${action.name}' its own targets rule`,
+      );
+    }
+  }
+
+  for (const [pattern, list] of Object.entries(targets)) {
+    if (!matches(pattern, action.name) || !action.target) continue;
+    const allowed = new Set(
+      list.flatMap((t) => (t === "$watchlist" ? loadWatchlist().accounts.map((a) => a.username) : [t])).map(normalizeTarget),
+    );
+    if (!allowed.has(normalizeTarget(action.target))) {
+      return deny(action, `targets.${pattern}`, `Target '${action.target}' is not allowed for '${action.name}' by ${file}`);
+    }
+  }
+
+  if (opts.queued) return null;
+
+  const usage = loadUsage();
+  for (const [pattern, limit] of Object.entries(policy.quotas || {})) {
+    if (!matches(pattern, action.name)) continue;
+    const used = usage.counts[pattern] || 0;
+    if (used >= limit) {
+      return deny(action, `quotas.${pattern}`, `Daily quota for '${pattern}' reached (${used}/${limit})`);
+    }
+  }
+
+  const ceiling = policy.cost?.daily_usd;
+  if (ceiling !== undefined && !COST_FREE_ACTIONS.has(action.name)) {
+    const spent = getTodayCosts().total_cost;
+    if (spent >= ceiling) {
+      return deny(action, "cost.daily_usd", `Daily cost ceiling reached ($${spent.toFixed(2)} / $${ceiling.toFixed(2)})`);
+    }
+  }
+  return null;
+}
+
+/** Count an action that is about to run against the policy file's daily quotas. */
+export function recordPolicyUsage(action: PolicyAction): void {
+  const policy = loadPolicyFile();
+  const patterns = Object.keys(policy?.quotas || {}).filter((p) => matches(p, action.name));
+  if (patterns.length === 0) return;
+  const usage = loadUsage();
+  for (const pattern of patterns) usage.counts[pattern] = (usage.counts[pattern] || 0) + 1;
+  saveUsage(usage);
+}
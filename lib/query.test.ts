@@ -0,0 +1,101 @@
+import { describe, expect, test } from "bun:test";
+import {
+  and,
+  buildSearchQuery,
+  explainQuery,
+  hasOperator,
+  lintQuery,
+  not,
+  operator,
+  parseQuery,
+  QuerySyntaxError,
+  toQueryString,
+} from "./query";
+
+describe("search query AST", () => {
+  test("parses groups, OR, negation and operators", () => {
+    const ast = parseQuery('(AI OR "machine learning") from:openai -is:retweet');
+    expect(ast.type).toBe("and");
+    if (ast.type !== "and") return;
+    expect(ast.children[0]).toEqual({
+      type: "group",
+      child: { type: "or", children: [{ type: "term", value: "AI" }, { type: "phrase", value: "machine learning" }] },
+    });
+    expect(ast.children[1]).toEqual({ type: "operator", name: "from", value: "openai" });
+    expect(ast.children[2]).toEqual({ type: "not", child: { type: "operator", name: "is", value: "retweet" } });
+  });
+
+  test("OR binds looser than implicit AND", () => {
+    const ast = parseQuery("a b OR c");
+    expect(ast.type).toBe("or");
+    expect(explainQuery(ast)).toBe("ANY of:\n  ALL of:\n    keyword a\n    keyword b\n  keyword c");
+  });
+
+  test("round-trips through toQueryString", () => {
+    const q = 'solana -(spam OR scam) $SOL #defi @toly url:"https://solana.com" point_radius:[2.35 48.85 16km]';
+    expect(toQueryString(parseQuery(q))).toBe(q);
+  });
+
+  test("and() keeps a top-level OR grouped", () => {
+    const q = toQueryString(and(parseQuery("cats OR dogs"), operator("from", "alice"), not(operator("is", "retweet"))));
+    expect(q).toBe("(cats OR dogs) from:alice -is:retweet");
+  });
+
+  test("buildSearchQuery applies search defaults without duplicating clauses", () => {
+    expect(buildSearchQuery("cats OR dogs", { from: "@alice", noReplies: true })).toBe(
+      "(cats OR dogs) from:alice -is:retweet -is:reply",
+    );
+    expect(buildSearchQuery("ai from:bob is:retweet", { from: "alice" })).toBe("ai from:bob is:retweet");
+  });
+
+  test("hasOperator finds negated and nested operators", () => {
+    const ast = parseQuery("ai (x OR -is:reply)");
+    expect(hasOperator(ast, "is", "reply")).toBe(true);
+    expect(hasOperator(ast, "is", "retweet")).toBe(false);
+    expect(hasOperator(ast, "from")).toBe(false);
+  });
+
+  test("reports syntax errors with position", () => {
+    expect(() => parseQuery("(a b")).toThrow(QuerySyntaxError);
+    expect(() => parseQuery("a OR")).toThrow(/OR must be followed/);
+    expect(() => parseQuery('"open phrase')).toThrow(/Unterminated quote/);
+    expect(() => parseQuery("a)")).toThrow(/Unmatched closing/);
+  });
+});
+
+describe("lintQuery", () => {
+  test("accepts a well-formed query", () => {
+    const result = lintQuery("(AI OR LLM) from:openai -is:retweet lang:en");
+    expect(result.ok).toBe(true);
+    expect(result.issues).toEqual([]);
+  });
+
+  test("enforces recent vs full-archive length limits", () => {
+    const q = `x ${"a".repeat(600)}`;
+    expect(lintQuery(q).ok).toBe(false);
+    expect(lintQuery(q, { fullArchive: true }).ok).toBe(true);
+    expect(lintQuery(q, { fullArchive: true }).max_length).toBe(1024);
+  });
+
+  test("rejects conjunction-only queries and unknown or v1 operators", () => {
+    expect(lintQuery("is:reply lang:en").ok).toBe(false);
+    expect(lintQuery("-cats").ok).toBe(false);
+    const v1 = lintQuery("bitcoin since:2024-01-01");
+    expect(v1.ok).toBe(false);
+    expect(v1.issues[0].message).toContain("--since");
+    expect(lintQuery("bitcoin foo:bar").ok).toBe(false);
+  });
+
+  test("validates operator values", () => {
+    expect(lintQuery("news is:retweeted").ok).toBe(false);
+    expect(lintQuery("conversation_id:abc").ok).toBe(false);
+    expect(lintQuery("news sample:101").ok).toBe(false);
+  });
+
+  test("warns about archive-only operators on recent search", () => {
+    const recent = lintQuery("coffee place_country:US");
+    expect(recent.ok).toBe(true);
+    expect(recent.issues[0].severity).toBe("warning");
+    expect(lintQuery("coffee place_country:US", { fullArchive: true }).issues).toEqual([]);
+  });
+});
@@ -0,0 +1,595 @@
+/**
+ * lib/query.ts — Typed AST, builder and validator for X v2 search queries.
+ *
+ * Parses X search syntax (implicit AND, OR, -negation, (groups), "phrases",
+ * #hashtags, @mentions, $cashtags and name:value operators) into a tree,
+ * checks it against the operator table for recent vs. full-archive search,
+ * enforces the 512 / 1024 character limits, and serializes it back. Used by
+ * `xint search` to build queries and by `xint query lint|explain`.
+ */
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+export type QueryNode =
+  | { type: "and"; children: QueryNode[] }
+  | { type: "or"; children: QueryNode[] }
+  | { type: "not"; child: QueryNode }
+  | { type: "group"; child: QueryNode }
+  | { type: "term"; value: string }
+  | { type: "phrase"; value: string }
+  | { type: "hashtag"; value: string }
+  | { type: "mention"; value: string }
+  | { type: "cashtag"; value: string }
+  | { type: "operator"; name: string; value: string; quoted?: boolean };
+
+export type QueryMode = "recent" | "archive";
+
+export interface QueryIssue {
+  severity: "error" | "warning";
+  message: string;
+}
+
+export interface QueryLintResult {
+  ok: boolean;
+  query: string;
+  mode: QueryMode;
+  length: number;
+  max_length: number;
+  issues: QueryIssue[];
+}
+
+interface OperatorSpec {
+  standalone: boolean;     // false = conjunction-required (cannot be the only positive clause)
+  archiveOnly?: boolean;   // rejected or unreliable on /recent
+  values?: string[];
+  pattern?: RegExp;
+  describe: (value: string) => string;
+}
+
+export class QuerySyntaxError extends Error {
+  constructor(message: string, public readonly position: number) {
+    super(`${message} (at position ${position + 1})`);
+    this.name = "QuerySyntaxError";
+  }
+}
+
+// ---------------------------------------------------------------------------
+// Operator table
+// ---------------------------------------------------------------------------
+
+export const MAX_QUERY_LENGTH: Record<QueryMode, number> = { recent: 512, archive: 1024 };
+
+const USER_RE = /^@?(\w{1,15}|\d+)$/;
+const ID_RE = /^\d+$/;
+
+const OPERATORS: Record<string, OperatorSpec> = {
+  from: { standalone: true, pattern: USER_RE, describe: (v) => `posted by @${v.replace(/^@/, "")}` },
+  to: { standalone: true, pattern: USER_RE, describe: (v) => `in reply to @${v.replace(/^@/, "")}` },
+  retweets_of: { standalone: true, pattern: USER_RE, describe: (v) => `retweets of @${v.replace(/^@/, "")}` },
+  url: { standalone: true, describe: (v) => `links to a URL matching "${v}"` },
+  conversation_id: { standalone: true, pattern: ID_RE, describe: (v) => `part of conversation ${v}` },
+  in_reply_to_tweet_id: { standalone: true, pattern: ID_RE, describe: (v) => `direct reply to tweet ${v}` },
+  retweets_of_tweet_id: { standalone: true, pattern: ID_RE, describe: (v) => `retweet of tweet ${v}` },
+  quotes_of_tweet_id: { standalone: true, pattern: ID_RE, describe: (v) => `quote of tweet ${v}` },
+  list: { standalone: true, pattern: ID_RE, describe: (v) => `posted by a member of list ${v}` },
+  context: { standalone: true, pattern: /^\d+\.(\d+|\*)$/, describe: (v) => `annotated with context ${v}` },
+  entity: { standalone: true, describe: (v) => `annotated with entity "${v}"` },
+  place: { standalone: true, archiveOnly: true, describe: (v) => `tagged with place "${v}"` },
+  place_country: { standalone: true, archiveOnly: true, pattern: /^[a-z]{2}$/i, describe: (v) => `tagged with country ${v.toUpperCase()}` },
+  point_radius: { standalone: true, archiveOnly: true, pattern: /^\[.+\]$/, describe: (v) => `geo-tagged within ${v}` },
+  bounding_box: { standalone: true, archiveOnly: true, pattern: /^\[.+\]$/, describe: (v) => `geo-tagged inside box ${v}` },
+  bio: { standalone: true, archiveOnly: true, describe: (v) => `author bio contains "${v}"` },
+  bio_name: { standalone: true, archiveOnly: true, describe: (v) => `author name contains "${v}"` },
+  bio_location: { standalone: true, archiveOnly: true, describe: (v) => `author location contains "${v}"` },
+  is: {
+    standalone: false,
+    values: ["retweet", "reply", "quote", "verified", "nullcast"],
+    describe: (v) => `is a ${v === "nullcast" ? "promoted-only (nullcast) post" : v}`,
+  },
+  has: {
+    standalone: false,
+    values: ["hashtags", "cashtags", "links", "mentions", "media", "images", "video_link", "geo"],
+    describe: (v) => `has ${v.replace("_", " ")}`,
+  },
+  lang: { standalone: false, pattern: /^[a-z]{2,3}$/i, describe: (v) => `written in language "${v}"` },
+  sample: { standalone: false, pattern: /^(100|[1-9]\d?)$/, describe: (v) => `random ${v}% sample` },
+};
+
+// v1.1 / web-search operators that X v2 rejects, with the xint equivalent.
+const UNSUPPORTED_OPERATORS: Record<string, string> = {
+  since: "use --since instead",
+  until: "use --until instead",
+  min_faves: "use --min-likes instead (applied after fetching)",
+  min_retweets: "use --min-likes/--min-impressions instead (applied after fetching)",
+  min_replies: "not available in X API v2",
+  filter: "use is:/has: operators instead (e.g. has:links, is:reply)",
+  near: "use point_radius:[lon lat radius] instead",
+  within: "use point_radius:[lon lat radius] instead",
+  source: "not available in X API v2",
+};
+
+const GEO_ARCHIVE_VALUES = new Set(["geo"]);
+
+// ---------------------------------------------------------------------------
+// Tokenizer
+// ---------------------------------------------------------------------------
+
+type Token =
+  | { kind: "lparen"; pos: number; negated: boolean }
+  | { kind: "rparen"; pos: number }
+  | { kind: "or"; pos: number }
+  | { kind: "atom"; pos: number; negated: boolean; node: QueryNode };
+
+function readQuoted(input: string, start: number): { value: string; end: number } {
+  const close = input.indexOf('"', start + 1);
+  if (close === -1) throw new QuerySyntaxError("Unterminated quote", start);
+  return { value: input.slice(start + 1, close), end: close + 1 };
+}
+
+function atomFromWord(word: string): QueryNode {
+  // Bare URLs ("https://...") are keywords, not operators.
+  const m = word.match(/^([a-z_]+):(.+)$/i);
+  if (m) {
+    const name = m[1].toLowerCase();
+    if (OPERATORS[name] || UNSUPPORTED_OPERATORS[name] || !word.includes("://")) {
+      return { type: "operator", name, value: m[2] };
+    }
+  }
+  if (word.length > 1 && word.startsWith("#")) return { type: "hashtag", value: word.slice(1) };
+  if (word.length > 1 && word.startsWith("@")) return { type: "mention", value: word.slice(1) };
+  if (word.length > 1 && /^\$[a-z_]/i.test(word)) return { type: "cashtag", value: word.slice(1) };
+  return { type: "term", value: word };
+}
+
+function tokenize(input: string): Token[] {
+  const tokens: Token[] = [];
+  let i = 0;
+
+  while (i < input.length) {
+    const ch = input[i];
+    if (/\s/.test(ch)) {
+      i++;
+      continue;
+    }
+    if (ch === ")") {
+      tokens.push({ kind: "rparen", pos: i });
+      i++;
+      continue;
+    }
+
+    const pos = i;
+    let negated = false;
+    if (ch === "-" && i + 1 < input.length && !/[\s)]/.test(input[i + 1])) {
+      negated = true;
+      i++;
+    }
+
+    if (input[i] === "(") {
+      tokens.push({ kind: "lparen", pos, negated });
+      i++;
+      continue;
+    }
+
+    if (input[i] === '"') {
+      const { value, end } = readQuoted(input, i);
+      tokens.push({ kind: "atom", pos, negated, node: { type: "phrase", value } });
+      i = end;
+      continue;
+    }
+
+    // Word: runs to whitespace or a paren; name:"quoted value" and
+    // name:[bracketed value] may contain spaces.
+    let j = i;
+    let word = "";
+    let quoted = false;
+    while (j < input.length && !/[\s()]/.test(input[j])) {
+      if (input[j] === '"' && word.endsWith(":")) {
+        const q = readQuoted(input, j);
+        word += q.value;
+        quoted = true;
+        j = q.end;
+        break;
+      }
+      if (input[j] === "[" && word.endsWith(":")) {
+        const close = input.indexOf("]", j);
+        if (close === -1) throw new QuerySyntaxError("Unterminated [", j);
+        word += input.slice(j, close + 1);
+        j = close + 1;
+        break;
+      }
+      word += input[j++];
+    }
+    i = j;
+
+    if (!negated && word === "OR") {
+      tokens.push({ kind: "or", pos });
+      continue;
+    }
+    const node = atomFromWord(word);
+    if (quoted && node.type === "operator") node.quoted = true;
+    tokens.push({ kind: "atom", pos, negated, node });
+  }
+
+  return tokens;
+}
+
+// ---------------------------------------------------------------------------
+// Parser — OR binds looser than the implicit AND, as on X.
+// ---------------------------------------------------------------------------
+
+/**
+ * Parse an X search query into an AST. Throws QuerySyntaxError on
+ * unbalanced parentheses, unterminated quotes and dangling ORs.
+ */
+export function parseQuery(input: string): QueryNode {
+  const tokens = tokenize(input);
+  if (tokens.length === 0) throw new QuerySyntaxError("Query is empty", 0);
+  let pos = 0;
+
+  function parseOr(): QueryNode {
+    const branches = [parseAnd()];
+    while (pos < tokens.length && tokens[pos].kind === "or") {
+      const orTok = tokens[pos++];
+      if (pos >= tokens.length || tokens[pos].kind === "rparen" || tokens[pos].kind === "or") {
+        throw new QuerySyntaxError("OR must be followed by a term", orTok.pos);
+      }
+      branches.push(parseAnd());
+    }
+    return branches.length === 1 ? branches[0] : { type: "or", children: branches };
+  }
+
+  function parseAnd(): QueryNode {
+    const items: QueryNode[] = [];
+    while (pos < tokens.length) {
+      const tok = tokens[pos];
+      if (tok.kind === "rparen") break;
+      if (tok.kind === "or") {
+        if (items.length === 0) throw new QuerySyntaxError("OR must follow a term", tok.pos);
+        break;
+      }
+      pos++;
+      let node: QueryNode;
+      if (tok.kind === "lparen") {
+        if (pos < tokens.length && tokens[pos].kind === "rparen") {
+          throw new QuerySyntaxError("Empty group", tok.pos);
+        }
+        node = { type: "group", child: parseOr() };
+        if (pos >= tokens.length || tokens[pos].kind !== "rparen") {
+          throw new QuerySyntaxError("Missing closing parenthesis", tok.pos);
+        }
+        pos++;
+      } else {
+        node = tok.node;
+      }
+      items.push(tok.negated ? { type: "not", child: node } : node);
+    }
+    if (items.length === 0) throw new QuerySyntaxError("Expected a term", tokens[Math.min(pos, tokens.length - 1)].pos);
+    return items.length === 1 ? items[0] : { type: "and", children: items };
+  }
+
+  const root = parseOr();
+  if (pos < tokens.length) throw new QuerySyntaxError("Unmatched closing parenthesis", tokens[pos].pos);
+  return root;
+}
+
+// ---------------------------------------------------------------------------
+// Builder helpers
+// ---------------------------------------------------------------------------
+
+function quoteIfNeeded(value: string): string {
+  return /[\s()]/.test(value) && !/^\[.*\]$/.test(value) ? `"${value}"` : value;
+}
+
+/** Serialize an AST back to X query syntax. */
+export function toQueryString(node: QueryNode): string {
+  switch (node.type) {
+    case "and":
+      return node.children.map((c) => (c.type === "or" ? `(${toQueryString(c)})` : toQueryString(c))).join(" ");
+    case "or":
+      return node.children.map(toQueryString).join(" OR ");
+    case "not": {
+      const inner = node.child.type === "and" || node.child.type === "or"
+        ? `(${toQueryString(node.child)})`
+        : toQueryString(node.child);
+      return `-${inner}`;
+    }
+    case "group":
+      return `(${toQueryString(node.child)})`;
+    case "term":
+      return node.value;
+    case "phrase":
+      return `"${node.value}"`;
+    case "hashtag":
+      return `#${node.value}`;
+    case "mention":
+      return `@${node.value}`;
+    case "cashtag":
+      return `$${node.value}`;
+    case "operator":
+      return `${node.name}:${node.quoted ? `"${node.value}"` : quoteIfNeeded(node.value)}`;
+  }
+}
+
+export function operator(name: string, value: string): QueryNode {
+  return { type: "operator", name, value };
+}
+
+export function not(child: QueryNode): QueryNode {
+  return { type: "not", child };
+}
+
+/** AND extra clauses onto a query, keeping a top-level OR grouped. */
+export function and(base: QueryNode, ...clauses: QueryNode[]): QueryNode {
+  const head = base.type === "and" ? base.children : [base];
+  return { type: "and", children: [...head, ...clauses] };
+}
+
+/**
+ * Apply xint search defaults to a raw query: --from shorthand, the default
+ * -is:retweet noise filter and -is:reply for --quick / --no-replies. Clauses
+ * already present in the query are not duplicated. Throws QuerySyntaxError.
+ */
+export function buildSearchQuery(
+  raw: string,
+  opts: { from?: string; noRetweets?: boolean; noReplies?: boolean } = {},
+): string {
+  const ast = parseQuery(raw);
+  const clauses: QueryNode[] = [];
+
+  if (opts.from && !hasOperator(ast, "from")) {
+    clauses.push(operator("from", opts.from.replace(/^@/, "")));
+  }
+  if (!opts.noRetweets && !hasOperator(ast, "is", "retweet")) {
+    clauses.push(not(operator("is", "retweet")));
+  }
+  if (opts.noReplies && !hasOperator(ast, "is", "reply")) {
+    clauses.push(not(operator("is", "reply")));
+  }
+
+  return toQueryString(clauses.length > 0 ? and(ast, ...clauses) : ast);
+}
+
+function walk(node: QueryNode, visit: (n: QueryNode, negated: boolean) => void, negated = false): void {
+  visit(node, negated);
+  switch (node.type) {
+    case "and":
+    case "or":
+      for (const c of node.children) walk(c, visit, negated);
+      break;
+    case "not":
+      walk(node.child, visit, !negated);
+      break;
+    case "group":
+      walk(node.child, visit, negated);
+      break;
+  }
+}
+
+/** True if the query uses `name:` (optionally `name:value`), negated or not. */
+export function hasOperator(node: QueryNode, name: string, value?: string): boolean {
+  let found = false;
+  walk(node, (n) => {
+    if (n.type !== "operator" || n.name !== name) return;
+    if (value === undefined || n.value.toLowerCase() === value.toLowerCase()) found = true;
+  });
+  return found;
+}
+
+// ---------------------------------------------------------------------------
+// Validation
+// ---------------------------------------------------------------------------
+
+function isStandalone(node: QueryNode): boolean {
+  if (node.type === "operator") return OPERATORS[node.name]?.standalone ?? false;
+  return node.type !== "and" && node.type !== "or" && node.type !== "not" && node.type !== "group";
+}
+
+/**
+ * Validate a query for recent (/2/tweets/search/recent) or full-archive
+ * (/2/tweets/search/all) search. Errors would be rejected by the API;
+ * warnings are likely mistakes or tier-dependent operators.
+ */
+export function lintQuery(query: string, opts: { fullArchive?: boolean } = {}): QueryLintResult {
+  const mode: QueryMode = opts.fullArchive ? "archive" : "recent";
+  const max = MAX_QUERY_LENGTH[mode];
+  const issues: QueryIssue[] = [];
+  const error = (message: string) => issues.push({ severity: "error", message });
+  const warn = (message: string) => issues.push({ severity: "warning", message });
+
+  if (query.length > max) {
+    error(`Query is ${query.length} characters; ${mode} search allows at most ${max}`);
+  }
+
+  let ast: QueryNode | null = null;
+  try {
+    ast = parseQuery(query);
+  } catch (err: any) {
+    error(err.message);
+  }
+
+  if (ast) {
+    let positiveStandalone = 0;
+    walk(ast, (n, negated) => {
+      if (!negated && isStandalone(n)) positiveStandalone++;
+
+      if (n.type === "term") {
+        if (n.value === "AND") warn("AND is implicit on X; an explicit AND is matched as the keyword \"AND\"");
+        if (n.value === "or") warn("Lowercase \"or\" is matched as a keyword; use OR for alternation");
+        return;
+      }
+      if (n.type !== "operator") return;
+
+      const hint = UNSUPPORTED_OPERATORS[n.name];
+      if (hint) {
+        error(`${n.name}: is not a v2 search operator — ${hint}`);
+        return;
+      }
+      const spec = OPERATORS[n.name];
+      if (!spec) {
+        error(`Unknown operator ${n.name}:`);
+        return;
+      }
+      const value = n.value;
+      if (spec.values && !spec.values.includes(value.toLowerCase())) {
+        error(`Invalid value for ${n.name}: "${value}" (expected one of: ${spec.values.join(", ")})`);
+      } else if (spec.pattern && !spec.pattern.test(value)) {
+        error(`Invalid value for ${n.name}: "${value}"`);
+      }
+      const archiveOnly = spec.archiveOnly || (n.name === "has" && GEO_ARCHIVE_VALUES.has(value.toLowerCase()));
+      if (archiveOnly && mode === "recent") {
+        warn(`${n.name}:${value} generally requires full-archive search (--full) and may be rejected on recent search`);
+      }
+    });
+
+    if (positiveStandalone === 0) {
+      error("Query needs at least one non-negated keyword, phrase, #hashtag, @mention or standalone operator (is:, has:, lang: and sample: cannot be used alone)");
+    }
+  }
+
+  return {
+    ok: !issues.some((i) => i.severity === "error"),
+    query,
+    mode,
+    length: query.length,
+    max_length: max,
+    issues,
+  };
+}
+
+// ---------------------------------------------------------------------------
+// Explain
+// ---------------------------------------------------------------------------
+
+function describeNode(node: QueryNode): string {
+  switch (node.type) {
+    case "term":
+      return `keyword ${node.value}`;
+    case "phrase":
+      return `exact phrase "${node.value}"`;
+    case "hashtag":
+      return `hashtag #${node.value}`;
+    case "mention":
+      return `mentions @${node.value}`;
+    case "cashtag":
+      return `cashtag $${node.value}`;
+    case "operator": {
+      const spec = OPERATORS[node.name];
+      const label = `${node.name}:${node.value}`;
+      return spec ? `${label} — ${spec.describe(node.value)}` : `${label} — unknown operator`;
+    }
+    default:
+      return toQueryString(node);
+  }
+}
+
+/** Render the AST as an indented, human-readable tree. */
+export function explainQuery(node: QueryNode, indent: string = ""): string {
+  switch (node.type) {
+    case "and":
+      return [`${indent}ALL of:`, ...node.children.map((c) => explainQuery(c, indent + "  "))].join("\n");
+    case "or":
+      return [`${indent}ANY of:`, ...node.children.map((c) => explainQuery(c, indent + "  "))].join("\n");
+    case "group":
+      return explainQuery(node.child, indent);
+    case "not":
+      if (node.child.type === "and" || node.child.type === "or" || node.child.type === "group") {
+        return [`${indent}NOT:`, explainQuery(node.child, indent + "  ")].join("\n");
+      }
+      return `${indent}NOT ${describeNode(node.child)}`;
+    default:
+      return `${indent}${describeNode(node)}`;
+  }
+}
+
+// ---------------------------------------------------------------------------
+// CLI handler
+// ---------------------------------------------------------------------------
+
+function printLintIssues(result: QueryLintResult): void {
+  for (const issue of result.issues) {
+    console.log(`  ${issue.severity === "error" ? "✗" : "!"} ${issue.severity}: ${issue.message}`);
+  }
+}
+
+export async function cmdQuery(args: string[]): Promise<void> {
+  const sub = (args[0] || "help").toLowerCase();
+  const rest = args.slice(1);
+  const asJson = rest.includes("--json");
+  const fullArchive = rest.includes("--full");
+  const query = rest.filter((a) => a !== "--json" && a !== "--full").join(" ").trim();
+
+  switch (sub) {
+    case "lint":
+    case "check": {
+      if (!query) throw new Error('Usage: xint query lint "<query>" [--full] [--json]');
+      const result = lintQuery(query, { fullArchive });
+      if (asJson) {
+        console.log(JSON.stringify(result, null, 2));
+      } else {
+        console.log(`${result.ok ? "✓ valid" : "✗ invalid"} ${result.mode} query (${result.length}/${result.max_length} chars)`);
+        printLintIssues(result);
+      }
+      if (!result.ok) process.exitCode = 1;
+      return;
+    }
+    case "explain": {
+      if (!query) throw new Error('Usage: xint query explain "<query>" [--full] [--json]');
+      const result = lintQuery(query, { fullArchive });
+      let ast: QueryNode | null = null;
+      try {
+        ast = parseQuery(query);
+      } catch {
+        // reported by lintQuery
+      }
+      if (asJson) {
+        console.log(JSON.stringify({ ...result, normalized: ast ? toQueryString(ast) : null, ast }, null, 2));
+      } else {
+        console.log(`Query: ${query}`);
+        if (ast) console.log(`Normalized: ${toQueryString(ast)}`);
+        console.log(`Mode: ${result.mode} (${result.length}/${result.max_length} chars)`);
+        if (ast) console.log(`\n${explainQuery(ast)}`);
+        if (result.issues.length > 0) {
+          console.log("");
+          printLintIssues(result);
+        }
+      }
+      if (!result.ok) process.exitCode = 1;
+      return;
+    }
+    case "help":
+    case "--help":
+    case "-h":
+      printQueryHelp();
+      return;
+    default:
+      throw new Error(`Unknown query subcommand: ${sub}`);
+  }
+}
+
+function printQueryHelp(): void {
+  console.log(`
+Usage: xint query <lint|explain> "<query>" [--full] [--json]
+
+Validate and explain X search queries locally, before spending an API call.
+
+Subcommands:
+  lint "<query>"       Check syntax, operators and length (exit 1 on errors)
+  explain "<query>"    Show how X will evaluate the query as a tree
+
+Options:
+  --full               Validate for full-archive search (1024 chars) instead
+                       of recent search (512 chars)
+  --json               Structured output (explain includes the AST)
+
+Syntax: terms are ANDed by spaces; OR binds looser than AND; -term negates;
+(groups), "exact phrases", #hashtags, @mentions, $cashtags and operators
+such as from:, to:, url:, lang:, is:, has:, conversation_id:, list:.
+
+Examples:
+  xint query lint "(AI OR LLM) from:openai -is:retweet"
+  xint query explain "#solana has:links lang:en -is:reply"
+  xint query lint "bitcoin since:2024-01-01"     # suggests --since instead
+`);
+}
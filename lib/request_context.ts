@@ -0,0 +1,82 @@
+/**
+ * lib/request_context.ts — Cancellation and progress for the current call.
+ *
+ * MCP tool calls run inside runWithRequestContext() so code deep in the call
+ * stack (scheduledFetch, paginate, xAI requests) can honour cancellation and
+ * report progress without threading a signal through every signature. Outside
+ * a context (plain CLI runs) every helper is a no-op. The same context carries
+ * dry-run mode (`--dry-run`, MCP `dry_run`) and the actor recorded in the
+ * action journal down to the write helpers in api.ts.
+ */
+
+import { AsyncLocalStorage } from "async_hooks";
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+export type ProgressReporter = (progress: number, total?: number, message?: string) => void;
+
+/** Who is acting, as recorded in the action journal (lib/journal.ts). */
+export interface RequestActor {
+  source: "cli" | "mcp";
+  policyMode: string;
+  /** Journal entry this write reverts (xint journal undo). */
+  undoOf?: string;
+}
+
+export interface RequestContext {
+  signal?: AbortSignal;
+  onProgress?: ProgressReporter;
+  /** Preview write requests instead of sending them (see lib/dry_run.ts). */
+  dryRun?: boolean;
+  actor?: RequestActor;
+}
+
+// ---------------------------------------------------------------------------
+// Context
+// ---------------------------------------------------------------------------
+
+const storage = new AsyncLocalStorage<RequestContext>();
+
+export function runWithRequestContext<T>(ctx: RequestContext, fn: () => Promise<T>): Promise<T> {
+  return storage.run(ctx, fn);
+}
+
+/** Run fn in dry-run mode, keeping the current signal and progress reporter. */
+export function runDryRun<T>(fn: () => Promise<T>): Promise<T> {
+  return storage.run({ ...storage.getStore(), dryRun: true }, fn);
+}
+
+export function isDryRun(): boolean {
+  return storage.getStore()?.dryRun === true;
+}
+
+/** Run fn as the given actor, keeping the rest of the current context. */
+export function runAsActor<T>(actor: RequestActor, fn: () => Promise<T>): Promise<T> {
+  return storage.run({ ...storage.getStore(), actor }, fn);
+}
+
+export function currentActor(): RequestActor | undefined {
+  return storage.getStore()?.actor;
+}
+
+export function currentSignal(): AbortSignal | undefined {
+  return storage.getStore()?.signal;
+}
+
+/** Combine a caller's own signal (e.g. a timeout) with the request's. */
+export function requestSignal(own?: AbortSignal): AbortSignal | undefined {
+  const ctx = currentSignal();
+  if (!ctx) return own;
+  return own ? AbortSignal.any([own, ctx]) : ctx;
+}
+
+/** Throw the request's abort reason if it was cancelled. */
+export function throwIfCancelled(): void {
+  currentSignal()?.throwIfAborted();
+}
+
+export function reportProgress(progress: number, total?: number, message?: string): void {
+  storage.getStore()?.onProgress?.(progress, total, message);
+}
@@ -0,0 +1,89 @@
+import { afterAll, beforeEach, describe, expect, test } from "bun:test";
+import { rmSync } from "fs";
+import {
+  addSavedSearch,
+  cmdSaved,
+  getSavedSearch,
+  listSavedSearches,
+  mergeSearchArgs,
+  parseSearchArgs,
+  removeSavedSearch,
+} from "./saved";
+import { createMcpToolHandlers } from "./mcp_dispatcher";
+
+const TEST_FILE = "/tmp/xint-test-saved-searches.json";
+
+describe("saved searches", () => {
+  beforeEach(() => {
+    process.env.XINT_SAVED_SEARCHES_FILE = TEST_FILE;
+    rmSync(TEST_FILE, { force: true });
+  });
+
+  afterAll(() => {
+    rmSync(TEST_FILE, { force: true });
+    delete process.env.XINT_SAVED_SEARCHES_FILE;
+  });
+
+  test("parseSearchArgs mirrors search defaults", () => {
+    const parsed = parseSearchArgs(["AI", "agents", "--sort", "recent", "--min-likes", "50", "--no-replies", "--json"]);
+    expect(parsed.query).toBe("AI agents");
+    expect(parsed.sort).toBe("recent");
+    expect(parsed.minLikes).toBe(50);
+    expect(parsed.noReplies).toBe(true);
+    expect(parsed.pages).toBe(1);
+    expect(parsed.limit).toBe(15);
+    expect(parseSearchArgs(["ai", "--quick", "--limit", "40"]).limit).toBe(10);
+  });
+
+  test("parseSearchArgs rejects unknown options and invalid queries", () => {
+    expect(() => parseSearchArgs(["ai", "--bogus"])).toThrow("Unknown search option");
+    expect(() => parseSearchArgs(["ai", "--sort", "best"])).toThrow("Invalid --sort");
+    expect(() => parseSearchArgs(["ai", "--since"])).toThrow("requires a value");
+    expect(() => parseSearchArgs(["--json"])).toThrow("needs a query");
+    expect(() => parseSearchArgs(["is:reply"])).toThrow("Invalid query");
+  });
+
+  test("adds, replaces, lists and removes searches", () => {
+    addSavedSearch("ai-daily", ["AI", "--since", "1d"], { description: "daily AI" });
+    expect(() => addSavedSearch("AI-DAILY", ["AI"])).toThrow("already exists");
+    addSavedSearch("ai-daily", ["AI", "--since", "7d"], { force: true });
+    addSavedSearch("btc", ["bitcoin"]);
+
+    expect(listSavedSearches().map((s) => s.name)).toEqual(["ai-daily", "btc"]);
+    expect(getSavedSearch("AI-Daily")?.args).toEqual(["AI", "--since", "7d"]);
+    expect(() => addSavedSearch("bad name", ["x"])).toThrow("Invalid name");
+
+    expect(removeSavedSearch("btc")).toBe(true);
+    expect(removeSavedSearch("btc")).toBe(false);
+  });
+
+  test("run options replace the saved ones instead of leaking into the query", async () => {
+    addSavedSearch("ai", ["AI", "agents", "--limit", "15", "--sort", "recent", "--no-replies"]);
+    const ran: string[][] = [];
+    const originalError = console.error;
+    console.error = () => undefined;
+    try {
+      await cmdSaved(["run", "ai", "--limit", "50", "--json"], { runSearch: async (args) => void ran.push(args) });
+    } finally {
+      console.error = originalError;
+    }
+
+    const parsed = parseSearchArgs(ran[0]);
+    expect(parsed.query).toBe("AI agents");
+    expect(parsed.limit).toBe(50);
+    expect(parsed.sort).toBe("recent");
+    expect(parsed.noReplies).toBe(true);
+    expect(ran[0].filter((a) => a === "--limit")).toHaveLength(1);
+    expect(ran[0]).toContain("--json");
+    expect(() => mergeSearchArgs(["AI"], ["--bogus"])).toThrow("Unknown search option");
+  });
+
+  test("MCP tool reports unknown saved searches", async () => {
+    const handlers = createMcpToolHandlers({
+      extractTweetId: (input) => input,
+      callPackageApi: async () => ({ ok: true }),
+      ensurePackageQueryCitations: () => undefined,
+    });
+    await expect(handlers.xint_saved_search({ name: "missing" })).rejects.toThrow("Saved search not found");
+  });
+});
@@ -0,0 +1,366 @@
+/**
+ * lib/saved.ts — Named saved searches.
+ *
+ * Stores `xint search` argument lists under a name in data/saved-searches.json
+ * so recurring queries (same --sort, --min-likes, --since, --no-replies ...)
+ * can be re-run with `xint saved run <name>` or the xint_saved_search MCP tool.
+ * Arguments are validated against the search option set when saved.
+ */
+
+import { chmodSync, existsSync, mkdirSync, readFileSync, renameSync, writeFileSync } from "fs";
+import { dirname, join } from "path";
+import { lintQuery } from "./query";
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+export interface SavedSearch {
+  name: string;
+  args: string[];
+  description?: string;
+  created_at: string;
+  updated_at: string;
+  last_run_at?: string;
+}
+
+interface SavedStore {
+  searches: SavedSearch[];
+}
+
+/** Parsed form of `xint search` arguments (same defaults as cmdSearch). */
+export interface SearchArgs {
+  query: string;
+  from?: string;
+  sort: "likes" | "impressions" | "retweets" | "recent";
+  minLikes: number;
+  minImpressions: number;
+  pages: number;
+  limit: number;
+  since?: string;
+  until?: string;
+  incremental?: string;
+  full: boolean;
+  quick: boolean;
+  quality: boolean;
+  noReplies: boolean;
+  noRetweets: boolean;
+}
+
+// ---------------------------------------------------------------------------
+// Search option set
+// ---------------------------------------------------------------------------
+
+const SEARCH_FLAGS = new Set([
+  "quick", "quality", "full", "no-replies", "no-retweets", "save",
+  "json", "jsonl", "csv", "markdown", "sentiment", "resume",
+]);
+const SEARCH_OPTIONS = new Set([
+  "from", "sort", "min-likes", "min-impressions", "pages", "limit", "since", "until", "incremental",
+]);
+const SORT_VALUES = ["likes", "impressions", "retweets", "recent"];
+const NAME_RE = /^[a-z0-9][a-z0-9_-]{0,63}$/i;
+
+function toInt(raw: string | undefined, fallback: number): number {
+  const n = Number.parseInt(raw || "", 10);
+  return Number.isFinite(n) ? n : fallback;
+}
+
+interface SearchTokens {
+  queryParts: string[];
+  flags: Set<string>;
+  opts: Record<string, string>;
+}
+
+function tokenizeSearchArgs(argv: string[]): SearchTokens {
+  const flags = new Set<string>();
+  const opts: Record<string, string> = {};
+  const queryParts: string[] = [];
+
+  for (let i = 0; i < argv.length; i++) {
+    const arg = argv[i];
+    if (!arg.startsWith("--")) {
+      queryParts.push(arg);
+      continue;
+    }
+    const name = arg.slice(2);
+    if (SEARCH_FLAGS.has(name)) {
+      flags.add(name);
+    } else if (SEARCH_OPTIONS.has(name)) {
+      const value = argv[i + 1];
+      if (value === undefined) throw new Error(`${arg} requires a value`);
+      opts[name] = value;
+      i++;
+    } else {
+      throw new Error(`Unknown search option: ${arg}`);
+    }
+  }
+  return { queryParts, flags, opts };
+}
+
+/**
+ * Combine saved search arguments with extra ones given at run time into a
+ * single argv: extra options replace saved ones of the same name, extra flags
+ * are added and extra words are appended to the query.
+ */
+export function mergeSearchArgs(saved: string[], extra: string[]): string[] {
+  const base = tokenizeSearchArgs(saved);
+  const override = tokenizeSearchArgs(extra);
+  const opts = { ...base.opts, ...override.opts };
+  const merged = [
+    ...base.queryParts,
+    ...override.queryParts,
+    ...[...new Set([...base.flags, ...override.flags])].map((flag) => `--${flag}`),
+    ...Object.entries(opts).flatMap(([name, value]) => [`--${name}`, value]),
+  ];
+  parseSearchArgs(merged);
+  return merged;
+}
+
+/**
+ * Parse and validate `xint search` arguments. Throws on unknown flags,
+ * missing option values, a bad --sort or an invalid query.
+ */
+export function parseSearchArgs(argv: string[]): SearchArgs {
+  const { queryParts, flags, opts } = tokenizeSearchArgs(argv);
+
+  const query = queryParts.join(" ").trim();
+  if (!query) throw new Error("Saved search needs a query");
+
+  const sort = (opts.sort || "likes") as SearchArgs["sort"];
+  if (!SORT_VALUES.includes(sort)) {
+    throw new Error(`Invalid --sort: ${sort} (expected ${SORT_VALUES.join(", ")})`);
+  }
+
+  const full = flags.has("full");
+  const lint = lintQuery(query, { fullArchive: full });
+  const firstError = lint.issues.find((i) => i.severity === "error");
+  if (firstError) throw new Error(`Invalid query: ${firstError.message}`);
+
+  const quick = flags.has("quick");
+  let pages = Math.min(toInt(opts.pages, 1), 5);
+  let limit = toInt(opts.limit, 15);
+  if (quick) {
+    pages = 1;
+    limit = Math.min(limit, 10);
+  }
+
+  return {
+    query,
+    from: opts.from,
+    sort,
+    minLikes: toInt(opts["min-likes"], 0),
+    minImpressions: toInt(opts["min-impressions"], 0),
+    pages,
+    limit,
+    since: opts.since,
+    until: opts.until,
+    incremental: opts.incremental,
+    full,
+    quick,
+    quality: flags.has("quality"),
+    noReplies: flags.has("no-replies"),
+    noRetweets: flags.has("no-retweets"),
+  };
+}
+
+// ---------------------------------------------------------------------------
+// Storage
+// ---------------------------------------------------------------------------
+
+const DEFAULT_STORE_FILE = join(import.meta.dir, "..", "data", "saved-searches.json");
+
+function storePath(): string {
+  return process.env.XINT_SAVED_SEARCHES_FILE || DEFAULT_STORE_FILE;
+}
+
+function loadStore(): SavedStore {
+  const path = storePath();
+  if (!existsSync(path)) return { searches: [] };
+  try {
+    const parsed = JSON.parse(readFileSync(path, "utf-8")) as SavedStore;
+    return { searches: Array.isArray(parsed.searches) ? parsed.searches : [] };
+  } catch {
+    return { searches: [] };
+  }
+}
+
+function saveStore(store: SavedStore): void {
+  const path = storePath();
+  mkdirSync(dirname(path), { recursive: true });
+  const tmp = path + ".tmp";
+  writeFileSync(tmp, JSON.stringify(store, null, 2), "utf-8");
+  chmodSync(tmp, 0o660);
+  renameSync(tmp, path);
+}
+
+export function listSavedSearches(): SavedSearch[] {
+  return loadStore().searches.sort((a, b) => a.name.localeCompare(b.name));
+}
+
+export function getSavedSearch(name: string): SavedSearch | null {
+  const key = name.toLowerCase();
+  return loadStore().searches.find((s) => s.name.toLowerCase() === key) || null;
+}
+
+export function addSavedSearch(
+  name: string,
+  args: string[],
+  opts: { description?: string; force?: boolean } = {},
+): SavedSearch {
+  if (!NAME_RE.test(name)) {
+    throw new Error(`Invalid name "${name}": use letters, digits, "-" or "_" (max 64)`);
+  }
+  parseSearchArgs(args);
+
+  const store = loadStore();
+  const key = name.toLowerCase();
+  const existing = store.searches.find((s) => s.name.toLowerCase() === key);
+  if (existing && !opts.force) {
+    throw new Error(`Saved search "${name}" already exists. Use --force to replace it.`);
+  }
+
+  const now = new Date().toISOString();
+  const entry: SavedSearch = {
+    name,
+    args,
+    ...(opts.description && { description: opts.description }),
+    created_at: existing?.created_at || now,
+    updated_at: now,
+  };
+  store.searches = store.searches.filter((s) => s.name.toLowerCase() !== key);
+  store.searches.push(entry);
+  saveStore(store);
+  return entry;
+}
+
+export function removeSavedSearch(name: string): boolean {
+  const store = loadStore();
+  const key = name.toLowerCase();
+  const before = store.searches.length;
+  store.searches = store.searches.filter((s) => s.name.toLowerCase() !== key);
+  if (store.searches.length === before) return false;
+  saveStore(store);
+  return true;
+}
+
+export function markSavedSearchRun(name: string): void {
+  const store = loadStore();
+  const entry = store.searches.find((s) => s.name.toLowerCase() === name.toLowerCase());
+  if (!entry) return;
+  entry.last_run_at = new Date().toISOString();
+  saveStore(store);
+}
+
+// ---------------------------------------------------------------------------
+// CLI handler
+// ---------------------------------------------------------------------------
+
+export interface SavedCommandDeps {
+  /** Run `xint search` with the given arguments (cmdSearch in xint.ts). */
+  runSearch: (args: string[]) => Promise<void>;
+}
+
+function formatArgs(args: string[]): string {
+  return args.map((a) => (/[\s"'()]/.test(a) ? JSON.stringify(a) : a)).join(" ");
+}
+
+export async function cmdSaved(args: string[], deps: SavedCommandDeps): Promise<void> {
+  const sub = (args[0] || "list").toLowerCase();
+  const rest = args.slice(1);
+
+  switch (sub) {
+    case "add":
+    case "save": {
+      const sep = rest.indexOf("--");
+      const head = sep >= 0 ? rest.slice(0, sep) : rest;
+      const searchArgs = sep >= 0 ? rest.slice(sep + 1) : [];
+      const name = head[0];
+      if (!name || searchArgs.length === 0) {
+        throw new Error("Usage: xint saved add <name> [--description <text>] [--force] -- <search args>");
+      }
+      const descIdx = head.indexOf("--description");
+      const entry = addSavedSearch(name, searchArgs, {
+        description: descIdx >= 0 ? head[descIdx + 1] : undefined,
+        force: head.includes("--force"),
+      });
+      console.log(`Saved search "${entry.name}": xint search ${formatArgs(entry.args)}`);
+      return;
+    }
+
+    case "run": {
+      const name = rest[0];
+      if (!name) throw new Error("Usage: xint saved run <name> [extra search options]");
+      const saved = getSavedSearch(name);
+      if (!saved) throw new Error(`Saved search not found: ${name}. Run 'xint saved list'.`);
+      const runArgs = mergeSearchArgs(saved.args, rest.slice(1));
+      console.error(`[saved] ${saved.name}: xint search ${formatArgs(saved.args)}`);
+      await deps.runSearch(runArgs);
+      markSavedSearchRun(saved.name);
+      return;
+    }
+
+    case "list":
+    case "ls": {
+      const searches = listSavedSearches();
+      if (rest.includes("--json")) {
+        console.log(JSON.stringify(searches, null, 2));
+        return;
+      }
+      if (searches.length === 0) {
+        console.log("No saved searches. Add one with: xint saved add <name> -- <search args>");
+        return;
+      }
+      console.log(`\nSaved searches (${searches.length}):\n`);
+      for (const s of searches) {
+        const lastRun = s.last_run_at ? ` (last run ${s.last_run_at.slice(0, 16).replace("T", " ")})` : "";
+        console.log(`  ${s.name}${lastRun}`);
+        if (s.description) console.log(`    ${s.description}`);
+        console.log(`    xint search ${formatArgs(s.args)}`);
+      }
+      return;
+    }
+
+    case "remove":
+    case "rm":
+    case "delete": {
+      const name = rest[0];
+      if (!name) throw new Error("Usage: xint saved remove <name>");
+      if (!removeSavedSearch(name)) throw new Error(`Saved search not found: ${name}`);
+      console.log(`Removed saved search "${name}".`);
+      return;
+    }
+
+    case "help":
+    case "--help":
+    case "-h":
+      printSavedHelp();
+      return;
+
+    default:
+      throw new Error(`Unknown saved subcommand: ${sub}`);
+  }
+}
+
+function printSavedHelp(): void {
+  console.log(`
+Usage: xint saved <subcommand>
+
+Store recurring searches by name and re-run them with the same options.
+
+Subcommands:
+  add <name> [--description <text>] [--force] -- <search args>
+                          Save a search (anything 'xint search' accepts)
+  run <name> [options]    Run it; extra options (--json, --limit 50, ...)
+                          override the saved ones
+  list [--json]           Show saved searches (default)
+  remove <name>           Delete a saved search
+
+Stored in data/saved-searches.json (XINT_SAVED_SEARCHES_FILE overrides).
+
+Examples:
+  xint saved add ai-daily -- "AI agents" --sort likes --min-likes 50 --since 1d --no-replies
+  xint saved run ai-daily
+  xint saved run ai-daily --csv > ai.csv
+`);
+}
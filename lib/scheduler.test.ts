@@ -0,0 +1,140 @@
+import { afterAll, afterEach, beforeAll, beforeEach, describe, expect, test } from "bun:test";
+import {
+  backoffDelayMs,
+  configureScheduler,
+  endpointFamily,
+  getRateLimitStates,
+  parseWaitDuration,
+  resetScheduler,
+  scheduledFetch,
+} from "./scheduler";
+
+describe("scheduler helpers", () => {
+  test("endpointFamily collapses numeric ids and drops the query", () => {
+    expect(endpointFamily("https://api.x.com/2/users/123/followers?max_results=1000")).toBe("/2/users/:id/followers");
+    expect(endpointFamily("https://api.x.com/2/tweets/search/recent?query=a")).toBe("/2/tweets/search/recent");
+  });
+
+  test("parseWaitDuration accepts seconds and shorthand", () => {
+    expect(parseWaitDuration("90")).toBe(90_000);
+    expect(parseWaitDuration("30s")).toBe(30_000);
+    expect(parseWaitDuration("15m")).toBe(900_000);
+    expect(parseWaitDuration("1h")).toBe(3_600_000);
+    expect(parseWaitDuration("soon")).toBeNull();
+    expect(parseWaitDuration(undefined)).toBeNull();
+  });
+
+  test("backoffDelayMs stays within the jittered window", () => {
+    for (let i = 0; i < 20; i++) {
+      const delay = backoffDelayMs(2, 100);
+      expect(delay).toBeGreaterThanOrEqual(200);
+      expect(delay).toBeLessThanOrEqual(400);
+    }
+  });
+});
+
+describe("scheduledFetch", () => {
+  let server: ReturnType<typeof Bun.serve>;
+  let base = "";
+  let hits = 0;
+  let handler: (hit: number) => Response = () => new Response("ok");
+
+  beforeAll(() => {
+    server = Bun.serve({
+      port: 0,
+      fetch() {
+        hits++;
+        return handler(hits);
+      },
+    });
+    base = `http://127.0.0.1:${server.port}`;
+  });
+
+  afterAll(() => {
+    server.stop(true);
+  });
+
+  beforeEach(() => {
+    hits = 0;
+    resetScheduler();
+    configureScheduler({ baseBackoffMs: 1, minSpacingMs: 0, quiet: true });
+  });
+
+  afterEach(() => {
+    resetScheduler();
+  });
+
+  test("retries transient 5xx responses", async () => {
+    handler = (hit) => (hit < 3 ? new Response("busy", { status: 503 }) : new Response("ok"));
+    const res = await scheduledFetch(`${base}/2/tweets/1`);
+    expect(res.status).toBe(200);
+    expect(hits).toBe(3);
+  });
+
+  test("returns the last 5xx once retries are exhausted", async () => {
+    configureScheduler({ maxRetries: 1 });
+    handler = () => new Response("down", { status: 502 });
+    const res = await scheduledFetch(`${base}/2/tweets/1`);
+    expect(res.status).toBe(502);
+    expect(hits).toBe(2);
+  });
+
+  test("never retries a write after a 5xx", async () => {
+    handler = () => new Response("busy", { status: 503 });
+    const res = await scheduledFetch(`${base}/2/lists`, { method: "POST", body: "{}" });
+    expect(res.status).toBe(503);
+    expect(hits).toBe(1);
+  });
+
+  test("retries a write after a 429 (X didn't process it)", async () => {
+    handler = (hit) => hit === 1
+      ? new Response("slow down", {
+          status: 429,
+          headers: { "x-rate-limit-reset": String(Math.floor(Date.now() / 1000)) },
+        })
+      : new Response("ok");
+    const res = await scheduledFetch(`${base}/2/users/1/following`, { method: "POST", body: "{}" });
+    expect(res.status).toBe(200);
+    expect(hits).toBe(2);
+  });
+
+  test("waits out a short 429 reset and retries", async () => {
+    handler = (hit) => hit === 1
+      ? new Response("slow down", {
+          status: 429,
+          headers: { "x-rate-limit-reset": String(Math.floor(Date.now() / 1000)) },
+        })
+      : new Response("ok");
+    const res = await scheduledFetch(`${base}/2/users/by/username/alice`);
+    expect(res.status).toBe(200);
+    expect(hits).toBe(2);
+  });
+
+  test("throws when the reset is beyond max wait", async () => {
+    configureScheduler({ maxWaitMs: 1000 });
+    handler = () => new Response("slow down", {
+      status: 429,
+      headers: { "x-rate-limit-reset": String(Math.floor(Date.now() / 1000) + 600) },
+    });
+    await expect(scheduledFetch(`${base}/2/tweets/search/recent`)).rejects.toThrow(/Rate limited\. Resets in \d+s/);
+    expect(hits).toBe(1);
+  });
+
+  test("tracks x-rate-limit headers per endpoint family and scope", async () => {
+    const reset = Math.floor(Date.now() / 1000) + 900;
+    handler = () => new Response("ok", {
+      headers: {
+        "x-rate-limit-limit": "180",
+        "x-rate-limit-remaining": "179",
+        "x-rate-limit-reset": String(reset),
+      },
+    });
+    await scheduledFetch(`${base}/2/users/42/liked_tweets`, {}, { scope: "user" });
+    const states = getRateLimitStates();
+    expect(states.length).toBe(1);
+    expect(states[0].key).toBe("user:GET /2/users/:id/liked_tweets");
+    expect(states[0].remaining).toBe(179);
+    expect(states[0].limit).toBe(180);
+    expect(states[0].reset_at).toBe(reset);
+  });
+});
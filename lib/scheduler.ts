@@ -0,0 +1,284 @@
+/**
+ * lib/scheduler.ts — Rate-limit aware request scheduler for the X API.
+ *
+ * Every X API request in lib/api.ts goes through scheduledFetch(), which:
+ *   - spaces requests so bursts stay under the app-wide request rate
+ *   - serializes requests per endpoint family (method + path with IDs collapsed)
+ *   - tracks x-rate-limit-remaining / x-rate-limit-reset per family and waits
+ *     out exhausted windows instead of failing, up to a configurable max wait
+ *   - retries transient 5xx responses and network errors of reads (GET/HEAD)
+ *     with jittered exponential backoff; a write that may have reached X is
+ *     never sent twice (429s are retried for every method)
+ *   - aborts waits and in-flight requests when the current request context
+ *     is cancelled (lib/request_context.ts)
+ */
+
+import { currentSignal, requestSignal, throwIfCancelled } from "./request_context";
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+export type RateLimitScope = "app" | "user";
+
+export interface SchedulerConfig {
+  maxWaitMs: number;       // longest rate-limit reset waited out automatically
+  maxRetries: number;      // retries for transient 5xx / network errors (reads only)
+  maxRateLimitRetries: number; // 429 responses tolerated per request
+  baseBackoffMs: number;   // first retry delay; doubles per attempt (with jitter)
+  minSpacingMs: number;    // minimum gap between any two requests
+  quiet: boolean;          // suppress "[rate-limit] waiting..." notices
+}
+
+export interface RateLimitState {
+  key: string;
+  family: string;
+  limit?: number;
+  remaining: number;
+  reset_at: number; // unix seconds
+  updated_at: string;
+}
+
+// ---------------------------------------------------------------------------
+// State
+// ---------------------------------------------------------------------------
+
+const MAX_WAIT_ENV = "XINT_RATE_LIMIT_MAX_WAIT";
+const TRANSIENT_STATUSES = new Set([500, 502, 503, 504]);
+// A lost response to a POST may still have created a list or a rule.
+const RETRYABLE_METHODS = new Set(["GET", "HEAD"]);
+const DEFAULT_RESET_WAIT_MS = 60_000;
+
+/**
+ * Parse a wait duration: plain seconds ("90") or shorthand ("30s", "15m", "1h").
+ */
+export function parseWaitDuration(raw: string | undefined): number | null {
+  if (raw === undefined) return null;
+  const value = raw.trim().toLowerCase();
+  if (/^\d+$/.test(value)) return Number.parseInt(value, 10) * 1000;
+  const m = value.match(/^(\d+)(s|m|h)$/);
+  if (!m) return null;
+  const n = Number.parseInt(m[1], 10);
+  return m[2] === "s" ? n * 1000 : m[2] === "m" ? n * 60_000 : n * 3_600_000;
+}
+
+function defaultConfig(): SchedulerConfig {
+  return {
+    maxWaitMs: parseWaitDuration(process.env[MAX_WAIT_ENV]) ?? 15 * 60_000,
+    maxRetries: 3,
+    maxRateLimitRetries: 3,
+    baseBackoffMs: 1000,
+    minSpacingMs: 350, // stay under 450 req/15min
+    quiet: false,
+  };
+}
+
+let config: SchedulerConfig = defaultConfig();
+const limits = new Map<string, RateLimitState>();
+const queues = new Map<string, Promise<void>>();
+let nextSlotAt = 0;
+
+export function configureScheduler(overrides: Partial<SchedulerConfig>): void {
+  config = { ...config, ...overrides };
+}
+
+export function getSchedulerConfig(): SchedulerConfig {
+  return { ...config };
+}
+
+/** Reset config and all tracked windows (tests). */
+export function resetScheduler(): void {
+  config = defaultConfig();
+  limits.clear();
+  queues.clear();
+  nextSlotAt = 0;
+}
+
+/** Snapshot of the last-seen rate-limit window for each endpoint family. */
+export function getRateLimitStates(): RateLimitState[] {
+  return [...limits.values()].map((s) => ({ ...s }));
+}
+
+// ---------------------------------------------------------------------------
+// Helpers
+// ---------------------------------------------------------------------------
+
+/** Sleep that ends early (rejecting) when the current request is cancelled. */
+function sleep(ms: number): Promise<void> {
+  const signal = currentSignal();
+  if (!signal) return new Promise((r) => setTimeout(r, ms));
+  return new Promise((resolve, reject) => {
+    if (signal.aborted) return reject(signal.reason);
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(signal.reason);
+    };
+    const timer = setTimeout(() => {
+      signal.removeEventListener("abort", onAbort);
+      resolve();
+    }, ms);
+    signal.addEventListener("abort", onAbort, { once: true });
+  });
+}
+
+function notice(message: string): void {
+  if (!config.quiet) console.error(`[rate-limit] ${message}`);
+}
+
+/**
+ * Collapse an X API URL into its rate-limit family, e.g.
+ * https://api.x.com/2/users/123/followers?x=1 -> /2/users/:id/followers
+ */
+export function endpointFamily(url: string): string {
+  let path: string;
+  try {
+    path = new URL(url).pathname;
+  } catch {
+    path = url.split("?")[0];
+  }
+  return path
+    .split("/")
+    .map((seg, i) => (i > 1 && /^\d+$/.test(seg) ? ":id" : seg)) // keep the "/2" version
+    .join("/") || "/";
+}
+
+export function backoffDelayMs(attempt: number, baseMs: number = config.baseBackoffMs): number {
+  const cap = baseMs * 2 ** attempt;
+  return Math.round(cap / 2 + Math.random() * (cap / 2));
+}
+
+function resetWaitMs(headers: Headers): number {
+  const reset = headers.get("x-rate-limit-reset");
+  if (!reset) return DEFAULT_RESET_WAIT_MS;
+  const resetSec = Number.parseInt(reset, 10);
+  if (!Number.isFinite(resetSec)) return DEFAULT_RESET_WAIT_MS;
+  return Math.max(resetSec * 1000 - Date.now(), 1000);
+}
+
+export function rateLimitError(waitMs: number): Error {
+  return new Error(`Rate limited. Resets in ${Math.max(1, Math.ceil(waitMs / 1000))}s`);
+}
+
+function recordHeaders(key: string, family: string, headers: Headers): void {
+  const remaining = headers.get("x-rate-limit-remaining");
+  const reset = headers.get("x-rate-limit-reset");
+  if (remaining === null || reset === null) return;
+  const limit = headers.get("x-rate-limit-limit");
+  limits.set(key, {
+    key,
+    family,
+    ...(limit !== null && { limit: Number.parseInt(limit, 10) }),
+    remaining: Number.parseInt(remaining, 10),
+    reset_at: Number.parseInt(reset, 10),
+    updated_at: new Date().toISOString(),
+  });
+}
+
+function markExhausted(key: string, family: string, waitMs: number): void {
+  const prev = limits.get(key);
+  limits.set(key, {
+    key,
+    family,
+    ...(prev?.limit !== undefined && { limit: prev.limit }),
+    remaining: 0,
+    reset_at: Math.ceil((Date.now() + waitMs) / 1000),
+    updated_at: new Date().toISOString(),
+  });
+}
+
+async function waitForWindow(key: string, family: string): Promise<void> {
+  const state = limits.get(key);
+  if (!state || state.remaining > 0) return;
+  const waitMs = state.reset_at * 1000 - Date.now();
+  if (waitMs <= 0) return;
+  if (waitMs > config.maxWaitMs) throw rateLimitError(waitMs);
+  notice(`${family} window exhausted; waiting ${Math.ceil(waitMs / 1000)}s for reset...`);
+  await sleep(waitMs);
+}
+
+async function reserveSlot(): Promise<void> {
+  const now = Date.now();
+  const slot = Math.max(now, nextSlotAt);
+  nextSlotAt = slot + config.minSpacingMs;
+  if (slot > now) await sleep(slot - now);
+}
+
+function enqueue<T>(key: string, task: () => Promise<T>): Promise<T> {
+  const prev = queues.get(key) || Promise.resolve();
+  const run = prev.then(task, task);
+  const settled = run.then(() => undefined, () => undefined);
+  queues.set(key, settled);
+  settled.then(() => {
+    if (queues.get(key) === settled) queues.delete(key);
+  });
+  return run;
+}
+
+function isAbortError(err: any): boolean {
+  return err?.name === "AbortError";
+}
+
+// ---------------------------------------------------------------------------
+// Scheduled fetch
+// ---------------------------------------------------------------------------
+
+/**
+ * fetch() wrapper used for all X API calls. Resolves with the final Response
+ * (callers still handle non-2xx statuses); throws "Rate limited. Resets in Ns"
+ * only when the reset is further away than maxWaitMs.
+ */
+export async function scheduledFetch(
+  url: string,
+  init: RequestInit = {},
+  opts: { scope?: RateLimitScope } = {},
+): Promise<Response> {
+  const family = endpointFamily(url);
+  const method = (init.method || "GET").toUpperCase();
+  const key = `${opts.scope || "app"}:${method} ${family}`;
+  const retryable = RETRYABLE_METHODS.has(method);
+
+  return enqueue(key, async () => {
+    let attempt = 0;
+    let rateLimitHits = 0;
+
+    while (true) {
+      throwIfCancelled();
+      await waitForWindow(key, family);
+      await reserveSlot();
+
+      let res: Response;
+      try {
+        res = await fetch(url, { ...init, signal: requestSignal(init.signal || undefined) });
+      } catch (err: any) {
+        if (isAbortError(err) || !retryable || attempt >= config.maxRetries) throw err;
+        const delay = backoffDelayMs(attempt++);
+        notice(`${method} ${family} failed (${err?.message || String(err)}); retrying in ${delay}ms`);
+        await sleep(delay);
+        continue;
+      }
+
+      recordHeaders(key, family, res.headers);
+
+      if (res.status === 429) {
+        const waitMs = resetWaitMs(res.headers);
+        markExhausted(key, family, waitMs);
+        if (waitMs > config.maxWaitMs || rateLimitHits >= config.maxRateLimitRetries) {
+          throw rateLimitError(waitMs);
+        }
+        rateLimitHits++;
+        await res.body?.cancel().catch(() => undefined);
+        continue; // waitForWindow() sleeps until the reset
+      }
+
+      if (TRANSIENT_STATUSES.has(res.status) && retryable && attempt < config.maxRetries) {
+        const delay = backoffDelayMs(attempt++);
+        notice(`${method} ${family} returned ${res.status}; retrying in ${delay}ms`);
+        await res.body?.cancel().catch(() => undefined);
+        await sleep(delay);
+        continue;
+      }
+
+      return res;
+    }
+  });
+}
@@ -0,0 +1,81 @@
+/**
+ * lib/search.ts — Search pipeline shared by `xint search` and xint_saved_search.
+ *
+ * fetchSearch() runs the X API part (incremental cursor, pagination, archive,
+ * cost tracking); refineSearchResults() applies the post-hoc filters and sort.
+ * The CLI adds caching and output formats on top; the MCP saved-search tool
+ * returns the refined tweets, so both give the same results for the same args.
+ */
+
+import * as api from "./api";
+import { archiveTweets } from "./archive";
+import { trackCost } from "./costs";
+import type { SearchArgs } from "./saved";
+import { resolveSinceId, updateSearchCursor } from "./search_state";
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+export type SearchFetchOptions = Pick<SearchArgs, "sort" | "pages" | "since" | "until" | "incremental"> & {
+  fullArchive: boolean;
+  resume?: boolean;
+};
+
+export type SearchRefineOptions = Pick<SearchArgs, "sort" | "minLikes" | "minImpressions" | "quality">;
+
+// ---------------------------------------------------------------------------
+// Pipeline
+// ---------------------------------------------------------------------------
+
+/**
+ * Fetch tweets for an already built and linted query. With `incremental`,
+ * only tweets newer than the previous run are fetched, newest first. If
+ * `pages` runs out before X does, the cursor stays put so no tweets fall
+ * between runs.
+ */
+export async function fetchSearch(query: string, opts: SearchFetchOptions, source: string): Promise<api.Tweet[]> {
+  const sinceId = opts.incremental ? resolveSinceId(opts.incremental, query, { fullArchive: opts.fullArchive }) : null;
+
+  const { tweets, truncated, fetched } = await api.searchPages(query, {
+    pages: opts.pages,
+    sortOrder: opts.incremental || opts.sort === "recent" ? "recency" : "relevancy",
+    since: opts.since,
+    until: opts.until,
+    fullArchive: opts.fullArchive,
+    sinceId: sinceId || undefined,
+    resume: opts.resume,
+  });
+  archiveTweets(tweets, source);
+
+  if (opts.incremental) {
+    updateSearchCursor(opts.incremental, query, tweets.map((t) => t.id), {
+      truncated: Boolean(sinceId) && truncated,
+    });
+    console.error(`[incremental] ${tweets.length} new tweet(s)${sinceId ? ` since ${sinceId}` : ""}`);
+  }
+
+  // The API charges per tweet read, regardless of the post-hoc filters;
+  // pages reloaded by --resume were billed on the earlier run.
+  trackCost(
+    opts.fullArchive ? "search_archive" : "search",
+    opts.fullArchive ? "/2/tweets/search/all" : "/2/tweets/search/recent",
+    fetched,
+  );
+  return tweets;
+}
+
+/** Engagement filters, --quality, sort and dedupe (before --limit). */
+export function refineSearchResults(tweets: api.Tweet[], opts: SearchRefineOptions): api.Tweet[] {
+  let results = tweets;
+  if (opts.minLikes > 0 || opts.minImpressions > 0) {
+    results = api.filterEngagement(results, {
+      minLikes: opts.minLikes || undefined,
+      minImpressions: opts.minImpressions || undefined,
+    });
+  }
+  // min_faves isn't available as a search operator, so --quality filters here.
+  if (opts.quality) results = api.filterEngagement(results, { minLikes: 10 });
+  if (opts.sort !== "recent") results = api.sortBy(results, opts.sort);
+  return api.dedupe(results);
+}
@@ -0,0 +1,72 @@
+import { afterAll, beforeEach, describe, expect, test } from "bun:test";
+import { rmSync } from "fs";
+import {
+  getSearchCursor,
+  newestId,
+  resolveSinceId,
+  snowflakeTime,
+  updateSearchCursor,
+} from "./search_state";
+
+const TEST_FILE = "/tmp/xint-test-search-state.json";
+
+function idAt(ms: number): string {
+  return (BigInt(ms - 1288834974657) << 22n).toString();
+}
+
+describe("incremental search state", () => {
+  beforeEach(() => {
+    process.env.XINT_SEARCH_STATE_FILE = TEST_FILE;
+    rmSync(TEST_FILE, { force: true });
+  });
+
+  afterAll(() => {
+    rmSync(TEST_FILE, { force: true });
+    delete process.env.XINT_SEARCH_STATE_FILE;
+  });
+
+  test("snowflakeTime decodes the id timestamp", () => {
+    const now = Date.now();
+    expect(snowflakeTime(idAt(now))).toBe(now);
+  });
+
+  test("newestId compares ids numerically", () => {
+    expect(newestId(["999", "1000", "998"])).toBe("1000");
+    expect(newestId(["1900000000000000001", "1899999999999999999"])).toBe("1900000000000000001");
+    expect(newestId([])).toBeNull();
+  });
+
+  test("stores the newest id and resolves it as since_id", () => {
+    const older = idAt(Date.now() - 60_000);
+    const newer = idAt(Date.now() - 1_000);
+    expect(resolveSinceId("daily", "ai -is:retweet")).toBeNull();
+
+    updateSearchCursor("daily", "ai -is:retweet", [older, newer]);
+    expect(resolveSinceId("daily", "ai -is:retweet")).toBe(newer);
+
+    // An empty run keeps the cursor where it was
+    updateSearchCursor("daily", "ai -is:retweet", []);
+    expect(getSearchCursor("daily")?.newest_id).toBe(newer);
+  });
+
+  test("a truncated run keeps the cursor so unfetched tweets aren't skipped", () => {
+    const start = idAt(Date.now() - 3_600_000);
+    updateSearchCursor("busy", "ai", [start]);
+
+    const newest = idAt(Date.now());
+    updateSearchCursor("busy", "ai", [newest], { truncated: true });
+    expect(resolveSinceId("busy", "ai")).toBe(start);
+
+    updateSearchCursor("busy", "ai", [newest], { truncated: false });
+    expect(resolveSinceId("busy", "ai")).toBe(newest);
+  });
+
+  test("ignores the cursor when the query changed or it left the recent window", () => {
+    updateSearchCursor("daily", "ai", [idAt(Date.now())]);
+    expect(resolveSinceId("daily", "bitcoin")).toBeNull();
+
+    updateSearchCursor("old", "ai", [idAt(Date.now() - 8 * 24 * 3_600_000)]);
+    expect(resolveSinceId("old", "ai")).toBeNull();
+    expect(resolveSinceId("old", "ai", { fullArchive: true })).not.toBeNull();
+  });
+});
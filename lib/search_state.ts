@@ -0,0 +1,153 @@
+/**
+ * lib/search_state.ts — Incremental search cursors.
+ *
+ * `xint search --incremental <key>` remembers the newest tweet id seen for a
+ * query in data/search-state.json and passes it as since_id on the next run,
+ * so cron jobs only read (and pay for) tweets posted since the last run.
+ */
+
+import { chmodSync, existsSync, mkdirSync, readFileSync, renameSync, writeFileSync } from "fs";
+import { dirname, join } from "path";
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+export interface SearchCursor {
+  key: string;
+  query: string;
+  newest_id: string;
+  updated_at: string;
+  last_new: number;
+}
+
+interface SearchStateFile {
+  cursors: Record<string, SearchCursor>;
+}
+
+// ---------------------------------------------------------------------------
+// Constants
+// ---------------------------------------------------------------------------
+
+const DEFAULT_STATE_FILE = join(import.meta.dir, "..", "data", "search-state.json");
+const TWITTER_EPOCH_MS = 1288834974657;
+// /2/tweets/search/recent rejects since_id older than its 7-day window.
+const RECENT_WINDOW_MS = 7 * 24 * 3_600_000;
+
+// ---------------------------------------------------------------------------
+// Helpers
+// ---------------------------------------------------------------------------
+
+/** Creation time encoded in a snowflake tweet id (ms since epoch). */
+export function snowflakeTime(id: string): number {
+  return Number(BigInt(id) >> 22n) + TWITTER_EPOCH_MS;
+}
+
+/** Numeric comparison of tweet ids (snowflakes exceed Number precision). */
+export function compareIds(a: string, b: string): number {
+  const x = BigInt(a);
+  const y = BigInt(b);
+  return x === y ? 0 : x > y ? 1 : -1;
+}
+
+/** Whether a since_id is still accepted (recent search only covers 7 days). */
+export function sinceIdUsable(id: string, opts: { fullArchive?: boolean } = {}): boolean {
+  return Boolean(opts.fullArchive) || Date.now() - snowflakeTime(id) <= RECENT_WINDOW_MS;
+}
+
+export function newestId(ids: string[]): string | null {
+  let newest: string | null = null;
+  for (const id of ids) {
+    if (!/^\d+$/.test(id)) continue;
+    if (newest === null || compareIds(id, newest) > 0) newest = id;
+  }
+  return newest;
+}
+
+// ---------------------------------------------------------------------------
+// Storage
+// ---------------------------------------------------------------------------
+
+function statePath(): string {
+  return process.env.XINT_SEARCH_STATE_FILE || DEFAULT_STATE_FILE;
+}
+
+function loadState(): SearchStateFile {
+  const path = statePath();
+  if (!existsSync(path)) return { cursors: {} };
+  try {
+    const parsed = JSON.parse(readFileSync(path, "utf-8")) as SearchStateFile;
+    return { cursors: parsed.cursors || {} };
+  } catch {
+    return { cursors: {} };
+  }
+}
+
+function saveState(state: SearchStateFile): void {
+  const path = statePath();
+  mkdirSync(dirname(path), { recursive: true });
+  const tmp = path + ".tmp";
+  writeFileSync(tmp, JSON.stringify(state, null, 2), "utf-8");
+  chmodSync(tmp, 0o660);
+  renameSync(tmp, path);
+}
+
+export function getSearchCursor(key: string): SearchCursor | null {
+  return loadState().cursors[key] || null;
+}
+
+/**
+ * Resolve the since_id for a run. Returns null (and says why on stderr) when
+ * there is no cursor, the query changed, or the cursor fell outside the
+ * recent-search window.
+ */
+export function resolveSinceId(key: string, query: string, opts: { fullArchive?: boolean } = {}): string | null {
+  const cursor = getSearchCursor(key);
+  if (!cursor) {
+    console.error(`[incremental] No state for "${key}" yet; running a full search`);
+    return null;
+  }
+  if (cursor.query !== query) {
+    console.error(`[incremental] Query for "${key}" changed; starting fresh`);
+    return null;
+  }
+  if (!sinceIdUsable(cursor.newest_id, opts)) {
+    console.error(`[incremental] State for "${key}" is older than 7 days; running a full search`);
+    return null;
+  }
+  return cursor.newest_id;
+}
+
+/**
+ * Record the newest id from a run. Keeps the previous cursor when the run
+ * returned nothing new, or when it was truncated: tweets between the old
+ * cursor and the oldest one fetched would otherwise never be returned.
+ */
+export function updateSearchCursor(
+  key: string,
+  query: string,
+  ids: string[],
+  opts: { truncated?: boolean } = {},
+): SearchCursor | null {
+  const state = loadState();
+  const prev = state.cursors[key];
+  const sameQuery = prev?.query === query;
+  if (opts.truncated && sameQuery) {
+    console.error(`[incremental] Results for "${key}" were cut short; keeping the cursor at ${prev.newest_id} (raise --pages to fetch the rest)`);
+    return prev;
+  }
+  const candidates = sameQuery ? [...ids, prev.newest_id] : ids;
+  const newest = newestId(candidates);
+  if (!newest) return prev || null;
+
+  const cursor: SearchCursor = {
+    key,
+    query,
+    newest_id: newest,
+    updated_at: new Date().toISOString(),
+    last_new: ids.length,
+  };
+  state.cursors[key] = cursor;
+  saveState(state);
+  return cursor;
+}
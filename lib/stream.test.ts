@@ -1,5 +1,21 @@
-import { describe, expect, test } from "bun:test";
-import { parseBackfillMinutes, parsePositiveInt } from "./stream";
+import { afterAll, beforeAll, describe, expect, test } from "bun:test";
+import { mkdtempSync, writeFileSync } from "fs";
+import { tmpdir } from "os";
+import { join } from "path";
+import {
+  backfillMinutesForGap,
+  loadStreamRoutes,
+  mergeStreamRoutes,
+  parseBackfillMinutes,
+  parsePositiveInt,
+  parseRouteFlag,
+  parseRuleSet,
+  planRuleSync,
+  parseStreamRoutes,
+  reconnectDelayMs,
+  routesForEvent,
+  superviseStream,
+} from "./stream";
 
 describe("stream arg parsing", () => {
   test("parsePositiveInt accepts positive numbers", () => {
@@ -20,3 +36,193 @@ describe("stream arg parsing", () => {
     expect(parseBackfillMinutes("0")).toBeNull();
   });
 });
+
+describe("stream rule sync", () => {
+  test("parseRuleSet accepts wrapped, bare and string entries", () => {
+    expect(parseRuleSet({ rules: [{ value: " solana ", tag: "sol" }, "bitcoin"] })).toEqual([
+      { value: "solana", tag: "sol" },
+      { value: "bitcoin" },
+    ]);
+    expect(parseRuleSet([{ value: "a" }])).toEqual([{ value: "a" }]);
+  });
+
+  test("parseRuleSet rejects bad entries and duplicates", () => {
+    expect(() => parseRuleSet({ nope: true })).toThrow(/Rules file must be a list/);
+    expect(() => parseRuleSet([{ tag: "x" }])).toThrow(/rules\[0\]: expected a "value"/);
+    expect(() => parseRuleSet(["a", { value: "a", tag: "t" }])).toThrow(/rules\[1\]: duplicate rule value/);
+  });
+
+  test("planRuleSync keeps matches and replaces retagged rules", () => {
+    const plan = planRuleSync(
+      [{ value: "solana", tag: "sol" }, { value: "bitcoin", tag: "btc" }, { value: "eth" }],
+      [
+        { id: "1", value: "solana", tag: "sol" },
+        { id: "2", value: "bitcoin", tag: "crypto" },
+        { id: "3", value: "dogecoin" },
+      ],
+    );
+    expect(plan.unchanged.map((r) => r.id)).toEqual(["1"]);
+    expect(plan.delete.map((r) => r.id)).toEqual(["2", "3"]);
+    expect(plan.add).toEqual([{ value: "bitcoin", tag: "btc" }, { value: "eth" }]);
+  });
+
+  test("planRuleSync is empty when rules already match", () => {
+    const plan = planRuleSync([{ value: "a" }], [{ id: "9", value: "a" }]);
+    expect(plan.add).toHaveLength(0);
+    expect(plan.delete).toHaveLength(0);
+  });
+});
+
+describe("stream tag routing", () => {
+  test("parseRouteFlag splits tag and sink spec", () => {
+    expect(parseRouteFlag("sol=jsonl:/tmp/sol.jsonl")).toEqual({
+      tag: "sol",
+      sinks: [{ type: "jsonl", path: "/tmp/sol.jsonl" }],
+    });
+    expect(() => parseRouteFlag("jsonl:/tmp/x.jsonl")).toThrow(/<tag>=<sink spec>/);
+    expect(() => parseRouteFlag("sol=webhook:http://example.com/x")).toThrow(/https/);
+  });
+
+  test("parseStreamRoutes accepts lists and objects and reports paths", () => {
+    const routes = parseStreamRoutes(
+      { routes: { sol: ["jsonl:sol.jsonl"], btc: { sinks: ["stdout:jsonl"], alerts: "btc.yaml" } } },
+      { baseDir: "/srv" },
+    );
+    expect(routes).toEqual([
+      { tag: "sol", sinks: [{ type: "jsonl", path: "/srv/sol.jsonl" }] },
+      { tag: "btc", sinks: [{ type: "stdout", format: "jsonl" }], alerts: "/srv/btc.yaml" },
+    ]);
+    expect(() => parseStreamRoutes({ routes: {} })).toThrow(/Invalid stream routes: routes:/);
+    expect(() => parseStreamRoutes({ routes: { sol: { sinks: [] } } })).toThrow(/routes\.sol\.sinks: expected a non-empty list/);
+    expect(() => parseStreamRoutes({ routes: { sol: { sink: ["stdout"] } } })).toThrow(/routes\.sol\.sink: unknown field/);
+    expect(() => parseStreamRoutes({ routes: { sol: ["teams:x"] } })).toThrow(/routes\.sol\.sinks\[0\]: unknown sink/);
+  });
+
+  test("loadStreamRoutes reads YAML relative to the file", () => {
+    const dir = mkdtempSync(join(tmpdir(), "xint-stream-routes-"));
+    const path = join(dir, "routes.yaml");
+    writeFileSync(path, ["routes:", "  sol: [jsonl:feeds/sol.jsonl]"].join("\n"));
+    expect(loadStreamRoutes(path)).toEqual([{ tag: "sol", sinks: [{ type: "jsonl", path: join(dir, "feeds/sol.jsonl") }] }]);
+  });
+
+  test("mergeStreamRoutes folds repeated tags", () => {
+    const merged = mergeStreamRoutes([
+      parseRouteFlag("sol=stdout"),
+      parseRouteFlag("btc=stdout:jsonl"),
+      { tag: "sol", sinks: [{ type: "jsonl", path: "/tmp/sol.jsonl" }], alerts: "/tmp/a.json" },
+    ]);
+    expect(merged.map((r) => [r.tag, r.sinks.length, r.alerts])).toEqual([
+      ["sol", 2, "/tmp/a.json"],
+      ["btc", 1, undefined],
+    ]);
+  });
+
+  test("routesForEvent matches rule tags and falls back to *", () => {
+    const routes = [{ tag: "sol" }, { tag: "btc" }, { tag: "*" }];
+    expect(routesForEvent(routes, [{ tag: "btc" }, { tag: "sol" }]).map((r) => r.tag)).toEqual(["sol", "btc"]);
+    expect(routesForEvent(routes, [{ tag: "eth" }, {}]).map((r) => r.tag)).toEqual(["*"]);
+    expect(routesForEvent([{ tag: "sol" }], [{ tag: "eth" }])).toEqual([]);
+  });
+});
+
+describe("stream reconnect policy", () => {
+  test("network errors back off linearly, HTTP errors exponentially", () => {
+    expect([1, 2, 3].map((n) => reconnectDelayMs("network", n))).toEqual([250, 500, 750]);
+    expect(reconnectDelayMs("network", 100)).toBe(16_000);
+    expect([1, 2, 3].map((n) => reconnectDelayMs("http", n))).toEqual([5_000, 10_000, 20_000]);
+    expect(reconnectDelayMs("http", 20)).toBe(320_000);
+    expect(reconnectDelayMs("rate_limit", 2)).toBe(120_000);
+  });
+
+  test("backfill covers the outage, clamped to 1-5 minutes", () => {
+    expect(backfillMinutesForGap(5_000)).toBe(1);
+    expect(backfillMinutesForGap(150_000)).toBe(3);
+    expect(backfillMinutesForGap(3_600_000)).toBe(5);
+  });
+});
+
+describe("superviseStream", () => {
+  // Each connection is scripted: a status plus lines to send; "hang" keeps it open silently.
+  type Script = { status?: number; lines?: string[]; hang?: boolean };
+  let scripts: Script[] = [];
+  let urls: string[] = [];
+  let server: ReturnType<typeof Bun.serve>;
+
+  beforeAll(() => {
+    server = Bun.serve({
+      port: 0,
+      fetch(req) {
+        urls.push(req.url);
+        const script = scripts.shift() || { hang: true };
+        if (script.status && script.status !== 200) return new Response("nope", { status: script.status });
+        const body = new ReadableStream({
+          start(controller) {
+            for (const line of script.lines || []) controller.enqueue(new TextEncoder().encode(`${line}\r\n`));
+            if (!script.hang) controller.close();
+          },
+        });
+        return new Response(body);
+      },
+    });
+  });
+
+  afterAll(() => {
+    server.stop(true);
+  });
+
+  function start(opts: { stallTimeoutMs?: number; stopAfter: number }) {
+    const lines: string[] = [];
+    const delays: string[] = [];
+    urls = [];
+    const supervisor = superviseStream({
+      open: (backfill, signal) =>
+        fetch(`http://127.0.0.1:${server.port}/stream${backfill ? `?backfill_minutes=${backfill}` : ""}`, { signal }),
+      onLine: async (line) => {
+        lines.push(line);
+        return lines.length < opts.stopAfter;
+      },
+      stallTimeoutMs: opts.stallTimeoutMs,
+      delay: (kind, attempt) => {
+        delays.push(`${kind}#${attempt}`);
+        return 1;
+      },
+    });
+    return { supervisor, lines, delays };
+  }
+
+  test("reconnects after the server closes and requests backfill", async () => {
+    scripts = [{ lines: ["", "a"] }, { lines: ["b", "c"] }];
+    const { supervisor, lines, delays } = start({ stopAfter: 3 });
+    expect(await supervisor.done).toEqual({ connections: 2, reconnects: 1 });
+    expect(lines).toEqual(["a", "b", "c"]);
+    expect(delays).toEqual(["network#1"]);
+    expect(new URL(urls[1]).searchParams.get("backfill_minutes")).toBe("1");
+  });
+
+  test("treats silence past the stall timeout as a dropped connection", async () => {
+    scripts = [{ lines: ["a"], hang: true }, { lines: ["b"] }];
+    const { supervisor, lines, delays } = start({ stallTimeoutMs: 150, stopAfter: 2 });
+    expect((await supervisor.done).reconnects).toBe(1);
+    expect(lines).toEqual(["a", "b"]);
+    expect(delays).toEqual(["network#1"]);
+  });
+
+  test("uses HTTP backoff for 5xx and gives up on auth errors", async () => {
+    scripts = [{ status: 503 }, { status: 503 }, { lines: ["a"] }];
+    const ok = start({ stopAfter: 1 });
+    await ok.supervisor.done;
+    expect(ok.delays).toEqual(["http#1", "http#2"]);
+
+    scripts = [{ status: 401 }];
+    const denied = start({ stopAfter: 1 });
+    await expect(denied.supervisor.done).rejects.toThrow(/X API 401/);
+  });
+
+  test("stop() ends a hanging connection", async () => {
+    scripts = [{ lines: ["a"], hang: true }];
+    const { supervisor, lines } = start({ stopAfter: 10 });
+    while (lines.length === 0) await Bun.sleep(5);
+    supervisor.stop();
+    expect(await supervisor.done).toEqual({ connections: 1, reconnects: 0 });
+  });
+});
@@ -7,11 +7,20 @@
  *   POST /2/tweets/search/stream/rules
  */
 
+import { dirname, resolve } from "path";
 import * as api from "./api";
+import { loadConfigFile } from "./config_file";
 import * as fmt from "./format";
 import { checkBudget, trackCost } from "./costs";
 import { buildOutputMeta } from "./output-meta";
 import { validateWebhookUrl } from "./webhook-security";
+import { deliverWebhook } from "./webhooks";
+import { parseSink, sendToSinks, type SinkConfig } from "./sinks";
+import { MAX_SEEN_IDS, SeenIdLru } from "./watch_state";
+import { archiveTweets } from "./archive";
+import { cmdStreamServe } from "./stream_server";
+import { isDryRun } from "./request_context";
+import { AlertEngine, alertPayload, formatAlertLine, loadAlertRules, type AlertDecision } from "./alerts";
 
 interface StreamOptions {
   json?: boolean;
@@ -20,9 +29,27 @@ interface StreamOptions {
   backfillMinutes?: number;
   webhook?: string;
   quiet?: boolean;
+  alerts?: AlertEngine;
+  sinks?: SinkConfig[];
+  routes?: StreamRoute[];
+  reconnect?: boolean;
 }
 
-interface StreamRule {
+/** Sinks for events whose matching rules carry `tag` ("*" = events no other route took). */
+export interface StreamRouteConfig {
+  tag: string;
+  sinks: SinkConfig[];
+  /** Alert rules file; when set, only alerted tweets reach this route. */
+  alerts?: string;
+}
+
+interface StreamRoute {
+  tag: string;
+  sinks: SinkConfig[];
+  alerts?: AlertEngine;
+}
+
+export interface StreamRule {
   id: string;
   value: string;
   tag?: string;
@@ -49,49 +76,205 @@ function nowIso(): string {
 }
 
 async function postWebhook(url: string, payload: any): Promise<void> {
-  try {
-    await fetch(url, {
-      method: "POST",
-      headers: { "Content-Type": "application/json" },
-      body: JSON.stringify(payload),
-    });
-  } catch (err: any) {
-    console.error(`[webhook] Failed: ${err?.message || String(err)}`);
-  }
+  // Signed, retried and dead-lettered on failure (lib/webhooks.ts).
+  await deliverWebhook(url, payload);
 }
 
-async function listRules(): Promise<StreamRule[]> {
+export async function listRules(): Promise<StreamRule[]> {
   const raw = await api.bearerGet(RULES_URL);
   const rules = Array.isArray(raw?.data) ? raw.data : [];
   return rules as StreamRule[];
 }
 
-async function addRule(value: string, tag?: string): Promise<any> {
+export async function addRule(value: string, tag?: string): Promise<any> {
   const body: any = { add: [{ value }] };
   if (tag) body.add[0].tag = tag;
   return api.bearerPost(RULES_URL, body);
 }
 
-async function deleteRules(ids: string[]): Promise<any> {
+export async function deleteRules(ids: string[]): Promise<any> {
   return api.bearerPost(RULES_URL, { delete: { ids } });
 }
 
+async function addRules(rules: DesiredRule[], opts: { dryRun?: boolean } = {}): Promise<any> {
+  const add = rules.map((rule) => (rule.tag ? { value: rule.value, tag: rule.tag } : { value: rule.value }));
+  return api.bearerPost(`${RULES_URL}${opts.dryRun ? "?dry_run=true" : ""}`, { add });
+}
+
+export interface DesiredRule {
+  value: string;
+  tag?: string;
+}
+
+export interface RuleSyncPlan {
+  add: DesiredRule[];
+  delete: StreamRule[];
+  unchanged: StreamRule[];
+}
+
+/**
+ * Parse a rules file: { "rules": [{ "value", "tag"? }] } or a bare list.
+ * Plain strings are accepted as untagged rules. Duplicate values are errors
+ * because X rejects them.
+ */
+export function parseRuleSet(raw: unknown): DesiredRule[] {
+  const list = raw && typeof raw === "object" && !Array.isArray(raw) ? (raw as any).rules : raw;
+  if (!Array.isArray(list)) throw new Error('Rules file must be a list or { "rules": [...] }');
+
+  const seen = new Set<string>();
+  return list.map((entry: any, idx: number) => {
+    const rule: DesiredRule = typeof entry === "string" ? { value: entry } : { value: entry?.value, tag: entry?.tag };
+    if (typeof rule.value !== "string" || !rule.value.trim()) {
+      throw new Error(`rules[${idx}]: expected a "value" string`);
+    }
+    if (rule.tag !== undefined && (typeof rule.tag !== "string" || !rule.tag)) {
+      throw new Error(`rules[${idx}]: "tag" must be a non-empty string`);
+    }
+    rule.value = rule.value.trim();
+    if (seen.has(rule.value)) throw new Error(`rules[${idx}]: duplicate rule value "${rule.value}"`);
+    seen.add(rule.value);
+    return rule.tag ? rule : { value: rule.value };
+  });
+}
+
+/**
+ * Minimal changes to turn current into desired. Rules match on value + tag;
+ * X can't edit a rule in place, so a changed tag is a delete plus an add.
+ */
+export function planRuleSync(desired: DesiredRule[], current: StreamRule[]): RuleSyncPlan {
+  const key = (r: { value: string; tag?: string }) => `${r.value}\u0000${r.tag || ""}`;
+  const wanted = new Map(desired.map((r) => [key(r), r]));
+  const plan: RuleSyncPlan = { add: [], delete: [], unchanged: [] };
+
+  for (const rule of current) {
+    if (wanted.has(key(rule))) {
+      plan.unchanged.push(rule);
+      wanted.delete(key(rule));
+    } else {
+      plan.delete.push(rule);
+    }
+  }
+  plan.add = desired.filter((r) => wanted.has(key(r)));
+  return plan;
+}
+
+/** Per-rule errors from an add response ({ errors: [{ value, title, details }] }). */
+function ruleErrors(res: any): string[] {
+  const errors = Array.isArray(res?.errors) ? res.errors : [];
+  return errors.map((e: any) => {
+    const details = Array.isArray(e?.details) ? e.details.join("; ") : e?.detail || e?.title || "invalid rule";
+    return e?.value ? `"${e.value}": ${details}` : details;
+  });
+}
+
+function formatRule(rule: { value: string; tag?: string; id?: string }): string {
+  const tag = rule.tag ? ` [${rule.tag}]` : "";
+  const id = rule.id ? ` (id ${rule.id})` : "";
+  return `${JSON.stringify(rule.value)}${tag}${id}`;
+}
+
+function loadRuleSet(path: string): DesiredRule[] {
+  return parseRuleSet(loadConfigFile(path, "Rules file"));
+}
+
+async function syncRules(path: string, opts: { planOnly: boolean; json: boolean }): Promise<void> {
+  const desired = loadRuleSet(path);
+  const current = await listRules();
+  trackCost("stream_rules_list", "/2/tweets/search/stream/rules", 0);
+  const plan = planRuleSync(desired, current);
+  const changes = plan.add.length + plan.delete.length;
+
+  if (!opts.json) {
+    console.log(`\n📡 Stream rules plan (${path})\n`);
+    for (const rule of plan.add) console.log(`  + ${formatRule(rule)}`);
+    for (const rule of plan.delete) console.log(`  - ${formatRule(rule)}`);
+    if (plan.unchanged.length > 0) console.log(`  = ${plan.unchanged.length} unchanged`);
+    console.log(`\nPlan: ${plan.add.length} to add, ${plan.delete.length} to delete, ${plan.unchanged.length} unchanged.`);
+  }
+
+  // Validate additions server-side before touching anything.
+  let errors: string[] = [];
+  if (plan.add.length > 0) {
+    const check = await addRules(plan.add, { dryRun: true });
+    trackCost("stream_rules_add", "/2/tweets/search/stream/rules", 0);
+    errors = ruleErrors(check);
+  }
+
+  const applied = !opts.planOnly && errors.length === 0 && changes > 0;
+  if (applied) {
+    if (plan.delete.length > 0) {
+      // Delete first so adds don't hit the rule cap.
+      await deleteRules(plan.delete.map((r) => r.id));
+      trackCost("stream_rules_delete", "/2/tweets/search/stream/rules", 0);
+    }
+    if (plan.add.length > 0) {
+      const res = await addRules(plan.add);
+      trackCost("stream_rules_add", "/2/tweets/search/stream/rules", 0);
+      errors = ruleErrors(res);
+    }
+  }
+
+  if (opts.json) {
+    console.log(JSON.stringify({ ...plan, valid: errors.length === 0, errors, applied }, null, 2));
+  } else if (errors.length > 0) {
+    console.log(`\n❌ X rejected ${errors.length} rule(s)${applied ? "" : "; nothing was changed"}:`);
+    for (const e of errors) console.log(`   ${e}`);
+  } else if (changes === 0) {
+    console.log("\n✅ Stream rules already match the file.");
+  } else if (opts.planOnly) {
+    console.log("\n✅ Plan validated (dry run). Re-run without --plan to apply.");
+  } else {
+    console.log(`\n✅ Applied: ${plan.add.length} added, ${plan.delete.length} deleted.`);
+  }
+  if (errors.length > 0) process.exitCode = 1;
+}
+
 function printStreamHelp(): void {
   console.log(`
 Usage: xint stream [options]
+       xint stream serve [--port N]
 
 Open official X filtered stream and print matching tweets in real time.
 Manage stream rules with: xint stream-rules ...
+Share one connection with local clients (SSE/WebSocket): xint stream serve --help
+
+Dropped connections are reconnected automatically: linear backoff (250ms
+steps, max 16s) for network errors and stalls (no data or keep-alive for
+20s), exponential backoff (5s doubling, max 320s) for HTTP errors and from
+1 minute for 429s. Reconnects request backfill_minutes sized to the outage
+(max 5) and tweets delivered twice are skipped.
 
 Options:
   --json                 Output structured JSON per event
   --jsonl                Output compact JSONL per event
   --max-events N         Stop after N tweet events
   --backfill N           Backfill 1-5 minutes (X API option)
+  --no-reconnect         Exit when the connection drops instead of reconnecting
   --webhook <url>        POST each event payload to webhook (https:// required)
   --quiet, -q            Suppress stream status logs
+  --sink <spec>          Also notify a sink (repeatable): slack:<url>,
+                         discord:<url>, telegram:<chat_id>, smtp:<to>,
+                         webhook:<url>, jsonl:<path> (see 'xint watch --help')
+  --alerts <file>        Evaluate alert rules per tweet; only alerted tweets
+                         go to the webhook and sinks (see 'xint alerts help')
+  --route <tag>=<spec>   Send events matching rules tagged <tag> to a sink
+                         (repeatable; tag "*" takes events no route matched)
+  --routes <file>        Load tag routes from JSON/YAML (see below)
+
+Routing by rule tag:
+  One connection can feed several consumers: each event goes to every route
+  whose tag is on one of its matching rules. Routes use --alerts unless
+  they name their own rules file.
+
+  { "routes": {
+      "sol": ["jsonl:feeds/sol.jsonl", "slack:https://hooks.slack.com/..."],
+      "btc": { "sinks": ["webhook:https://hooks.example.com/btc"],
+               "alerts": "btc-alerts.yaml" },
+      "*":   ["jsonl:feeds/other.jsonl"] } }
 
 Webhook security:
+  - Set XINT_WEBHOOK_SECRET to HMAC-sign requests (X-Xint-Signature)
+  - Failed deliveries are retried, then queued: xint webhooks dlq list
   - Remote webhooks must use https://
   - http:// is allowed only for localhost/127.0.0.1/::1
   - Optional host allowlist: XINT_WEBHOOK_ALLOWED_HOSTS=hooks.example.com,*.internal.example
@@ -101,6 +284,9 @@ Examples:
   xint stream --jsonl
   xint stream --backfill 2 --max-events 25
   xint stream --webhook https://hooks.example.com/ingest
+  xint stream --alerts rules.json --webhook https://hooks.example.com/alerts
+  xint stream --route sol=jsonl:feeds/sol.jsonl --route btc=webhook:https://hooks.example.com/btc
+  xint stream --routes stream-routes.yaml --quiet
 `);
 }
 
@@ -113,144 +299,483 @@ Subcommands:
   add <rule expression> [--tag <tag>]    Add a rule
   delete <rule_id...>                    Delete one or more rule IDs
   clear                                  Delete all rules
+  sync <rules.json|yaml> [--plan] [--json]
+                                         Make the live rules match a file:
+                                         shows a plan, validates adds with
+                                         dry_run, then applies the minimal
+                                         deletes/adds (--plan: validate only)
+
+Rules file:
+  { "rules": [ { "value": "from:xdevelopers -is:retweet", "tag": "xdev" },
+               { "value": "solana lang:en" } ] }
+  Rules match on value + tag; rules not in the file are deleted.
+
+add, delete, clear and sync (without --plan) need --policy engagement.
 
 Examples:
   xint stream-rules
-  xint stream-rules add "from:elonmusk -is:retweet" --tag elon
-  xint stream-rules delete 1770000012345678901
-  xint stream-rules clear
+  xint --policy engagement stream-rules add "from:elonmusk -is:retweet" --tag elon
+  xint --policy engagement stream-rules delete 1770000012345678901
+  xint --policy engagement stream-rules clear
+  xint stream-rules sync stream-rules.json --plan
+  xint --policy engagement stream-rules sync stream-rules.json
 `);
 }
 
-async function runStream(opts: StreamOptions): Promise<void> {
-  const token = api.getBearerToken();
-  const backfill = opts.backfillMinutes ? `&backfill_minutes=${opts.backfillMinutes}` : "";
-  const url = `${api.BASE}/tweets/search/stream?${api.FIELDS}${backfill}`;
+export type DisconnectKind = "network" | "http" | "rate_limit";
 
-  const controller = new AbortController();
-  let running = true;
-  let eventsSeen = 0;
-  const startMs = Date.now();
+/**
+ * Reconnect delay per X's filtered-stream guidance: linear 250ms steps up to
+ * 16s for network errors and stalls, exponential from 5s up to 320s for HTTP
+ * errors, exponential from 1 minute for 429s. attempt starts at 1.
+ */
+export function reconnectDelayMs(kind: DisconnectKind, attempt: number): number {
+  const n = Math.max(1, attempt);
+  switch (kind) {
+    case "network":
+      return Math.min(250 * n, 16_000);
+    case "http":
+      return Math.min(5_000 * 2 ** (n - 1), 320_000);
+    case "rate_limit":
+      return Math.min(60_000 * 2 ** (n - 1), 960_000);
+  }
+}
 
-  const onSignal = () => {
-    running = false;
-    controller.abort();
-  };
-  process.on("SIGINT", onSignal);
-  process.on("SIGTERM", onSignal);
+/** backfill_minutes covering an outage (the API accepts 1-5). */
+export function backfillMinutesForGap(gapMs: number): number {
+  return Math.min(5, Math.max(1, Math.ceil(gapMs / 60_000)));
+}
 
-  try {
-    if (!opts.quiet) {
-      console.error("Connecting to X filtered stream...");
-      console.error("Press Ctrl+C to stop");
-    }
+export interface StreamSupervisorOptions {
+  /** Open the stream; backfillMinutes is set when recovering a gap. */
+  open: (backfillMinutes: number | undefined, signal: AbortSignal) => Promise<Response>;
+  /** Handle one non-empty line. Return false to stop the stream. */
+  onLine: (line: string) => Promise<boolean | void>;
+  initialBackfillMinutes?: number;
+  reconnect?: boolean;       // default true
+  stallTimeoutMs?: number;   // default 20s (X sends a keep-alive every ~20s)
+  delay?: (kind: DisconnectKind, attempt: number) => number;
+  log?: (message: string) => void;
+}
 
-    const res = await fetch(url, {
-      headers: { Authorization: `Bearer ${token}` },
-      signal: controller.signal,
-    });
+export interface StreamSupervisor {
+  /** Resolves when the stream stops (onLine returned false, stop() or a fatal error). */
+  done: Promise<{ connections: number; reconnects: number }>;
+  stop: () => void;
+}
 
-    if (res.status === 429) {
-      const reset = res.headers.get("x-rate-limit-reset");
-      const waitSec = reset
-        ? Math.max(Number.parseInt(reset, 10) - Math.floor(Date.now() / 1000), 1)
-        : 60;
-      throw new Error(`Rate limited. Resets in ${waitSec}s`);
-    }
+class StreamDisconnect extends Error {
+  constructor(readonly kind: DisconnectKind, message: string, readonly waitMs?: number) {
+    super(message);
+  }
+}
 
-    if (!res.ok) {
-      const text = await res.text();
-      throw new Error(`X API ${res.status}: ${text.slice(0, 200)}`);
-    }
+/** Errors reconnecting can't fix; they end the supervisor. */
+class StreamFatalError extends Error {}
 
-    if (!res.body) throw new Error("No response body from stream endpoint.");
+// 400/401/403/404 won't fix themselves on reconnect (bad token, plan, URL).
+const FATAL_STATUSES = new Set([400, 401, 403, 404]);
+const STALL_TIMEOUT_MS = 20_000;
 
-    const reader = res.body.getReader();
-    const decoder = new TextDecoder();
-    let buffer = "";
+/**
+ * Keep a filtered-stream connection alive: reconnect with the backoff policy
+ * for each failure kind, treat silence longer than stallTimeoutMs as a dead
+ * connection, and ask for backfill sized to the outage on reconnect.
+ */
+export function superviseStream(opts: StreamSupervisorOptions): StreamSupervisor {
+  const log = opts.log || (() => undefined);
+  const stallTimeoutMs = opts.stallTimeoutMs ?? STALL_TIMEOUT_MS;
+  const delay = opts.delay || reconnectDelayMs;
+  let stopped = false;
+  let controller: AbortController | null = null;
+  let wake: (() => void) | null = null;
+
+  const stop = () => {
+    stopped = true;
+    controller?.abort();
+    wake?.();
+  };
 
-    while (running) {
-      const { done, value } = await reader.read();
-      if (done) break;
-      if (!value) continue;
+  const pause = (ms: number) =>
+    new Promise<void>((resolve) => {
+      const timer = setTimeout(resolve, ms);
+      wake = () => {
+        clearTimeout(timer);
+        resolve();
+      };
+    });
 
-      buffer += decoder.decode(value, { stream: true });
-      let newlineIndex = buffer.indexOf("\n");
-      while (newlineIndex >= 0) {
-        const rawLine = buffer.slice(0, newlineIndex);
-        buffer = buffer.slice(newlineIndex + 1);
-        newlineIndex = buffer.indexOf("\n");
+  const run = async () => {
+    let connections = 0;
+    let attempt = 0;
+    let backfill = opts.initialBackfillMinutes;
+    let backfillSupported = true;
+    let lastDataAt = Date.now();   // last byte received, for sizing backfill
+
+    while (!stopped) {
+      controller = new AbortController();
+      let stalled = false;
+      let lastActivityAt = Date.now();
+      let busy = false;        // a slow onLine (webhook retries) is not a stall
+      let disconnect: StreamDisconnect;
+      const stallTimer = setInterval(() => {
+        if (!busy && Date.now() - lastActivityAt > stallTimeoutMs) {
+          stalled = true;
+          controller?.abort();
+        }
+      }, Math.min(1_000, stallTimeoutMs / 4));
 
-        const line = rawLine.trim();
-        if (!line) continue; // keep-alive newline
+      try {
+        connections++;
+        const requested = backfillSupported ? backfill : undefined;
+        const res = await opts.open(requested, controller.signal);
 
-        let payload: any;
-        try {
-          payload = JSON.parse(line);
-        } catch {
-          continue;
+        if (res.status === 429) {
+          const reset = res.headers.get("x-rate-limit-reset");
+          const waitMs = reset ? Math.max(Number.parseInt(reset, 10) * 1000 - Date.now(), 1_000) : undefined;
+          throw new StreamDisconnect("rate_limit", "HTTP 429 (rate limited)", waitMs);
         }
-        if (!payload?.data) continue;
-
-        const tweets = api.parseTweets(payload as any);
-        if (tweets.length === 0) continue;
-
-        trackCost("stream_connect", "/2/tweets/search/stream", tweets.length);
-
-        for (const tweet of tweets) {
-          eventsSeen += 1;
-          const event = {
-            timestamp: new Date().toISOString(),
-            matching_rules: payload.matching_rules || [],
-            tweet,
-          };
-
-          const meta = buildOutputMeta({
-            source: "x_api_v2",
-            startedAtMs: startMs,
-            cached: false,
-            confidence: 1,
-            apiEndpoint: "/2/tweets/search/stream",
-            estimatedCostUsd: 0.005,
-          });
-
-          if (opts.json) {
-            console.log(JSON.stringify({ meta, data: event }, null, 2));
-          } else if (opts.jsonl) {
-            console.log(JSON.stringify({ ...meta, event }));
-          } else {
-            if (!opts.quiet) {
-              console.error(`[${nowIso()}] Stream match (${event.matching_rules.length} rule(s))`);
-            }
-            console.log(fmt.formatTweetTelegram(tweet, undefined, { full: false }));
-            console.log();
+        if (!res.ok) {
+          const text = (await res.text().catch(() => "")).slice(0, 200);
+          if (res.status === 400 && requested) {
+            // Backfill needs a Pro/Enterprise stream; retry without it.
+            backfillSupported = false;
+            throw new StreamDisconnect("http", `HTTP 400 with backfill_minutes=${requested}: ${text}; retrying without backfill`);
           }
+          if (FATAL_STATUSES.has(res.status)) throw new StreamFatalError(`X API ${res.status}: ${text}`);
+          throw new StreamDisconnect("http", `HTTP ${res.status}: ${text}`);
+        }
+        if (!res.body) throw new StreamDisconnect("network", "No response body from stream endpoint");
 
-          if (opts.webhook) {
-            await postWebhook(opts.webhook, { source: "xint-stream", ...event });
+        lastActivityAt = Date.now();
+        if (connections > 1) {
+          log(`[stream] Reconnected${requested ? ` (backfill ${requested} min)` : ""}`);
+        }
+        backfill = undefined;
+
+        const reader = res.body.getReader();
+        const decoder = new TextDecoder();
+        let buffer = "";
+        let receivedData = false;
+
+        while (!stopped) {
+          const { done, value } = await reader.read();
+          if (done) throw new StreamDisconnect("network", "Stream closed by server");
+          if (!value) continue;
+
+          lastDataAt = lastActivityAt = Date.now();
+          if (!receivedData) {
+            // Keep-alives count: the connection is healthy, so start backoff over.
+            receivedData = true;
+            attempt = 0;
           }
 
-          const budget = checkBudget();
-          if (!budget.allowed) {
-            console.error(
-              `\n!! Budget exceeded ($${budget.spent.toFixed(2)}/$${budget.limit.toFixed(2)}). Stopping stream.`,
-            );
-            running = false;
-            break;
+          buffer += decoder.decode(value, { stream: true });
+          let newlineIndex = buffer.indexOf("\n");
+          while (newlineIndex >= 0) {
+            const line = buffer.slice(0, newlineIndex).trim();
+            buffer = buffer.slice(newlineIndex + 1);
+            newlineIndex = buffer.indexOf("\n");
+            if (!line) continue; // keep-alive newline
+            let keepGoing: boolean | void;
+            busy = true;
+            try {
+              keepGoing = await opts.onLine(line);
+            } catch (err: any) {
+              throw new StreamFatalError(err?.message || String(err));
+            } finally {
+              busy = false;
+              lastActivityAt = Date.now();
+            }
+            if (keepGoing === false) {
+              stopped = true;
+              break;
+            }
           }
+        }
+        controller.abort();
+        break;
+      } catch (err: any) {
+        if (stopped) break;
+        if (err instanceof StreamDisconnect) {
+          disconnect = err;
+        } else if (stalled) {
+          disconnect = new StreamDisconnect("network", `No data for ${Math.round(stallTimeoutMs / 1000)}s (stalled)`);
+        } else if (err instanceof StreamFatalError) {
+          throw err;
+        } else {
+          // fetch/socket failures (ECONNRESET, DNS, TLS, aborted body ...)
+          disconnect = new StreamDisconnect("network", err?.message || String(err));
+        }
+      } finally {
+        clearInterval(stallTimer);
+      }
 
-          if (opts.maxEvents && eventsSeen >= opts.maxEvents) {
-            running = false;
-            break;
-          }
+      if (opts.reconnect === false) {
+        if (disconnect.kind !== "network") throw new Error(`Stream disconnected: ${disconnect.message}`);
+        log(`[stream] ${disconnect.message}`);
+        break;
+      }
+
+      attempt++;
+      const waitMs = disconnect.waitMs ?? delay(disconnect.kind, attempt);
+      const gapMs = Date.now() - lastDataAt + waitMs;
+      backfill = backfillMinutesForGap(gapMs);
+      log(`[stream] ${disconnect.message}; reconnecting in ${(waitMs / 1000).toFixed(waitMs < 1000 ? 2 : 0)}s (attempt ${attempt})`);
+      await pause(waitMs);
+    }
+
+    return { connections, reconnects: Math.max(0, connections - 1) };
+  };
+
+  return { done: run(), stop };
+}
+
+// ---------------------------------------------------------------------------
+// Tag routing
+// ---------------------------------------------------------------------------
+
+function routeFail(path: string, message: string): never {
+  throw new Error(`Invalid stream routes: ${path}: ${message}`);
+}
+
+/** `--route <tag>=<sink spec>`, e.g. `sol=jsonl:feeds/sol.jsonl`. */
+export function parseRouteFlag(spec: string): StreamRouteConfig {
+  const idx = spec.indexOf("=");
+  const tag = idx > 0 ? spec.slice(0, idx).trim() : "";
+  if (!tag || idx === spec.length - 1) {
+    throw new Error("Usage: --route requires <tag>=<sink spec> (e.g. sol=jsonl:feeds/sol.jsonl).");
+  }
+  return { tag, sinks: [parseSink(spec.slice(idx + 1))] };
+}
+
+/**
+ * Parse a routes file:
+ *   { "routes": { "<tag>": ["<sink spec>", ...] | { "sinks": [...], "alerts": "<file>" } } }
+ * Relative jsonl and alerts paths resolve against baseDir.
+ */
+export function parseStreamRoutes(raw: unknown, opts: { baseDir?: string } = {}): StreamRouteConfig[] {
+  const baseDir = opts.baseDir || process.cwd();
+  const routes = raw && typeof raw === "object" && !Array.isArray(raw) ? (raw as any).routes : undefined;
+  if (!routes || typeof routes !== "object" || Array.isArray(routes) || Object.keys(routes).length === 0) {
+    routeFail("routes", 'expected a non-empty map of tag -> sinks');
+  }
+
+  return Object.entries(routes as Record<string, any>).map(([tag, entry]) => {
+    const path = `routes.${tag}`;
+    const body = Array.isArray(entry) ? { sinks: entry } : entry;
+    if (!body || typeof body !== "object") routeFail(path, "expected a list of sinks or { sinks, alerts }");
+    for (const key of Object.keys(body)) {
+      if (key !== "sinks" && key !== "alerts") routeFail(`${path}.${key}`, "unknown field (expected sinks, alerts)");
+    }
+    if (!Array.isArray(body.sinks) || body.sinks.length === 0) routeFail(`${path}.sinks`, "expected a non-empty list");
+    const sinks = body.sinks.map((sink: unknown, i: number) => {
+      try {
+        return parseSink(sink, { baseDir });
+      } catch (err: any) {
+        routeFail(`${path}.sinks[${i}]`, err.message);
+      }
+    });
+    if (body.alerts !== undefined && (typeof body.alerts !== "string" || !body.alerts)) {
+      routeFail(`${path}.alerts`, "expected a rules file path");
+    }
+    return { tag, sinks, ...(body.alerts && { alerts: resolve(baseDir, body.alerts) }) };
+  });
+}
+
+export function loadStreamRoutes(path: string): StreamRouteConfig[] {
+  return parseStreamRoutes(loadConfigFile(path, "Routes file"), { baseDir: dirname(resolve(path)) });
+}
+
+/** Fold routes with the same tag together (repeated --route flags, flags + file). */
+export function mergeStreamRoutes(routes: StreamRouteConfig[]): StreamRouteConfig[] {
+  const byTag = new Map<string, StreamRouteConfig>();
+  for (const route of routes) {
+    const existing = byTag.get(route.tag);
+    if (!existing) {
+      byTag.set(route.tag, { ...route, sinks: [...route.sinks] });
+      continue;
+    }
+    existing.sinks.push(...route.sinks);
+    if (route.alerts) {
+      if (existing.alerts && existing.alerts !== route.alerts) {
+        throw new Error(`Route "${route.tag}" has two alert rule files: ${existing.alerts}, ${route.alerts}`);
+      }
+      existing.alerts = route.alerts;
+    }
+  }
+  return [...byTag.values()];
+}
+
+/**
+ * Routes an event goes to: every route whose tag is on one of the event's
+ * matching rules, or the "*" route when none of them is routed.
+ */
+export function routesForEvent<T extends { tag: string }>(routes: T[], matchingRules: { tag?: string }[]): T[] {
+  const tags = new Set(matchingRules.map((rule) => rule.tag).filter(Boolean));
+  const matched = routes.filter((route) => route.tag !== "*" && tags.has(route.tag));
+  return matched.length > 0 ? matched : routes.filter((route) => route.tag === "*");
+}
+
+/** Tweets in one stream line; stream payloads carry a single tweet object in `data`. */
+export function streamPayloadTweets(payload: any): api.Tweet[] {
+  if (!payload?.data) return [];
+  return api.parseTweets({ ...payload, data: Array.isArray(payload.data) ? payload.data : [payload.data] });
+}
+
+/** Opener for the X filtered stream endpoint, for superviseStream. */
+export function filteredStreamOpener(token: string): StreamSupervisorOptions["open"] {
+  return (backfillMinutes, signal) => {
+    const backfill = backfillMinutes ? `&backfill_minutes=${backfillMinutes}` : "";
+    return fetch(`${api.BASE}/tweets/search/stream?${api.FIELDS}${backfill}`, {
+      headers: { Authorization: `Bearer ${token}` },
+      signal,
+    });
+  };
+}
+
+async function runStream(opts: StreamOptions): Promise<void> {
+  const token = api.getBearerToken();
+  const log = (message: string) => {
+    if (!opts.quiet) console.error(`[${nowIso()}] ${message}`);
+  };
+
+  let eventsSeen = 0;
+  let duplicates = 0;
+  const routed = new Map<string, number>();
+  // Backfill after a reconnect replays tweets we may already have.
+  const seenIds = new SeenIdLru(MAX_SEEN_IDS);
+  const startMs = Date.now();
+
+  const handleLine = async (line: string): Promise<boolean> => {
+    let payload: any;
+    try {
+      payload = JSON.parse(line);
+    } catch {
+      return true;
+    }
+    if (!payload?.data) return true;
+
+    const tweets = streamPayloadTweets(payload).filter((t) => {
+      if (!seenIds.has(t.id)) return true;
+      duplicates += 1;
+      return false;
+    });
+    if (tweets.length === 0) return true;
+    for (const t of tweets) seenIds.add(t.id);
+
+    trackCost("stream_connect", "/2/tweets/search/stream", tweets.length);
+    archiveTweets(tweets, "stream");
+
+    for (const tweet of tweets) {
+      eventsSeen += 1;
+      const event = {
+        timestamp: new Date().toISOString(),
+        matching_rules: payload.matching_rules || [],
+        tweet,
+      };
+
+      const meta = buildOutputMeta({
+        source: "x_api_v2",
+        startedAtMs: startMs,
+        cached: false,
+        confidence: 1,
+        apiEndpoint: "/2/tweets/search/stream",
+        estimatedCostUsd: 0.005,
+      });
+
+      if (opts.json) {
+        console.log(JSON.stringify({ meta, data: event }, null, 2));
+      } else if (opts.jsonl) {
+        console.log(JSON.stringify({ ...meta, event }));
+      } else {
+        if (!opts.quiet) {
+          console.error(`[${nowIso()}] Stream match (${event.matching_rules.length} rule(s))`);
+        }
+        console.log(fmt.formatTweetTelegram(tweet, undefined, { full: false }));
+        console.log();
+      }
+
+      // Each engine sees a tweet once, even when routes share it, so volume
+      // windows aren't double-counted.
+      const decisions = new Map<AlertEngine, AlertDecision>();
+      const decide = async (engine: AlertEngine): Promise<AlertDecision> => {
+        let decision = decisions.get(engine);
+        if (!decision) {
+          [decision] = await engine.evaluate([tweet]);
+          decisions.set(engine, decision);
+          if (decision.alert) console.error(formatAlertLine(decision));
         }
+        return decision;
+      };
+
+      let notify = true;
+      let extra: Record<string, unknown> = {};
+      if (opts.alerts) {
+        const decision = await decide(opts.alerts);
+        notify = decision.alert;
+        if (decision.alert) extra = { alert: alertPayload(decision) };
       }
+      if (notify && opts.webhook) {
+        await postWebhook(opts.webhook, { source: "xint-stream", ...event, ...extra });
+      }
+      if (notify && opts.sinks) {
+        await sendToSinks(opts.sinks, {
+          source: "stream",
+          tweets: [tweet],
+          startedAtMs: startMs,
+          extra: { matching_rules: event.matching_rules, ...extra },
+        });
+      }
+      for (const route of routesForEvent(opts.routes || [], event.matching_rules)) {
+        const engine = route.alerts || opts.alerts;
+        const decision = engine ? await decide(engine) : undefined;
+        if (decision && !decision.alert) continue;
+        await sendToSinks(route.sinks, {
+          source: `stream:${route.tag}`,
+          tweets: [tweet],
+          startedAtMs: startMs,
+          extra: {
+            route: route.tag,
+            matching_rules: event.matching_rules,
+            ...(decision && { alert: alertPayload(decision) }),
+          },
+        });
+        routed.set(route.tag, (routed.get(route.tag) || 0) + 1);
+      }
+
+      const budget = checkBudget();
+      if (!budget.allowed) {
+        console.error(
+          `\n!! Budget exceeded ($${budget.spent.toFixed(2)}/$${budget.limit.toFixed(2)}). Stopping stream.`,
+        );
+        return false;
+      }
+
+      if (opts.maxEvents && eventsSeen >= opts.maxEvents) return false;
     }
-  } catch (err: any) {
-    // Ignore abort errors from Ctrl+C.
-    if (!(err?.name === "AbortError")) {
-      throw err;
+    return true;
+  };
+
+  const supervisor = superviseStream({
+    open: filteredStreamOpener(token),
+    onLine: handleLine,
+    initialBackfillMinutes: opts.backfillMinutes,
+    reconnect: opts.reconnect,
+    log,
+  });
+
+  const onSignal = () => supervisor.stop();
+  process.on("SIGINT", onSignal);
+  process.on("SIGTERM", onSignal);
+
+  let reconnects = 0;
+  try {
+    if (!opts.quiet) {
+      console.error("Connecting to X filtered stream...");
+      console.error("Press Ctrl+C to stop");
     }
+    ({ reconnects } = await supervisor.done);
   } finally {
     process.off("SIGINT", onSignal);
     process.off("SIGTERM", onSignal);
@@ -259,18 +784,32 @@ async function runStream(opts: StreamOptions): Promise<void> {
     const secs = elapsed % 60;
     if (!opts.quiet) {
       console.error(`\n--- Stream stopped ---`);
-      console.error(`Duration: ${mins}m ${secs}s | Events: ${eventsSeen}`);
+      console.error(
+        `Duration: ${mins}m ${secs}s | Events: ${eventsSeen} | Reconnects: ${reconnects} | Duplicates skipped: ${duplicates}`,
+      );
+      if (routed.size > 0) {
+        console.error(`Routed: ${[...routed].map(([tag, n]) => `${tag} ${n}`).join(", ")}`);
+      }
     }
   }
 }
 
 export async function cmdStream(args: string[]): Promise<void> {
+  if (args[0] === "serve") {
+    await cmdStreamServe(args.slice(1));
+    return;
+  }
+
   let json = false;
   let jsonl = false;
   let quiet = false;
   let maxEvents: number | undefined;
   let backfillMinutes: number | undefined;
   let webhook: string | undefined;
+  let alertsPath: string | undefined;
+  let reconnect = true;
+  const sinks: SinkConfig[] = [];
+  const routeConfigs: StreamRouteConfig[] = [];
 
   for (let i = 0; i < args.length; i++) {
     const arg = args[i];
@@ -305,6 +844,31 @@ export async function cmdStream(args: string[]): Promise<void> {
         webhook = args[++i];
         if (!webhook) throw new Error("Usage: --webhook requires a URL.");
         break;
+      case "--alerts":
+        alertsPath = args[++i];
+        if (!alertsPath) throw new Error("Usage: --alerts requires a rules file.");
+        break;
+      case "--no-reconnect":
+        reconnect = false;
+        break;
+      case "--sink": {
+        const spec = args[++i];
+        if (!spec) throw new Error("Usage: --sink requires a spec (e.g. slack:<url>).");
+        sinks.push(parseSink(spec));
+        break;
+      }
+      case "--route": {
+        const spec = args[++i];
+        if (!spec) throw new Error("Usage: --route requires <tag>=<sink spec>.");
+        routeConfigs.push(parseRouteFlag(spec));
+        break;
+      }
+      case "--routes": {
+        const path = args[++i];
+        if (!path) throw new Error("Usage: --routes requires a routes file.");
+        routeConfigs.push(...loadStreamRoutes(path));
+        break;
+      }
       case "--help":
       case "-h":
         printStreamHelp();
@@ -322,11 +886,26 @@ export async function cmdStream(args: string[]): Promise<void> {
     webhook = validateWebhookUrl(webhook);
   }
 
-  await runStream({ json, jsonl, quiet, maxEvents, backfillMinutes, webhook });
+  const alerts = alertsPath ? new AlertEngine(loadAlertRules(alertsPath)) : undefined;
+  const engines = new Map<string, AlertEngine>();
+  const routes: StreamRoute[] = mergeStreamRoutes(routeConfigs).map((route) => {
+    if (route.alerts && !engines.has(route.alerts)) {
+      engines.set(route.alerts, new AlertEngine(loadAlertRules(route.alerts)));
+    }
+    return { tag: route.tag, sinks: route.sinks, alerts: route.alerts ? engines.get(route.alerts) : undefined };
+  });
+
+  await runStream({
+    json, jsonl, quiet, maxEvents, backfillMinutes, webhook, alerts, reconnect,
+    ...(sinks.length > 0 && { sinks }),
+    ...(routes.length > 0 && { routes }),
+  });
 }
 
 export async function cmdStreamRules(args: string[]): Promise<void> {
   let json = false;
+  // Global --dry-run: sync prints and validates its plan (X's own dry_run) instead.
+  let planOnly = isDryRun();
   let tag: string | undefined;
   const parts: string[] = [];
 
@@ -336,6 +915,10 @@ export async function cmdStreamRules(args: string[]): Promise<void> {
       case "--json":
         json = true;
         break;
+      case "--plan":
+      case "--dry-run":
+        planOnly = true;
+        break;
       case "--tag":
         tag = args[++i];
         if (!tag) throw new Error("Usage: --tag requires a value.");
@@ -427,5 +1010,12 @@ export async function cmdStreamRules(args: string[]): Promise<void> {
     return;
   }
 
+  if (sub === "sync") {
+    const file = parts[1];
+    if (!file) throw new Error("Usage: xint stream-rules sync <rules.json> [--plan] [--json]");
+    await syncRules(file, { planOnly, json });
+    return;
+  }
+
   throw new Error(`Unknown stream-rules subcommand: ${sub}`);
 }
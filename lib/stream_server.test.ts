@@ -0,0 +1,192 @@
+import { afterAll, beforeAll, describe, expect, test } from "bun:test";
+import {
+  eventMatchesTags,
+  parseTagFilter,
+  ReplayBuffer,
+  startStreamServer,
+  wsSendWithinLimit,
+  type StreamEvent,
+  type StreamServer,
+} from "./stream_server";
+
+function streamLine(id: string, tag: string): string {
+  return JSON.stringify({
+    data: { id, text: `tweet ${id}`, author_id: "u1", created_at: "2026-01-01T00:00:00.000Z" },
+    includes: { users: [{ id: "u1", username: "alice", name: "Alice" }] },
+    matching_rules: [{ id: `r-${tag}`, tag }],
+  });
+}
+
+function event(id: number, tag?: string): StreamEvent {
+  return { id, timestamp: "", matching_rules: tag ? [{ id: "r", tag }] : [], tweet: {} as any };
+}
+
+describe("replay buffer and tag filters", () => {
+  test("keeps the last N events and filters by tag", () => {
+    const buffer = new ReplayBuffer(3);
+    [event(1, "sol"), event(2, "btc"), event(3, "sol"), event(4, "sol")].forEach((e) => buffer.push(e));
+    expect(buffer.length).toBe(3);
+    expect(buffer.replay({ count: 10 }).map((e) => e.id)).toEqual([2, 3, 4]);
+    expect(buffer.replay({ count: 1, tags: parseTagFilter("sol") }).map((e) => e.id)).toEqual([4]);
+    expect(buffer.replay({ afterId: 2 }).map((e) => e.id)).toEqual([3, 4]);
+    expect(buffer.replay({})).toEqual([]);
+  });
+
+  test("an empty filter matches everything, untagged events only that", () => {
+    expect(parseTagFilter(" sol, ,btc ")).toEqual(new Set(["sol", "btc"]));
+    expect(eventMatchesTags(event(1), new Set())).toBe(true);
+    expect(eventMatchesTags(event(1), new Set(["sol"]))).toBe(false);
+    expect(eventMatchesTags(event(1, "btc"), new Set(["sol", "btc"]))).toBe(true);
+  });
+});
+
+describe("websocket backpressure", () => {
+  const socket = (sendResult: number, buffered: number) => ({
+    send: () => sendResult,
+    getBufferedAmount: () => buffered,
+  });
+
+  test("a socket is kept only while sends go out and its buffer stays under the cap", () => {
+    expect(wsSendWithinLimit(socket(12, 0), "x", 100)).toBe(true);
+    expect(wsSendWithinLimit(socket(-1, 0), "x", 100)).toBe(false);
+    expect(wsSendWithinLimit(socket(12, 101), "x", 100)).toBe(false);
+  });
+});
+
+describe("stream serve against a mock upstream", () => {
+  // Upstream: emits one tweet per push() call on the open connection.
+  let upstream: ReturnType<typeof Bun.serve>;
+  let push: (line: string) => void = () => undefined;
+  let server: StreamServer;
+  let base: string;
+
+  beforeAll(async () => {
+    upstream = Bun.serve({
+      port: 0,
+      idleTimeout: 0,
+      fetch() {
+        const body = new ReadableStream<string>({
+          start(controller) {
+            push = (line) => controller.enqueue(`${line}\r\n`);
+            controller.enqueue("\r\n");
+          },
+        });
+        return new Response(body);
+      },
+    });
+    server = startStreamServer({
+      port: 0,
+      replaySize: 2,
+      open: (_backfill, signal) => fetch(`http://127.0.0.1:${upstream.port}/stream`, { signal }),
+      stallTimeoutMs: 60_000,
+      allowedOrigins: ["https://dash.example"],
+    });
+    base = `127.0.0.1:${server.port}`;
+    // Wait for the upstream connection before emitting.
+    for (let i = 0; i < 50; i++) {
+      const health = (await (await fetch(`http://${base}/health`)).json()) as any;
+      if (health.upstream === "connected") break;
+      await Bun.sleep(20);
+    }
+  });
+
+  afterAll(async () => {
+    server.stop();
+    await server.done;
+    upstream.stop(true);
+  });
+
+  const waitFor = async (check: () => boolean) => {
+    for (let i = 0; i < 100 && !check(); i++) await Bun.sleep(10);
+    expect(check()).toBe(true);
+  };
+
+  test("broadcasts to SSE and WebSocket clients by tag", async () => {
+    const sse = await fetch(`http://${base}/events?tags=sol`);
+    expect(sse.headers.get("content-type")).toBe("text/event-stream");
+    const reader = sse.body!.getReader();
+    let sseText = "";
+    const readSse = (async () => {
+      const decoder = new TextDecoder();
+      while (true) {
+        const { done, value } = await reader.read();
+        if (done) break;
+        sseText += decoder.decode(value);
+      }
+    })();
+
+    const wsMessages: any[] = [];
+    const ws = new WebSocket(`ws://${base}/ws?tags=btc`);
+    ws.onmessage = (m) => wsMessages.push(JSON.parse(String(m.data)));
+    await new Promise((resolve) => (ws.onopen = resolve));
+    await waitFor(() => server.clientCount() === 2);
+
+    push(streamLine("1", "sol"));
+    push(streamLine("2", "btc"));
+    push(streamLine("1", "sol")); // duplicate after a reconnect/backfill
+    push(streamLine("3", "sol"));
+
+    await waitFor(() => sseText.includes("id: 3"));
+    await waitFor(() => wsMessages.length === 1);
+    const sseIds = [...sseText.matchAll(/^data: (.*)$/gm)].map((m) => JSON.parse(m[1]).tweet.id);
+    expect(sseIds).toEqual(["1", "3"]);
+    expect(wsMessages[0].tweet.id).toBe("2");
+    expect(wsMessages[0].matching_rules).toEqual([{ id: "r-btc", tag: "btc" }]);
+
+    // Re-filter the socket to everything.
+    ws.send(JSON.stringify({ tags: [] }));
+    await waitFor(() => wsMessages.some((m) => m.type === "subscribed"));
+    push(streamLine("4", "eth"));
+    await waitFor(() => wsMessages.some((m) => m.tweet?.id === "4"));
+
+    ws.close();
+    await reader.cancel();
+    await readSse;
+    await waitFor(() => server.clientCount() === 0);
+  });
+
+  test("new clients replay the buffer and resume with Last-Event-ID", async () => {
+    const wsMessages: any[] = [];
+    const ws = new WebSocket(`ws://${base}/ws?replay=all`);
+    ws.onmessage = (m) => wsMessages.push(JSON.parse(String(m.data)));
+    await waitFor(() => wsMessages.length === 2);
+    expect(wsMessages.map((m) => m.tweet.id)).toEqual(["3", "4"]);
+    ws.close();
+
+    const sse = await fetch(`http://${base}/events`, { headers: { "Last-Event-ID": "3" } });
+    const reader = sse.body!.getReader();
+    let text = "";
+    while (!text.includes("id: 4")) text += new TextDecoder().decode((await reader.read()).value);
+    expect(text).not.toContain("id: 3\n");
+    await reader.cancel();
+
+    const health = (await (await fetch(`http://${base}/health`)).json()) as any;
+    expect(health).toMatchObject({ upstream: "connected", events: 4, buffered: 2 });
+  });
+
+  test("refuses WebSocket upgrades from origins that are not loopback or allowed", async () => {
+    const upgrade = (origin: string) =>
+      fetch(`http://${base}/ws`, {
+        headers: {
+          Origin: origin,
+          Connection: "Upgrade",
+          Upgrade: "websocket",
+          "Sec-WebSocket-Version": "13",
+          "Sec-WebSocket-Key": "dGhlIHNhbXBsZSBub25jZQ==",
+        },
+      });
+    const denied = await upgrade("https://evil.example");
+    expect(denied.status).toBe(403);
+    expect(await denied.text()).toContain("https://evil.example");
+
+    for (const origin of ["http://localhost:5173", "https://dash.example"]) {
+      const ws = new WebSocket(`ws://${base}/ws`, { headers: { Origin: origin } } as any);
+      await new Promise((resolve, reject) => {
+        ws.onopen = resolve;
+        ws.onerror = reject;
+      });
+      ws.close();
+    }
+    await waitFor(() => server.clientCount() === 0);
+  });
+});
@@ -0,0 +1,479 @@
+/**
+ * lib/stream_server.ts — Local fan-out for one filtered-stream connection.
+ *
+ * X allows a single filtered-stream connection per app. `xint stream serve`
+ * holds that connection (with the reconnect/backfill supervisor from
+ * lib/stream.ts) and re-broadcasts events to local clients:
+ *
+ *   GET /events?tags=sol,btc&replay=20   Server-Sent Events
+ *   GET /ws?tags=sol                     WebSocket (send {"tags":[...]} to re-filter)
+ *   GET /health                          upstream + client status as JSON
+ *
+ * WebSocket upgrades from browser origins other than loopback are refused
+ * unless listed in allowedOrigins (DNS rebinding, as in the MCP HTTP transport).
+ *
+ * Each event is { id, timestamp, matching_rules, tweet }. Clients without a
+ * tag filter get everything; with one, events whose matching rules carry any
+ * of the tags. The last N events are kept for replay (replay=N, or an SSE
+ * Last-Event-ID header to resume after a disconnect).
+ */
+
+import type { ServerWebSocket } from "bun";
+import * as api from "./api";
+import { checkBudget, trackCost } from "./costs";
+import { archiveTweets } from "./archive";
+import { MAX_SEEN_IDS, SeenIdLru } from "./watch_state";
+import { filteredStreamOpener, parseBackfillMinutes, parsePositiveInt, streamPayloadTweets, superviseStream, type StreamSupervisorOptions } from "./stream";
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+export interface StreamEvent {
+  id: number;
+  timestamp: string;
+  matching_rules: { id?: string; tag?: string }[];
+  tweet: api.Tweet;
+}
+
+export interface StreamServerOptions {
+  port: number;
+  hostname?: string;         // default 127.0.0.1
+  replaySize?: number;       // default 100
+  open: StreamSupervisorOptions["open"];
+  backfillMinutes?: number;
+  reconnect?: boolean;
+  stallTimeoutMs?: number;
+  /** Called with each batch of new tweets; return false to stop (budget). */
+  onTweets?: (tweets: api.Tweet[]) => boolean | void;
+  log?: (message: string) => void;
+  /** Non-loopback browser origins allowed to open /ws. */
+  allowedOrigins?: string[];
+}
+
+export interface StreamServer {
+  port: number;
+  /** Resolves when upstream stops; clients are disconnected and the port closed. */
+  done: Promise<{ events: number; reconnects: number }>;
+  stop: () => void;
+  clientCount: () => number;
+}
+
+interface Client {
+  tags: Set<string>;
+  send: (event: StreamEvent) => void;
+  close: () => void;
+}
+
+interface SocketData {
+  client?: Client;
+  tags: Set<string>;
+  replay: number;
+}
+
+// ---------------------------------------------------------------------------
+// Constants
+// ---------------------------------------------------------------------------
+
+const DEFAULT_REPLAY = 100;
+const KEEPALIVE_MS = 15_000;
+// Slow consumers are dropped rather than buffered without limit.
+const MAX_SSE_BACKLOG = 1_000;
+const MAX_WS_BUFFERED_BYTES = 1_048_576;
+const LOOPBACK_ORIGIN = /^https?:\/\/(localhost|127\.0\.0\.1|\[::1\])(:\d+)?$/i;
+
+// ---------------------------------------------------------------------------
+// Helpers
+// ---------------------------------------------------------------------------
+
+export function parseTagFilter(value: string | null | undefined): Set<string> {
+  return new Set((value || "").split(",").map((t) => t.trim()).filter(Boolean));
+}
+
+export function eventMatchesTags(event: Pick<StreamEvent, "matching_rules">, tags: Set<string>): boolean {
+  if (tags.size === 0) return true;
+  return event.matching_rules.some((rule) => rule.tag !== undefined && tags.has(rule.tag));
+}
+
+/** Fixed-size buffer of recent events for replay. */
+export class ReplayBuffer {
+  private events: StreamEvent[] = [];
+
+  constructor(readonly size: number) {}
+
+  push(event: StreamEvent): void {
+    this.events.push(event);
+    if (this.events.length > this.size) this.events.shift();
+  }
+
+  /** Buffered events after lastId, or the last `count`, filtered by tags. */
+  replay(opts: { count?: number; afterId?: number; tags?: Set<string> }): StreamEvent[] {
+    const tags = opts.tags || new Set<string>();
+    let events = this.events.filter((e) => eventMatchesTags(e, tags));
+    if (opts.afterId !== undefined) events = events.filter((e) => e.id > opts.afterId!);
+    else events = opts.count ? events.slice(-opts.count) : [];
+    return events;
+  }
+
+  get length(): number {
+    return this.events.length;
+  }
+}
+
+/** Send on a socket; false means it is backed up and should be dropped. */
+export function wsSendWithinLimit(
+  ws: Pick<ServerWebSocket<unknown>, "send" | "getBufferedAmount">,
+  text: string,
+  maxBufferedBytes = MAX_WS_BUFFERED_BYTES,
+): boolean {
+  if (ws.send(text) === -1) return false;
+  return ws.getBufferedAmount() <= maxBufferedBytes;
+}
+
+function sseFrame(event: StreamEvent): string {
+  return `id: ${event.id}\nevent: tweet\ndata: ${JSON.stringify(event)}\n\n`;
+}
+
+function replayCount(value: string | null): number {
+  if (value === "all") return Number.MAX_SAFE_INTEGER;
+  return parsePositiveInt(value || undefined) || 0;
+}
+
+// ---------------------------------------------------------------------------
+// Server
+// ---------------------------------------------------------------------------
+
+export function startStreamServer(opts: StreamServerOptions): StreamServer {
+  const log = opts.log || (() => undefined);
+  const buffer = new ReplayBuffer(opts.replaySize ?? DEFAULT_REPLAY);
+  const clients = new Set<Client>();
+  const allowedOrigins = new Set(opts.allowedOrigins || []);
+  const seenIds = new SeenIdLru(MAX_SEEN_IDS);
+  let nextId = 1;
+  let upstreamConnected = false;
+  let events = 0;
+
+  const broadcast = (event: StreamEvent) => {
+    buffer.push(event);
+    for (const client of clients) {
+      if (eventMatchesTags(event, client.tags)) client.send(event);
+    }
+  };
+
+  const sse = (req: Request, url: URL): Response => {
+    const tags = parseTagFilter(url.searchParams.get("tags"));
+    const lastId = Number.parseInt(req.headers.get("last-event-id") || "", 10);
+    const backlog = buffer.replay({
+      tags,
+      ...(Number.isFinite(lastId) ? { afterId: lastId } : { count: replayCount(url.searchParams.get("replay")) }),
+    });
+    const encoder = new TextEncoder();
+    let client: Client;
+    let keepalive: ReturnType<typeof setInterval>;
+
+    const body = new ReadableStream<Uint8Array>({
+      start(controller) {
+        const write = (text: string) => {
+          try {
+            controller.enqueue(encoder.encode(text));
+          } catch {
+            client.close();
+          }
+        };
+        client = {
+          tags,
+          send(event) {
+            if ((controller.desiredSize ?? 0) < -MAX_SSE_BACKLOG) {
+              log(`[serve] Dropping slow SSE client`);
+              client.close();
+              return;
+            }
+            write(sseFrame(event));
+          },
+          close() {
+            if (!clients.delete(client)) return;
+            clearInterval(keepalive);
+            try {
+              controller.close();
+            } catch {
+              // already closed by the client
+            }
+          },
+        };
+        write(`retry: 3000\n: xint stream${tags.size > 0 ? ` tags=${[...tags].join(",")}` : ""}\n\n`);
+        for (const event of backlog) write(sseFrame(event));
+        clients.add(client);
+        keepalive = setInterval(() => write(": ping\n\n"), KEEPALIVE_MS);
+      },
+      cancel() {
+        client.close();
+      },
+    });
+    req.signal.addEventListener("abort", () => client?.close());
+
+    return new Response(body, {
+      headers: {
+        "Content-Type": "text/event-stream",
+        "Cache-Control": "no-cache",
+        Connection: "keep-alive",
+      },
+    });
+  };
+
+  const server = Bun.serve<SocketData>({
+    port: opts.port,
+    hostname: opts.hostname || "127.0.0.1",
+    // SSE connections are long-lived; Bun's default idle timeout would cut them.
+    idleTimeout: 0,
+    fetch(req, srv) {
+      const url = new URL(req.url);
+      if (req.method !== "GET") return new Response("Method not allowed", { status: 405 });
+      switch (url.pathname) {
+        case "/events":
+          return sse(req, url);
+        case "/ws": {
+          const origin = req.headers.get("origin");
+          if (origin && !LOOPBACK_ORIGIN.test(origin) && !allowedOrigins.has(origin)) {
+            return new Response(`Origin not allowed: ${origin}`, { status: 403 });
+          }
+          const data: SocketData = {
+            tags: parseTagFilter(url.searchParams.get("tags")),
+            replay: replayCount(url.searchParams.get("replay")),
+          };
+          if (srv.upgrade(req, { data })) return undefined;
+          return new Response("Expected a WebSocket upgrade", { status: 426 });
+        }
+        case "/health":
+          return Response.json({
+            upstream: upstreamConnected ? "connected" : "connecting",
+            clients: clients.size,
+            events,
+            buffered: buffer.length,
+          });
+        default:
+          return new Response("Not found", { status: 404 });
+      }
+    },
+    websocket: {
+      open(ws: ServerWebSocket<SocketData>) {
+        const client: Client = {
+          tags: ws.data.tags,
+          send: (event) => {
+            if (!wsSendWithinLimit(ws, JSON.stringify(event))) {
+              log(`[serve] Dropping slow WebSocket client`);
+              client.close();
+            }
+          },
+          close: () => {
+            if (clients.delete(client)) ws.close();
+          },
+        };
+        ws.data.client = client;
+        clients.add(client);
+        for (const event of buffer.replay({ tags: client.tags, count: ws.data.replay })) {
+          if (!clients.has(client)) break;
+          client.send(event);
+        }
+      },
+      message(ws: ServerWebSocket<SocketData>, message) {
+        // {"tags": ["sol", "btc"]} replaces the filter; [] means everything.
+        try {
+          const parsed = JSON.parse(String(message));
+          if (Array.isArray(parsed?.tags) && ws.data.client) {
+            ws.data.client.tags = new Set(parsed.tags.filter((t: unknown) => typeof t === "string" && t));
+            ws.send(JSON.stringify({ type: "subscribed", tags: [...ws.data.client.tags] }));
+          }
+        } catch {
+          ws.send(JSON.stringify({ type: "error", error: 'Expected JSON like {"tags":["sol"]}' }));
+        }
+      },
+      close(ws: ServerWebSocket<SocketData>) {
+        if (ws.data.client) clients.delete(ws.data.client);
+      },
+    },
+  });
+
+  const supervisor = superviseStream({
+    open: async (backfillMinutes, signal) => {
+      // A new open means the previous connection (if any) is gone.
+      upstreamConnected = false;
+      const res = await opts.open(backfillMinutes, signal);
+      upstreamConnected = res.ok;
+      return res;
+    },
+    onLine: async (line) => {
+      let payload: any;
+      try {
+        payload = JSON.parse(line);
+      } catch {
+        return true;
+      }
+      if (!payload?.data) return true;
+
+      const tweets = streamPayloadTweets(payload).filter((t) => !seenIds.has(t.id));
+      if (tweets.length === 0) return true;
+      for (const t of tweets) seenIds.add(t.id);
+      if (opts.onTweets?.(tweets) === false) return false;
+
+      for (const tweet of tweets) {
+        events += 1;
+        broadcast({
+          id: nextId++,
+          timestamp: new Date().toISOString(),
+          matching_rules: payload.matching_rules || [],
+          tweet,
+        });
+      }
+      return true;
+    },
+    initialBackfillMinutes: opts.backfillMinutes,
+    reconnect: opts.reconnect,
+    stallTimeoutMs: opts.stallTimeoutMs,
+    log,
+  });
+
+  const done = supervisor.done.then(({ reconnects }) => ({ events, reconnects })).finally(() => {
+    for (const client of [...clients]) client.close();
+    server.stop(true);
+  });
+
+  return {
+    port: server.port as number,
+    done,
+    stop: supervisor.stop,
+    clientCount: () => clients.size,
+  };
+}
+
+// ---------------------------------------------------------------------------
+// CLI handler
+// ---------------------------------------------------------------------------
+
+function printServeHelp(): void {
+  console.log(`
+Usage: xint stream serve [options]
+
+Hold the single X filtered-stream connection and re-broadcast its events to
+local clients, so several tools can share one stream.
+
+Options:
+  --port N           Port to listen on (default: 8787)
+  --host <addr>      Address to bind (default: 127.0.0.1)
+  --replay N         Events kept for replay (default: 100)
+  --backfill N       Backfill 1-5 minutes on first connect (X API option)
+  --no-reconnect     Exit when the upstream connection drops
+  --allowed-origins <list>
+                     Comma-separated browser origins allowed to open /ws
+                     besides loopback (env: XINT_STREAM_ALLOWED_ORIGINS)
+  --quiet, -q        Suppress status logs
+
+Endpoints:
+  GET /events[?tags=a,b][&replay=N|all]   Server-Sent Events ("tweet" events;
+                                          Last-Event-ID resumes from the buffer)
+  GET /ws[?tags=a,b][&replay=N|all]       WebSocket, one JSON event per message;
+                                          send {"tags":["a"]} to change the filter
+  GET /health                             Upstream and client status
+
+Event: { "id", "timestamp", "matching_rules": [{ "id", "tag" }], "tweet" }
+
+Examples:
+  xint stream serve --port 8787
+  curl -N "http://127.0.0.1:8787/events?tags=sol&replay=20"
+  websocat "ws://127.0.0.1:8787/ws?tags=btc"
+`);
+}
+
+export async function cmdStreamServe(args: string[]): Promise<void> {
+  let port = 8787;
+  let hostname = "127.0.0.1";
+  let replaySize = DEFAULT_REPLAY;
+  let backfillMinutes: number | undefined;
+  let reconnect = true;
+  let quiet = false;
+  let allowedOrigins = process.env.XINT_STREAM_ALLOWED_ORIGINS || "";
+
+  for (let i = 0; i < args.length; i++) {
+    const arg = args[i];
+    switch (arg) {
+      case "--port": {
+        const parsed = parsePositiveInt(args[++i]);
+        if (parsed === null || parsed > 65_535) throw new Error("Usage: --port requires a port number.");
+        port = parsed;
+        break;
+      }
+      case "--host":
+        hostname = args[++i];
+        if (!hostname) throw new Error("Usage: --host requires an address.");
+        break;
+      case "--replay": {
+        const parsed = parsePositiveInt(args[++i]);
+        if (parsed === null) throw new Error("Usage: --replay requires a positive integer.");
+        replaySize = parsed;
+        break;
+      }
+      case "--backfill": {
+        const parsed = parseBackfillMinutes(args[++i]);
+        if (parsed === null) throw new Error("Usage: --backfill requires an integer from 1 to 5.");
+        backfillMinutes = parsed;
+        break;
+      }
+      case "--allowed-origins":
+        allowedOrigins = args[++i];
+        if (!allowedOrigins) throw new Error("Usage: --allowed-origins requires a comma-separated list.");
+        break;
+      case "--no-reconnect":
+        reconnect = false;
+        break;
+      case "--quiet":
+      case "-q":
+        quiet = true;
+        break;
+      case "--help":
+      case "-h":
+        printServeHelp();
+        return;
+      default:
+        throw new Error(`Unknown option for stream serve: ${arg}`);
+    }
+  }
+
+  const log = (message: string) => {
+    if (!quiet) console.error(`[${new Date().toISOString().replace("T", " ").slice(0, 19)}] ${message}`);
+  };
+
+  const server = startStreamServer({
+    port,
+    hostname,
+    replaySize,
+    open: filteredStreamOpener(api.getBearerToken()),
+    backfillMinutes,
+    reconnect,
+    log,
+    allowedOrigins: allowedOrigins.split(",").map((o) => o.trim()).filter(Boolean),
+    onTweets: (tweets) => {
+      trackCost("stream_connect", "/2/tweets/search/stream", tweets.length);
+      archiveTweets(tweets, "stream");
+      const budget = checkBudget();
+      if (!budget.allowed) {
+        console.error(`\n!! Budget exceeded ($${budget.spent.toFixed(2)}/$${budget.limit.toFixed(2)}). Stopping stream.`);
+        return false;
+      }
+    },
+  });
+
+  const onSignal = () => server.stop();
+  process.on("SIGINT", onSignal);
+  process.on("SIGTERM", onSignal);
+
+  if (!quiet) {
+    console.error(`Serving X filtered stream on http://${hostname}:${server.port} (SSE /events, WebSocket /ws)`);
+    console.error("Press Ctrl+C to stop");
+  }
+  try {
+    const { events, reconnects } = await server.done;
+    if (!quiet) console.error(`\n--- Stream server stopped --- Events: ${events} | Reconnects: ${reconnects}`);
+  } finally {
+    process.off("SIGINT", onSignal);
+    process.off("SIGTERM", onSignal);
+  }
+}
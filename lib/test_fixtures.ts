@@ -0,0 +1,31 @@
+/**
+ * lib/test_fixtures.ts — Shared fixtures for the bun:test suites.
+ */
+
+import type { Tweet } from "./api";
+
+export type TweetOverrides = Partial<Omit<Tweet, "metrics">> & { metrics?: Partial<Tweet["metrics"]> };
+
+/**
+ * A parsed tweet by @alice with zero engagement. Overrides replace fields;
+ * `metrics` is merged into the zeroed counts. tweet_url follows `username`.
+ */
+export function makeTweet(id: string, overrides: TweetOverrides = {}): Tweet {
+  const { metrics, ...fields } = overrides;
+  const username = fields.username ?? "alice";
+  return {
+    id,
+    text: `tweet ${id}`,
+    author_id: "u1",
+    username,
+    name: "Alice",
+    created_at: "2026-01-01T00:00:00.000Z",
+    conversation_id: id,
+    metrics: { likes: 0, retweets: 0, replies: 0, quotes: 0, impressions: 0, bookmarks: 0, ...metrics },
+    urls: [],
+    mentions: [],
+    hashtags: [],
+    tweet_url: `https://x.com/${username}/status/${id}`,
+    ...fields,
+  };
+}
@@ -0,0 +1,39 @@
+import { describe, expect, test } from "bun:test";
+import { computeVelocity, formatTrackCsv, sparkline, type TrackSample } from "./track";
+
+function sample(observedAt: string, likes: number, impressions: number): TrackSample {
+  return { observed_at: observedAt, likes, retweets: 0, replies: 0, quotes: 0, impressions, bookmarks: 0 };
+}
+
+describe("tweet metric tracking", () => {
+  const samples = [
+    sample("2026-02-20T10:00:00.000Z", 10, 1000),
+    sample("2026-02-20T11:00:00.000Z", 40, 4000),
+    sample("2026-02-20T12:00:00.000Z", 50, 6000),
+  ];
+
+  test("computeVelocity reports per-hour and latest rates", () => {
+    const v = computeVelocity(samples);
+    expect(v.window_hours).toBe(2);
+    expect(v.per_hour.likes).toBe(20);
+    expect(v.latest_per_hour.likes).toBe(10);
+    expect(v.growth.impressions).toBe(5000);
+  });
+
+  test("computeVelocity is zero with fewer than two samples", () => {
+    expect(computeVelocity(samples.slice(0, 1)).per_hour.likes).toBe(0);
+  });
+
+  test("sparkline scales between min and max", () => {
+    expect(sparkline([0, 7])).toBe("▁█");
+    expect(sparkline([5, 5, 5])).toBe("▁▁▁");
+    expect(sparkline([])).toBe("");
+  });
+
+  test("formatTrackCsv emits a header and one row per sample", () => {
+    const lines = formatTrackCsv(samples).split("\n");
+    expect(lines[0]).toBe("observed_at,likes,retweets,replies,quotes,impressions,bookmarks");
+    expect(lines[1]).toBe("2026-02-20T10:00:00.000Z,10,0,0,0,1000,0");
+    expect(lines.length).toBe(4);
+  });
+});
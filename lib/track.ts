@@ -0,0 +1,386 @@
+/**
+ * lib/track.ts — Metric time-series tracking for individual tweets.
+ *
+ * Polls a single tweet on an interval, stores every metrics sample under
+ * data/tracks/, and renders growth (table + sparkline) and velocity
+ * (per-hour rates) as text, JSON or CSV.
+ */
+
+import { chmodSync, existsSync, mkdirSync, readFileSync, renameSync, writeFileSync } from "fs";
+import { join } from "path";
+import * as api from "./api";
+import { trackCost, checkBudget } from "./costs";
+import { extractTweetId } from "./media";
+import { parseDuration } from "./watch";
+import { archiveTweets } from "./archive";
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+export type TrackMetric = keyof api.Tweet["metrics"];
+
+export interface TrackSample {
+  observed_at: string;
+  likes: number;
+  retweets: number;
+  replies: number;
+  quotes: number;
+  impressions: number;
+  bookmarks: number;
+}
+
+export interface TrackSession {
+  tweet_id: string;
+  username?: string;
+  tweet_url?: string;
+  text?: string;
+  created_at?: string;
+  started_at: string;
+  interval_ms: number;
+  samples: TrackSample[];
+}
+
+export interface TrackVelocity {
+  window_hours: number;
+  per_hour: Record<TrackMetric, number>;
+  latest_per_hour: Record<TrackMetric, number>;
+  growth: Record<TrackMetric, number>;
+}
+
+interface TrackOpts {
+  intervalMs: number;
+  durationMs: number;
+  json: boolean;
+  csv: boolean;
+  quiet: boolean;
+}
+
+// ---------------------------------------------------------------------------
+// Constants
+// ---------------------------------------------------------------------------
+
+const TRACKS_DIR = join(import.meta.dir, "..", "data", "tracks");
+const METRICS: TrackMetric[] = ["likes", "retweets", "replies", "quotes", "impressions", "bookmarks"];
+const SPARK_CHARS = "▁▂▃▄▅▆▇█";
+const MIN_INTERVAL_MS = 60_000;
+const DEFAULT_INTERVAL_MS = 15 * 60_000;
+const DEFAULT_DURATION_MS = 24 * 3_600_000;
+
+// ---------------------------------------------------------------------------
+// Storage
+// ---------------------------------------------------------------------------
+
+function tracksDir(): string {
+  return process.env.XINT_TRACKS_DIR || TRACKS_DIR;
+}
+
+function sessionPath(tweetId: string): string {
+  return join(tracksDir(), `${tweetId}.json`);
+}
+
+export function loadSession(tweetId: string): TrackSession | null {
+  const path = sessionPath(tweetId);
+  if (!existsSync(path)) return null;
+  try {
+    return JSON.parse(readFileSync(path, "utf-8")) as TrackSession;
+  } catch {
+    return null;
+  }
+}
+
+function saveSession(session: TrackSession): void {
+  mkdirSync(tracksDir(), { recursive: true });
+  const path = sessionPath(session.tweet_id);
+  const tmp = path + ".tmp";
+  writeFileSync(tmp, JSON.stringify(session, null, 2), "utf-8");
+  chmodSync(tmp, 0o660);
+  renameSync(tmp, path);
+}
+
+export function sampleFromTweet(tweet: api.Tweet, observedAt: string = new Date().toISOString()): TrackSample {
+  return {
+    observed_at: observedAt,
+    likes: tweet.metrics.likes,
+    retweets: tweet.metrics.retweets,
+    replies: tweet.metrics.replies,
+    quotes: tweet.metrics.quotes,
+    impressions: tweet.metrics.impressions,
+    bookmarks: tweet.metrics.bookmarks,
+  };
+}
+
+// ---------------------------------------------------------------------------
+// Analysis
+// ---------------------------------------------------------------------------
+
+function round(n: number, places: number): number {
+  const p = 10 ** places;
+  return Math.round(n * p) / p;
+}
+
+function emptyRates(): Record<TrackMetric, number> {
+  return { likes: 0, retweets: 0, replies: 0, quotes: 0, impressions: 0, bookmarks: 0 };
+}
+
+function ratesBetween(a: TrackSample, b: TrackSample): Record<TrackMetric, number> {
+  const hours = (Date.parse(b.observed_at) - Date.parse(a.observed_at)) / 3_600_000;
+  const rates = emptyRates();
+  if (hours <= 0) return rates;
+  for (const m of METRICS) rates[m] = round((b[m] - a[m]) / hours, 2);
+  return rates;
+}
+
+/**
+ * Per-hour growth over the whole window and between the last two samples.
+ */
+export function computeVelocity(samples: TrackSample[]): TrackVelocity {
+  if (samples.length < 2) {
+    return { window_hours: 0, per_hour: emptyRates(), latest_per_hour: emptyRates(), growth: emptyRates() };
+  }
+  const first = samples[0];
+  const last = samples[samples.length - 1];
+  const growth = emptyRates();
+  for (const m of METRICS) growth[m] = last[m] - first[m];
+  return {
+    window_hours: round((Date.parse(last.observed_at) - Date.parse(first.observed_at)) / 3_600_000, 2),
+    per_hour: ratesBetween(first, last),
+    latest_per_hour: ratesBetween(samples[samples.length - 2], last),
+    growth,
+  };
+}
+
+/** Render a unicode sparkline scaled between the series min and max. */
+export function sparkline(values: number[]): string {
+  if (values.length === 0) return "";
+  const min = Math.min(...values);
+  const max = Math.max(...values);
+  const span = max - min;
+  return values
+    .map((v) => {
+      if (span === 0) return SPARK_CHARS[0];
+      const idx = Math.round(((v - min) / span) * (SPARK_CHARS.length - 1));
+      return SPARK_CHARS[idx];
+    })
+    .join("");
+}
+
+export function formatTrackCsv(samples: TrackSample[]): string {
+  const header = ["observed_at", ...METRICS].join(",");
+  const rows = samples.map((s) => [s.observed_at, ...METRICS.map((m) => s[m])].join(","));
+  return [header, ...rows].join("\n");
+}
+
+function formatTrackText(session: TrackSession): string {
+  const samples = session.samples;
+  const velocity = computeVelocity(samples);
+  const who = session.username ? `@${session.username}` : session.tweet_id;
+
+  let out = `\n📈 Tracking ${who} — ${session.tweet_url || session.tweet_id}\n`;
+  if (session.text) out += `${session.text.replace(/\s+/g, " ").slice(0, 140)}\n`;
+  out += `\n  ${"Observed".padEnd(20)} ${"Likes".padStart(8)} ${"RTs".padStart(7)} ${"Replies".padStart(8)} ${"Impr.".padStart(10)}\n`;
+  for (const s of samples) {
+    const when = s.observed_at.replace("T", " ").slice(0, 19);
+    out += `  ${when.padEnd(20)} ${String(s.likes).padStart(8)} ${String(s.retweets).padStart(7)} ${String(s.replies).padStart(8)} ${String(s.impressions).padStart(10)}\n`;
+  }
+
+  if (samples.length >= 2) {
+    out += `\n  Likes        ${sparkline(samples.map((s) => s.likes))}`;
+    out += `\n  Impressions  ${sparkline(samples.map((s) => s.impressions))}\n`;
+    out += `\n  Window: ${velocity.window_hours}h over ${samples.length} samples\n`;
+    out += `  Velocity: ${velocity.per_hour.likes} likes/h · ${velocity.per_hour.retweets} RTs/h · ${velocity.per_hour.impressions} impressions/h\n`;
+    out += `  Latest:   ${velocity.latest_per_hour.likes} likes/h · ${velocity.latest_per_hour.retweets} RTs/h · ${velocity.latest_per_hour.impressions} impressions/h\n`;
+  } else {
+    out += `\n  Need at least 2 samples to compute velocity.\n`;
+  }
+  return out;
+}
+
+function printSession(session: TrackSession, opts: { json: boolean; csv: boolean }): void {
+  if (opts.csv) {
+    console.log(formatTrackCsv(session.samples));
+  } else if (opts.json) {
+    console.log(JSON.stringify({ ...session, velocity: computeVelocity(session.samples) }, null, 2));
+  } else {
+    console.log(formatTrackText(session));
+  }
+}
+
+// ---------------------------------------------------------------------------
+// Poll loop
+// ---------------------------------------------------------------------------
+
+async function runTrack(tweetId: string, opts: TrackOpts): Promise<void> {
+  const session: TrackSession = loadSession(tweetId) || {
+    tweet_id: tweetId,
+    started_at: new Date().toISOString(),
+    interval_ms: opts.intervalMs,
+    samples: [],
+  };
+  session.interval_ms = opts.intervalMs;
+
+  const deadline = Date.now() + opts.durationMs;
+  const expectedPolls = Math.floor(opts.durationMs / opts.intervalMs) + 1;
+  let running = true;
+  let wake: (() => void) | null = null;
+
+  const stop = () => {
+    running = false;
+    wake?.();
+  };
+  process.on("SIGINT", stop);
+  process.on("SIGTERM", stop);
+
+  if (!opts.quiet) {
+    console.error(`Tracking tweet ${tweetId} every ${Math.round(opts.intervalMs / 60_000)}m for ${round(opts.durationMs / 3_600_000, 2)}h`);
+    console.error(`~${expectedPolls} polls · est. cost ~$${(expectedPolls * 0.005).toFixed(3)} · Ctrl+C to stop early`);
+  }
+
+  try {
+    while (running) {
+      try {
+        const tweet = await api.getTweet(tweetId);
+        trackCost("tweet", `/2/tweets/${tweetId}`, tweet ? 1 : 0);
+        if (!tweet) throw new Error(`Tweet ${tweetId} not found.`);
+        archiveTweets([tweet], "track");
+
+        session.username = tweet.username;
+        session.tweet_url = tweet.tweet_url;
+        session.text = tweet.text;
+        session.created_at = tweet.created_at;
+        const sample = sampleFromTweet(tweet);
+        session.samples.push(sample);
+        saveSession(session);
+
+        if (!opts.quiet) {
+          console.error(
+            `[${sample.observed_at.replace("T", " ").slice(0, 19)}] ${sample.likes} likes · ${sample.retweets} RTs · ${sample.impressions} impressions`,
+          );
+        }
+      } catch (e: any) {
+        if (e.message.includes("not found")) throw e;
+        console.error(`[track] ${e.message}`);
+      }
+
+      const budget = checkBudget();
+      if (!budget.allowed) {
+        console.error(`\n!! Budget exceeded ($${budget.spent.toFixed(2)}/$${budget.limit.toFixed(2)}). Stopping track.`);
+        break;
+      }
+
+      const remaining = deadline - Date.now();
+      if (remaining <= 0) break;
+      await new Promise<void>((resolve) => {
+        wake = resolve;
+        setTimeout(resolve, Math.min(opts.intervalMs, remaining));
+      });
+      wake = null;
+    }
+  } finally {
+    process.off("SIGINT", stop);
+    process.off("SIGTERM", stop);
+  }
+
+  printSession(session, opts);
+}
+
+// ---------------------------------------------------------------------------
+// CLI handler
+// ---------------------------------------------------------------------------
+
+function printTrackHelp(): void {
+  console.log(`
+Usage: xint track <tweet_id|url> [options]
+
+Poll a tweet's public metrics on an interval, store every sample under
+data/tracks/, and report growth and velocity when done (or on Ctrl+C).
+
+Options:
+  --every <dur>     Polling interval: 1m, 15m, 1h (default: 15m, min: 1m)
+  --for <dur>       Total tracking window: 30m, 24h, 3d (default: 24h)
+  --show            Render stored samples without polling (no API cost)
+  --json            Output samples + velocity as JSON
+  --csv             Output samples as CSV
+  --quiet, -q       Suppress per-poll progress lines
+
+Each poll reads one tweet (~$0.005). Re-running track on the same tweet
+appends to the existing series.
+
+Examples:
+  xint track 1900100012345678901 --every 15m --for 24h
+  xint track https://x.com/user/status/1900100012345678901 --every 5m --for 2h --csv > launch.csv
+  xint track 1900100012345678901 --show --json
+`);
+}
+
+export async function cmdTrack(args: string[]): Promise<void> {
+  let target: string | undefined;
+  let intervalMs = DEFAULT_INTERVAL_MS;
+  let durationMs = DEFAULT_DURATION_MS;
+  let show = false;
+  let json = false;
+  let csv = false;
+  let quiet = false;
+
+  for (let i = 0; i < args.length; i++) {
+    const arg = args[i];
+    switch (arg) {
+      case "--every":
+      case "--interval":
+      case "-i": {
+        const parsed = parseDuration(args[++i] || "");
+        if (!parsed) throw new Error("Usage: --every requires a duration (e.g. 5m, 15m, 1h).");
+        if (parsed < MIN_INTERVAL_MS) throw new Error("Minimum --every interval is 1m.");
+        intervalMs = parsed;
+        break;
+      }
+      case "--for": {
+        const parsed = parseDuration(args[++i] || "");
+        if (!parsed) throw new Error("Usage: --for requires a duration (e.g. 2h, 24h, 3d).");
+        durationMs = parsed;
+        break;
+      }
+      case "--show":
+        show = true;
+        break;
+      case "--json":
+        json = true;
+        break;
+      case "--csv":
+        csv = true;
+        break;
+      case "--quiet":
+      case "-q":
+        quiet = true;
+        break;
+      case "--help":
+      case "-h":
+        printTrackHelp();
+        return;
+      default:
+        if (arg.startsWith("-")) throw new Error(`Unknown option for track: ${arg}`);
+        target = arg;
+    }
+  }
+
+  if (!target) {
+    printTrackHelp();
+    return;
+  }
+  if (json && csv) throw new Error("Use only one of --json or --csv.");
+
+  const tweetId = extractTweetId(target);
+  if (!tweetId) throw new Error(`Could not parse tweet ID from: ${target}`);
+
+  if (show) {
+    const session = loadSession(tweetId);
+    if (!session || session.samples.length === 0) {
+      console.log(`No tracked samples for tweet ${tweetId}. Run 'xint track ${tweetId}' first.`);
+      return;
+    }
+    printSession(session, { json, csv });
+    return;
+  }
+
+  await runTrack(tweetId, { intervalMs, durationMs, json, csv, quiet });
+}
@@ -8,12 +8,13 @@
 
 import { readFileSync } from "fs";
 import { join } from "path";
-import { BASE, sleep, search } from "./api";
+import { BASE, search } from "./api";
 import type { Tweet } from "./api";
 import * as cache from "./cache";
 import { trackCost } from "./costs";
 import { buildOutputMeta, printJsonWithMeta } from "./output-meta";
 import { markCommandFallback } from "./reliability";
+import { scheduledFetch } from "./scheduler";
 
 // ---------------------------------------------------------------------------
 // Types
@@ -176,34 +177,19 @@ async function fetchTrendsApi(woeid: number): Promise<TrendsResult | null> {
   const url = `${BASE}/trends/by/woeid/${woeid}`;
   const token = getToken();
 
-  const res = await fetch(url, {
-    headers: {
-      Authorization: `Bearer ${token}`,
-      "Content-Type": "application/json",
-    },
-  });
-
-  // Rate-limited — wait and retry once
-  if (res.status === 429) {
-    const resetHeader = res.headers.get("x-rate-limit-reset");
-    const waitMs = resetHeader
-      ? Math.max(0, parseInt(resetHeader, 10) * 1000 - Date.now()) + 1000
-      : 60_000;
-    console.error(
-      `[trends] Rate limited. Waiting ${Math.round(waitMs / 1000)}s...`,
-    );
-    await sleep(Math.min(waitMs, 120_000));
-
-    const retry = await fetch(url, {
+  // Rate-limit windows are waited out by the scheduler; if the reset is too
+  // far away it throws and we fall back to search-based trends.
+  let res: Response;
+  try {
+    res = await scheduledFetch(url, {
       headers: {
         Authorization: `Bearer ${token}`,
         "Content-Type": "application/json",
       },
     });
-    if (!retry.ok) return null;
-
-    const body = (await retry.json()) as ApiTrendsResponse;
-    return parseTrendsApiResponse(body, woeid);
+  } catch (err: any) {
+    console.error(`[trends] ${err?.message || String(err)}`);
+    return null;
   }
 
   // Not available on this tier
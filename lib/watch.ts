@@ -11,6 +11,19 @@ import * as fmt from "./format";
 import { trackCost, checkBudget } from "./costs";
 import { buildOutputMeta } from "./output-meta";
 import { validateWebhookUrl } from "./webhook-security";
+import { sendToSink, sendToSinks, describeSink, parseSink, type SinkConfig } from "./sinks";
+import { archiveTweets } from "./archive";
+import { newestId, sinceIdUsable } from "./search_state";
+import {
+  listWatchStates,
+  loadWatchState,
+  MAX_SEEN_IDS,
+  recordWatchPoll,
+  resetWatchState,
+  SeenIdLru,
+} from "./watch_state";
+import { loadWatchConfig, runWatchDaemon } from "./watch_daemon";
+import { AlertEngine, alertPayload, formatAlertLine, loadAlertRules } from "./alerts";
 
 // ---------------------------------------------------------------------------
 // Types
@@ -25,20 +38,24 @@ export interface WatchOpts {
   quiet?: boolean;        // suppress per-poll headers
   jsonl?: boolean;        // output JSONL instead of formatted
   stream?: boolean;       // output SSE (Server-Sent Events)
+  name?: string;          // persist seen IDs + cursor under this name
+  alerts?: AlertEngine;   // only webhook tweets that raise an alert
+  sinks?: SinkConfig[];   // extra notification sinks (--sink)
 }
 
 // ---------------------------------------------------------------------------
 // Helpers
 // ---------------------------------------------------------------------------
 
-function parseDuration(s: string): number | null {
-  const m = s.match(/^(\d+)(s|m|h)$/);
+export function parseDuration(s: string): number | null {
+  const m = s.match(/^(\d+)(s|m|h|d)$/);
   if (!m) return null;
   const n = parseInt(m[1]);
   switch (m[2]) {
     case "s": return n * 1000;
     case "m": return n * 60_000;
     case "h": return n * 3_600_000;
+    case "d": return n * 86_400_000;
   }
   return null;
 }
@@ -47,30 +64,92 @@ function nowIso(): string {
   return new Date().toISOString().replace("T", " ").slice(0, 19);
 }
 
-async function postWebhook(url: string, tweets: api.Tweet[], query: string): Promise<void> {
-  try {
-    await fetch(url, {
-      method: "POST",
-      headers: { "Content-Type": "application/json" },
-      body: JSON.stringify({
-        source: "xint",
-        query,
-        timestamp: new Date().toISOString(),
-        count: tweets.length,
-        tweets: tweets.map(t => ({
-          id: t.id,
-          username: t.username,
-          text: t.text,
-          likes: t.metrics.likes,
-          retweets: t.metrics.retweets,
-          url: t.tweet_url,
-          created_at: t.created_at,
-        })),
-      }),
-    });
-  } catch (e: any) {
-    console.error(`[webhook] Failed: ${e.message}`);
+export async function postWebhook(
+  url: string,
+  tweets: api.Tweet[],
+  query: string,
+  extra: Record<string, unknown> = {},
+): Promise<void> {
+  // Signed, retried and dead-lettered on failure (lib/webhooks.ts).
+  await sendToSink({ type: "webhook", url }, { source: "watch", query, tweets, extra });
+}
+
+// ---------------------------------------------------------------------------
+// Polling
+// ---------------------------------------------------------------------------
+
+export interface WatchSession {
+  query: string;
+  name?: string;           // persisted under this name when set
+  since?: string;          // seed window for the first poll
+  seenIds: SeenIdLru;
+  cursor?: string;         // newest tweet id seen (since_id for the next poll)
+  resumed: boolean;
+  lastPollAt?: string;
+}
+
+export interface WatchPollResult {
+  tweets: api.Tweet[];
+  newTweets: api.Tweet[];
+  cost: number;
+  startedAtMs: number;
+}
+
+export function createWatchSession(query: string, opts: { name?: string; since?: string } = {}): WatchSession {
+  const persisted = opts.name ? loadWatchState(opts.name, query) : null;
+  return {
+    query,
+    name: opts.name,
+    since: opts.since,
+    seenIds: new SeenIdLru(MAX_SEEN_IDS, persisted?.seen_ids || []),
+    cursor: persisted?.newest_id,
+    resumed: persisted !== null,
+    lastPollAt: persisted?.last_poll_at,
+  };
+}
+
+/**
+ * Run one poll: fetch tweets newer than the cursor, track cost, archive, and
+ * return the ones not seen before. Persists state for named sessions.
+ */
+export async function pollWatch(session: WatchSession): Promise<WatchPollResult> {
+  const startedAtMs = Date.now();
+  // After the first poll (or a restart with saved state) only ask for
+  // tweets newer than the cursor; the --since window seeds the first poll.
+  const sinceId = session.cursor && sinceIdUsable(session.cursor) ? session.cursor : undefined;
+  const tweets = await api.search(session.query, {
+    pages: 1,
+    sortOrder: "recency",
+    since: sinceId ? undefined : session.since || "1h",
+    sinceId,
+  });
+
+  // Track cost
+  const cost = tweets.length * 0.005;
+  trackCost("search", "/2/tweets/search/recent", tweets.length);
+  archiveTweets(tweets, "watch");
+
+  // Filter to only new tweets, then mark all as seen
+  const newTweets = tweets.filter(t => !session.seenIds.has(t.id));
+  for (const t of tweets) session.seenIds.add(t.id);
+
+  if (session.name) {
+    const state = recordWatchPoll(session.name, session.query, session.seenIds, tweets.map(t => t.id), newTweets.length);
+    session.cursor = state.newest_id;
+  } else {
+    session.cursor = newestId([...tweets.map(t => t.id), ...(session.cursor ? [session.cursor] : [])]) || undefined;
   }
+  session.lastPollAt = new Date().toISOString();
+
+  return { tweets, newTweets, cost, startedAtMs };
+}
+
+/** Wait time from a scheduler "Rate limited. Resets in Ns" error, or null. */
+export function rateLimitWaitMs(err: any): number | null {
+  const message = String(err?.message || "");
+  if (!message.includes("Rate limited")) return null;
+  const waitMatch = message.match(/(\d+)s/);
+  return (waitMatch ? parseInt(waitMatch[1]) : 60) * 1000;
 }
 
 // ---------------------------------------------------------------------------
@@ -78,7 +157,7 @@ async function postWebhook(url: string, tweets: api.Tweet[], query: string): Pro
 // ---------------------------------------------------------------------------
 
 export async function watch(query: string, opts: WatchOpts): Promise<void> {
-  const seenIds = new Set<string>();
+  const session = createWatchSession(query, { name: opts.name, since: opts.since });
   let pollCount = 0;
   let totalNew = 0;
   let totalCost = 0;
@@ -106,29 +185,21 @@ export async function watch(query: string, opts: WatchOpts): Promise<void> {
 
   console.error(`\nWatching: "${query}" every ${intervalStr}`);
   if (opts.webhook) console.error(`Webhook: ${opts.webhook}`);
+  if (opts.sinks) console.error(`Sinks: ${opts.sinks.map(describeSink).join(", ")}`);
+  if (opts.alerts) console.error(`Alerts: ${opts.alerts.rules.length} rule(s)`);
+  if (session.resumed) {
+    console.error(`State: "${opts.name}" resumed (${session.seenIds.size} seen IDs, last poll ${session.lastPollAt || "never"})`);
+  } else if (opts.name) {
+    console.error(`State: "${opts.name}" (new)`);
+  }
   console.error(`Press Ctrl+C to stop\n`);
 
   while (running) {
     try {
-      const pollStartedAtMs = Date.now();
-      const tweets = await api.search(query, {
-        pages: 1,
-        sortOrder: "recency",
-        since: opts.since || "1h",
-      });
-
-      // Track cost
-      const cost = tweets.length * 0.005;
+      const { tweets, newTweets, cost, startedAtMs: pollStartedAtMs } = await pollWatch(session);
       totalCost += cost;
-      trackCost("search", "/2/tweets/search/recent", tweets.length);
       pollCount++;
 
-      // Filter to only new tweets
-      const newTweets = tweets.filter(t => !seenIds.has(t.id));
-
-      // Mark all as seen
-      for (const t of tweets) seenIds.add(t.id);
-
       if (newTweets.length > 0) {
         totalNew += newTweets.length;
         const limited = newTweets.slice(0, opts.limit || 10);
@@ -169,9 +240,20 @@ export async function watch(query: string, opts: WatchOpts): Promise<void> {
           }
         }
 
-        // Webhook
-        if (opts.webhook) {
-          await postWebhook(opts.webhook, limited, query);
+        // Alerts decide what reaches the webhook and sinks
+        let notify = limited;
+        let extra: Record<string, unknown> = {};
+        if (opts.alerts) {
+          const alerted = (await opts.alerts.evaluate(newTweets)).filter(d => d.alert);
+          for (const d of alerted) console.error(formatAlertLine(d));
+          notify = alerted.map(d => d.tweet);
+          extra = { alerts: alerted.map(alertPayload) };
+        }
+        if (notify.length > 0) {
+          if (opts.webhook) await postWebhook(opts.webhook, notify, query, extra);
+          if (opts.sinks) {
+            await sendToSinks(opts.sinks, { source: opts.name || "watch", query, tweets: notify, startedAtMs: pollStartedAtMs, extra });
+          }
         }
       } else if (pollCount === 1) {
         // First poll — seed with existing tweets but don't show them
@@ -186,11 +268,10 @@ export async function watch(query: string, opts: WatchOpts): Promise<void> {
       }
 
     } catch (e: any) {
-      if (e.message.includes("Rate limited")) {
-        const waitMatch = e.message.match(/(\d+)s/);
-        const waitSec = waitMatch ? parseInt(waitMatch[1]) : 60;
-        console.error(`[${nowIso()}] Rate limited, waiting ${waitSec}s...`);
-        await api.sleep(waitSec * 1000);
+      const waitMs = rateLimitWaitMs(e);
+      if (waitMs !== null) {
+        console.error(`[${nowIso()}] Rate limited, waiting ${Math.round(waitMs / 1000)}s...`);
+        await api.sleep(waitMs);
         continue;
       }
       console.error(`[${nowIso()}] Error: ${e.message}`);
@@ -205,7 +286,45 @@ export async function watch(query: string, opts: WatchOpts): Promise<void> {
 // CLI handler
 // ---------------------------------------------------------------------------
 
+function cmdWatchState(args: string[]): void {
+  const sub = (args[0] || "list").toLowerCase();
+
+  if (sub === "list" || sub === "ls") {
+    const states = listWatchStates();
+    if (args.includes("--json")) {
+      console.log(JSON.stringify(states.map(({ seen_ids, ...rest }) => ({ ...rest, seen_count: seen_ids.length })), null, 2));
+      return;
+    }
+    if (states.length === 0) {
+      console.log("No saved watch state. Start a named watch with: xint watch <query> --name <id>");
+      return;
+    }
+    console.log(`\nWatch state (${states.length}):\n`);
+    for (const st of states) {
+      console.log(`  ${st.name} — "${st.query}"`);
+      console.log(`    ${st.seen_ids.length} seen IDs | ${st.polls} polls | ${st.total_new} new | last poll ${st.last_poll_at || "never"}`);
+    }
+    return;
+  }
+
+  if (sub === "reset" || sub === "clear") {
+    const all = args.includes("--all");
+    const name = args[1] && !args[1].startsWith("--") ? args[1] : undefined;
+    if (!name && !all) throw new Error("Usage: xint watch state reset <name> | --all");
+    const removed = resetWatchState(all ? undefined : name);
+    console.log(removed > 0 ? `Reset ${removed} watch state entr${removed === 1 ? "y" : "ies"}.` : `No watch state for "${name}".`);
+    return;
+  }
+
+  throw new Error(`Unknown watch state subcommand: ${sub}`);
+}
+
 export async function cmdWatch(args: string[]): Promise<void> {
+  if (args[0] === "state") {
+    cmdWatchState(args.slice(1));
+    return;
+  }
+
   const queryParts: string[] = [];
   let interval = 5 * 60_000; // default 5m
   let webhook: string | undefined;
@@ -214,6 +333,10 @@ export async function cmdWatch(args: string[]): Promise<void> {
   let quiet = false;
   let jsonl = false;
   let stream = false;
+  let name: string | undefined;
+  let configPath: string | undefined;
+  let alertsPath: string | undefined;
+  const sinks: SinkConfig[] = [];
 
   let i = 0;
   while (i < args.length) {
@@ -262,6 +385,39 @@ export async function cmdWatch(args: string[]): Promise<void> {
       case "-s":
         stream = true;
         break;
+      case "--name":
+        name = args[++i];
+        if (!name || !/^[a-z0-9][a-z0-9_-]{0,63}$/i.test(name)) {
+          console.error("Error: --name requires an id (letters, digits, - or _)");
+          process.exit(1);
+        }
+        break;
+      case "--sink": {
+        const spec = args[++i];
+        try {
+          if (!spec) throw new Error("--sink requires a spec (e.g. slack:<url>)");
+          sinks.push(parseSink(spec));
+        } catch (err: any) {
+          console.error(`Error: ${err?.message || String(err)}`);
+          process.exit(1);
+        }
+        break;
+      }
+      case "--alerts":
+        alertsPath = args[++i];
+        if (!alertsPath) {
+          console.error("Error: --alerts requires a rules file");
+          process.exit(1);
+        }
+        break;
+      case "--config":
+      case "-c":
+        configPath = args[++i];
+        if (!configPath) {
+          console.error("Error: --config requires a file (watches.json or watches.yaml)");
+          process.exit(1);
+        }
+        break;
       case "--help":
       case "-h":
         printWatchHelp();
@@ -272,6 +428,15 @@ export async function cmdWatch(args: string[]): Promise<void> {
     i++;
   }
 
+  if (configPath) {
+    if (queryParts.length > 0) {
+      console.error("Error: pass either a query or --config, not both");
+      process.exit(1);
+    }
+    await runWatchDaemon(loadWatchConfig(configPath));
+    return;
+  }
+
   let query = queryParts.join(" ");
   if (!query) {
     printWatchHelp();
@@ -297,12 +462,27 @@ export async function cmdWatch(args: string[]): Promise<void> {
     }
   }
 
-  await watch(query, { interval, webhook, limit, since, quiet, jsonl, stream });
+  let alerts: AlertEngine | undefined;
+  if (alertsPath) {
+    try {
+      alerts = new AlertEngine(loadAlertRules(alertsPath));
+    } catch (err: any) {
+      console.error(`Error: ${err?.message || String(err)}`);
+      process.exit(1);
+    }
+  }
+
+  await watch(query, {
+    interval, webhook, limit, since, quiet, jsonl, stream, name, alerts,
+    ...(sinks.length > 0 && { sinks }),
+  });
 }
 
 function printWatchHelp(): void {
   console.log(`
 Usage: xint watch <query> [options]
+       xint watch --config <watches.json|watches.yaml>
+       xint watch state [list [--json] | reset <name> | reset --all]
 
 Monitor X in real-time. Polls a search query on interval and shows
 only new tweets since the last check.
@@ -315,8 +495,42 @@ Options:
   --quiet, -q            Suppress per-poll headers
   --jsonl                Output JSONL (one tweet per line)
   --stream, -s           Output SSE (Server-Sent Events)
+  --name <id>            Persist seen IDs and the poll cursor under this name
+                         so restarts don't replay tweets (data/watch-state.json)
+  --sink <spec>          Also notify a sink (repeatable):
+                           slack:<webhook-url>     Slack Block Kit message
+                           discord:<webhook-url>   Discord embeds
+                           telegram:<chat_id>      Telegram bot (XINT_TELEGRAM_BOT_TOKEN)
+                           smtp:<to>[,<to>]        Email digest (XINT_SMTP_URL, XINT_SMTP_FROM)
+                           webhook:<url> | jsonl:<path> | stdout[:jsonl]
+  --alerts <file>        Evaluate alert rules per new tweet; only alerted tweets
+                         go to the webhook and sinks (see 'xint alerts help')
+  --config, -c <file>    Run every watch in a JSON/YAML config in one process
+
+Config file (watches.json):
+  {
+    "budget_usd": 2.00,                  // optional: stop all watches at this run cost
+    "status_interval": "1m",             // status line: polls/new/cost per watch
+    "defaults": { "interval": "5m", "since": "1h", "limit": 10 },
+    "watches": [
+      {
+        "name": "sol",                   // state is kept per name
+        "query": "solana memecoins",
+        "interval": "2m",
+        "filters": { "min_likes": 5, "lang": "en", "exclude_authors": ["spambot"] },
+        "sinks": ["stdout", "jsonl:feeds/sol.jsonl", "webhook:https://hooks.example.com/x"],
+        "budget_usd": 0.50               // optional: stop this watch at this run cost
+      }
+    ]
+  }
+  Sinks: any --sink spec ("slack:<url>", "jsonl:<path>" relative to the config
+  file, ...) or objects like { "type": "smtp", "to": ["ops@example.com"] }.
+  Set "enabled": false to skip a watch. The daily budget (xint costs budget)
+  stops every watch.
 
 Webhook security:
+  - Set XINT_WEBHOOK_SECRET to HMAC-sign requests (X-Xint-Signature)
+  - Failed deliveries are retried, then queued: xint webhooks dlq list
   - Remote webhooks must use https://
   - http:// is allowed only for localhost/127.0.0.1/::1
   - Optional host allowlist: XINT_WEBHOOK_ALLOWED_HOSTS=hooks.example.com,*.internal.example
@@ -327,5 +541,9 @@ Examples:
   xint watch "AI agents" -i 30s --webhook https://hooks.example.com/ingest
   xint watch "breaking news" --jsonl | tee -a feed.jsonl
   xint watch "AI news" --stream | sse-consumer
+  xint watch "solana" --name sol-alerts --webhook https://hooks.example.com/x
+  xint watch state reset sol-alerts
+  xint watch "outage" --sink slack:https://hooks.slack.com/services/T000/B000/XXX
+  xint watch --config watches.yaml
 `);
 }
@@ -0,0 +1,117 @@
+import { describe, expect, test } from "bun:test";
+import { mkdtempSync, writeFileSync } from "fs";
+import { tmpdir } from "os";
+import { join } from "path";
+import {
+  applyWatchFilters,
+  buildWatchQuery,
+  formatStatusLine,
+  loadWatchConfig,
+  parseWatchConfig,
+} from "./watch_daemon";
+import { makeTweet } from "./test_fixtures";
+
+describe("watch config", () => {
+  test("applies defaults and resolves sinks", () => {
+    const config = parseWatchConfig(
+      {
+        budget_usd: 1.5,
+        defaults: { interval: "2m", filters: { lang: "EN" } },
+        watches: [
+          { name: "sol", query: "solana", sinks: ["stdout:jsonl", "jsonl:feeds/sol.jsonl"] },
+          { name: "ai", query: "AI agents", interval: "30s", limit: 3, budget_usd: 0.25 },
+          { name: "off", query: "ignored", enabled: false },
+        ],
+      },
+      { baseDir: "/srv/xint" },
+    );
+
+    expect(config.budget_usd).toBe(1.5);
+    expect(config.status_interval_ms).toBe(60_000);
+    expect(config.watches.map((w) => w.name)).toEqual(["sol", "ai"]);
+
+    const [sol, ai] = config.watches;
+    expect(sol.interval_ms).toBe(120_000);
+    expect(sol.since).toBe("1h");
+    expect(sol.search_query).toBe("solana -is:retweet lang:en");
+    expect(sol.sinks).toEqual([
+      { type: "stdout", format: "jsonl" },
+      { type: "jsonl", path: "/srv/xint/feeds/sol.jsonl" },
+    ]);
+    expect(ai.interval_ms).toBe(30_000);
+    expect(ai.limit).toBe(3);
+    expect(ai.budget_usd).toBe(0.25);
+    expect(ai.sinks).toEqual([{ type: "stdout", format: "text" }]);
+  });
+
+  test("rejects invalid entries with their path", () => {
+    expect(() => parseWatchConfig({ watches: [] })).toThrow(/watches: expected a non-empty list/);
+    expect(() => parseWatchConfig({ watches: [{ name: "a", query: "x", interval: "5s" }] })).toThrow(
+      /watches\[0\]\.interval: minimum interval is 10s/,
+    );
+    expect(() => parseWatchConfig({ watches: [{ name: "a", query: "x" }, { name: "A", query: "y" }] })).toThrow(
+      /duplicate watch name/,
+    );
+    expect(() => parseWatchConfig({ watches: [{ name: "a", query: "x", sinks: ["webhook:http://example.com/x"] }] })).toThrow(
+      /sinks\[0\]: Webhook URL must use https/,
+    );
+    expect(() => parseWatchConfig({ watches: [{ name: "a", query: "x", filters: { min_faves: 3 } }] })).toThrow(
+      /filters\.min_faves: unknown filter/,
+    );
+    expect(() => parseWatchConfig({ watches: [{ name: "a", query: "bitcoin since:2024-01-01" }] })).toThrow(
+      /watches\[0\]\.query/,
+    );
+  });
+
+  test("loads YAML configs", () => {
+    const dir = mkdtempSync(join(tmpdir(), "xint-watch-config-"));
+    const path = join(dir, "watches.yaml");
+    writeFileSync(
+      path,
+      [
+        "status_interval: 30s",
+        "watches:",
+        "  - name: news",
+        "    query: breaking news",
+        "    sinks:",
+        "      - type: jsonl",
+        "        path: news.jsonl",
+      ].join("\n"),
+    );
+    const config = loadWatchConfig(path);
+    expect(config.status_interval_ms).toBe(30_000);
+    expect(config.watches[0].sinks).toEqual([{ type: "jsonl", path: join(dir, "news.jsonl") }]);
+  });
+});
+
+describe("watch filters", () => {
+  test("buildWatchQuery pushes lang and excluded authors into the query", () => {
+    expect(buildWatchQuery("@vitalik", {})).toBe("from:vitalik -is:retweet");
+    expect(buildWatchQuery("btc OR eth", { lang: "en", exclude_authors: ["spam1", "spam2"] })).toBe(
+      "(btc OR eth) -is:retweet lang:en -from:spam1 -from:spam2",
+    );
+    expect(buildWatchQuery("ai lang:ja", { lang: "en" })).toBe("ai lang:ja -is:retweet");
+  });
+
+  test("applyWatchFilters drops low-like and excluded tweets", () => {
+    const tweets = [
+      makeTweet("1", { username: "alice", metrics: { likes: 10 } }),
+      makeTweet("2", { username: "SpamBot", metrics: { likes: 50 } }),
+      makeTweet("3", { username: "bob", metrics: { likes: 2 } }),
+    ];
+    const kept = applyWatchFilters(tweets, { min_likes: 5, exclude_authors: ["spambot"] });
+    expect(kept.map((t) => t.id)).toEqual(["1"]);
+    expect(applyWatchFilters(tweets, {})).toHaveLength(3);
+  });
+
+  test("formatStatusLine summarizes each watch and the total", () => {
+    const line = formatStatusLine(
+      [
+        { name: "sol", polls: 4, newTweets: 7, cost: 0.02 },
+        { name: "ai", polls: 2, newTweets: 0, cost: 0.005, stopped: "budget" },
+      ],
+      1,
+    );
+    expect(line).toBe("sol 4 polls/7 new/$0.020 | ai 2 polls/0 new/$0.005 (budget) | total $0.025 of $1.00");
+  });
+});
@@ -0,0 +1,381 @@
+/**
+ * lib/watch_daemon.ts — Run many watches from one config file.
+ *
+ * `xint watch --config watches.json` (or .yaml) polls every configured query
+ * on its own interval inside a single scheduler loop. Each watch has its own
+ * filters (min_likes, lang, exclude_authors), sinks (stdout, JSONL file,
+ * webhook, Slack, Discord, Telegram, email; see lib/sinks.ts) and optional
+ * spend cap; the daily budget from `xint costs budget` stops the whole daemon.
+ * Polling reuses pollWatch() from lib/watch.ts, so seen IDs and cursors
+ * persist per watch name in data/watch-state.json.
+ */
+
+import { dirname, resolve } from "path";
+import * as api from "./api";
+import { loadConfigFile } from "./config_file";
+import { checkBudget } from "./costs";
+import { describeSink, parseSink, sendToSinks, type SinkConfig } from "./sinks";
+import { and, buildSearchQuery, hasOperator, lintQuery, not, operator, parseQuery, toQueryString } from "./query";
+import {
+  createWatchSession,
+  parseDuration,
+  pollWatch,
+  rateLimitWaitMs,
+  type WatchSession,
+} from "./watch";
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+export interface WatchFilters {
+  min_likes?: number;
+  lang?: string;
+  exclude_authors?: string[];
+}
+
+export interface WatchDefinition {
+  name: string;
+  query: string;           // raw query from the config
+  search_query: string;    // query sent to the API (filters + noise defaults applied)
+  interval_ms: number;
+  since: string;
+  limit: number;
+  filters: WatchFilters;
+  sinks: SinkConfig[];
+  budget_usd?: number;     // spend cap for this watch during the run
+}
+
+export interface WatchDaemonConfig {
+  watches: WatchDefinition[];
+  budget_usd?: number;     // spend cap for the whole run
+  status_interval_ms: number;
+}
+
+interface WatchRuntime {
+  def: WatchDefinition;
+  session: WatchSession;
+  nextDueAt: number;
+  polls: number;
+  newTweets: number;
+  cost: number;
+  errors: number;
+  stopped?: string;        // reason the watch stopped polling
+}
+
+// ---------------------------------------------------------------------------
+// Constants
+// ---------------------------------------------------------------------------
+
+const NAME_RE = /^[a-z0-9][a-z0-9_-]{0,63}$/i;
+const MIN_INTERVAL_MS = 10_000;
+const DEFAULT_INTERVAL = "5m";
+const DEFAULT_SINCE = "1h";
+const DEFAULT_LIMIT = 10;
+const DEFAULT_STATUS_INTERVAL = "1m";
+const WATCH_KEYS = new Set([
+  "name", "query", "interval", "since", "limit", "filters", "sinks", "budget_usd", "enabled",
+]);
+
+// ---------------------------------------------------------------------------
+// Config parsing
+// ---------------------------------------------------------------------------
+
+function fail(path: string, message: string): never {
+  throw new Error(`Invalid watch config: ${path}: ${message}`);
+}
+
+function readDuration(value: unknown, path: string, fallback: string): number {
+  const raw = value === undefined ? fallback : value;
+  const ms = typeof raw === "string" ? parseDuration(raw) : null;
+  if (ms === null) fail(path, `expected a duration like 30s, 5m, 1h (got ${JSON.stringify(raw)})`);
+  return ms;
+}
+
+function readNumber(value: unknown, path: string): number | undefined {
+  if (value === undefined) return undefined;
+  if (typeof value !== "number" || !Number.isFinite(value) || value < 0) {
+    fail(path, "expected a non-negative number");
+  }
+  return value;
+}
+
+function parseFilters(raw: unknown, path: string): WatchFilters {
+  if (raw === undefined) return {};
+  if (!raw || typeof raw !== "object" || Array.isArray(raw)) fail(path, "expected an object");
+  const obj = raw as Record<string, unknown>;
+  const filters: WatchFilters = {};
+
+  const minLikes = readNumber(obj.min_likes, `${path}.min_likes`);
+  if (minLikes !== undefined) filters.min_likes = minLikes;
+
+  if (obj.lang !== undefined) {
+    if (typeof obj.lang !== "string" || !/^[a-z]{2,3}$/i.test(obj.lang)) {
+      fail(`${path}.lang`, "expected a language code like en or ja");
+    }
+    filters.lang = obj.lang.toLowerCase();
+  }
+
+  if (obj.exclude_authors !== undefined) {
+    if (!Array.isArray(obj.exclude_authors) || obj.exclude_authors.some((a) => typeof a !== "string" || !a.trim())) {
+      fail(`${path}.exclude_authors`, "expected a list of usernames");
+    }
+    filters.exclude_authors = (obj.exclude_authors as string[]).map((a) => a.trim().replace(/^@/, "").toLowerCase());
+  }
+
+  for (const key of Object.keys(obj)) {
+    if (!["min_likes", "lang", "exclude_authors"].includes(key)) fail(`${path}.${key}`, "unknown filter");
+  }
+  return filters;
+}
+
+/**
+ * Build the API query for a watch: xint's default -is:retweet filter, plus
+ * lang: and -from: clauses so filtered-out tweets are never fetched (or billed).
+ */
+export function buildWatchQuery(raw: string, filters: WatchFilters = {}): string {
+  let query = raw.trim();
+  if (query.startsWith("@") && !query.includes(" ")) query = `from:${query.slice(1)}`;
+
+  const ast = parseQuery(buildSearchQuery(query));
+  const clauses = [];
+  if (filters.lang && !hasOperator(ast, "lang")) clauses.push(operator("lang", filters.lang));
+  for (const author of filters.exclude_authors || []) {
+    clauses.push(not(operator("from", author)));
+  }
+  return toQueryString(clauses.length > 0 ? and(ast, ...clauses) : ast);
+}
+
+/** Post-fetch filters that have no search operator (min_likes) or need a safety net. */
+export function applyWatchFilters(tweets: api.Tweet[], filters: WatchFilters): api.Tweet[] {
+  const excluded = new Set(filters.exclude_authors || []);
+  return tweets.filter((t) => {
+    if (filters.min_likes !== undefined && t.metrics.likes < filters.min_likes) return false;
+    if (excluded.has(t.username.toLowerCase())) return false;
+    return true;
+  });
+}
+
+/**
+ * Validate a parsed config object. `defaults` (interval, since, limit,
+ * filters, sinks) apply to every watch that doesn't set its own value.
+ */
+export function parseWatchConfig(raw: unknown, opts: { baseDir?: string } = {}): WatchDaemonConfig {
+  const baseDir = opts.baseDir || process.cwd();
+  if (!raw || typeof raw !== "object" || Array.isArray(raw)) fail("config", "expected an object with a watches list");
+  const root = raw as Record<string, unknown>;
+  if (!Array.isArray(root.watches) || root.watches.length === 0) fail("watches", "expected a non-empty list");
+
+  const defaults = (root.defaults ?? {}) as Record<string, unknown>;
+  if (typeof defaults !== "object" || Array.isArray(defaults)) fail("defaults", "expected an object");
+
+  const seen = new Set<string>();
+  const watches: WatchDefinition[] = [];
+
+  root.watches.forEach((entry: unknown, idx: number) => {
+    const path = `watches[${idx}]`;
+    if (!entry || typeof entry !== "object" || Array.isArray(entry)) fail(path, "expected an object");
+    const w = entry as Record<string, unknown>;
+    for (const key of Object.keys(w)) {
+      if (!WATCH_KEYS.has(key)) fail(`${path}.${key}`, "unknown field");
+    }
+    if (w.enabled === false) return;
+
+    if (typeof w.name !== "string" || !NAME_RE.test(w.name)) {
+      fail(`${path}.name`, "expected an id (letters, digits, - or _)");
+    }
+    const key = w.name.toLowerCase();
+    if (seen.has(key)) fail(`${path}.name`, `duplicate watch name "${w.name}"`);
+    seen.add(key);
+
+    if (typeof w.query !== "string" || !w.query.trim()) fail(`${path}.query`, "expected a search query");
+
+    const interval = readDuration(w.interval ?? defaults.interval, `${path}.interval`, DEFAULT_INTERVAL);
+    if (interval < MIN_INTERVAL_MS) fail(`${path}.interval`, "minimum interval is 10s");
+
+    const since = (w.since ?? defaults.since ?? DEFAULT_SINCE) as string;
+    readDuration(since, `${path}.since`, DEFAULT_SINCE);
+
+    const limit = readNumber(w.limit ?? defaults.limit, `${path}.limit`) ?? DEFAULT_LIMIT;
+    const filters = parseFilters(w.filters ?? defaults.filters, `${path}.filters`);
+
+    const rawSinks = w.sinks ?? defaults.sinks ?? ["stdout"];
+    if (!Array.isArray(rawSinks) || rawSinks.length === 0) fail(`${path}.sinks`, "expected a non-empty list");
+    const sinks = rawSinks.map((s, i) => {
+      try {
+        return parseSink(s, { baseDir });
+      } catch (err: any) {
+        fail(`${path}.sinks[${i}]`, err.message);
+      }
+    });
+
+    let searchQuery: string;
+    try {
+      searchQuery = buildWatchQuery(w.query, filters);
+    } catch (err: any) {
+      fail(`${path}.query`, err.message);
+    }
+    const lintError = lintQuery(searchQuery).issues.find((i) => i.severity === "error");
+    if (lintError) fail(`${path}.query`, lintError.message);
+
+    const budget = readNumber(w.budget_usd, `${path}.budget_usd`);
+    watches.push({
+      name: w.name,
+      query: w.query,
+      search_query: searchQuery,
+      interval_ms: interval,
+      since,
+      limit: Math.max(1, Math.floor(limit)),
+      filters,
+      sinks,
+      ...(budget !== undefined && { budget_usd: budget }),
+    });
+  });
+
+  if (watches.length === 0) fail("watches", "every watch is disabled");
+
+  const budget = readNumber(root.budget_usd, "budget_usd");
+  return {
+    watches,
+    ...(budget !== undefined && { budget_usd: budget }),
+    status_interval_ms: readDuration(root.status_interval, "status_interval", DEFAULT_STATUS_INTERVAL),
+  };
+}
+
+/** Load a JSON or YAML (.yaml/.yml) watch config from disk. */
+export function loadWatchConfig(path: string): WatchDaemonConfig {
+  return parseWatchConfig(loadConfigFile(path, "Watch config"), { baseDir: dirname(resolve(path)) });
+}
+
+// ---------------------------------------------------------------------------
+// Output
+// ---------------------------------------------------------------------------
+
+function nowIso(): string {
+  return new Date().toISOString().replace("T", " ").slice(0, 19);
+}
+
+/** One-line summary of every watch: polls, new tweets and estimated cost. */
+export function formatStatusLine(
+  watches: { name: string; polls: number; newTweets: number; cost: number; stopped?: string }[],
+  budgetUsd?: number,
+): string {
+  const total = watches.reduce((sum, w) => sum + w.cost, 0);
+  const parts = watches.map((w) =>
+    `${w.name} ${w.polls} polls/${w.newTweets} new/$${w.cost.toFixed(3)}${w.stopped ? ` (${w.stopped})` : ""}`,
+  );
+  const budget = budgetUsd !== undefined ? ` of $${budgetUsd.toFixed(2)}` : "";
+  return `${parts.join(" | ")} | total $${total.toFixed(3)}${budget}`;
+}
+
+// ---------------------------------------------------------------------------
+// Scheduler
+// ---------------------------------------------------------------------------
+
+/**
+ * Poll every watch when due, one at a time, until interrupted or a budget
+ * runs out. A status line is printed to stderr every status_interval.
+ */
+export async function runWatchDaemon(config: WatchDaemonConfig): Promise<void> {
+  const startTime = Date.now();
+  const runtimes: WatchRuntime[] = config.watches.map((def) => ({
+    def,
+    session: createWatchSession(def.search_query, { name: def.name, since: def.since }),
+    nextDueAt: startTime,
+    polls: 0,
+    newTweets: 0,
+    cost: 0,
+    errors: 0,
+  }));
+  const status = () => formatStatusLine(
+    runtimes.map((rt) => ({ name: rt.def.name, polls: rt.polls, newTweets: rt.newTweets, cost: rt.cost, stopped: rt.stopped })),
+    config.budget_usd,
+  );
+
+  let running = true;
+  const cleanup = () => {
+    running = false;
+    const elapsed = Math.round((Date.now() - startTime) / 1000);
+    console.error(`\n--- Watch daemon stopped after ${Math.floor(elapsed / 60)}m ${elapsed % 60}s ---`);
+    console.error(status());
+    process.exit(0);
+  };
+  process.on("SIGINT", cleanup);
+  process.on("SIGTERM", cleanup);
+
+  console.error(`\nRunning ${runtimes.length} watch(es):`);
+  for (const rt of runtimes) {
+    const sinks = rt.def.sinks.map(describeSink);
+    const resumed = rt.session.resumed ? `, resumed ${rt.session.seenIds.size} seen IDs` : "";
+    console.error(`  ${rt.def.name}: "${rt.def.search_query}" every ${Math.round(rt.def.interval_ms / 1000)}s -> ${sinks.join(", ")}${resumed}`);
+  }
+  if (config.budget_usd !== undefined) console.error(`Run budget: $${config.budget_usd.toFixed(2)}`);
+  console.error(`Press Ctrl+C to stop\n`);
+
+  let nextStatusAt = startTime + config.status_interval_ms;
+
+  while (running) {
+    const active = runtimes.filter((rt) => !rt.stopped);
+    if (active.length === 0) {
+      console.error(`[${nowIso()}] All watches stopped.`);
+      break;
+    }
+
+    const due = active.reduce((a, b) => (b.nextDueAt < a.nextDueAt ? b : a));
+    const now = Date.now();
+    if (now >= nextStatusAt) {
+      console.error(`[status ${nowIso()}] ${status()}`);
+      nextStatusAt = now + config.status_interval_ms;
+    }
+    const wakeAt = Math.min(due.nextDueAt, nextStatusAt);
+    if (wakeAt > now) {
+      await api.sleep(wakeAt - now);
+      continue;
+    }
+
+    try {
+      const { newTweets, cost, startedAtMs } = await pollWatch(due.session);
+      due.polls++;
+      due.cost += cost;
+      const matched = applyWatchFilters(newTweets, due.def.filters);
+      if (matched.length > 0) {
+        due.newTweets += matched.length;
+        await sendToSinks(due.def.sinks, {
+          source: due.def.name,
+          query: due.def.query,
+          tweets: matched.slice(0, due.def.limit),
+          startedAtMs,
+        });
+      }
+      due.nextDueAt = Date.now() + due.def.interval_ms;
+    } catch (e: any) {
+      const waitMs = rateLimitWaitMs(e);
+      if (waitMs !== null) {
+        console.error(`[${nowIso()}] ${due.def.name}: rate limited, next poll in ${Math.round(waitMs / 1000)}s`);
+        due.nextDueAt = Date.now() + waitMs;
+        continue;
+      }
+      due.errors++;
+      console.error(`[${nowIso()}] ${due.def.name}: error: ${e.message}`);
+      due.nextDueAt = Date.now() + due.def.interval_ms;
+    }
+
+    // Budget checks: per watch, per run, then the daily budget.
+    if (due.def.budget_usd !== undefined && due.cost >= due.def.budget_usd) {
+      due.stopped = "budget";
+      console.error(`[${nowIso()}] ${due.def.name}: budget $${due.def.budget_usd.toFixed(2)} reached, stopping this watch`);
+    }
+    const runCost = runtimes.reduce((sum, rt) => sum + rt.cost, 0);
+    if (config.budget_usd !== undefined && runCost >= config.budget_usd) {
+      console.error(`\n!! Run budget reached ($${runCost.toFixed(3)}/$${config.budget_usd.toFixed(2)}). Stopping all watches.`);
+      break;
+    }
+    const budget = checkBudget();
+    if (!budget.allowed) {
+      console.error(`\n!! Budget exceeded ($${budget.spent.toFixed(2)}/$${budget.limit.toFixed(2)}). Stopping all watches.`);
+      break;
+    }
+  }
+
+  console.error(status());
+}
@@ -0,0 +1,65 @@
+import { afterAll, beforeEach, describe, expect, test } from "bun:test";
+import { rmSync } from "fs";
+import {
+  listWatchStates,
+  loadWatchState,
+  recordWatchPoll,
+  resetWatchState,
+  SeenIdLru,
+} from "./watch_state";
+
+const TEST_FILE = "/tmp/xint-test-watch-state.json";
+
+describe("watch state", () => {
+  beforeEach(() => {
+    process.env.XINT_WATCH_STATE_FILE = TEST_FILE;
+    rmSync(TEST_FILE, { force: true });
+  });
+
+  afterAll(() => {
+    rmSync(TEST_FILE, { force: true });
+    delete process.env.XINT_WATCH_STATE_FILE;
+  });
+
+  test("SeenIdLru evicts the least recently seen id", () => {
+    const lru = new SeenIdLru(3, ["1", "2", "3"]);
+    lru.add("1"); // refresh
+    lru.add("4"); // evicts 2
+    expect(lru.has("2")).toBe(false);
+    expect(lru.toArray()).toEqual(["3", "1", "4"]);
+    expect(lru.size).toBe(3);
+  });
+
+  test("persists seen ids and cursor across restarts", () => {
+    const seen = new SeenIdLru(10);
+    for (const id of ["100", "205", "150"]) seen.add(id);
+    recordWatchPoll("sol", "solana -is:retweet", seen, ["100", "205", "150"], 3);
+
+    const restored = loadWatchState("sol", "solana -is:retweet");
+    expect(restored?.seen_ids).toEqual(["100", "205", "150"]);
+    expect(restored?.newest_id).toBe("205");
+    expect(restored?.total_new).toBe(3);
+
+    // An empty poll keeps the cursor and counts the poll
+    recordWatchPoll("sol", "solana -is:retweet", new SeenIdLru(10, restored!.seen_ids), [], 0);
+    const after = loadWatchState("sol", "solana -is:retweet");
+    expect(after?.newest_id).toBe("205");
+    expect(after?.polls).toBe(2);
+  });
+
+  test("keys state by name and query", () => {
+    recordWatchPoll("sol", "solana", new SeenIdLru(10, ["1"]), ["1"], 1);
+    expect(loadWatchState("sol", "bitcoin")).toBeNull();
+    expect(loadWatchState("other", "solana")).toBeNull();
+  });
+
+  test("reset removes one name or everything", () => {
+    recordWatchPoll("a", "x", new SeenIdLru(10), [], 0);
+    recordWatchPoll("a", "y", new SeenIdLru(10), [], 0);
+    recordWatchPoll("b", "x", new SeenIdLru(10), [], 0);
+    expect(resetWatchState("a")).toBe(2);
+    expect(listWatchStates().map((s) => s.name)).toEqual(["b"]);
+    expect(resetWatchState()).toBe(1);
+    expect(listWatchStates()).toEqual([]);
+  });
+});
@@ -0,0 +1,162 @@
+/**
+ * lib/watch_state.ts — Persistent watch state for restart-safe deduplication.
+ *
+ * A named watch (`xint watch <query> --name <id>`) keeps its seen tweet IDs
+ * (bounded LRU) and last poll cursor in data/watch-state.json, keyed by name +
+ * query. Restarting the watcher resumes from the cursor instead of replaying
+ * the whole --since window to stdout and webhooks.
+ */
+
+import { chmodSync, existsSync, mkdirSync, readFileSync, renameSync, writeFileSync } from "fs";
+import { dirname, join } from "path";
+import { createHash } from "crypto";
+import { newestId } from "./search_state";
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+export interface WatchState {
+  key: string;
+  name: string;
+  query: string;
+  seen_ids: string[];      // oldest first; capped at MAX_SEEN_IDS
+  newest_id?: string;      // since_id cursor for the next poll
+  last_poll_at?: string;
+  polls: number;
+  total_new: number;
+  created_at: string;
+  updated_at: string;
+}
+
+interface WatchStateFile {
+  watches: Record<string, WatchState>;
+}
+
+// ---------------------------------------------------------------------------
+// Constants
+// ---------------------------------------------------------------------------
+
+const DEFAULT_STATE_FILE = join(import.meta.dir, "..", "data", "watch-state.json");
+export const MAX_SEEN_IDS = 5000;
+
+// ---------------------------------------------------------------------------
+// Seen-ID LRU
+// ---------------------------------------------------------------------------
+
+/**
+ * Bounded set of tweet IDs. Re-adding an ID refreshes it; the least recently
+ * seen IDs are evicted once the cap is reached.
+ */
+export class SeenIdLru {
+  private ids = new Map<string, true>();
+
+  constructor(private readonly max: number = MAX_SEEN_IDS, initial: string[] = []) {
+    for (const id of initial) this.add(id);
+  }
+
+  has(id: string): boolean {
+    return this.ids.has(id);
+  }
+
+  add(id: string): void {
+    this.ids.delete(id);
+    this.ids.set(id, true);
+    while (this.ids.size > this.max) {
+      const oldest = this.ids.keys().next().value as string;
+      this.ids.delete(oldest);
+    }
+  }
+
+  get size(): number {
+    return this.ids.size;
+  }
+
+  toArray(): string[] {
+    return [...this.ids.keys()];
+  }
+}
+
+// ---------------------------------------------------------------------------
+// Storage
+// ---------------------------------------------------------------------------
+
+function statePath(): string {
+  return process.env.XINT_WATCH_STATE_FILE || DEFAULT_STATE_FILE;
+}
+
+function loadFile(): WatchStateFile {
+  const path = statePath();
+  if (!existsSync(path)) return { watches: {} };
+  try {
+    const parsed = JSON.parse(readFileSync(path, "utf-8")) as WatchStateFile;
+    return { watches: parsed.watches || {} };
+  } catch {
+    return { watches: {} };
+  }
+}
+
+function saveFile(file: WatchStateFile): void {
+  const path = statePath();
+  mkdirSync(dirname(path), { recursive: true });
+  const tmp = path + ".tmp";
+  writeFileSync(tmp, JSON.stringify(file), "utf-8");
+  chmodSync(tmp, 0o660);
+  renameSync(tmp, path);
+}
+
+export function watchStateKey(name: string, query: string): string {
+  const hash = createHash("md5").update(query).digest("hex").slice(0, 8);
+  return `${name}:${hash}`;
+}
+
+export function loadWatchState(name: string, query: string): WatchState | null {
+  return loadFile().watches[watchStateKey(name, query)] || null;
+}
+
+export function listWatchStates(): WatchState[] {
+  return Object.values(loadFile().watches).sort((a, b) => a.name.localeCompare(b.name));
+}
+
+/**
+ * Record a completed poll: remember its IDs, advance the cursor and bump
+ * counters. Returns the saved state.
+ */
+export function recordWatchPoll(
+  name: string,
+  query: string,
+  seen: SeenIdLru,
+  polledIds: string[],
+  newCount: number,
+): WatchState {
+  const file = loadFile();
+  const key = watchStateKey(name, query);
+  const prev = file.watches[key];
+  const now = new Date().toISOString();
+  const cursor = newestId([...polledIds, ...(prev?.newest_id ? [prev.newest_id] : [])]);
+
+  const state: WatchState = {
+    key,
+    name,
+    query,
+    seen_ids: seen.toArray(),
+    ...(cursor && { newest_id: cursor }),
+    last_poll_at: now,
+    polls: (prev?.polls || 0) + 1,
+    total_new: (prev?.total_new || 0) + newCount,
+    created_at: prev?.created_at || now,
+    updated_at: now,
+  };
+  file.watches[key] = state;
+  saveFile(file);
+  return state;
+}
+
+/** Remove state for a watch name (every query), or everything when name is omitted. */
+export function resetWatchState(name?: string): number {
+  const file = loadFile();
+  const keys = Object.keys(file.watches).filter((k) => name === undefined || file.watches[k].name === name);
+  for (const k of keys) delete file.watches[k];
+  if (keys.length > 0) saveFile(file);
+  return keys.length;
+}
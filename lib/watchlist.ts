@@ -0,0 +1,80 @@
+/**
+ * lib/watchlist.ts — Watchlist storage.
+ *
+ * Accounts to keep an eye on, kept in data/watchlist.json and shared by
+ * `xint watchlist` and the xint_watchlist MCP tools.
+ */
+
+import { existsSync, mkdirSync, readFileSync, writeFileSync } from "fs";
+import { dirname, join } from "path";
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+export interface WatchlistAccount {
+  username: string;
+  note?: string;
+  addedAt: string;
+}
+
+export interface Watchlist {
+  accounts: WatchlistAccount[];
+}
+
+// ---------------------------------------------------------------------------
+// Storage
+// ---------------------------------------------------------------------------
+
+const DEFAULT_WATCHLIST_FILE = join(import.meta.dir, "..", "data", "watchlist.json");
+
+function watchlistPath(): string {
+  return process.env.XINT_WATCHLIST_FILE || DEFAULT_WATCHLIST_FILE;
+}
+
+export function loadWatchlist(): Watchlist {
+  const path = watchlistPath();
+  if (!existsSync(path)) return { accounts: [] };
+  return JSON.parse(readFileSync(path, "utf-8"));
+}
+
+export function saveWatchlist(wl: Watchlist): void {
+  const path = watchlistPath();
+  mkdirSync(dirname(path), { recursive: true });
+  writeFileSync(path, JSON.stringify(wl, null, 2));
+}
+
+// ---------------------------------------------------------------------------
+// Operations
+// ---------------------------------------------------------------------------
+
+function normalizeUsername(username: string): string {
+  return username.trim().replace(/^@/, "");
+}
+
+/** Add an account. Returns the existing entry (added: false) if already listed. */
+export function addToWatchlist(username: string, note?: string): { added: boolean; account: WatchlistAccount } {
+  const name = normalizeUsername(username);
+  if (!name) throw new Error("Usage: xint watchlist add <username> [note]");
+
+  const wl = loadWatchlist();
+  const existing = wl.accounts.find((a) => a.username.toLowerCase() === name.toLowerCase());
+  if (existing) return { added: false, account: existing };
+
+  const account: WatchlistAccount = { username: name, note: note || undefined, addedAt: new Date().toISOString() };
+  wl.accounts.push(account);
+  saveWatchlist(wl);
+  return { added: true, account };
+}
+
+/** Remove an account (case-insensitive). Returns false if it was not listed. */
+export function removeFromWatchlist(username: string): boolean {
+  const name = normalizeUsername(username);
+  if (!name) throw new Error("Usage: xint watchlist remove <username>");
+
+  const wl = loadWatchlist();
+  const before = wl.accounts.length;
+  wl.accounts = wl.accounts.filter((a) => a.username.toLowerCase() !== name.toLowerCase());
+  saveWatchlist(wl);
+  return wl.accounts.length < before;
+}
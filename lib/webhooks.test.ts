@@ -0,0 +1,135 @@
+import { afterAll, afterEach, beforeAll, describe, expect, test } from "bun:test";
+import { mkdtempSync, rmSync } from "fs";
+import { tmpdir } from "os";
+import { join } from "path";
+import {
+  deliverWebhook,
+  listDeadLetters,
+  replayDeadLetter,
+  signWebhookPayload,
+  verifyWebhookSignature,
+} from "./webhooks";
+
+const dir = mkdtempSync(join(tmpdir(), "xint-webhook-dlq-"));
+const prevDir = process.env.XINT_WEBHOOK_DLQ_DIR;
+
+interface Received {
+  body: string;
+  signature: string | null;
+  timestamp: string | null;
+  delivery: string | null;
+}
+
+let received: Received[] = [];
+let failNext = 0;
+let server: ReturnType<typeof Bun.serve>;
+
+beforeAll(() => {
+  process.env.XINT_WEBHOOK_DLQ_DIR = dir;
+  server = Bun.serve({
+    port: 0,
+    async fetch(req) {
+      received.push({
+        body: await req.text(),
+        signature: req.headers.get("x-xint-signature"),
+        timestamp: req.headers.get("x-xint-timestamp"),
+        delivery: req.headers.get("x-xint-delivery"),
+      });
+      if (new URL(req.url).pathname === "/gone") return new Response("gone", { status: 410 });
+      if (failNext > 0) {
+        failNext--;
+        return new Response("busy", { status: 503 });
+      }
+      return new Response("ok");
+    },
+  });
+});
+
+afterEach(() => {
+  received = [];
+  failNext = 0;
+  rmSync(dir, { recursive: true, force: true });
+});
+
+afterAll(() => {
+  server.stop(true);
+  if (prevDir === undefined) delete process.env.XINT_WEBHOOK_DLQ_DIR;
+  else process.env.XINT_WEBHOOK_DLQ_DIR = prevDir;
+});
+
+const url = (path = "/hook") => `http://127.0.0.1:${server.port}${path}`;
+
+describe("webhook signing", () => {
+  test("signs timestamp + body and verifies within tolerance", () => {
+    const now = Math.floor(Date.now() / 1000);
+    const sig = signWebhookPayload('{"a":1}', "s3cret", now);
+    expect(sig).toMatch(/^sha256=[0-9a-f]{64}$/);
+    expect(verifyWebhookSignature('{"a":1}', sig, now, "s3cret")).toBe(true);
+    expect(verifyWebhookSignature('{"a":2}', sig, now, "s3cret")).toBe(false);
+    expect(verifyWebhookSignature('{"a":1}', sig, now, "other")).toBe(false);
+    const old = now - 3600;
+    expect(verifyWebhookSignature('{"a":1}', signWebhookPayload('{"a":1}', "s3cret", old), old, "s3cret")).toBe(false);
+  });
+
+  test("sends verifiable signature headers", async () => {
+    const result = await deliverWebhook(url(), { hello: "world" }, { secret: "s3cret" });
+    expect(result.ok).toBe(true);
+    const [req] = received;
+    expect(req.delivery).toBe(result.id);
+    expect(verifyWebhookSignature(req.body, req.signature!, req.timestamp!, "s3cret")).toBe(true);
+  });
+});
+
+describe("webhook delivery", () => {
+  test("retries 5xx responses with the same delivery id", async () => {
+    failNext = 2;
+    const result = await deliverWebhook(url(), { n: 1 }, { maxAttempts: 4, baseDelayMs: 1 });
+    expect(result).toMatchObject({ ok: true, attempts: 3, status: 200 });
+    expect(new Set(received.map((r) => r.delivery)).size).toBe(1);
+  });
+
+  test("dead-letters after the last attempt and replays later", async () => {
+    failNext = 10;
+    const result = await deliverWebhook(url(), { n: 2 }, { maxAttempts: 2, baseDelayMs: 1 });
+    expect(result).toMatchObject({ ok: false, attempts: 2, status: 503, dead_lettered: true });
+
+    const [entry] = listDeadLetters();
+    expect(entry.id).toBe(result.id);
+    expect(entry.payload).toEqual({ n: 2 });
+    expect(entry.last_error).toContain("503");
+
+    const retry = await replayDeadLetter(entry.id, { maxAttempts: 1, baseDelayMs: 1 });
+    expect(retry.ok).toBe(false);
+    expect(listDeadLetters()[0]).toMatchObject({ attempts: 3, replays: 1 });
+
+    failNext = 0;
+    const replayed = await replayDeadLetter(entry.id, { maxAttempts: 1 });
+    expect(replayed.ok).toBe(true);
+    expect(received.at(-1)?.delivery).toBe(entry.id);
+    expect(listDeadLetters()).toEqual([]);
+  });
+
+  test("replay re-validates the queued URL before sending", async () => {
+    failNext = 10;
+    const result = await deliverWebhook(url(), { n: 4 }, { maxAttempts: 1, baseDelayMs: 1 });
+    received = [];
+
+    process.env.XINT_WEBHOOK_ALLOWED_HOSTS = "hooks.example.com";
+    try {
+      const replayed = await replayDeadLetter(result.id, { maxAttempts: 1 });
+      expect(replayed).toMatchObject({ ok: false, attempts: 0, dead_lettered: true });
+      expect(replayed.error).toContain("not allowed");
+    } finally {
+      delete process.env.XINT_WEBHOOK_ALLOWED_HOSTS;
+    }
+    expect(received).toEqual([]);
+    expect(listDeadLetters()[0]).toMatchObject({ attempts: 1, replays: 1, last_status: 503 });
+    expect(listDeadLetters()[0].last_error).toContain("Webhook URL rejected");
+  });
+
+  test("does not retry other 4xx responses", async () => {
+    const result = await deliverWebhook(url("/gone"), { n: 3 }, { maxAttempts: 5, baseDelayMs: 1 });
+    expect(result).toMatchObject({ ok: false, attempts: 1, status: 410, dead_lettered: true });
+    expect(received).toHaveLength(1);
+  });
+});
@@ -0,0 +1,382 @@
+/**
+ * lib/webhooks.ts — Signed webhook delivery with retries and a dead-letter queue.
+ *
+ * Every webhook POST from watch/stream goes through deliverWebhook():
+ *   - When XINT_WEBHOOK_SECRET is set, the body is signed with HMAC-SHA256
+ *     over "<timestamp>.<body>" and sent as
+ *       X-Xint-Timestamp: <unix seconds>
+ *       X-Xint-Signature: sha256=<hex>
+ *     Receivers recompute the HMAC and reject stale timestamps (see
+ *     verifyWebhookSignature).
+ *   - Network errors, 408, 429 and 5xx are retried with exponential backoff.
+ *   - Deliveries that still fail are written to data/webhook-dlq/<id>.json
+ *     and can be re-sent with `xint webhooks replay`.
+ */
+
+import { createHmac, randomUUID, timingSafeEqual } from "crypto";
+import { chmodSync, existsSync, mkdirSync, readdirSync, readFileSync, renameSync, unlinkSync, writeFileSync } from "fs";
+import { join } from "path";
+import { backoffDelayMs } from "./scheduler";
+import { sleep } from "./api";
+import { validateWebhookUrl } from "./webhook-security";
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+export interface DeliveryOpts {
+  maxAttempts?: number;    // default XINT_WEBHOOK_MAX_ATTEMPTS or 5
+  baseDelayMs?: number;    // first retry waits ~this long, doubling each time
+  secret?: string;         // default XINT_WEBHOOK_SECRET
+  deadLetter?: boolean;    // queue the payload when every attempt fails (default true)
+}
+
+export interface DeliveryResult {
+  ok: boolean;
+  id: string;              // X-Xint-Delivery id (also the DLQ entry id)
+  attempts: number;
+  status?: number;
+  error?: string;
+  dead_lettered?: boolean;
+}
+
+export interface DeadLetter {
+  id: string;
+  url: string;
+  payload: unknown;
+  created_at: string;
+  updated_at: string;
+  attempts: number;        // total attempts across the original delivery and replays
+  replays: number;
+  last_status?: number;
+  last_error: string;
+}
+
+// ---------------------------------------------------------------------------
+// Constants
+// ---------------------------------------------------------------------------
+
+const DEFAULT_DLQ_DIR = join(import.meta.dir, "..", "data", "webhook-dlq");
+const DEFAULT_MAX_ATTEMPTS = 5;
+const DEFAULT_BASE_DELAY_MS = 1_000;
+const REQUEST_TIMEOUT_MS = 10_000;
+export const SIGNATURE_HEADER = "X-Xint-Signature";
+export const TIMESTAMP_HEADER = "X-Xint-Timestamp";
+export const DELIVERY_HEADER = "X-Xint-Delivery";
+
+// ---------------------------------------------------------------------------
+// Signing
+// ---------------------------------------------------------------------------
+
+/** "sha256=<hex>" HMAC of "<timestamp>.<body>". */
+export function signWebhookPayload(body: string, secret: string, timestamp: number): string {
+  const mac = createHmac("sha256", secret).update(`${timestamp}.${body}`).digest("hex");
+  return `sha256=${mac}`;
+}
+
+/**
+ * Check a received signature. Rejects timestamps more than toleranceSec away
+ * from now so captured requests can't be replayed later.
+ */
+export function verifyWebhookSignature(
+  body: string,
+  signature: string,
+  timestamp: string | number,
+  secret: string,
+  toleranceSec: number = 300,
+): boolean {
+  const ts = typeof timestamp === "number" ? timestamp : Number.parseInt(timestamp, 10);
+  if (!Number.isFinite(ts) || Math.abs(Date.now() / 1000 - ts) > toleranceSec) return false;
+  const expected = Buffer.from(signWebhookPayload(body, secret, ts));
+  const actual = Buffer.from(signature);
+  return expected.length === actual.length && timingSafeEqual(expected, actual);
+}
+
+// ---------------------------------------------------------------------------
+// Delivery
+// ---------------------------------------------------------------------------
+
+function envInt(name: string, fallback: number): number {
+  const n = Number.parseInt(process.env[name] || "", 10);
+  return Number.isFinite(n) && n > 0 ? n : fallback;
+}
+
+function retryable(status: number): boolean {
+  return status === 408 || status === 429 || status >= 500;
+}
+
+async function postOnce(url: string, body: string, id: string, secret?: string): Promise<Response> {
+  const headers: Record<string, string> = {
+    "Content-Type": "application/json",
+    "User-Agent": "xint-webhook",
+    [DELIVERY_HEADER]: id,
+  };
+  if (secret) {
+    // Signed per attempt so the timestamp is fresh on retries and replays.
+    const timestamp = Math.floor(Date.now() / 1000);
+    headers[TIMESTAMP_HEADER] = String(timestamp);
+    headers[SIGNATURE_HEADER] = signWebhookPayload(body, secret, timestamp);
+  }
+  return fetch(url, { method: "POST", headers, body, signal: AbortSignal.timeout(REQUEST_TIMEOUT_MS) });
+}
+
+async function attemptDelivery(
+  url: string,
+  body: string,
+  id: string,
+  opts: DeliveryOpts,
+): Promise<Omit<DeliveryResult, "dead_lettered">> {
+  const maxAttempts = opts.maxAttempts ?? envInt("XINT_WEBHOOK_MAX_ATTEMPTS", DEFAULT_MAX_ATTEMPTS);
+  const baseDelayMs = opts.baseDelayMs ?? DEFAULT_BASE_DELAY_MS;
+  const secret = opts.secret ?? process.env.XINT_WEBHOOK_SECRET;
+
+  let status: number | undefined;
+  let error = "";
+  for (let attempt = 1; attempt <= maxAttempts; attempt++) {
+    try {
+      const res = await postOnce(url, body, id, secret);
+      status = res.status;
+      if (res.ok) return { ok: true, id, attempts: attempt, status };
+      error = `HTTP ${res.status}: ${(await res.text().catch(() => "")).slice(0, 200)}`;
+      if (!retryable(res.status)) return { ok: false, id, attempts: attempt, status, error };
+    } catch (err: any) {
+      status = undefined;
+      error = err?.message || String(err);
+    }
+    if (attempt < maxAttempts) await sleep(backoffDelayMs(attempt - 1, baseDelayMs));
+  }
+  return { ok: false, id, attempts: maxAttempts, ...(status !== undefined && { status }), error };
+}
+
+/**
+ * POST a JSON payload with signing and retries. Never throws: failures are
+ * logged, dead-lettered (unless opts.deadLetter is false) and reported in
+ * the result.
+ */
+export async function deliverWebhook(url: string, payload: unknown, opts: DeliveryOpts = {}): Promise<DeliveryResult> {
+  const id = randomUUID();
+  const result = await attemptDelivery(url, JSON.stringify(payload), id, opts);
+  if (result.ok) return result;
+
+  if (opts.deadLetter === false) {
+    console.error(`[webhook] Failed after ${result.attempts} attempt(s): ${result.error}`);
+    return result;
+  }
+  const now = new Date().toISOString();
+  saveDeadLetter({
+    id,
+    url,
+    payload,
+    created_at: now,
+    updated_at: now,
+    attempts: result.attempts,
+    replays: 0,
+    ...(result.status !== undefined && { last_status: result.status }),
+    last_error: result.error || "unknown error",
+  });
+  console.error(
+    `[webhook] Failed after ${result.attempts} attempt(s): ${result.error}. ` +
+      `Queued as ${id}; retry with: xint webhooks replay ${id}`,
+  );
+  return { ...result, dead_lettered: true };
+}
+
+// ---------------------------------------------------------------------------
+// Dead-letter queue
+// ---------------------------------------------------------------------------
+
+function dlqDir(): string {
+  return process.env.XINT_WEBHOOK_DLQ_DIR || DEFAULT_DLQ_DIR;
+}
+
+function entryPath(id: string): string {
+  if (!/^[a-f0-9-]{8,}$/i.test(id)) throw new Error(`Invalid dead-letter id: ${id}`);
+  return join(dlqDir(), `${id}.json`);
+}
+
+function saveDeadLetter(entry: DeadLetter): void {
+  const dir = dlqDir();
+  mkdirSync(dir, { recursive: true });
+  const path = entryPath(entry.id);
+  const tmp = path + ".tmp";
+  writeFileSync(tmp, JSON.stringify(entry, null, 2), "utf-8");
+  chmodSync(tmp, 0o660);
+  renameSync(tmp, path);
+}
+
+/** Queued deliveries, oldest first. */
+export function listDeadLetters(): DeadLetter[] {
+  const dir = dlqDir();
+  if (!existsSync(dir)) return [];
+  const entries: DeadLetter[] = [];
+  for (const file of readdirSync(dir)) {
+    if (!file.endsWith(".json")) continue;
+    try {
+      entries.push(JSON.parse(readFileSync(join(dir, file), "utf-8")) as DeadLetter);
+    } catch {
+      // Skip unreadable entries; they stay on disk for inspection.
+    }
+  }
+  return entries.sort((a, b) => a.created_at.localeCompare(b.created_at));
+}
+
+export function getDeadLetter(id: string): DeadLetter | null {
+  const path = entryPath(id);
+  if (!existsSync(path)) return null;
+  return JSON.parse(readFileSync(path, "utf-8")) as DeadLetter;
+}
+
+export function removeDeadLetter(id: string): boolean {
+  const path = entryPath(id);
+  if (!existsSync(path)) return false;
+  unlinkSync(path);
+  return true;
+}
+
+/**
+ * Re-send a queued delivery (same id, fresh signature). Removes the entry on
+ * success; otherwise records the new failure and keeps it. The stored URL is
+ * validated again, since the entry file or XINT_WEBHOOK_ALLOWED_HOSTS may
+ * have changed since it was queued.
+ */
+export async function replayDeadLetter(id: string, opts: DeliveryOpts = {}): Promise<DeliveryResult> {
+  const entry = getDeadLetter(id);
+  if (!entry) throw new Error(`Dead-letter entry not found: ${id}`);
+
+  let result: Omit<DeliveryResult, "dead_lettered">;
+  try {
+    const url = validateWebhookUrl(entry.url);
+    result = await attemptDelivery(url, JSON.stringify(entry.payload), entry.id, opts);
+  } catch (err: any) {
+    result = { ok: false, id: entry.id, attempts: 0, error: `Webhook URL rejected: ${err.message}` };
+  }
+  if (result.ok) {
+    removeDeadLetter(id);
+    return result;
+  }
+  saveDeadLetter({
+    ...entry,
+    updated_at: new Date().toISOString(),
+    attempts: entry.attempts + result.attempts,
+    replays: entry.replays + 1,
+    ...(result.status !== undefined && { last_status: result.status }),
+    last_error: result.error || "unknown error",
+  });
+  return { ...result, dead_lettered: true };
+}
+
+// ---------------------------------------------------------------------------
+// CLI handler
+// ---------------------------------------------------------------------------
+
+async function cmdReplay(args: string[]): Promise<void> {
+  const ids = args.filter((a) => !a.startsWith("--"));
+  const targets = args.includes("--all") || ids.length === 0 ? listDeadLetters().map((e) => e.id) : ids;
+  if (targets.length === 0) {
+    console.log("Dead-letter queue is empty.");
+    return;
+  }
+
+  let delivered = 0;
+  for (const id of targets) {
+    const result = await replayDeadLetter(id);
+    if (result.ok) {
+      delivered++;
+      console.log(`✅ ${id} delivered (HTTP ${result.status}, ${result.attempts} attempt(s))`);
+    } else {
+      console.log(`❌ ${id} failed: ${result.error}`);
+    }
+  }
+  console.log(`\nReplayed ${targets.length}: ${delivered} delivered, ${targets.length - delivered} still queued.`);
+  if (delivered < targets.length) process.exitCode = 1;
+}
+
+function cmdDlq(args: string[]): void {
+  const sub = (args[0] || "list").toLowerCase();
+
+  if (sub === "list" || sub === "ls") {
+    const entries = listDeadLetters();
+    if (args.includes("--json")) {
+      console.log(JSON.stringify(entries, null, 2));
+      return;
+    }
+    if (entries.length === 0) {
+      console.log("Dead-letter queue is empty.");
+      return;
+    }
+    console.log(`\nDead-letter queue (${entries.length}):\n`);
+    for (const e of entries) {
+      console.log(`  ${e.id}  ${e.created_at.slice(0, 19).replace("T", " ")}  ${e.url}`);
+      console.log(`    ${e.attempts} attempt(s), ${e.replays} replay(s) — ${e.last_error}`);
+    }
+    return;
+  }
+
+  if (sub === "remove" || sub === "rm") {
+    if (args.includes("--all")) {
+      const entries = listDeadLetters();
+      for (const e of entries) removeDeadLetter(e.id);
+      console.log(`Removed ${entries.length} dead-letter entr${entries.length === 1 ? "y" : "ies"}.`);
+      return;
+    }
+    const id = args[1];
+    if (!id) throw new Error("Usage: xint webhooks dlq remove <id> | --all");
+    if (!removeDeadLetter(id)) throw new Error(`Dead-letter entry not found: ${id}`);
+    console.log(`Removed ${id}.`);
+    return;
+  }
+
+  throw new Error(`Unknown webhooks dlq subcommand: ${sub}`);
+}
+
+export async function cmdWebhooks(args: string[]): Promise<void> {
+  const sub = (args[0] || "dlq").toLowerCase();
+  switch (sub) {
+    case "replay":
+      await cmdReplay(args.slice(1));
+      return;
+    case "dlq":
+      cmdDlq(args.slice(1));
+      return;
+    case "help":
+    case "--help":
+    case "-h":
+      printWebhooksHelp();
+      return;
+    default:
+      throw new Error(`Unknown webhooks subcommand: ${sub}`);
+  }
+}
+
+function printWebhooksHelp(): void {
+  console.log(`
+Usage: xint webhooks <subcommand>
+
+Webhook deliveries from watch/stream are retried with exponential backoff;
+ones that still fail land in a dead-letter queue (data/webhook-dlq/,
+XINT_WEBHOOK_DLQ_DIR overrides).
+
+Subcommands:
+  dlq list [--json]            Show queued deliveries (default)
+  dlq remove <id> | --all      Drop queued deliveries
+  replay [<id>...] [--all]     Re-send queued deliveries (all when no id);
+                               delivered entries are removed
+
+Signing:
+  Set XINT_WEBHOOK_SECRET to sign every request:
+    ${TIMESTAMP_HEADER}: <unix seconds>
+    ${SIGNATURE_HEADER}: sha256=HMAC_SHA256(secret, "<timestamp>.<raw body>")
+  Receivers should recompute the HMAC over the raw body and reject
+  timestamps older than a few minutes. ${DELIVERY_HEADER} is stable across
+  retries and replays, so it can be used to drop duplicates.
+
+Environment:
+  XINT_WEBHOOK_SECRET          Shared HMAC secret (unsigned when unset)
+  XINT_WEBHOOK_MAX_ATTEMPTS    Attempts per delivery (default: ${DEFAULT_MAX_ATTEMPTS})
+
+Examples:
+  xint webhooks dlq list
+  xint webhooks replay
+  xint webhooks replay 3f2c9a4e-1b7d-4c55-9a0e-1d2f3a4b5c6d
+`);
+}
@@ -7,6 +7,7 @@
 
 import { readFileSync } from "fs";
 import { join } from "path";
+import { requestSignal } from "./request_context";
 
 // ---------------------------------------------------------------------------
 // Types
@@ -135,7 +136,7 @@ export async function xSearch(
         Authorization: `Bearer ${apiKey}`,
       },
       body: JSON.stringify(body),
-      signal: controller.signal,
+      signal: requestSignal(controller.signal),
     });
 
     clearTimeout(timeoutId);
@@ -7,6 +7,7 @@
  *   thread <tweet_id>           Fetch full conversation thread
  *   profile <username>          Recent tweets from a user
  *   tweet <tweet_id>            Fetch a single tweet
+ *   track <tweet_id> [opts]     Poll a tweet's metrics over time (growth + velocity)
  *   article <url>               Fetch and read full article content
  *   tui                         Interactive menu for common read-only flows
  *   capabilities                Print machine-readable capability manifest
@@ -37,12 +38,21 @@
  *   auth refresh                Manually refresh OAuth tokens
  *   package-api-server [opts]   Start local package API server (dev)
  *   cache clear                 Clear search cache
+ *   archive [subcommand]        Query the local tweet archive (zero API cost)
+ *   query lint|explain <q>      Validate / explain an X search query offline
+ *   saved add|run|list          Named saved searches (reuse search options)
+ *   alerts test <rules>         Evaluate alert rules against tweets on stdin
+ *   webhooks dlq|replay         Inspect / re-send failed webhook deliveries
+ *   approvals list|approve|reject  Review writes queued under --policy approval
+ *   journal list|undo           Account writes log; undo by id or --since
  *
  * Search options:
  *   --sort likes|impressions|retweets|recent   Sort order (default: likes)
  *   --min-likes N              Filter by minimum likes
  *   --min-impressions N        Filter by minimum impressions
  *   --pages N                  Number of pages to fetch (default: 1, max 5)
+ *   --resume                   Continue an interrupted multi-page fetch
+ *   --incremental <key>        Only fetch tweets newer than the last run (since_id)
  *   --no-replies               Exclude replies
  *   --no-retweets              Exclude retweets (added by default)
  *   --limit N                  Max results to display (default: 15)
@@ -61,6 +71,7 @@
  *   --markdown                 Markdown output
  *   --save                     Save to data/exports/
  *   --no-cache                 Skip cache
+ *   --resume                   Continue an interrupted fetch
  */
 
 import { readFileSync, writeFileSync, existsSync } from "fs";
@@ -84,13 +95,15 @@ import { cmdTrends } from "./lib/trends";
 import { cmdAnalyze } from "./lib/grok";
 import { cmdCosts, trackCost, checkBudget } from "./lib/costs";
 import { cmdWatch } from "./lib/watch";
+import { cmdAlerts } from "./lib/alerts";
+import { cmdWebhooks } from "./lib/webhooks";
 import { cmdDiff } from "./lib/followers";
 import { analyzeSentiment, enrichTweets, computeStats, formatSentimentTweet, formatStats } from "./lib/sentiment";
 import { cmdReport } from "./lib/report";
 import { fetchArticle, formatArticle } from "./lib/article";
 import { cmdXSearch } from "./lib/x_search";
 import { cmdCollections } from "./lib/collections";
-import { cmdMCPServer } from "./lib/mcp";
+import { cmdMCPServer, runApprovedTool } from "./lib/mcp";
 import { cmdLists } from "./lib/lists";
 import { cmdBlocks, cmdMutes } from "./lib/moderation";
 import { cmdStream, cmdStreamRules } from "./lib/stream";
@@ -103,34 +116,43 @@ import { consumeCommandFallback, recordCommandResult } from "./lib/reliability";
 import { cmdPackageApiServer } from "./lib/package_api_server";
 import { cmdBilling } from "./lib/billing";
 import { cmdTui } from "./lib/tui";
+import { archiveTweets, cmdArchive } from "./lib/archive";
+import { cmdTrack } from "./lib/track";
+import { configureScheduler, parseWaitDuration } from "./lib/scheduler";
+import { buildSearchQuery, cmdQuery, lintQuery } from "./lib/query";
+import { cmdSaved, type SearchArgs } from "./lib/saved";
+import { fetchSearch, refineSearchResults } from "./lib/search";
+import { addToWatchlist, loadWatchlist, removeFromWatchlist } from "./lib/watchlist";
+import { cmdApprovals, isWriteCommand, requestApproval } from "./lib/approvals";
+import { previewWrite, printDryRunPlan } from "./lib/dry_run";
+import { cmdJournal } from "./lib/journal";
+import { runAsActor } from "./lib/request_context";
+import {
+  checkPolicyFile,
+  cliAction,
+  PolicyFileError,
+  policyRank,
+  recordPolicyUsage,
+  type PolicyMode,
+} from "./lib/policy";
 
 const SKILL_DIR = import.meta.dir;
-const WATCHLIST_PATH = join(SKILL_DIR, "data", "watchlist.json");
 const DRAFTS_DIR = join(SKILL_DIR, "data", "exports");
 
 // --- Arg parsing ---
 
-type PolicyMode = "read_only" | "engagement" | "moderation";
 type RequiredMode = PolicyMode;
 
-function policyRank(mode: PolicyMode): number {
-  switch (mode) {
-    case "read_only": return 1;
-    case "engagement": return 2;
-    case "moderation": return 3;
-  }
-}
-
 function parseGlobalPolicy(argv: string[]): PolicyMode {
   let parsed: PolicyMode = "read_only";
   for (let i = 0; i < argv.length; i++) {
     if (argv[i] !== "--policy") continue;
     const raw = argv[i + 1];
     if (!raw) {
-      console.error(`{"error":{"code":"POLICY_INVALID","message":"--policy requires one of: read_only, engagement, moderation"}}`);
+      console.error(`{"error":{"code":"POLICY_INVALID","message":"--policy requires one of: read_only, approval, engagement, moderation"}}`);
       process.exit(2);
     }
-    if (raw !== "read_only" && raw !== "engagement" && raw !== "moderation") {
+    if (raw !== "read_only" && raw !== "approval" && raw !== "engagement" && raw !== "moderation") {
       console.error(`{"error":{"code":"POLICY_INVALID","message":"Invalid --policy value","value":"${raw}"}}`);
       process.exit(2);
     }
@@ -141,8 +163,33 @@ function parseGlobalPolicy(argv: string[]): PolicyMode {
   return parsed;
 }
 
+function parseGlobalDryRun(argv: string[]): boolean {
+  let found = false;
+  for (let i = argv.indexOf("--dry-run"); i >= 0; i = argv.indexOf("--dry-run")) {
+    argv.splice(i, 1);
+    found = true;
+  }
+  return found;
+}
+
+function parseGlobalMaxWait(argv: string[]): void {
+  for (let i = 0; i < argv.length; i++) {
+    if (argv[i] !== "--max-wait") continue;
+    const maxWaitMs = parseWaitDuration(argv[i + 1]);
+    if (maxWaitMs === null) {
+      console.error(`{"error":{"code":"MAX_WAIT_INVALID","message":"--max-wait requires a duration like 90, 30s, 15m or 1h"}}`);
+      process.exit(2);
+    }
+    configureScheduler({ maxWaitMs });
+    argv.splice(i, 2);
+    i--;
+  }
+}
+
 const args = process.argv.slice(2);
 const policyMode = parseGlobalPolicy(args);
+const dryRun = parseGlobalDryRun(args);
+parseGlobalMaxWait(args);
 const command = args[0];
 
 const COMMAND_POLICY: Record<string, RequiredMode> = {
@@ -158,6 +205,7 @@ const COMMAND_POLICY: Record<string, RequiredMode> = {
   profile: "read_only",
   p: "read_only",
   tweet: "read_only",
+  track: "read_only",
   media: "read_only",
   article: "read_only",
   read: "read_only",
@@ -192,6 +240,11 @@ const COMMAND_POLICY: Record<string, RequiredMode> = {
   watchlist: "read_only",
   wl: "read_only",
   cache: "read_only",
+  archive: "read_only",
+  query: "read_only",
+  saved: "read_only",
+  alerts: "read_only",
+  webhooks: "read_only",
   "ai-search": "read_only",
   x_search: "read_only",
   xsearch: "read_only",
@@ -203,23 +256,73 @@ const COMMAND_POLICY: Record<string, RequiredMode> = {
   "pkg-api": "read_only",
   capabilities: "read_only",
   caps: "read_only",
+  approvals: "read_only",
+  // journal undo checks the mode each inverse action needs (engagement or moderation).
+  journal: "read_only",
 };
 
+function exitPolicyDenied(error: Record<string, unknown>): never {
+  console.error(JSON.stringify({ error }));
+  process.exit(2);
+}
+
+/** Policy mode a CLI invocation needs (stream-rules writes need more than its reads). */
+function requiredMode(argv: string[]): RequiredMode {
+  const cmd = argv[0];
+  if (cmd === "stream-rules" && isWriteCommand(argv)) return "engagement";
+  return COMMAND_POLICY[cmd] || "read_only";
+}
+
 function enforcePolicyOrExit(cmd?: string): void {
   if (!cmd) return;
-  const required = COMMAND_POLICY[cmd] || "read_only";
-  if (policyRank(policyMode) >= policyRank(required)) return;
-  const payload = {
-    error: {
+  const required = requiredMode(args);
+  if (policyMode === "approval" && isWriteCommand(args)) {
+    // Writes are queued (queueIfApprovalRequired) or previewed (--dry-run)
+    // and run at their own mode once a human approves them.
+  } else if (policyMode === "approval" && cmd === "approvals" && ["approve", "reject"].includes(args[1])) {
+    // Only a human outside approval mode may decide the queue.
+    exitPolicyDenied({
+      code: "POLICY_DENIED",
+      message: "Approvals can't be decided under 'approval' policy mode",
+      command: cmd,
+      policy_mode: policyMode,
+      required_mode: required,
+    });
+  } else if (policyRank(policyMode) < policyRank(required)) {
+    exitPolicyDenied({
       code: "POLICY_DENIED",
       message: `Command '${cmd}' requires '${required}' policy mode`,
       command: cmd,
       policy_mode: policyMode,
       required_mode: required,
-    },
-  };
-  console.error(JSON.stringify(payload));
-  process.exit(2);
+    });
+  }
+
+  // xint.policy.json narrows the mode further (same rules as the MCP server).
+  const action = cliAction(args);
+  const queued = policyMode === "approval" && isWriteCommand(args) && !dryRun;
+  try {
+    const denial = checkPolicyFile(action, { queued });
+    if (denial) exitPolicyDenied({ ...denial, command: cmd, policy_mode: policyMode, required_mode: required });
+    if (!queued && !dryRun) recordPolicyUsage(action);
+  } catch (e) {
+    if (e instanceof PolicyFileError) exitPolicyDenied({ code: e.code, message: e.message });
+    throw e;
+  }
+}
+
+/** Under --policy approval, queue write commands instead of running them. */
+function queueIfApprovalRequired(): boolean {
+  if (policyMode !== "approval" || !isWriteCommand(args)) return false;
+  const entry = requestApproval({ kind: "cli", argv: [...args] }, requiredMode(args));
+  if (args.includes("--json")) {
+    console.log(JSON.stringify({ status: "pending_approval", approval_id: entry.id, command: entry.summary }, null, 2));
+  } else {
+    console.log(`Queued for approval: ${entry.id}`);
+    console.log(`  ${entry.summary}`);
+    console.log(`Approve with: xint approvals approve ${entry.id}`);
+  }
+  return true;
 }
 
 function getFlag(name: string): boolean {
@@ -241,22 +344,6 @@ function getOpt(name: string): string | undefined {
   return undefined;
 }
 
-// --- Watchlist ---
-
-interface Watchlist {
-  accounts: { username: string; note?: string; addedAt: string }[];
-}
-
-function loadWatchlist(): Watchlist {
-  if (!existsSync(WATCHLIST_PATH))
-    return { accounts: [] };
-  return JSON.parse(readFileSync(WATCHLIST_PATH, "utf-8"));
-}
-
-function saveWatchlist(wl: Watchlist) {
-  writeFileSync(WATCHLIST_PATH, JSON.stringify(wl, null, 2));
-}
-
 // --- Budget check helper ---
 
 function warnIfOverBudget(): void {
@@ -278,13 +365,14 @@ async function cmdSearch() {
   const quality = getFlag("quality");
   const fromUser = getOpt("from");
 
-  const sortOpt = getOpt("sort") || "likes";
+  const sortOpt = (getOpt("sort") || "likes") as SearchArgs["sort"];
   const minLikes = parseInt(getOpt("min-likes") || "0");
   const minImpressions = parseInt(getOpt("min-impressions") || "0");
   let pages = Math.min(parseInt(getOpt("pages") || "1"), 5);
   let limit = parseInt(getOpt("limit") || "15");
   const since = getOpt("since");
   const until = getOpt("until");
+  const incrementalKey = getOpt("incremental");
   const fullArchive = getFlag("full");
   const noReplies = getFlag("no-replies");
   const noRetweets = getFlag("no-retweets");
@@ -294,6 +382,7 @@ async function cmdSearch() {
   const asCsv = getFlag("csv");
   const asJsonl = getFlag("jsonl");
   const withSentiment = getFlag("sentiment");
+  const resume = getFlag("resume");
 
   // Quick mode overrides
   if (quick) {
@@ -303,26 +392,35 @@ async function cmdSearch() {
 
   // Everything after "search" that isn't a flag is the query
   const queryParts = args.slice(1).filter((a) => !a.startsWith("--"));
-  let query = queryParts.join(" ");
+  const rawQuery = queryParts.join(" ");
 
-  if (!query) {
+  if (!rawQuery) {
     console.error("Usage: xint search <query> [options]");
     process.exit(1);
   }
 
-  // --from shorthand: add from:username if not already in query
-  if (fromUser && !query.toLowerCase().includes("from:")) {
-    query += ` from:${fromUser.replace(/^@/, "")}`;
+  // --from shorthand and noise filters are added to the parsed query, not
+  // concatenated, so OR groups and existing operators are respected
+  let query: string;
+  try {
+    query = buildSearchQuery(rawQuery, {
+      from: fromUser,
+      noRetweets,
+      noReplies: quick || noReplies,
+    });
+  } catch (e: any) {
+    console.error(`Invalid query: ${e.message}`);
+    console.error(`Run 'xint query explain "${rawQuery}"' for details.`);
+    process.exit(1);
   }
 
-  // Auto-add noise filters unless already present
-  if (!query.includes("is:retweet") && !noRetweets) {
-    query += " -is:retweet";
+  // Validate locally so bad queries don't cost a round-trip and a cryptic 400
+  const lint = lintQuery(query, { fullArchive });
+  for (const issue of lint.issues) {
+    console.error(`${issue.severity === "error" ? "Error" : "Warning"}: ${issue.message}`);
   }
-  if (quick && !query.includes("is:reply")) {
-    query += " -is:reply";
-  } else if (noReplies && !query.includes("is:reply")) {
-    query += " -is:reply";
+  if (!lint.ok) {
+    process.exit(1);
   }
 
   // Cache TTL: 1hr for quick mode, 15min default
@@ -330,7 +428,7 @@ async function cmdSearch() {
 
   // Check cache (cache key does NOT include quick flag — shared between modes)
   const cacheParams = `sort=${sortOpt}&pages=${pages}&since=${since || "7d"}`;
-  const cached = cache.get(query, cacheParams, cacheTtlMs);
+  const cached = incrementalKey ? null : cache.get(query, cacheParams, cacheTtlMs);
   let cacheHit = false;
   let tweets: api.Tweet[];
 
@@ -339,45 +437,28 @@ async function cmdSearch() {
     cacheHit = true;
     console.error(`(cached — ${tweets.length} tweets)`);
   } else {
-    tweets = await api.search(query, {
+    // --incremental: only tweets newer than the previous run's newest id
+    tweets = await fetchSearch(query, {
+      sort: sortOpt,
       pages,
-      sortOrder: sortOpt === "recent" ? "recency" : "relevancy",
       since: since || undefined,
       until: until || undefined,
+      incremental: incrementalKey,
       fullArchive,
-    });
-    cache.set(query, cacheParams, tweets);
+      resume,
+    }, "search");
+    if (!incrementalKey) cache.set(query, cacheParams, tweets);
   }
 
   // Track raw count for cost (API charges per tweet read, regardless of post-hoc filters)
   const rawTweetCount = tweets.length;
 
-  // Track cost
-  if (!cached) {
-    const op = fullArchive ? "search_archive" : "search";
-    trackCost(op, fullArchive ? "/2/tweets/search/all" : "/2/tweets/search/recent", rawTweetCount);
-  }
-
-  // Filter
-  if (minLikes > 0 || minImpressions > 0) {
-    tweets = api.filterEngagement(tweets, {
-      minLikes: minLikes || undefined,
-      minImpressions: minImpressions || undefined,
-    });
-  }
-
-  // --quality: post-hoc filter for min 10 likes (min_faves not available as a search operator)
-  if (quality) {
-    tweets = api.filterEngagement(tweets, { minLikes: 10 });
-  }
-
-  // Sort
-  if (sortOpt !== "recent") {
-    const metric = sortOpt as "likes" | "impressions" | "retweets";
-    tweets = api.sortBy(tweets, metric);
-  }
-
-  tweets = api.dedupe(tweets);
+  tweets = refineSearchResults(tweets, {
+    sort: sortOpt,
+    minLikes,
+    minImpressions,
+    quality,
+  });
 
   // Sentiment analysis (optional, runs before output)
   let sentimentResults: Awaited<ReturnType<typeof analyzeSentiment>> | null = null;
@@ -471,6 +552,7 @@ async function cmdThread() {
 
   // Track cost
   trackCost("thread", "/2/tweets/search/recent", tweets.length);
+  archiveTweets(tweets, "thread");
 
   if (tweets.length === 0) {
     console.log("No tweets found in thread.");
@@ -505,6 +587,7 @@ async function cmdProfile() {
 
   // Track cost
   trackCost("profile", `/2/users/by/username/${username}`, tweets.length + 1);
+  archiveTweets(tweets, "profile");
 
   if (asJson) {
     const outputMeta = buildOutputMeta({
@@ -535,6 +618,7 @@ async function cmdTweet() {
 
   // Track cost
   trackCost("tweet", `/2/tweets/${tweetId}`, tweet ? 1 : 0);
+  if (tweet) archiveTweets([tweet], "tweet");
 
   if (!tweet) {
     console.log("Tweet not found.");
@@ -568,17 +652,12 @@ async function cmdWatchlist() {
       console.error("Usage: xint watchlist add <username> [note]");
       process.exit(1);
     }
-    if (wl.accounts.find((a) => a.username.toLowerCase() === username.toLowerCase())) {
-      console.log(`@${username} already on watchlist.`);
-      return;
-    }
-    wl.accounts.push({
-      username,
-      note,
-      addedAt: new Date().toISOString(),
-    });
-    saveWatchlist(wl);
-    console.log(`Added @${username} to watchlist.${note ? ` (${note})` : ""}`);
+    const { added } = addToWatchlist(username, note);
+    console.log(
+      added
+        ? `Added @${username} to watchlist.${note ? ` (${note})` : ""}`
+        : `@${username} already on watchlist.`
+    );
     return;
   }
 
@@ -588,13 +667,8 @@ async function cmdWatchlist() {
       console.error("Usage: xint watchlist remove <username>");
       process.exit(1);
     }
-    const before = wl.accounts.length;
-    wl.accounts = wl.accounts.filter(
-      (a) => a.username.toLowerCase() !== username.toLowerCase()
-    );
-    saveWatchlist(wl);
     console.log(
-      wl.accounts.length < before
+      removeFromWatchlist(username)
         ? `Removed @${username} from watchlist.`
         : `@${username} not found on watchlist.`
     );
@@ -611,6 +685,7 @@ async function cmdWatchlist() {
       try {
         const { user, tweets } = await api.profile(acct.username, { count: 5 });
         trackCost("profile", `/2/users/by/username/${acct.username}`, tweets.length + 1);
+        archiveTweets(tweets, "watchlist");
         const label = acct.note ? ` (${acct.note})` : "";
         console.log(`\n--- @${acct.username}${label} ---`);
         if (tweets.length === 0) {
@@ -747,6 +822,7 @@ Commands:
   thread <tweet_id>           Fetch full conversation thread
   profile <username>          Recent tweets from a user
   tweet <tweet_id>            Fetch a single tweet
+  track <tweet_id> [options]  Track a tweet's metrics over time (growth + velocity)
   article <url>               Fetch and read full article content
   tui                         Interactive menu for common read-only workflows
   capabilities                Print machine-readable capability manifest
@@ -759,6 +835,7 @@ Commands:
   unfollow <@user|id>         Unfollow a user (OAuth required)
   media <tweet_id|url>        Download media from a tweet
   stream [options]            Stream tweets using X filtered stream
+  stream serve [--port N]     Share one filtered stream with local SSE/WebSocket clients
   stream-rules [subcmd]       Manage filtered stream rules
   lists [subcmd]              Manage your X lists (OAuth required)
   blocks [subcmd]             Manage blocked users (OAuth required)
@@ -779,7 +856,30 @@ Commands:
   watchlist remove <user>     Remove user from watchlist
   watchlist check             Check recent from all watchlist accounts
   cache clear                 Clear search cache
-  --policy <mode>             Global policy: read_only | engagement | moderation
+  archive search <query>      Full-text search the local tweet archive (no API cost)
+  archive history <tweet_id>  Show recorded metrics history for an archived tweet
+  archive stats               Archive size and coverage
+  query lint "<q>" [--full]   Validate a search query (operators, syntax, length) offline
+  query explain "<q>"         Show how X will evaluate a search query
+  saved add <name> -- <args>  Save a search under a name (same options as search)
+  saved run <name>            Re-run a saved search (extra options override)
+  saved list                  List saved searches
+  alerts test <rules> < jsonl Evaluate alert rules against captured tweets offline
+  webhooks dlq list           Show webhook deliveries that failed after retries
+  webhooks replay [<id>]      Re-send dead-lettered webhook deliveries
+  approvals list [--all]      Show writes queued under --policy approval
+  approvals approve <id>      Run a queued write (needs --policy at its mode)
+  approvals reject <id>       Drop a queued write
+  journal list [--since 1d]   Show journaled writes (who, what, when, CLI or MCP)
+  journal undo <id>           Undo a write (unlike, unfollow, unblock, ...); --since 1h for all
+  --policy <mode>             Global policy: read_only | approval | engagement | moderation
+                              (approval: writes are queued for 'xint approvals')
+                              Per-action rules: xint.policy.json (Env: XINT_POLICY_FILE)
+  --dry-run                   Preview a write (follow, lists, blocks, bookmark, stream-rules, ...):
+                              resolve targets, check policy and OAuth scopes, estimate cost and
+                              print the HTTP request instead of sending it
+  --max-wait <dur>            Longest rate-limit reset to wait out before failing (default: 15m)
+                              Env: XINT_RATE_LIMIT_MAX_WAIT
   ai-search <file>           Search X via xAI's x_search tool (AI-powered)
   collections <subcmd>       Manage xAI Collections Knowledge Base
   mcp-server [options]        Start MCP server for AI agents (Claude, OpenAI)
@@ -788,13 +888,15 @@ Commands:
 
 MCP Server options:
   --sse                       Run in SSE mode (HTTP server)
-  --port=<N>                  Port for SSE mode (default: 3000)
-  --host=<addr>               Host bind for SSE mode (default: 127.0.0.1)
+  --http                      Run Streamable HTTP transport (/mcp with sessions)
+  --port=<N>                  Port for SSE/HTTP mode (default: 3000)
+  --host=<addr>               Host bind for SSE/HTTP mode (default: 127.0.0.1)
   --auth-token=<token>        Require bearer auth for /mcp and /sse
-  --policy=<mode>             MCP policy mode: read_only|engagement|moderation
+  --allowed-origins=<list>    Extra browser origins allowed in HTTP mode
+  --policy=<mode>             MCP policy mode: read_only|approval|engagement|moderation
   --no-budget-guard           Disable budget guard for tool calls
   Run without flags for stdio mode (for Claude Code integration)
-  Env: XINT_MCP_HOST, XINT_MCP_AUTH_TOKEN
+  Env: XINT_MCP_HOST, XINT_MCP_AUTH_TOKEN, XINT_MCP_ALLOWED_ORIGINS
 
 Package API server options:
   --port=<N>                  Port for local package API (default: 8080)
@@ -808,6 +910,11 @@ Search options:
   --min-likes N              Filter minimum likes
   --min-impressions N        Filter minimum impressions
   --pages N                  Pages to fetch, 1-5 (default: 1)
+  --resume                   Continue an interrupted multi-page fetch
+  --incremental <key>        Only tweets newer than the last run with this key
+                             (stores newest id, sends since_id; skips cache;
+                             fetches newest first; the cursor only advances
+                             once --pages covers everything new)
   --limit N                  Results to display (default: 15)
   --quick                    Quick mode: 1 page, max 10 results, auto noise
                              filter, 1hr cache TTL, cost summary
@@ -821,6 +928,21 @@ Search options:
   --csv                      CSV output (spreadsheet-friendly)
   --markdown                 Markdown output
 
+Archive options:
+  --from <username>          Only tweets by this author
+  --since / --until <dur>    Created-at window (1h, 7d, or ISO 8601)
+  --min-likes N              Minimum likes (also --min-impressions, --min-retweets)
+  --sort <order>             relevance | likes | impressions | retweets | recent
+  --limit N                  Max results (default: 20)
+  --json | --jsonl | --csv | --markdown
+  Env: XINT_ARCHIVE=0 disables archiving, XINT_ARCHIVE_DB overrides the path
+
+Track options:
+  --every <dur>              Polling interval: 1m, 15m, 1h (default: 15m)
+  --for <dur>                Tracking window: 2h, 24h, 3d (default: 24h)
+  --show                     Render stored samples without polling
+  --json | --csv             Structured output (samples + velocity)
+
 Watch options:
   --interval, -i <dur>       Polling interval: 30s, 5m, 1h (default: 5m)
   --webhook <url>            POST new tweets to this URL as JSON (https:// required for remote hosts)
@@ -828,23 +950,32 @@ Watch options:
   --since <dur>              Initial seed window (default: 1h)
   --quiet, -q                Suppress per-poll headers
   --jsonl                    Output JSONL for piping
+  --name <id>                Persist seen IDs + cursor so restarts don't replay
+  --sink <spec>              Notify slack:<url> | discord:<url> | telegram:<chat_id> | smtp:<to> (repeatable, also for stream)
+  --alerts <file>            Only webhook tweets matching alert rules (also for stream)
+  --config <file>            Run many watches from a JSON/YAML config (filters, sinks, budgets)
+  watch state [list|reset]   Show or reset persisted watch state
 
 Stream options:
   --json                     Output JSON per stream event
   --jsonl                    Output JSONL per stream event
   --max-events N             Stop after N events
   --backfill N               Backfill 1-5 minutes (X API option)
+  --no-reconnect             Exit on disconnect (default: reconnect with backoff + gap backfill)
   --webhook <url>            POST event payloads to URL (https:// required for remote hosts)
+  --route <tag>=<spec>       Send events whose matching rule has <tag> to a sink (repeatable)
+  --routes <file>            Load tag -> sinks routes from JSON/YAML
   --quiet, -q                Suppress stream status logs
 
 Stream rules options:
-  xint stream-rules [list|add|delete|clear]
+  xint stream-rules [list|add|delete|clear|sync]
   Run 'xint stream-rules --help' for full examples
 
 Diff options:
   --following                Track following list instead of followers
   --history                  Show all saved snapshots
   --pages <N>                Max pages to fetch (default: 5, ~5000 users)
+  --resume                   Continue an interrupted fetch from its last page
   --json                     Output as JSON
 
 Report options:
@@ -862,6 +993,7 @@ Bookmark/Like options:
   --markdown                 Markdown output
   --save                     Save to data/exports/
   --no-cache                 Skip cache
+  --resume                   Continue an interrupted bookmarks fetch
   follow/unfollow also accept: --json
 
 Media options:
@@ -933,18 +1065,33 @@ function metricCommandName(cmd?: string): string | null {
   if (cmd === "block") return "blocks";
   if (cmd === "mute") return "mutes";
   const known = new Set([
-    "search", "watch", "diff", "report", "thread", "profile", "tweet", "article", "tui",
+    "search", "watch", "diff", "report", "thread", "profile", "tweet", "track", "article", "tui",
     "bookmarks", "likes", "like", "unlike", "following", "follow", "unfollow",
     "media", "stream", "stream-rules", "lists", "blocks", "mutes", "bookmark",
     "unbookmark", "trends", "analyze", "costs", "health", "auth", "watchlist",
-    "cache", "ai-search", "collections", "mcp-server", "package-api-server", "capabilities", "billing",
+    "cache", "archive", "query", "saved", "alerts", "webhooks", "ai-search", "collections", "mcp-server", "package-api-server", "capabilities", "billing", "approvals", "journal",
   ]);
   return known.has(cmd) ? cmd : null;
 }
 
 async function main() {
+  // Writes sent below are journaled as CLI actions under this policy mode.
+  await runAsActor({ source: "cli", policyMode }, runMain);
+}
+
+async function runMain() {
   enforcePolicyOrExit(command);
-  const metricCommand = metricCommandName(command);
+  if (dryRun) {
+    // Runs up to the first write, then prints it instead of sending (or queueing) it.
+    printDryRunPlan(await previewWrite(() => runCommand(command)), args.includes("--json"));
+    return;
+  }
+  if (queueIfApprovalRequired()) return;
+  await runCommand(command);
+}
+
+async function runCommand(command: string | undefined) {
+  const metricCommand = dryRun ? null : metricCommandName(command);
   const startedAtMs = Date.now();
 
   try {
@@ -964,6 +1111,9 @@ async function main() {
       case "tweet":
         await cmdTweet();
         break;
+      case "track":
+        await cmdTrack(args.slice(1));
+        break;
       case "article":
       case "read":
         await cmdArticle();
@@ -1053,10 +1203,31 @@ async function main() {
       case "cache":
         await cmdCache();
         break;
+      case "archive":
+        await cmdArchive(args.slice(1));
+        break;
+      case "query":
+        await cmdQuery(args.slice(1));
+        break;
+      case "saved":
+        await cmdSaved(args.slice(1), {
+          runSearch: async (searchArgs) => {
+            // cmdSearch reads the global args, like a direct `xint search ...`
+            args.splice(0, args.length, "search", ...searchArgs);
+            await cmdSearch();
+          },
+        });
+        break;
       case "watch":
       case "w":
         await cmdWatch(args.slice(1));
         break;
+      case "alerts":
+        await cmdAlerts(args.slice(1));
+        break;
+      case "webhooks":
+        await cmdWebhooks(args.slice(1));
+        break;
       case "diff":
       case "followers":
         await cmdDiff(args.slice(1));
@@ -1086,6 +1257,26 @@ async function main() {
       case "caps":
         cmdCapabilities(args.slice(1));
         break;
+      case "approvals":
+        await cmdApprovals(args.slice(1), {
+          policyMode,
+          runCommand: async (argv, requiredMode) => {
+            // Approved actions still answer to xint.policy.json (targets, quotas, cost).
+            const action = cliAction(argv);
+            const denial = checkPolicyFile(action);
+            if (denial) throw new Error(JSON.stringify(denial));
+            recordPolicyUsage(action);
+            // Same global args as a direct `xint <argv>` under the required policy.
+            args.splice(0, args.length, ...argv);
+            // Journal it under the mode it was queued for, not the approver's.
+            await runAsActor({ source: "cli", policyMode: requiredMode as PolicyMode }, () => runCommand(argv[0]));
+          },
+          runTool: runApprovedTool,
+        });
+        break;
+      case "journal":
+        await cmdJournal(args.slice(1), { policyMode });
+        break;
       default:
         usage();
     }